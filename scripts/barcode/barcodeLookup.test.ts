@@ -0,0 +1,109 @@
+import { readFileSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import {
+  createOpenFoodFactsProvider,
+  normalizeBarcode,
+  productToParsedItem,
+  PRODUCT_CACHE_TTL_MS,
+  withProductCache,
+  type BarcodeProduct,
+  type BarcodeProvider,
+} from '../../src/utils/barcodeLookup.ts';
+import { scaleItemByReferenceAmount } from '../../src/utils/servingWeight.ts';
+
+function assert(condition: boolean, message: string) {
+  if (!condition) throw new Error(message);
+}
+
+const fixtures = join(dirname(fileURLToPath(import.meta.url)), 'fixtures');
+const BASE_URL = 'http://stub.local';
+
+// Local stand-in for an Open Food Facts server: fixture files by barcode, 404 otherwise.
+const requested: string[] = [];
+const stubFetch = (async (input: string | URL | Request) => {
+  const url = String(input);
+  requested.push(url);
+  const code = url.match(/\/api\/v2\/product\/(\d+)\.json/)?.[1];
+  try {
+    const body = readFileSync(join(fixtures, `off-${code}.json`), 'utf8');
+    return new Response(body, { status: 200, headers: { 'Content-Type': 'application/json' } });
+  } catch {
+    return new Response(JSON.stringify({ status: 0, status_verbose: 'product not found' }), { status: 404 });
+  }
+}) as typeof fetch;
+
+// Barcode validation
+assert(normalizeBarcode('5000159484695') === '5000159484695', 'EAN-13 with a good check digit');
+assert(normalizeBarcode('5 000159 484695') === '5000159484695', 'spaces are ignored');
+assert(normalizeBarcode('96385074') === '96385074', 'EAN-8');
+assert(normalizeBarcode('036000291452') === '036000291452', 'UPC-A');
+assert(normalizeBarcode('5000159484696') === null, 'bad check digit');
+assert(normalizeBarcode('12345') === null, 'too short');
+assert(normalizeBarcode('50001594846a5') === null, 'not digits');
+
+async function run() {
+  const provider = createOpenFoodFactsProvider(BASE_URL, stubFetch);
+
+  // A product with a pack serving starts at that serving, on a per-100g basis
+  const peanut = await provider.lookup('5000159484695');
+  assert(peanut !== null, 'fixture product is found');
+  assert(peanut!.brand === 'Sun-Pat' && peanut!.unit === 'g' && peanut!.serving_amount === 15, 'label fields');
+  assert(peanut!.source_url === `${BASE_URL}/product/5000159484695`, 'links to the product page');
+
+  const item = productToParsedItem(peanut!);
+  assert(item.food_name === 'Sun-Pat Peanut Butter Crunchy', 'brand is prefixed to the name');
+  assert(item.basis === 'per_100g' && item.evidence_status === 'uk_evidence', 'per-100g label evidence');
+  assert(item.reference_weight_g === 15 && item.calories === 93, 'scaled to the 15g serving');
+  assert(item.protein === 3.9 && item.carbs === 1.7 && item.fats === 7.5, 'macros scaled to the serving');
+  assert(item.evidence_quote?.startsWith('Per 100g: 622 kcal') === true, 'quote is the per-100g panel');
+
+  // Changing the amount in review keeps the label as evidence
+  const doubled = scaleItemByReferenceAmount(item, 30);
+  assert(doubled.calories === 186 && doubled.evidence_status === 'uk_evidence', 'per-100 values rescale without losing the label');
+  const estimated = scaleItemByReferenceAmount({ ...item, basis: undefined }, 30);
+  assert(estimated.evidence_status === 'ai_estimate', 'other items still become estimates when rescaled');
+
+  // Drinks: kJ only, millilitres, no serving
+  const milk = await provider.lookup('5010029000061');
+  assert(milk !== null && milk.unit === 'ml' && milk.per100.calories === 50, 'kJ is converted to kcal');
+  const milkItem = productToParsedItem(milk!);
+  assert(milkItem.basis === 'per_100ml' && milkItem.reference_volume_ml === 100, 'per 100ml with no pack serving');
+  assert(milkItem.food_name === 'Semi Skimmed Milk', 'blank brand is left off');
+
+  // Unknown products
+  assert(await provider.lookup('96385074') === null, 'a 404 is not found, not an error');
+
+  // Cache: fresh entries skip the provider, stale ones go back to it
+  let now = 1_000;
+  let calls = 0;
+  const counting: BarcodeProvider = {
+    name: 'stub',
+    lookup: async (barcode) => {
+      calls += 1;
+      return provider.lookup(barcode);
+    },
+  };
+  const store = new Map<string, { product: BarcodeProduct; fetched_at: number }>();
+  const cached = withProductCache(counting, {
+    get: async (barcode) => store.get(barcode) ?? null,
+    set: async (barcode, product) => { store.set(barcode, { product, fetched_at: now }); },
+  }, () => now);
+
+  await cached.lookup('5000159484695');
+  await cached.lookup('5000159484695');
+  assert(calls === 1, 'a repeat scan is served from the cache');
+  now += PRODUCT_CACHE_TTL_MS + 1;
+  await cached.lookup('5000159484695');
+  assert(calls === 2, 'an expired entry is looked up again');
+  await cached.lookup('96385074');
+  await cached.lookup('96385074');
+  assert(calls === 4 && !store.has('96385074'), 'not-found is not cached');
+
+  console.log('All barcode lookup checks passed.');
+}
+
+run().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,101 @@
+import {
+  buildExportBundle,
+  csvField,
+  entriesToCsv,
+  goalsToCsv,
+  parseExportBundle,
+  renderExport,
+  weightsToCsv,
+} from '../../src/utils/exportFormat.ts';
+import type { FoodEntry, Meal } from '../../src/types/foodEntry.ts';
+
+function assert(condition: boolean, message: string) {
+  if (!condition) throw new Error(message);
+}
+
+assert(csvField('Porridge') === 'Porridge', 'plain text is left alone');
+assert(csvField('Toast, buttered') === '"Toast, buttered"', 'commas are quoted');
+assert(csvField('The "big" one') === '"The ""big"" one"', 'quotes are doubled');
+assert(csvField('=SUM(A1)') === "'=SUM(A1)", 'formulas are defused');
+assert(csvField(-5) === '-5', 'negative numbers are not treated as formulas');
+assert(csvField(null) === '' && csvField(Number.NaN) === '', 'missing values are blank');
+
+const meals: Meal[] = [{ id: 7, meal_period: 'Dinner', name: null, eaten_at: '2026-10-18T23:30:00.000Z', transcript: null }];
+const entries = [
+  {
+    id: 1,
+    user_id: 'someone',
+    created_at: '2026-10-18T23:30:00.000Z',
+    food_name: 'Chicken curry',
+    calories: 450,
+    protein: 30,
+    carbs: 40,
+    fats: 18,
+    quantity: 2,
+    meal_id: 7,
+    parse_session_id: 3,
+  },
+  {
+    id: 2,
+    created_at: '2026-10-18T08:05:00.000Z',
+    food_name: 'Banana',
+    calories: 105,
+    protein: null,
+    carbs: 27,
+    fats: 0.4,
+    quantity: 1,
+  },
+] as FoodEntry[];
+
+// 23:30 UTC on the 18th is 00:30 on the 19th in London (BST).
+const csv = entriesToCsv(entries, meals, 'Europe/London').trimEnd().split('\r\n');
+assert(csv.length === 3, 'one header and one row per entry');
+assert(csv[1].startsWith('2026-10-18,09:05,,Banana,1,105,,27,0.4'), 'rows are ordered by time and timed locally');
+assert(csv[2].startsWith('2026-10-19,00:30,Dinner,Chicken curry,2,450,30,40,18,900,60,80,36'), 'late meals land on the local date with totals');
+assert(entriesToCsv(entries, meals, 'America/New_York').includes('2026-10-18,19:30'), 'another timezone moves the time');
+
+const weights = weightsToCsv([{ weight_kg: 80.2, recorded_at: '2026-10-19T06:00:00.000Z' }], 'Europe/London');
+assert(weights.includes('2026-10-19,07:00,80.2'), 'weights are dated locally');
+
+const goals = goalsToCsv({
+  base: { daily_calories_goal: 2000, daily_protein_goal: 150, daily_carbs_goal: 200, daily_fats_goal: 70 },
+  weekdays: [{ weekday: 6, daily_calories_goal: 2600, daily_protein_goal: 160, daily_carbs_goal: 320, daily_fats_goal: 75 }],
+  overrides: [{ goal_date: '2026-10-24', daily_calories_goal: 3000, daily_protein_goal: 150, daily_carbs_goal: 380, daily_fats_goal: 90 }],
+}).trimEnd().split('\r\n');
+assert(goals[1] === 'default,,2000,150,200,70', 'default targets come first');
+assert(goals[2] === 'weekday,Saturday,2600,160,320,75', 'weekdays are named');
+assert(goals[3] === 'date,2026-10-24,3000,150,380,90', 'overrides carry their date');
+
+const bundle = buildExportBundle({
+  timezone: 'Europe/London',
+  range: { start: '2026-10-01', end: '2026-10-19' },
+  entries,
+  meals,
+  saved_foods: [],
+  goals: { base: null, weekdays: [], overrides: [] },
+  weights: [],
+}, new Date('2026-10-19T12:00:00.000Z'));
+const exported = bundle.entries[0] as Record<string, unknown>;
+assert(!('id' in exported) && !('user_id' in exported) && !('parse_session_id' in exported), 'row identity is dropped');
+assert(exported.meal_id === 7, 'entries keep their meal grouping');
+
+const json = renderExport(bundle, 'all');
+assert(json.fileName === 'soha-export-2026-10-01-to-2026-10-19.json', 'JSON file is named for the range');
+const roundTrip = parseExportBundle(json.content);
+assert(roundTrip.entries.length === 2 && roundTrip.timezone === 'Europe/London', 'an export reads back');
+assert(renderExport(bundle, 'entries').fileName.endsWith('.csv'), 'food log is a CSV');
+
+const rejects = (raw: unknown) => {
+  try {
+    parseExportBundle(raw);
+    return false;
+  } catch {
+    return true;
+  }
+};
+assert(rejects({ format: 'something-else' }), 'other JSON is rejected');
+assert(parseExportBundle({ ...bundle, format: 'sahha-export' }).format === 'soha-export', 'files from before the rename still read back');
+assert(rejects({ ...bundle, version: 2 }), 'unknown versions are rejected');
+assert(rejects({ ...bundle, entries: [{ food_name: 'Toast' }] }), 'entries without calories or time are rejected');
+
+console.log('All export checks passed.');
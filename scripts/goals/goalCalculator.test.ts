@@ -0,0 +1,70 @@
+import {
+  ageFromBirthYear,
+  birthYearFromAge,
+  bodyStatsError,
+  calculateGoals,
+  mifflinStJeorBmr,
+  type BodyStats,
+} from '../../src/utils/goalCalculator.ts';
+
+function assert(condition: boolean, message: string) {
+  if (!condition) throw new Error(message);
+}
+
+const maintainer: BodyStats = {
+  sex: 'female',
+  age: 30,
+  height_cm: 165,
+  weight_kg: 60,
+  activity_level: 'moderate',
+  goal_type: 'maintain',
+};
+
+assert(mifflinStJeorBmr(maintainer) === 1320.25, 'Mifflin-St Jeor for women subtracts 161');
+assert(mifflinStJeorBmr({ ...maintainer, sex: 'male' }) === 1486.25, 'Mifflin-St Jeor for men adds 5');
+
+const maintain = calculateGoals(maintainer);
+assert(maintain.tdee === 2046, 'TDEE applies the activity multiplier');
+assert(maintain.goals.daily_calories_goal === 2050, 'maintenance calories round to 50');
+assert(maintain.goals.daily_protein_goal === 95, 'maintenance protein is 1.6g/kg rounded to 5');
+assert(maintain.goals.daily_fats_goal === 70, 'maintenance fat is 30% of calories');
+assert(maintain.goals.daily_carbs_goal === 260, 'carbs take the remaining calories');
+
+const cut = calculateGoals({
+  sex: 'male',
+  age: 40,
+  height_cm: 180,
+  weight_kg: 90,
+  activity_level: 'sedentary',
+  goal_type: 'cut',
+});
+assert(cut.bmr === 1830 && cut.tdee === 2196, 'sedentary TDEE is 1.2 × BMR');
+assert(cut.goals.daily_calories_goal === 1750, 'a cut is 20% below maintenance');
+assert(cut.goals.daily_protein_goal === 180, 'a cut raises protein to 2g/kg');
+assert(cut.goals.daily_fats_goal === 50, 'cut fat is 25% of calories');
+assert(cut.goals.daily_carbs_goal === 145, 'cut carbs fill the remainder');
+
+const bulk = calculateGoals({ ...maintainer, goal_type: 'bulk' });
+assert(bulk.goals.daily_calories_goal === 2250, 'a bulk is 10% above maintenance');
+
+const floored = calculateGoals({
+  sex: 'female',
+  age: 50,
+  height_cm: 150,
+  weight_kg: 45,
+  activity_level: 'sedentary',
+  goal_type: 'cut',
+});
+assert(floored.goals.daily_calories_goal === 1200, 'calculated cuts stop at the calorie floor');
+assert(floored.goals.daily_carbs_goal >= 0, 'carbs never go negative');
+
+assert(bodyStatsError(maintainer) === null, 'sane stats pass');
+assert(bodyStatsError({ ...maintainer, age: Number.NaN }) !== null, 'blank age rejected');
+assert(bodyStatsError({ ...maintainer, height_cm: 500 }) !== null, 'impossible height rejected');
+assert(bodyStatsError({ ...maintainer, sex: '' as BodyStats['sex'] }) !== null, 'missing sex rejected');
+
+const now = new Date(2026, 9, 19);
+assert(birthYearFromAge(30, now) === 1996, 'age stored as birth year');
+assert(ageFromBirthYear(1996, now) === 30, 'birth year read back as age');
+
+console.log('All goal calculator checks passed.');
@@ -0,0 +1,90 @@
+import {
+  averageGoalsForDates,
+  dateKeysInRange,
+  goalTargetsError,
+  resolveGoalsWithSource,
+  weekdayForDateKey,
+  type GoalPlan,
+} from '../../supabase/functions/_shared/goalSchedule.ts';
+import { formatLocalDateKey, startOfWeek } from '../../src/utils/localDate.ts';
+
+function assert(condition: boolean, message: string) {
+  if (!condition) throw new Error(message);
+}
+
+const base = { daily_calories_goal: 2000, daily_protein_goal: 150, daily_carbs_goal: 200, daily_fats_goal: 70 };
+const plan: GoalPlan = {
+  base,
+  // Saturdays are long-run days.
+  weekdays: [{ weekday: 6, daily_calories_goal: 2600, daily_protein_goal: 160, daily_carbs_goal: 320, daily_fats_goal: 75 }],
+  overrides: [{ goal_date: '2026-10-24', daily_calories_goal: 3000, daily_protein_goal: 150, daily_carbs_goal: 380, daily_fats_goal: 90 }],
+};
+
+assert(weekdayForDateKey('2026-10-18') === 0, '2026-10-18 is a Sunday');
+assert(weekdayForDateKey('2026-10-17') === 6, '2026-10-17 is a Saturday');
+
+const monday = resolveGoalsWithSource(plan, '2026-10-19');
+assert(monday?.source === 'default' && monday.goals.daily_calories_goal === 2000, 'weekdays without a schedule use the default');
+
+const saturday = resolveGoalsWithSource(plan, '2026-10-17');
+assert(saturday?.source === 'weekday' && saturday.goals.daily_calories_goal === 2600, 'scheduled weekday beats the default');
+
+const overridden = resolveGoalsWithSource(plan, '2026-10-24');
+assert(overridden?.source === 'override' && overridden.goals.daily_calories_goal === 3000, 'date override beats its weekday');
+
+const scheduleOnly = resolveGoalsWithSource({ ...plan, base: null }, '2026-10-19');
+assert(scheduleOnly === null, 'no default and no schedule means no goals');
+
+// Postgres numeric columns arrive as strings through PostgREST.
+const numericStrings = resolveGoalsWithSource(
+  { base: { ...base, daily_calories_goal: '2100' as unknown as number }, weekdays: [], overrides: [] },
+  '2026-10-19',
+);
+assert(numericStrings?.goals.daily_calories_goal === 2100, 'numeric strings are coerced');
+
+// Goal history: the default dropped to 1800 on 2026-10-20 and Saturdays lost
+// their schedule on 2026-10-22; earlier days keep the targets they had.
+const withHistory: GoalPlan = {
+  ...plan,
+  base: { ...base, daily_calories_goal: 1800 },
+  weekdays: [],
+  history: {
+    base: [
+      { valid_from: '1970-01-01', ...base },
+      { valid_from: '2026-10-20', ...base, daily_calories_goal: 1800 },
+    ],
+    weekdays: [
+      { weekday: 6, valid_from: '1970-01-01', ...plan.weekdays[0] },
+      { weekday: 6, valid_from: '2026-10-22', daily_calories_goal: null, daily_protein_goal: null, daily_carbs_goal: null, daily_fats_goal: null },
+    ],
+  },
+};
+assert(resolveGoalsWithSource(withHistory, '2026-10-19')?.goals.daily_calories_goal === 2000, 'a day before a goal change keeps the old default');
+assert(resolveGoalsWithSource(withHistory, '2026-10-20')?.goals.daily_calories_goal === 1800, 'the change applies from its own day');
+const oldSaturday = resolveGoalsWithSource(withHistory, '2026-10-17');
+assert(oldSaturday?.source === 'weekday' && oldSaturday.goals.daily_calories_goal === 2600, 'a removed weekday schedule still applies before its removal');
+const laterSaturday = resolveGoalsWithSource(withHistory, '2026-10-31');
+assert(laterSaturday?.source === 'default' && laterSaturday.goals.daily_calories_goal === 1800, 'after removal the weekday falls back to the default');
+assert(resolveGoalsWithSource(withHistory, '2026-10-24')?.source === 'override', 'overrides still beat the history');
+assert(resolveGoalsWithSource({ ...withHistory, history: { base: [], weekdays: [] } }, '2026-10-19') === null, 'no history row valid on a day means no goals');
+
+const week = dateKeysInRange('2026-10-18', '2026-10-24');
+assert(week.length === 7 && week[0] === '2026-10-18' && week[6] === '2026-10-24', 'range is inclusive');
+assert(dateKeysInRange('2026-03-28', '2026-03-30').length === 3, 'range is not thrown by clock changes');
+
+// Six default days, then a Saturday whose override beats the weekday schedule.
+const average = averageGoalsForDates(plan, week);
+assert(average?.daily_calories_goal === Math.round((2000 * 6 + 3000) / 7), 'average resolves each day on its own');
+assert(averageGoalsForDates({ base: null, weekdays: [], overrides: [] }, week) === null, 'no goals averages to null');
+
+assert(goalTargetsError(base) === null, 'sane goals pass');
+assert(goalTargetsError({ ...base, daily_calories_goal: 400 }) !== null, 'too few calories rejected');
+assert(goalTargetsError({ ...base, daily_fats_goal: Number.NaN }) !== null, 'blank fats rejected');
+
+// Wednesday 21 October 2026: Sunday-start and Monday-start weeks.
+const wednesday = new Date(2026, 9, 21, 18, 30);
+assert(formatLocalDateKey(startOfWeek(wednesday, 0)) === '2026-10-18', 'Sunday-start week begins on the Sunday');
+assert(formatLocalDateKey(startOfWeek(wednesday, 1)) === '2026-10-19', 'Monday-start week begins on the Monday');
+assert(formatLocalDateKey(startOfWeek(new Date(2026, 9, 18), 1)) === '2026-10-12', 'a Sunday ends a Monday-start week');
+
+console.log('All goal schedule checks passed.');
@@ -0,0 +1,138 @@
+import { readFileSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import {
+  detectDiaryFormat,
+  duplicateKey,
+  parseCsv,
+  parseDiaryCsv,
+  parseDiaryDate,
+  parseDiaryFile,
+  parseDiaryTime,
+  previewDiaryImport,
+} from '../../src/utils/diaryImport.ts';
+import { buildExportBundle, renderExport } from '../../src/utils/exportFormat.ts';
+
+function assert(condition: boolean, message: string) {
+  if (!condition) throw new Error(message);
+}
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const fixture = (name: string) => readFileSync(join(__dirname, 'fixtures', name), 'utf8');
+
+const cells = parseCsv('a,"b, c","say ""hi"""\r\n\r\n1,2,3');
+assert(cells.length === 2, 'blank lines are dropped');
+assert(cells[0][1] === 'b, c' && cells[0][2] === 'say "hi"', 'quoted fields keep commas and quotes');
+assert(parseCsv('\uFEFFDate,Meal\n')[0][0] === 'Date', 'a byte-order mark is ignored');
+
+assert(parseDiaryDate('2026-10-18') === '2026-10-18', 'ISO dates read');
+assert(parseDiaryDate('2026/3/8') === '2026-03-08', 'slash dates with the year first read');
+assert(parseDiaryDate('08/03/2026') === null, 'day-month order is not guessed');
+assert(parseDiaryDate('2026-02-30') === null, 'impossible dates are rejected');
+assert(parseDiaryTime('8:10 PM')?.join(':') === '20:10', '12-hour times read');
+assert(parseDiaryTime('12:05 AM')?.join(':') === '0:5', 'midnight hour reads as 0');
+assert(parseDiaryTime('23:55:10')?.join(':') === '23:55', '24-hour times read');
+assert(parseDiaryTime('') === null && parseDiaryTime('25:00') === null, 'blank and impossible times are null');
+
+// MyFitnessPal: one row per meal.
+const mfpText = fixture('myfitnesspal-meals.csv');
+assert(detectDiaryFormat(parseCsv(mfpText)[0]) === 'myfitnesspal', 'MyFitnessPal header is recognised');
+const mfp = parseDiaryCsv(mfpText, 'Europe/London');
+assert(mfp.entries.length === 5, `five meals import (got ${mfp.entries.length})`);
+assert(mfp.skipped.length === 2, 'the water row and the day-first date are skipped');
+assert(mfp.skipped.some((row) => row.line === 8 && row.reason.includes('29/03/2026')), 'skips say which line and why');
+
+const [breakfast, lunch, dinner, snacks, earlyBreakfast] = mfp.entries;
+assert(breakfast.food_name === 'Breakfast' && breakfast.calories === 412, 'meals are named after the meal');
+assert(breakfast.created_at === '2026-03-28T07:45:00.000Z', 'GMT times are stored as given');
+assert(breakfast.protein === 24 && breakfast.carbs === 52.3 && breakfast.fats === 12.5, 'macros map across');
+assert(lunch.calories === 1020, 'thousands separators are read');
+assert(lunch.local_time === '12:30', 'a meal without a time gets its usual slot');
+assert(dinner.created_at === '2026-03-28T20:10:00.000Z', 'PM times map to the evening');
+assert(snacks.local_time === '15:30', 'snacks default to mid-afternoon');
+assert(earlyBreakfast.local_date === '2026-03-29', 'a time skipped by the clocks going forward stays on its day');
+assert(breakfast.source_note === 'Imported from MyFitnessPal', 'entries say where they came from');
+
+// Cronometer: one row per food, in BST.
+const cronText = fixture('cronometer-servings.csv');
+const cron = parseDiaryCsv(cronText, 'Europe/London');
+assert(cron.format === 'cronometer', 'Cronometer header is recognised');
+assert(cron.entries.length === 4, `four foods import (got ${cron.entries.length})`);
+assert(cron.skipped.map((row) => row.reason).join('|') === 'No food name|No calories', 'unnamed and calorie-less rows are skipped');
+
+const [oats, , sandwich, banana] = cron.entries;
+assert(oats.food_name === 'Oats, Rolled, Dry' && oats.portion_assumption === '50.00 g', 'food name and amount map across');
+assert(oats.created_at === '2026-10-18T06:30:00.000Z', 'BST times are an hour ahead of UTC');
+assert(sandwich.food_name === 'Sandwich, "Chicken & Bacon"', 'quoted names survive');
+assert(banana.local_date === '2026-10-18' && banana.created_at === '2026-10-18T22:55:00.000Z', 'a late snack stays on its local day');
+
+const newYork = parseDiaryCsv(cronText, 'America/New_York');
+assert(newYork.entries[3].created_at === '2026-10-19T03:55:00.000Z', 'the same file in New York lands four hours later in UTC');
+assert(newYork.entries[3].local_date === '2026-10-18', 'but on the same local day');
+
+// Duplicates are counted, not just matched.
+const existing = [duplicateKey('2026-10-18', 'banana', 105.2), duplicateKey('2026-10-17', 'Banana', 105)];
+const preview = previewDiaryImport(cron, existing);
+assert(preview.duplicates.length === 1 && preview.duplicates[0].food_name === 'Banana', 'an already-logged banana is a duplicate');
+assert(preview.fresh.length === 3, 'the rest are new');
+assert(preview.firstDate === '2026-10-18' && preview.lastDate === '2026-10-18', 'preview spans the imported days');
+
+const twice = previewDiaryImport(
+  { ...cron, entries: [banana, banana] },
+  [duplicateKey('2026-10-18', 'Banana', 105)],
+);
+assert(twice.duplicates.length === 1 && twice.fresh.length === 1, 'two bananas against one logged leaves one new');
+
+// An "Everything" export reads back as its food log, times unchanged.
+const exported = renderExport(buildExportBundle({
+  timezone: 'Europe/London',
+  range: { start: '2026-10-18', end: '2026-10-18' },
+  entries: [
+    { id: 7, created_at: '2026-10-18T07:45:00.000Z', food_name: 'Porridge', calories: 300, protein: 10, carbs: 50, fats: 6, quantity: 1, meal_id: 3 },
+    {
+      id: 8,
+      created_at: '2026-10-18T12:30:00.000Z',
+      food_name: 'Boiled egg',
+      calories: 78,
+      protein: 6,
+      carbs: 1,
+      fats: 5,
+      quantity: 2,
+      source_note: 'Saved food',
+      evidence_status: 'uk_evidence',
+      source_url: 'https://example.co.uk/eggs',
+      evidence_quote: '78 kcal per egg',
+      reference_weight_g: 50,
+    },
+  ],
+  meals: [],
+  saved_foods: [],
+  goals: { base: null, weekdays: [], overrides: [] },
+  weights: [],
+}), 'all');
+const reimported = parseDiaryFile(exported.content, 'Europe/London');
+assert(reimported.format === 'soha' && reimported.entries.length === 2, 'JSON exports are read as Soha exports');
+assert(reimported.entries[0].created_at === '2026-10-18T07:45:00.000Z', 'exported times are kept');
+assert(reimported.entries[0].local_time === '08:45', 'preview time shown in the user timezone');
+assert(reimported.entries[1].quantity === 2 && reimported.entries[1].source_note === 'Saved food', 'quantity and source note carried over');
+assert(
+  reimported.entries[1].provenance?.evidence_status === 'uk_evidence'
+    && reimported.entries[1].provenance.source_url === 'https://example.co.uk/eggs'
+    && reimported.entries[1].provenance.evidence_quote === '78 kcal per egg'
+    && reimported.entries[1].provenance.reference_weight_g === 50,
+  'entry evidence is carried over',
+);
+assert(reimported.entries[0].provenance?.evidence_status === null, 'entries without evidence import with none');
+const relogged = previewDiaryImport(reimported, [duplicateKey('2026-10-18', 'Boiled egg', 156)]);
+assert(relogged.fresh.length === 1 && relogged.duplicates.length === 1, 'duplicates compare line calories across quantities');
+assert(parseDiaryFile(fixture('myfitnesspal-meals.csv'), 'Europe/London').format === 'myfitnesspal', 'CSV files still read as diaries');
+
+let rejected = false;
+try {
+  parseDiaryCsv('name,kcal\nToast,90\n', 'Europe/London');
+} catch {
+  rejected = true;
+}
+assert(rejected, 'unknown layouts are rejected');
+
+console.log('All diary import checks passed.');
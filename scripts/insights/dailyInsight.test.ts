@@ -0,0 +1,69 @@
+import {
+  buildDailyInsightFacts,
+  dailyInsightFactsKey,
+  deterministicInsight,
+  generateDailyInsight,
+  stubInsightCompletion,
+} from '../../supabase/functions/_shared/dailyInsight.ts';
+
+function assert(condition: boolean, message: string) {
+  if (!condition) throw new Error(message);
+}
+
+const entries = [
+  { food_name: 'Porridge', calories: 300, protein: 10, carbs: 50, fats: 6, quantity: 1 },
+  { food_name: 'Chicken wrap', calories: 450, protein: 35, carbs: 40, fats: 14, quantity: 1 },
+  { food_name: 'Boiled egg', calories: 78, protein: 6.3, carbs: 0.6, fats: 5.3, quantity: 2 },
+];
+const goals = {
+  daily_calories_goal: 2200,
+  daily_protein_goal: 150,
+  daily_carbs_goal: 220,
+  daily_fats_goal: 70,
+};
+const weekly = { total_calories: 8400, total_protein: 480, entry_count: 20, days_logged: 4 };
+
+const facts = buildDailyInsightFacts('2026-10-19', entries, goals, weekly);
+assert(facts.totals.calories === 906, 'totals apply quantity');
+assert(facts.totals.protein === 58, 'protein totals rounded');
+assert(facts.calories_remaining === 1294, 'calories remaining against goal');
+assert(facts.protein_remaining === 92, 'protein remaining against goal');
+assert(facts.biggest_items[0] === 'Chicken wrap', 'biggest items sorted by line calories');
+assert(facts.week?.avg_calories === 2100, 'weekly average per logged day');
+
+assert(
+  deterministicInsight(facts) === '92g protein still to go with 1294 cal left.',
+  'rule-based insight leads with protein still to go',
+);
+
+const noGoals = buildDailyInsightFacts('2026-10-19', entries, null, weekly);
+assert(
+  deterministicInsight(noGoals) === '906 cal so far, 1194 below your daily average this week.',
+  'without goals the insight compares with the week',
+);
+
+const factsKey = await dailyInsightFactsKey(facts);
+assert(factsKey === await dailyInsightFactsKey(buildDailyInsightFacts('2026-10-19', entries, goals, weekly)), 'same facts give the same cache key');
+const edited = entries.map((entry, index) => (index === 0 ? { ...entry, calories: 380 } : entry));
+assert(
+  factsKey !== await dailyInsightFactsKey(buildDailyInsightFacts('2026-10-19', edited, goals, weekly)),
+  'an edited entry changes the cache key with the same entry count',
+);
+assert(
+  factsKey !== await dailyInsightFactsKey(buildDailyInsightFacts('2026-10-19', entries, { ...goals, daily_protein_goal: 170 }, weekly)),
+  'a changed goal changes the cache key',
+);
+
+const fromStub = await generateDailyInsight(facts, stubInsightCompletion);
+assert(fromStub === deterministicInsight(facts), 'stub completion is deterministic');
+
+const fromFailure = await generateDailyInsight(facts, async () => {
+  throw new Error('NanoGPT error (500): down');
+});
+assert(fromFailure === deterministicInsight(facts), 'model failure falls back to the rule-based insight');
+
+const long = 'Protein is the gap today. '.repeat(20);
+const trimmed = await generateDailyInsight(facts, async () => ({ insight: long }));
+assert(trimmed.length <= 220 && trimmed.endsWith('.'), 'long model output trimmed at a sentence end');
+
+console.log('All daily insight checks passed.');
@@ -1,4 +1,11 @@
-import { applySavedFoods } from '../../supabase/functions/_shared/applySavedFoods.ts';
+import { applySavedFoods, findSavedFoodMatch } from '../../supabase/functions/_shared/applySavedFoods.ts';
+import {
+  recipePer100g,
+  recipePerServing,
+  recipeServingGrams,
+} from '../../supabase/functions/_shared/savedFoodRecipe.ts';
+import { savedFoodServingMacros } from '../../supabase/functions/_shared/savedFoodBasis.ts';
+import { rememberedFoodRow } from '../../src/utils/savedFoodRows.ts';
 
 function assert(condition: boolean, message: string) {
   if (!condition) throw new Error(message);
@@ -93,4 +100,110 @@ const noWeight = applySavedFoods(
 );
 assert(noWeight[0].calories === 999, 'weightless input still applies saved food');
 
+const chilliRecipe = {
+  ingredients: [
+    { food_name: 'Beef mince 5%', grams: 500, calories: 685, protein: 105, carbs: 0, fats: 27 },
+    { food_name: 'Kidney beans', grams: 400, calories: 400, protein: 28, carbs: 60, fats: 2 },
+    { food_name: 'Chopped tomatoes', grams: 400, calories: 88, protein: 4, carbs: 16, fats: 0 },
+  ],
+  cooked_yield_g: 1200,
+  servings: 4,
+};
+const chilli = { food_name: 'Chilli', ...recipePerServing(chilliRecipe), recipe: chilliRecipe };
+
+assert(chilli.calories === 293, 'recipe per-serving calories derived from ingredient totals');
+assert(recipeServingGrams(chilliRecipe) === 300, 'serving weight is cooked yield over servings');
+assert(recipePer100g(chilliRecipe)?.calories === 98, 'per-100g derived from cooked yield');
+assert(
+  recipePer100g({ ...chilliRecipe, cooked_yield_g: null })?.calories === 90,
+  'per-100g falls back to raw ingredient weight without a cooked yield',
+);
+
+const scaledMatch = findSavedFoodMatch('chilli', [chilli], '200g of my chilli');
+assert(scaledMatch?.scaled_to_g === 200, 'stated grams scale a recipe instead of skipping it');
+assert(scaledMatch?.calories === 196, 'recipe scaled by cooked weight');
+
+const servingMatch = findSavedFoodMatch('my chilli', [chilli], 'a bowl of my chilli');
+assert(servingMatch?.calories === 293, '"my" prefix matches the saved recipe as one serving');
+assert(servingMatch?.scaled_to_g === undefined, 'no stated weight keeps the per-serving macros');
+
+const nearestWeight = findSavedFoodMatch('chilli', [chilli], '100g rice and 350g chilli');
+assert(nearestWeight?.scaled_to_g === 350, 'uses the weight stated next to the recipe name');
+
+assert(
+  findSavedFoodMatch('chilli', [{ ...chilli, recipe: null }], '200g of my chilli') === undefined,
+  'plain saved food still skips the override when a weight is stated',
+);
+
+const scaledApplied = applySavedFoods(
+  [{ food_name: 'chilli', calories: 400, protein: 20, carbs: 30, fats: 15, quantity: 1, confidence: 'medium' }],
+  [chilli],
+  '200g of my chilli',
+);
+assert(scaledApplied[0].calories === 196, 'applySavedFoods scales recipes by stated grams');
+assert(scaledApplied[0].reference_weight_g === 200, 'scaled recipe keeps the stated weight');
+assert(scaledApplied[0].from_saved_food === true, 'scaled recipe marked as saved');
+
+const oats = {
+  food_name: 'Oats',
+  calories: 379,
+  protein: 13,
+  carbs: 60,
+  fats: 7,
+  basis: 'per_100g' as const,
+  serving_weight_g: 40,
+};
+const weighedOats = findSavedFoodMatch('oats', [oats], '60g oats with milk');
+assert(weighedOats?.calories === 227, 'per-100g saved food scales to stated grams');
+assert(weighedOats?.protein === 7.8, 'per-100g macros scale with calories');
+assert(weighedOats?.scaled_to_g === 60, 'scaled saved food records the stated weight');
+assert(findSavedFoodMatch('oats', [oats], 'bowl of oats')?.calories === 152, 'weightless per-100g mention uses serving weight');
+assert(
+  findSavedFoodMatch('oats', [{ ...oats, serving_weight_g: null }], 'bowl of oats')?.calories === 379,
+  'per-100g food without a serving weight logs 100g',
+);
+
+const bar = {
+  food_name: 'Protein bar',
+  calories: 200,
+  protein: 20,
+  carbs: 20,
+  fats: 6,
+  basis: 'per_item' as const,
+  serving_weight_g: 50,
+};
+assert(findSavedFoodMatch('protein bar', [bar], '25g protein bar')?.calories === 100, 'weighed item scales by its weight');
+assert(
+  findSavedFoodMatch('protein bar', [{ ...bar, serving_weight_g: null }], '25g protein bar') === undefined,
+  'per-item food without a weight still skips the override for stated grams',
+);
+
+const milk = {
+  food_name: 'Protein milk',
+  calories: 60,
+  protein: 6,
+  carbs: 5,
+  fats: 1.5,
+  basis: 'per_100ml' as const,
+};
+const pouredMilk = applySavedFoods(
+  [{ food_name: 'protein milk', calories: 150, protein: 10, carbs: 12, fats: 4, quantity: 1, confidence: 'medium' }],
+  [milk],
+  '250ml protein milk',
+);
+assert(pouredMilk[0].calories === 150, 'per-100ml saved food scales to stated millilitres');
+assert(pouredMilk[0].reference_volume_ml === 250, 'scaled volume kept on the item');
+assert(pouredMilk[0].portion_assumption === '250ml of your saved food', 'scaled portion explained');
+
+// An existing per-100g food remembered again from a parse with no weight: the
+// parsed numbers are one serving, so the old basis and size must go with them.
+const granola = { food_name: 'granola', calories: 450, protein: 10, carbs: 60, fats: 18, basis: 'per_100g', serving_weight_g: 45, serving_volume_ml: null };
+const remembered = rememberedFoodRow({ food_name: 'Granola', calories: 210, protein: 5, carbs: 28, fats: 8 });
+assert(remembered?.basis === null && remembered.serving_weight_g === null, 'a weightless parse clears the stored basis and serving');
+const regranola = savedFoodServingMacros({ ...granola, ...remembered! });
+assert(regranola.calories === 210 && regranola.fats === 8, 'remembered per-serving macros are not rescaled as per-100g');
+const weighed = rememberedFoodRow({ food_name: 'Granola', calories: 210, protein: 5, carbs: 28, fats: 8, serving_weight_g: 50 });
+assert(weighed?.basis === 'per_serving' && weighed.serving_weight_g === 50, 'a weighed parse stores a per-serving basis and its weight');
+assert(rememberedFoodRow({ food_name: '  ', calories: 1, protein: 0, carbs: 0, fats: 0 }) === null, 'blank names are not remembered');
+
 console.log('All saved food matching checks passed.');
@@ -0,0 +1,182 @@
+import {
+  createOpenAiCompatibleProvider,
+  createScriptedLlmProvider,
+  LlmRequestError,
+  resolveLlmStages,
+  type LlmJsonRequest,
+} from '../../supabase/functions/_shared/llmProviders.ts';
+import { parseMealWithResearch } from '../../supabase/functions/_shared/mealParseFlow.ts';
+
+function assert(condition: unknown, message: string): asserts condition {
+  if (!condition) throw new Error(message);
+}
+
+const request: LlmJsonRequest = {
+  system: 'system',
+  user: 'user',
+  schemaName: 'probe',
+  schema: { type: 'object' },
+  maxTokens: 100,
+  reasoningEffort: 'high',
+  temperature: 0,
+};
+
+function completion(content: unknown, finishReason = 'stop') {
+  return new Response(JSON.stringify({
+    choices: [{ finish_reason: finishReason, message: { content: JSON.stringify(content) } }],
+  }), { status: 200, headers: { 'Content-Type': 'application/json' } });
+}
+
+const originalFetch = globalThis.fetch;
+const sent: Array<{ url: string; headers: Record<string, string>; body: Record<string, unknown> }> = [];
+let replies: Array<() => Response> = [];
+globalThis.fetch = (async (input: string | URL | Request, init?: RequestInit) => {
+  sent.push({
+    url: String(input),
+    headers: init?.headers as Record<string, string>,
+    body: JSON.parse(String(init?.body)),
+  });
+  const next = replies.shift();
+  if (!next) throw new Error('No reply queued');
+  return next();
+}) as typeof fetch;
+
+try {
+  const local = createOpenAiCompatibleProvider({ baseUrl: 'http://localhost:11434/v1/', model: 'qwen2.5:14b' });
+  replies = [() => completion({ ok: true })];
+  assert((await local.completeJson<{ ok: boolean }>(request)).ok, 'A JSON reply must parse');
+  assert(sent[0].url === 'http://localhost:11434/v1/chat/completions', 'Trailing slashes must not double up');
+  assert(!('Authorization' in sent[0].headers), 'Keyless local servers must get no Authorization header');
+  const format = sent[0].body.response_format as { type: string; json_schema: { name: string; strict: boolean } };
+  assert(format.type === 'json_schema' && format.json_schema.name === 'probe' && format.json_schema.strict, 'Requests must ask for strict JSON schema output');
+  assert(sent[0].body.reasoning_effort === 'high' && sent[0].body.temperature === 0, 'Hints must be forwarded');
+
+  sent.length = 0;
+  replies = [
+    () => new Response('unknown parameter: reasoning_effort', { status: 400 }),
+    () => new Response('overloaded', { status: 503 }),
+    () => completion({ ok: true }),
+  ];
+  await local.completeJson(request);
+  assert(sent.length === 3, `Expected a compatibility retry and a 5xx retry, got ${sent.length} calls`);
+  assert(!('reasoning_effort' in sent[1].body), 'A server that rejects reasoning_effort must not see it again');
+
+  sent.length = 0;
+  const keyed = createOpenAiCompatibleProvider({
+    label: 'NanoGPT',
+    kind: 'nanogpt',
+    baseUrl: 'https://llm.test/v1',
+    apiKey: 'secret',
+    model: 'm',
+  });
+  replies = [() => new Response('bad schema', { status: 422 })];
+  let clientError: unknown;
+  try {
+    await keyed.completeJson(request);
+  } catch (error) {
+    clientError = error;
+  }
+  assert(clientError instanceof LlmRequestError && clientError.status === 422, 'Client errors must surface as LlmRequestError');
+  assert(clientError.message.startsWith('NanoGPT error (422)'), 'Errors must name the provider');
+  assert(sent.length === 1 && sent[0].headers.Authorization === 'Bearer secret', 'Client errors are final and keys are sent');
+
+  replies = [() => completion({}, 'length'), () => completion({}, 'length'), () => completion({}, 'length')];
+  let truncated: unknown;
+  try {
+    await keyed.completeJson(request);
+  } catch (error) {
+    truncated = error;
+  }
+  assert(truncated instanceof Error && /truncated/.test(truncated.message), 'Truncated output must not parse');
+} finally {
+  globalThis.fetch = originalFetch;
+}
+
+// Stage selection from env.
+const env = (values: Record<string, string>) => (name: string) => values[name];
+
+const defaults = resolveLlmStages(env({ NANOGPT_API_KEY: 'k' }));
+assert(defaults.interpretation.name === 'nanogpt:openai/gpt-5.6-terra', 'Interpretation keeps its NanoGPT default');
+assert(defaults.selfCheck === defaults.interpretation, 'Self-check follows interpretation by default');
+assert(defaults.relatedFood === defaults.extraction, 'Related-food follows extraction by default');
+assert(defaults.fallback?.name === 'nanogpt:google/gemini-3.6-flash', 'The parse model backs up interpretation');
+
+const sameModel = resolveLlmStages(env({ NANOGPT_API_KEY: 'k', NANOGPT_INTERPRETATION_MODEL: 'google/gemini-3.6-flash' }));
+assert(sameModel.fallback === null, 'No fallback when it would be the same model');
+
+const mixed = resolveLlmStages(env({
+  NANOGPT_API_KEY: 'k',
+  LLM_BASE_URL: 'http://localhost:8080/v1',
+  LLM_EXTRACTION: 'openai-compatible:qwen2.5:7b-instruct',
+  LLM_SELF_CHECK: 'nanogpt:google/gemini-3.6-flash',
+}));
+assert(mixed.extraction.name === 'openai-compatible:qwen2.5:7b-instruct', 'Ollama tags must survive the spec split');
+assert(mixed.relatedFood === mixed.extraction, 'Related-food follows an overridden extraction');
+assert(mixed.selfCheck === mixed.fallback, 'Stages with the same spec share one provider');
+
+const localOnly = resolveLlmStages(env({
+  LLM_BASE_URL: 'http://localhost:8080/v1',
+  LLM_INTERPRETATION: 'openai-compatible:llama3.1:8b',
+  LLM_EXTRACTION: 'openai-compatible:llama3.1:8b',
+}));
+assert(localOnly.fallback === null, 'A local interpreter needs no NanoGPT key for a fallback');
+
+let missingKey: unknown;
+try {
+  resolveLlmStages(env({}));
+} catch (error) {
+  missingKey = error;
+}
+assert(missingKey instanceof Error && /NANOGPT_API_KEY/.test(missingKey.message), 'NanoGPT stages need a key');
+
+let badSpec: unknown;
+try {
+  resolveLlmStages(env({ NANOGPT_API_KEY: 'k', LLM_EXTRACTION: 'ollama:llama3' }));
+} catch (error) {
+  badSpec = error;
+}
+assert(badSpec instanceof Error && /Unknown LLM provider/.test(badSpec.message), 'Unknown providers must fail at config time');
+
+// Scripted providers and the interpretation fallback.
+const interpretation = {
+  input_assessment: 'meal',
+  items: [{
+    item_id: 'item_1',
+    food_name: 'Banana',
+    preparation: '',
+    quantity: 1,
+    unit: 'count',
+    portion_assumption: '1 medium banana',
+    reference_weight_g: 120,
+    reference_volume_ml: null,
+    search_query: '',
+  }],
+  notes: '',
+};
+const broken = createScriptedLlmProvider({ meal_interpretation: new Error('model not found') }, 'broken');
+const backup = createScriptedLlmProvider({
+  meal_interpretation: interpretation,
+  meal_interpretation_refined: interpretation,
+}, 'backup');
+const parsed = await parseMealWithResearch(
+  'a banana',
+  { interpretation: broken, selfCheck: broken, extraction: backup, fallback: backup, relatedFood: backup },
+  {},
+  { searchApiKey: '' },
+);
+assert(parsed.items[0].food_name === 'Banana', 'The fallback provider must interpret when the first fails');
+assert(
+  backup.calls.map((call) => call.schemaName).join() === 'meal_interpretation,meal_interpretation_refined',
+  'The self-check must move to the fallback with interpretation',
+);
+assert(broken.calls.length === 1, 'The failed provider must not be asked again');
+
+const sequence = createScriptedLlmProvider({ probe: [{ n: 1 }, { n: 2 }] });
+const sequenceReplies = [
+  await sequence.completeJson<{ n: number }>(request),
+  await sequence.completeJson<{ n: number }>(request),
+  await sequence.completeJson<{ n: number }>(request),
+];
+assert(sequenceReplies.map((reply) => reply.n).join() === '1,2,2', 'Scripted lists play in order and the last repeats');
+
+console.log('All LLM provider checks passed.');
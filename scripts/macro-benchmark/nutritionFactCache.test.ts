@@ -0,0 +1,134 @@
+import { createScriptedLlmProvider, type LlmStages } from '../../supabase/functions/_shared/llmProviders.ts';
+import { parseMealWithResearch } from '../../supabase/functions/_shared/mealParseFlow.ts';
+import {
+  createMemoryNutritionFactCache,
+  nutritionFactCacheKey,
+} from '../../supabase/functions/_shared/nutritionFactCache.ts';
+
+function assert(condition: unknown, message: string): asserts condition {
+  if (!condition) throw new Error(message);
+}
+
+assert(
+  nutritionFactCacheKey('  Basmati Rice (cooked) ', 'Boiled') === 'basmati rice cooked|boiled',
+  'Cache keys must ignore case, punctuation and spacing',
+);
+assert(
+  nutritionFactCacheKey('Fish & chips', '') === nutritionFactCacheKey('fish and chips', ''),
+  'Ampersands must normalise to "and"',
+);
+
+const GROUNDED = 'Boiled basmati rice per 100g: 130 kcal, protein 2.7g, carbohydrate 28g, fat 0.3g.';
+
+let serperCalls = 0;
+let snippet = GROUNDED;
+let portion = { grams: 150, query: 'basmati rice boiled nutrition per 100g' };
+
+function interpretation() {
+  return {
+    input_assessment: 'meal',
+    items: [{
+      item_id: 'item_1',
+      food_name: 'Basmati rice',
+      preparation: 'boiled',
+      quantity: 1,
+      unit: 'serving',
+      portion_assumption: `${portion.grams}g`,
+      reference_weight_g: portion.grams,
+      reference_volume_ml: null,
+      search_query: portion.query,
+    }],
+    notes: '',
+  };
+}
+
+const model = createScriptedLlmProvider({
+  meal_interpretation: () => interpretation(),
+  meal_interpretation_refined: () => interpretation(),
+  // Numbers the snippet doesn't support; validation must reject them.
+  nutrition_evidence: {
+    facts: [{
+      item_id: 'item_1',
+      basis: 'per_100g',
+      basis_amount: 100,
+      calories: 999,
+      protein: 9,
+      carbs: 9,
+      fats: 9,
+      serving_weight_g: null,
+      serving_volume_ml: null,
+      confidence: 'high',
+      source_title: 'UK rice nutrition',
+      source_url: 'https://example.org.uk/rice',
+      evidence_quote: 'rice 999 kcal',
+    }],
+  },
+  related_food: { replacements: [] },
+});
+const llm: LlmStages = {
+  interpretation: model,
+  selfCheck: model,
+  extraction: model,
+  fallback: null,
+  relatedFood: model,
+};
+const extractionCalls = () => model.calls.filter((call) => call.schemaName === 'nutrition_evidence').length;
+
+const originalFetch = globalThis.fetch;
+globalThis.fetch = (async () => {
+  serperCalls += 1;
+  return new Response(JSON.stringify({
+    organic: [{ title: 'UK rice nutrition', link: 'https://example.org.uk/rice', snippet }],
+  }), { status: 200, headers: { 'Content-Type': 'application/json' } });
+}) as typeof fetch;
+
+try {
+  let clock = 0;
+  const cache = createMemoryNutritionFactCache(1000, () => clock);
+
+  const first = await parseMealWithResearch('150g basmati rice', llm, {}, {
+    searchApiKey: 'test-key',
+    factCache: cache,
+  });
+  assert(serperCalls === 1, `First parse must search, got ${serperCalls} searches`);
+  assert(first.items[0].calories === 195, `150g at 130 kcal/100g is 195, got ${first.items[0].calories}`);
+  const stored = (await cache.get([nutritionFactCacheKey('basmati rice', 'boiled')]))
+    .get('basmati rice|boiled');
+  assert(stored?.basis === 'per_100g' && stored.calories === 130, 'The validated fact must be cached on its source basis');
+  assert(stored.evidence_quote === GROUNDED && stored.source_url === 'https://example.org.uk/rice', 'Cache must keep the quote and URL');
+
+  // A different query for the same food, so webSearch's in-memory cache can't answer.
+  portion = { grams: 200, query: 'basmati rice 200g calories' };
+  const second = await parseMealWithResearch('200g basmati rice', llm, {}, {
+    searchApiKey: 'test-key',
+    factCache: cache,
+  });
+  assert(serperCalls === 1, 'A cached staple must skip Serper');
+  assert(extractionCalls() === 0, 'A cached staple must skip extraction');
+  assert(second.items[0].calories === 260, `Cached facts must rescale to the new portion, got ${second.items[0].calories}`);
+  assert(second.items[0].evidence_status === 'uk_evidence', 'A cache hit is still source evidence');
+  assert(second.items[0].evidence_quote === GROUNDED, 'A cache hit must carry its quote');
+
+  clock = 1000;
+  assert((await cache.get(['basmati rice|boiled'])).size === 0, 'Expired facts must not be served');
+  assert(cache.invalidate() === 1, 'Purging expired facts must remove them');
+
+  // Ungrounded extraction must never reach the cache.
+  clock = 0;
+  snippet = 'Basmati rice is a long-grain rice popular in UK kitchens.';
+  portion = { grams: 150, query: 'basmati rice boiled ungrounded' };
+  const rejected = await parseMealWithResearch('150g basmati rice', llm, {}, {
+    searchApiKey: 'test-key',
+    factCache: cache,
+  });
+  assert(extractionCalls() > 0, 'Unstructured snippets must go to extraction');
+  assert(rejected.items[0].evidence_status === 'unavailable', 'Rejected evidence must leave the item unavailable');
+  assert((await cache.get(['basmati rice|boiled'])).size === 0, 'Rejected facts must not be cached');
+
+  await cache.put([{ ...stored, food_name: 'basmati rice' }]);
+  assert(cache.invalidate('Basmati Rice') === 1, 'Invalidation by name must match normalised names');
+} finally {
+  globalThis.fetch = originalFetch;
+}
+
+console.log('All nutrition fact cache checks passed.');
@@ -6,6 +6,9 @@
 import type { ParsedItem } from './metrics.ts';
 import { normalizeItems, type ParsedFoodItem } from '../../supabase/functions/_shared/normalizeItems.ts';
 import { parseMealWithResearch } from '../../supabase/functions/_shared/mealParseFlow.ts';
+import { resolveLlmStages, type LlmStages } from '../../supabase/functions/_shared/llmProviders.ts';
+import { searchProviderFromEnv } from './searchFixtures.ts';
+import { directoryParseCapture } from '../replay/replayBundle.ts';
 
 export interface ParseConfig {
   apiKey: string;
@@ -21,22 +24,30 @@ export function postProcessParsedItems(items: ParsedFoodItem[]): ParsedItem[] {
   return normalizeItems(items);
 }
 
+/** Same stage resolution as the edge function; ParseConfig fields win over env. */
+export function llmStagesForConfig(config: ParseConfig): LlmStages {
+  const overrides: Record<string, string | undefined> = {
+    NANOGPT_API_KEY: config.apiKey,
+    NANOGPT_BASE_URL: config.baseUrl,
+    NANOGPT_PARSE_MODEL: config.model,
+    NANOGPT_INTERPRETATION_MODEL: config.interpretationModel,
+    NANOGPT_EXTRACTION_MODEL: config.extractionModel,
+    NANOGPT_FALLBACK_MODEL: config.fallbackModel,
+  };
+  return resolveLlmStages((name) => overrides[name] || process.env[name]);
+}
+
 export async function parseMealTextRaw(text: string, config: ParseConfig) {
   const result = await parseMealWithResearch(
     text,
+    llmStagesForConfig(config),
+    {},
     {
-      apiKey: config.apiKey,
-      baseUrl: config.baseUrl ?? 'https://nano-gpt.com/api/v1',
-      model: config.model,
-      interpretationModel: config.interpretationModel ?? process.env.NANOGPT_INTERPRETATION_MODEL ?? 'openai/gpt-5.6-terra',
-      extractionModel:
-        config.extractionModel ??
-        process.env.NANOGPT_EXTRACTION_MODEL ??
-        'google/gemini-3.5-flash-lite',
-      fallbackModel: config.fallbackModel ?? process.env.NANOGPT_FALLBACK_MODEL ?? undefined,
+      searchApiKey: config.searchApiKey ?? process.env.SERPER_API_KEY,
+      searchProvider: searchProviderFromEnv(),
+      // PARSE_REPLAY_DIR saves a replay bundle per parse (npm run replay:parse).
+      capture: process.env.PARSE_REPLAY_DIR ? directoryParseCapture(process.env.PARSE_REPLAY_DIR) : undefined,
     },
-    {},
-    { searchApiKey: config.searchApiKey ?? process.env.SERPER_API_KEY },
   );
   return result;
 }
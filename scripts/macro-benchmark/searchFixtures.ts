@@ -0,0 +1,58 @@
+/**
+ * Search fixtures on disk for offline, deterministic benchmark runs.
+ *
+ *   SEARCH_FIXTURES=record npm run benchmark:staples   # live Serper, saves every answer
+ *   SEARCH_FIXTURES=replay npm run benchmark:staples   # no Serper calls at all
+ *
+ * SEARCH_FIXTURES_DIR overrides the default directory below.
+ */
+
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import {
+  createFixtureSearchProvider,
+  createRecordingSearchProvider,
+  createSerperProvider,
+  type SearchFixture,
+  type SearchFixtureStore,
+  type SearchProvider,
+} from '../../supabase/functions/_shared/searchProviders.ts';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+
+export const DEFAULT_SEARCH_FIXTURES_DIR = join(__dirname, 'search-fixtures');
+
+export function createDirectoryFixtureStore(dir: string): SearchFixtureStore {
+  return {
+    read: async (name) => {
+      try {
+        return JSON.parse(await readFile(join(dir, name), 'utf8')) as SearchFixture;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+        throw error;
+      }
+    },
+    write: async (name, fixture) => {
+      await mkdir(dir, { recursive: true });
+      await writeFile(join(dir, name), `${JSON.stringify(fixture, null, 2)}\n`);
+    },
+  };
+}
+
+/** Undefined means "use Serper with SERPER_API_KEY", as in production. */
+export function searchProviderFromEnv(
+  env: Record<string, string | undefined> = process.env,
+): SearchProvider | undefined {
+  const mode = env.SEARCH_FIXTURES?.trim();
+  if (!mode) return undefined;
+
+  const store = createDirectoryFixtureStore(env.SEARCH_FIXTURES_DIR || DEFAULT_SEARCH_FIXTURES_DIR);
+  if (mode === 'replay') return createFixtureSearchProvider(store);
+  if (mode === 'record') {
+    const apiKey = env.SERPER_API_KEY?.trim();
+    if (!apiKey) throw new Error('SEARCH_FIXTURES=record needs SERPER_API_KEY');
+    return createRecordingSearchProvider(createSerperProvider(apiKey), store);
+  }
+  throw new Error(`SEARCH_FIXTURES must be "replay" or "record", got "${mode}"`);
+}
@@ -0,0 +1,136 @@
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { createScriptedLlmProvider } from '../../supabase/functions/_shared/llmProviders.ts';
+import { parseMealWithResearch } from '../../supabase/functions/_shared/mealParseFlow.ts';
+import { extractDirectEvidenceFacts } from '../../supabase/functions/_shared/nutritionCompute.ts';
+import {
+  createFixtureSearchProvider,
+  createRecordingSearchProvider,
+  searchFixtureName,
+  serperSnippets,
+  type SearchFixture,
+  type SearchFixtureStore,
+  type SearchProvider,
+} from '../../supabase/functions/_shared/searchProviders.ts';
+import { searchMealItems } from '../../supabase/functions/_shared/webSearch.ts';
+import { createDirectoryFixtureStore } from './searchFixtures.ts';
+
+function assert(condition: unknown, message: string): asserts condition {
+  if (!condition) throw new Error(message);
+}
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const fixtures = createFixtureSearchProvider(createDirectoryFixtureStore(join(__dirname, 'fixtures/search')));
+
+assert(
+  searchFixtureName('Semi-skimmed milk UK', false) === searchFixtureName('Semi-skimmed milk UK', false),
+  'Fixture names must be stable',
+);
+assert(
+  searchFixtureName('milk UK', false) !== searchFixtureName('milk UK', true),
+  'Relaxed and strict answers must not share a fixture',
+);
+assert(
+  searchFixtureName('Milk, semi skimmed', false) !== searchFixtureName('milk semi skimmed', false),
+  'Queries that slug alike must still get distinct fixtures',
+);
+
+const serperShape = serperSnippets({
+  answerBox: { title: 'Answer', answer: '50 kcal per 100ml' },
+  organic: [{ title: 'Result', link: 'https://example.co.uk', snippet: 'Fat 1.8g' }, { title: 'Empty' }],
+});
+assert(serperShape.length === 2 && serperShape[0].title === 'Answer', 'Serper answer boxes come first and empty rows are dropped');
+
+// Replay: no network, same filtering and ranking as a live search.
+const originalFetch = globalThis.fetch;
+let networkCalls = 0;
+globalThis.fetch = (async () => {
+  networkCalls += 1;
+  throw new Error('Fixture runs must not touch the network');
+}) as typeof fetch;
+
+try {
+  const [milk, unknown] = await searchMealItems([
+    { item_id: 'item_1', food_name: 'semi-skimmed milk', search_query: 'semi-skimmed milk nutrition per 100ml' },
+    { item_id: 'item_2', food_name: 'dragon fruit', search_query: 'dragon fruit nutrition' },
+  ], fixtures);
+  assert(milk.status === 'ok', 'A recorded query must replay');
+  assert(
+    milk.snippets.every((hit) => !hit.link.includes('myfitnesspal')),
+    'Replayed snippets must still pass the blocked-source filter',
+  );
+  assert(milk.snippets[0].link.includes('tesco.com'), 'UK label sources must rank first');
+  assert(unknown.status === 'error' && unknown.error?.includes('No search fixture'), 'A missing fixture must fail loudly');
+
+  const [fact] = extractDirectEvidenceFacts([milk]);
+  assert(fact?.basis === 'per_100ml' && fact.calories === 50, 'Direct facts must come out of replayed snippets');
+  assert(fact.protein === 3.6 && fact.carbs === 4.8 && fact.fats === 1.8, 'Replayed macros must parse deterministically');
+
+  const [relaxed] = await searchMealItems([
+    { item_id: 'item_1', food_name: 'semi-skimmed milk', search_query: 'semi-skimmed milk calories protein carbs fat' },
+  ], fixtures, { relaxed: true });
+  assert(relaxed.status === 'ok' && relaxed.snippets[0].link.includes('nutrition.example.com'), 'Relaxed answers keep any source');
+
+  // A full parse with a scripted model; search comes from fixtures.
+  const interpretation = {
+    input_assessment: 'meal',
+    items: [{
+      item_id: 'item_1',
+      food_name: 'Semi-skimmed milk',
+      preparation: '',
+      quantity: 1,
+      unit: 'serving',
+      portion_assumption: '200ml glass',
+      reference_weight_g: null,
+      reference_volume_ml: 200,
+      search_query: 'semi-skimmed milk nutrition per 100ml',
+    }],
+    notes: '',
+  };
+  // No nutrition_evidence script: direct facts should make extraction unnecessary.
+  const model = createScriptedLlmProvider({
+    meal_interpretation: interpretation,
+    meal_interpretation_refined: interpretation,
+  });
+  const parsed = await parseMealWithResearch(
+    'a glass of semi-skimmed milk',
+    { interpretation: model, selfCheck: model, extraction: model, fallback: null, relatedFood: model },
+    {},
+    { searchProvider: fixtures },
+  );
+  assert(parsed.research_available && parsed.research_used, 'Fixture search must count as research');
+  assert(parsed.items[0].calories === 100, `200ml at 50 kcal/100ml is 100, got ${parsed.items[0].calories}`);
+  assert(parsed.items[0].source_url?.includes('tesco.com'), 'The parse must cite the replayed source');
+} finally {
+  globalThis.fetch = originalFetch;
+}
+assert(networkCalls === 0, 'Search fixtures must never fall through to fetch');
+
+// Record: every live answer is saved under the name replay will look for.
+const saved = new Map<string, SearchFixture>();
+const memoryStore: SearchFixtureStore = {
+  read: async (name) => saved.get(name) ?? null,
+  write: async (name, fixture) => {
+    saved.set(name, fixture);
+  },
+};
+const live: SearchProvider = {
+  name: 'serper',
+  search: async (query) => [{ title: 'Live', link: 'https://example.co.uk/live', snippet: `Per 100g for ${query}: 120 kcal` }],
+};
+const recorded = await searchMealItems([
+  { item_id: 'item_1', food_name: 'porridge oats', search_query: 'porridge oats nutrition recorded' },
+], createRecordingSearchProvider(live, memoryStore));
+assert(saved.size === 1, 'Record mode must save one fixture per query');
+const [fixture] = saved.values();
+assert(fixture.provider === 'serper' && fixture.query === recorded[0].query && !fixture.relaxed, 'Fixtures must record where and what was asked');
+
+const replayed = await searchMealItems([
+  { item_id: 'item_1', food_name: 'porridge oats', search_query: 'porridge oats nutrition recorded' },
+], createFixtureSearchProvider(memoryStore));
+assert(
+  JSON.stringify(replayed[0].snippets) === JSON.stringify(recorded[0].snippets),
+  'Replaying a recording must return the recorded evidence',
+);
+
+console.log('All search provider checks passed.');
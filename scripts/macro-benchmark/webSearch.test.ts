@@ -4,6 +4,7 @@ import {
   searchMealItems,
   ukBiasQuery,
 } from '../../supabase/functions/_shared/webSearch.ts';
+import { createSerperProvider } from '../../supabase/functions/_shared/searchProviders.ts';
 
 function assert(condition: unknown, message: string): asserts condition {
   if (!condition) throw new Error(message);
@@ -42,6 +43,7 @@ assert(
   'Queries must not embed guessed food values',
 );
 
+const serper = createSerperProvider('test-key');
 const originalFetch = globalThis.fetch;
 let attempts = 0;
 globalThis.fetch = (async () => {
@@ -73,7 +75,7 @@ try {
       food_name: 'overflow food',
       search_query: 'overflow food nutrition',
     },
-  ], 'test-key', { maxItems: 1, concurrency: 1 });
+  ], serper, { maxItems: 1, concurrency: 1 });
 
   assert(attempts === 2, `Expected one retry after 429, got ${attempts} attempts`);
   assert(results.length === 2, 'Every item must receive an explicit search result');
@@ -101,7 +103,7 @@ try {
     item_id: 'item_timeout',
     food_name: 'unique timeout food',
     search_query: 'unique timeout food nutrition',
-  }], 'test-key');
+  }], serper);
   assert(attempts === 2, 'A timeout/network failure must receive one retry');
   assert(timeoutRecovery[0].status === 'ok', 'A successful timeout retry must be returned');
 } finally {
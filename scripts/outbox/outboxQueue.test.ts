@@ -0,0 +1,131 @@
+import {
+  flushQueue,
+  isNetworkError,
+  MAX_SEND_ATTEMPTS,
+  pendingEntries,
+  requeueItem,
+  type OutboxItem,
+} from '../../src/utils/outboxQueue.ts';
+
+function assert(condition: boolean, message: string) {
+  if (!condition) throw new Error(message);
+}
+
+const entry = (name: string, calories: number) => ({
+  food_name: name,
+  calories,
+  protein: 10,
+  carbs: 20,
+  fats: 5,
+  quantity: 1,
+});
+
+const items: OutboxItem[] = [
+  {
+    kind: 'entry',
+    client_id: 'entry-b',
+    user_id: 'someone',
+    queued_at: 2,
+    entry: { ...entry('Banana', 105), client_id: 'entry-b', created_at: '2026-10-19T10:00:00.000Z' },
+  },
+  {
+    kind: 'meal',
+    client_id: 'meal-a',
+    user_id: 'someone',
+    queued_at: 1,
+    meal: { eatenAt: '2026-10-19T08:00:00.000Z', transcript: 'eggs and toast', clientId: 'meal-a' },
+    entries: [
+      { ...entry('Eggs', 140), client_id: 'meal-a-1' },
+      { ...entry('Toast', 90), client_id: 'meal-a-2' },
+    ],
+  },
+];
+
+// Network errors vs the server saying no
+assert(isNetworkError(new TypeError('Failed to fetch'), true), 'Chrome fetch failure is a network error');
+assert(isNetworkError({ message: 'TypeError: Load failed' }, true), 'Safari fetch failure as a supabase error object');
+assert(isNetworkError({ message: 'NetworkError when attempting to fetch resource.' }, true), 'Firefox fetch failure');
+assert(isNetworkError(new Error('anything'), false), 'everything is a network error while offline');
+assert(!isNetworkError({ message: 'new row violates row-level security policy' }, true), 'server rejections are not');
+
+// Pending entries flatten meals, oldest first, timed as they will be logged
+const pending = pendingEntries(items);
+assert(pending.map((p) => p.food_name).join(',') === 'Eggs,Toast,Banana', 'meal entries come first, in order');
+assert(pending[0].created_at === '2026-10-19T08:00:00.000Z', 'meal entries take the meal time');
+assert(pending[2].created_at === '2026-10-19T10:00:00.000Z', 'single entries keep their own time');
+assert(pending[1].item_id === 'meal-a' && !pending[1].failed, 'meal entries point at their outbox item');
+
+async function run() {
+  // Everything sent, oldest first, each removed after it lands
+  const sent: string[] = [];
+  const removed: string[] = [];
+  const all = await flushQueue(
+    items,
+    async (item) => { sent.push(item.client_id); },
+    async (clientId) => { removed.push(clientId); },
+    async () => { throw new Error('nothing should be saved'); },
+  );
+  assert(sent.join(',') === 'meal-a,entry-b', 'sends oldest first');
+  assert(removed.join(',') === 'meal-a,entry-b', 'removes each item once sent');
+  assert(all.sent.length === 2 && !all.offline && all.failed.length === 0, 'clean flush result');
+
+  // A dropped connection stops the run and keeps the rest queued
+  const dropped = await flushQueue(
+    items,
+    async () => { throw new TypeError('Failed to fetch'); },
+    async () => { throw new Error('nothing should be removed'); },
+    async () => { throw new Error('nothing should be saved'); },
+    (error) => isNetworkError(error, true),
+  );
+  assert(dropped.offline && dropped.sent.length === 0 && dropped.failed.length === 0, 'stops at the first network error');
+
+  // A rejected item is reported and skipped; the next one still goes
+  const kept: string[] = [];
+  const saved: OutboxItem[] = [];
+  const rejectMeal = async (item: OutboxItem) => {
+    if (item.kind === 'meal') throw { message: 'invalid input syntax' };
+  };
+  const rejected = await flushQueue(
+    items,
+    rejectMeal,
+    async (clientId) => { kept.push(clientId); },
+    async (item) => { saved.push(item); },
+    (error) => isNetworkError(error, true),
+  );
+  assert(rejected.failed.length === 1 && rejected.failed[0].client_id === 'meal-a', 'rejection is reported');
+  assert(rejected.failed[0].message === 'invalid input syntax', 'rejection message is kept');
+  assert(kept.join(',') === 'entry-b', 'the rejected item stays queued, the next is sent');
+  assert(saved[0].attempts === 1 && !saved[0].failed && !rejected.failed[0].final, 'a first rejection counts an attempt');
+
+  // Refused MAX_SEND_ATTEMPTS times, the item is failed and no longer sent
+  const lastTry = { ...items[1], attempts: MAX_SEND_ATTEMPTS - 1 };
+  const givenUp: OutboxItem[] = [];
+  const exhausted = await flushQueue(
+    [lastTry],
+    rejectMeal,
+    async () => { throw new Error('nothing should be removed'); },
+    async (item) => { givenUp.push(item); },
+    (error) => isNetworkError(error, true),
+  );
+  assert(exhausted.failed[0].final && givenUp[0].failed === true, 'the last allowed attempt fails the item');
+  assert(givenUp[0].error === 'invalid input syntax', 'the server message is stored with the item');
+  assert(pendingEntries(givenUp).every((p) => p.failed && p.error === 'invalid input syntax'), 'failed entries carry the message');
+
+  const skipped = await flushQueue(
+    givenUp,
+    async () => { throw new Error('failed items are not sent'); },
+    async () => undefined,
+    async () => undefined,
+  );
+  assert(skipped.sent.length === 0 && skipped.failed.length === 0, 'failed items wait for the user');
+
+  const retried = requeueItem(givenUp[0]);
+  assert(!retried.failed && retried.attempts === 0 && retried.error === undefined, 'a retry starts a fresh set of attempts');
+
+  console.log('All outbox queue checks passed.');
+}
+
+run().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,96 @@
+import {
+  inboxRecordings,
+  MAX_PARSE_ATTEMPTS,
+  parseWaitingRecordings,
+  waitingRecordings,
+  type SavedRecording,
+} from '../../src/utils/voiceInboxQueue.ts';
+import { ParseRejectionError, type ParseErrorPayload } from '../../src/utils/parseRejection.ts';
+import type { ParseMealResponse } from '../../src/types/mealParse.ts';
+
+function assert(condition: boolean, message: string) {
+  if (!condition) throw new Error(message);
+}
+
+const recording = (id: string, capturedAt: string, overrides: Partial<SavedRecording> = {}): SavedRecording => ({
+  id,
+  user_id: 'someone',
+  captured_at: capturedAt,
+  log_date: capturedAt.slice(0, 10),
+  eaten_at: capturedAt,
+  audio: new Blob(['audio'], { type: 'audio/webm' }),
+  mime_type: 'audio/webm',
+  duration_ms: 4000,
+  status: 'waiting',
+  attempts: 0,
+  ...overrides,
+});
+
+const parsed: ParseMealResponse = {
+  items: [{ food_name: 'Porridge', calories: 300, protein: 10, carbs: 50, fats: 6, quantity: 1 }],
+  transcript: 'a bowl of porridge',
+};
+
+const describe = (error: unknown): ParseErrorPayload => (error instanceof ParseRejectionError
+  ? { message: 'No meal heard', kind: 'rejection', reason: error.code }
+  : { message: error instanceof Error ? error.message : 'failed', kind: 'failure' });
+const isOffline = (error: unknown) => error instanceof TypeError;
+
+const lunch = recording('lunch', '2026-10-19T12:30:00.000Z');
+const breakfast = recording('breakfast', '2026-10-19T08:00:00.000Z');
+const dinner = recording('dinner', '2026-10-18T19:00:00.000Z', { status: 'ready', result: parsed });
+
+assert(waitingRecordings([lunch, dinner, breakfast]).map((r) => r.id).join(',') === 'breakfast,lunch', 'waiting, oldest first');
+assert(inboxRecordings([lunch, dinner, breakfast]).map((r) => r.id).join(',') === 'dinner', 'only parsed or failed go to the inbox');
+
+async function run() {
+  // Parsed results are saved as ready, oldest first
+  const saved: SavedRecording[] = [];
+  const order: string[] = [];
+  const clean = await parseWaitingRecordings(
+    [lunch, dinner, breakfast],
+    async (r) => { order.push(r.id); return parsed; },
+    async (r) => { saved.push(r); },
+    describe,
+    isOffline,
+  );
+  assert(order.join(',') === 'breakfast,lunch', 'parses waiting recordings only, oldest first');
+  assert(clean.ready === 2 && clean.failed === 0 && !clean.offline, 'both ready');
+  assert(saved.every((r) => r.status === 'ready' && r.result === parsed), 'results are stored with the recording');
+  assert(saved[0].eaten_at === breakfast.eaten_at, 'the intended log time is kept');
+
+  // Offline stops the run without touching anything
+  const untouched: SavedRecording[] = [];
+  const offline = await parseWaitingRecordings(
+    [breakfast, lunch],
+    async () => { throw new TypeError('Failed to fetch'); },
+    async (r) => { untouched.push(r); },
+    describe,
+    isOffline,
+  );
+  assert(offline.offline && untouched.length === 0, 'network errors leave recordings waiting');
+
+  // A refusal is final; other errors are retried up to the limit
+  const outcomes: SavedRecording[] = [];
+  await parseWaitingRecordings(
+    [breakfast, lunch, recording('late', '2026-10-19T21:00:00.000Z', { attempts: MAX_PARSE_ATTEMPTS - 1 })],
+    async (r) => {
+      if (r.id === 'breakfast') throw new ParseRejectionError('no_meal_detected', 'hello');
+      throw new Error('Parser error 500');
+    },
+    async (r) => { outcomes.push(r); },
+    describe,
+    isOffline,
+  );
+  const byId = new Map(outcomes.map((r) => [r.id, r]));
+  assert(byId.get('breakfast')?.status === 'failed' && byId.get('breakfast')?.error?.kind === 'rejection', 'refusals fail at once');
+  assert(byId.get('lunch')?.status === 'waiting' && byId.get('lunch')?.attempts === 1, 'server errors are retried');
+  assert(byId.get('late')?.status === 'failed', 'the last allowed attempt fails the recording');
+
+  console.log('All voice inbox checks passed.');
+}
+
+run().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
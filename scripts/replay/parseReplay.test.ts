@@ -0,0 +1,143 @@
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { createScriptedLlmProvider, type LlmStages } from '../../supabase/functions/_shared/llmProviders.ts';
+import { parseMealWithResearch } from '../../supabase/functions/_shared/mealParseFlow.ts';
+import { shouldCaptureParse, type ParseReplayBundle } from '../../supabase/functions/_shared/parseReplay.ts';
+import { createFixtureSearchProvider } from '../../supabase/functions/_shared/searchProviders.ts';
+import { createDirectoryFixtureStore } from '../macro-benchmark/searchFixtures.ts';
+import { replayBundle } from './replayBundle.ts';
+
+function assert(condition: unknown, message: string): asserts condition {
+  if (!condition) throw new Error(message);
+}
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const search = createFixtureSearchProvider(
+  createDirectoryFixtureStore(join(__dirname, '../macro-benchmark/fixtures/search')),
+);
+
+function interpretation(volumeMl: number) {
+  return {
+    input_assessment: 'meal',
+    items: [{
+      item_id: 'item_1',
+      food_name: 'Semi-skimmed milk',
+      preparation: '',
+      quantity: 1,
+      unit: 'serving',
+      portion_assumption: `${volumeMl}ml glass`,
+      reference_weight_g: null,
+      reference_volume_ml: volumeMl,
+      search_query: 'semi-skimmed milk nutrition per 100ml',
+    }],
+    notes: '',
+  };
+}
+
+const model = createScriptedLlmProvider({
+  meal_interpretation: interpretation(200),
+  meal_interpretation_refined: interpretation(200),
+});
+const llm: LlmStages = { interpretation: model, selfCheck: model, extraction: model, fallback: null, relatedFood: model };
+
+const bundles: ParseReplayBundle[] = [];
+const capture = (parseId: string) => ({
+  parseId,
+  onBundle: (bundle: ParseReplayBundle) => {
+    bundles.push(bundle);
+  },
+});
+
+// Record.
+const live = await parseMealWithResearch('a glass of semi-skimmed milk', llm, {}, {
+  searchProvider: search,
+  capture: capture('parse-1'),
+});
+assert(live.parse_id === 'parse-1', 'A captured parse must report its parse_id');
+assert(bundles.length === 1, 'One bundle per parse');
+const [bundle] = bundles;
+assert(
+  bundle.llm.map((call) => `${call.stage}:${call.request.schemaName}`).join() ===
+    'interpretation:meal_interpretation,selfCheck:meal_interpretation_refined',
+  `Every model call must be recorded with its stage, got ${bundle.llm.map((call) => call.stage).join()}`,
+);
+assert(bundle.llm.every((call) => call.response !== undefined), 'Model replies must be recorded');
+assert(bundle.stages.interpretation === 'scripted:mock' && bundle.stages.fallback === null, 'Stage providers must be named');
+assert(bundle.search.length === 1 && bundle.search[0].snippets?.length, 'Search results must be recorded raw');
+assert(bundle.result?.items[0].calories === 100, 'The bundle must hold the recorded outcome');
+
+// Replay offline: same answers, same items.
+const originalFetch = globalThis.fetch;
+let networkCalls = 0;
+globalThis.fetch = (async () => {
+  networkCalls += 1;
+  throw new Error('Replay must not touch the network');
+}) as typeof fetch;
+
+try {
+  const same = await replayBundle(bundle);
+  assert(!same.error, `Replay must succeed, got ${same.error}`);
+  assert(same.changes.length === 0, `Unchanged code must reproduce the parse, got ${same.changes.join('; ')}`);
+  assert(same.divergences.length === 0, `Every request must be answered, got ${same.divergences.join('; ')}`);
+
+  // A changed request still gets the stage's recorded reply, flagged.
+  const edited = await replayBundle({ ...bundle, meal_text: 'a tall glass of semi-skimmed milk' });
+  assert(edited.divergences.some((line) => line.startsWith('interpretation meal_interpretation: request changed')), 'Changed requests must be flagged');
+  assert(edited.result?.items[0].calories === 100, 'Recorded replies stand in for changed requests');
+
+  // A different recorded reply shows up as an item change.
+  const bigger = structuredClone(bundle);
+  for (const call of bigger.llm) call.response = interpretation(300);
+  const diff = await replayBundle(bigger);
+  assert(diff.changes.includes('item_1 calories: 100 → 150'), `Item changes must be listed, got ${diff.changes.join('; ')}`);
+
+  // Queries the recording never saw fail like an outage rather than going live.
+  const noSearch = await replayBundle({ ...bundle, search: [] });
+  assert(noSearch.divergences.some((line) => line.startsWith('search "')), 'Unrecorded searches must be flagged');
+  assert(noSearch.result?.items[0].evidence_status !== 'uk_evidence', 'Without recorded results the item must not claim evidence');
+} finally {
+  globalThis.fetch = originalFetch;
+}
+assert(networkCalls === 0, 'Replays must answer from the bundle alone');
+
+// A failed parse is captured too, and replays to the same failure.
+const broken = createScriptedLlmProvider({ meal_interpretation: new Error('model not found') }, 'broken');
+let failure: unknown;
+try {
+  await parseMealWithResearch('a banana', { ...llm, interpretation: broken, selfCheck: broken }, {}, {
+    searchApiKey: '',
+    capture: capture('parse-2'),
+  });
+} catch (error) {
+  failure = error;
+}
+assert(failure instanceof Error && failure.message === 'model not found', 'Capture must not swallow errors');
+const failed = bundles[1];
+assert(failed?.error === 'model not found' && failed.llm[0].error === 'model not found', 'Failures must be recorded');
+assert(failed.search_provider === null, 'No search provider is recorded as such');
+const replayedFailure = await replayBundle(failed);
+assert(replayedFailure.error === 'model not found' && replayedFailure.changes.length === 0, 'A recorded failure must replay');
+
+// Saving a bundle is best-effort.
+const quiet = console.warn;
+console.warn = () => {};
+try {
+  const unsaved = await parseMealWithResearch('a glass of semi-skimmed milk', llm, {}, {
+    searchProvider: search,
+    capture: { parseId: 'parse-3', onBundle: () => { throw new Error('storage down'); } },
+  });
+  assert(unsaved.items.length === 1, 'A storage failure must not fail the parse');
+} finally {
+  console.warn = quiet;
+}
+
+// Capture is scoped to listed users and a sample, never everyone by default.
+const env = (values: Record<string, string>) => (name: string) => values[name];
+assert(!shouldCaptureParse('user-a', env({})), 'Nothing is captured unless configured');
+assert(shouldCaptureParse('user-a', env({ PARSE_REPLAY_USERS: 'user-b, user-a' }), () => 1), 'Listed users are always captured');
+assert(!shouldCaptureParse('user-c', env({ PARSE_REPLAY_USERS: 'user-a' }), () => 0), 'Unlisted users are not captured without a sample rate');
+assert(shouldCaptureParse('user-c', env({ PARSE_REPLAY_SAMPLE_RATE: '0.1' }), () => 0.05), 'A draw under the rate is captured');
+assert(!shouldCaptureParse('user-c', env({ PARSE_REPLAY_SAMPLE_RATE: '0.1' }), () => 0.5), 'A draw over the rate is not');
+assert(!shouldCaptureParse('user-c', env({ PARSE_REPLAY_SAMPLE_RATE: 'all' }), () => 0), 'A malformed rate captures no one');
+
+console.log('All parse replay checks passed.');
@@ -0,0 +1,77 @@
+/**
+ * Loading, saving and rerunning parse replay bundles (see
+ * supabase/functions/_shared/parseReplay.ts). Bundles come from parse-meal's
+ * parse_replays table or, for local runs, from PARSE_REPLAY_DIR.
+ */
+
+import { randomUUID } from 'node:crypto';
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import {
+  parseMealWithResearch,
+  type ParseMealFlowResult,
+} from '../../supabase/functions/_shared/mealParseFlow.ts';
+import {
+  diffReplayItems,
+  replayFactCache,
+  replayLlmStages,
+  replaySearchProvider,
+  type ParseCapture,
+  type ParseReplayBundle,
+} from '../../supabase/functions/_shared/parseReplay.ts';
+
+export async function readReplayBundle(path: string): Promise<ParseReplayBundle> {
+  const raw = JSON.parse(await readFile(path, 'utf8'));
+  // A row copied straight out of parse_replays wraps the bundle.
+  const bundle = (raw?.bundle ?? raw) as ParseReplayBundle;
+  if (bundle?.version !== 1 || typeof bundle.meal_text !== 'string' || !Array.isArray(bundle.llm)) {
+    throw new Error(`${path} is not a parse replay bundle`);
+  }
+  return bundle;
+}
+
+/** Writes each captured parse to `<dir>/<parse_id>.json`. */
+export function directoryParseCapture(dir: string): ParseCapture {
+  return {
+    parseId: randomUUID(),
+    onBundle: async (bundle) => {
+      await mkdir(dir, { recursive: true });
+      await writeFile(join(dir, `${bundle.parse_id}.json`), `${JSON.stringify(bundle, null, 2)}\n`);
+    },
+  };
+}
+
+export interface ReplayOutcome {
+  result?: ParseMealFlowResult;
+  error?: string;
+  /** Where current code asked for something the bundle doesn't hold. */
+  divergences: string[];
+  /** Item fields that differ from the recorded result. */
+  changes: string[];
+}
+
+/** Reruns the bundle's meal through current code, answering from the recording only. */
+export async function replayBundle(bundle: ParseReplayBundle): Promise<ReplayOutcome> {
+  const divergences: string[] = [];
+  let result: ParseMealFlowResult | undefined;
+  let error: string | undefined;
+  try {
+    result = await parseMealWithResearch(bundle.meal_text, replayLlmStages(bundle, divergences), bundle.context, {
+      searchApiKey: '',
+      searchProvider: bundle.search_provider ? replaySearchProvider(bundle, divergences) : undefined,
+      maxSearches: bundle.max_searches,
+      factCache: replayFactCache(bundle),
+    });
+  } catch (caught) {
+    error = caught instanceof Error ? caught.message : String(caught);
+  }
+
+  const changes: string[] = [];
+  if (bundle.result && result) {
+    changes.push(...diffReplayItems(bundle.result.items, result.items));
+    if ((bundle.result.notes ?? '') !== (result.notes ?? '')) changes.push('notes changed');
+  } else if (bundle.error !== error) {
+    changes.push(`outcome: ${bundle.error ?? 'parsed'} → ${error ?? 'parsed'}`);
+  }
+  return { result, error, divergences, changes };
+}
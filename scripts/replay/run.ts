@@ -0,0 +1,52 @@
+/**
+ * Replay a captured parse through the current pipeline, offline.
+ * Usage: npm run replay:parse -- <bundle.json> [--json]
+ *
+ * Model replies, search results and fact-cache hits all come from the bundle;
+ * fetch is blocked so nothing live can leak in. Prints what changed against
+ * the recorded items and any request the recording couldn't answer.
+ */
+
+import { replayBundle, readReplayBundle } from './replayBundle.ts';
+
+const args = process.argv.slice(2);
+const asJson = args.includes('--json');
+const path = args.find((arg) => !arg.startsWith('--'));
+if (!path) {
+  console.error('Usage: npm run replay:parse -- <bundle.json> [--json]');
+  process.exit(1);
+}
+
+const bundle = await readReplayBundle(path);
+globalThis.fetch = (async (input: string | URL | Request) => {
+  throw new Error(`Replay blocked a network call to ${String(input)}`);
+}) as typeof fetch;
+
+const outcome = await replayBundle(bundle);
+
+if (asJson) {
+  console.log(JSON.stringify(outcome, null, 2));
+} else {
+  console.log(`Parse ${bundle.parse_id} (recorded ${bundle.recorded_at})`);
+  console.log(`  "${bundle.meal_text}"`);
+  console.log(`  ${bundle.llm.length} model calls, ${bundle.search.length} searches, ${bundle.fact_cache_hits.length} cache hits recorded\n`);
+
+  if (outcome.error) {
+    console.log(`Replay failed: ${outcome.error}`);
+  } else {
+    for (const item of outcome.result?.items ?? []) {
+      console.log(
+        `  ${item.item_id}  ${item.food_name}: ${item.calories} kcal, P ${item.protein} C ${item.carbs} F ${item.fats} [${item.evidence_status}]`,
+      );
+    }
+  }
+
+  console.log(outcome.changes.length ? '\nChanged since recording:' : '\nSame result as recorded.');
+  for (const line of outcome.changes) console.log(`  ${line}`);
+  if (outcome.divergences.length) {
+    console.log('\nNot answered by the recording:');
+    for (const line of outcome.divergences) console.log(`  ${line}`);
+  }
+}
+
+process.exit(outcome.changes.length ? 2 : 0);
@@ -0,0 +1,69 @@
+import { buildMealTemplates, type TemplateSourceEntry } from '../../src/utils/mealTemplateGroups.ts';
+
+function assert(condition: boolean, message: string) {
+  if (!condition) throw new Error(message);
+}
+
+let nextId = 1;
+function entry(
+  food_name: string,
+  calories: number,
+  created_at: string,
+  group: { meal_id?: number | null; name?: string | null } = {},
+): TemplateSourceEntry {
+  return {
+    id: nextId++,
+    user_id: 'someone',
+    client_id: `client-${nextId}`,
+    created_at,
+    food_name,
+    calories,
+    protein: 10,
+    carbs: 20,
+    fats: 5,
+    quantity: 1,
+    meal_id: group.meal_id ?? null,
+    meals: group.name ? { name: group.name } : null,
+  } as TemplateSourceEntry;
+}
+
+const entries: TemplateSourceEntry[] = [
+  // Porridge + banana, three times, once in the other order and casing.
+  entry('Porridge', 250, '2026-10-18T07:30:00.000Z', { meal_id: 3, name: 'Usual breakfast' }),
+  entry('Banana', 100, '2026-10-18T07:30:00.000Z', { meal_id: 3, name: 'Usual breakfast' }),
+  entry('banana ', 100, '2026-10-17T07:30:00.000Z', { meal_id: 2 }),
+  entry('Porridge', 240, '2026-10-17T07:30:00.000Z', { meal_id: 2 }),
+  // A legacy pair from before meals existed: grouped by shared timestamp.
+  entry('Porridge', 230, '2026-10-10T07:30:00.000Z'),
+  entry('Banana', 90, '2026-10-10T07:30:00.000Z'),
+  // Toast + eggs only once: not a template yet.
+  entry('Toast', 150, '2026-10-16T08:00:00.000Z', { meal_id: 1 }),
+  entry('Eggs', 140, '2026-10-16T08:00:00.000Z', { meal_id: 1 }),
+  // Single items are left to saved foods.
+  entry('Apple', 80, '2026-10-15T15:00:00.000Z', { meal_id: 4 }),
+  entry('Apple', 80, '2026-10-14T15:00:00.000Z', { meal_id: 5 }),
+];
+
+const templates = buildMealTemplates(entries);
+assert(templates.length === 1, `only repeated multi-item combinations become templates, got ${templates.length}`);
+const [breakfast] = templates;
+assert(breakfast.key === 'banana + porridge', 'combinations ignore order, casing and spacing');
+assert(breakfast.timesLogged === 3, 'legacy rows sharing a timestamp count as one occasion');
+assert(breakfast.lastLoggedAt === '2026-10-18T07:30:00.000Z', 'the latest occasion is remembered');
+assert(breakfast.name === 'Usual breakfast' && breakfast.label === 'Usual breakfast', 'a named meal keeps its name');
+assert(breakfast.calories === 350, 'calories come from the latest occasion');
+const logged = breakfast.entries[0] as Record<string, unknown>;
+assert(
+  !('id' in logged) && !('created_at' in logged) && !('meal_id' in logged) && !('client_id' in logged) && !('meals' in logged),
+  'template entries drop identity, time and grouping',
+);
+
+const repeatedPairs = Array.from({ length: 8 }, (_, pair) => [0, 1].flatMap((round) => [
+  entry(`Food ${pair}a`, 100, `2026-10-0${round + 1}T12:00:0${pair}.000Z`),
+  entry(`Food ${pair}b`, 100, `2026-10-0${round + 1}T12:00:0${pair}.000Z`),
+])).flat();
+const many = buildMealTemplates([...repeatedPairs, ...entries]);
+assert(many.length === 6, 'the list is capped');
+assert(many[0].key === 'banana + porridge', 'the most repeated combination comes first');
+
+console.log('All meal template checks passed.');
@@ -1,25 +1,30 @@
 /**
- * Owner-run bake-off: compare two STT models on the same private fixture corpus.
+ * Owner-run bake-off: compare two STT providers or models on the same private
+ * fixture corpus. Each side is a provider spec (`nanogpt:<model>`,
+ * `openai-compatible:<model>`) or a bare NanoGPT model id.
  *
- * Example:
+ * Examples:
  *   npx tsx scripts/transcription-benchmark/compare.ts \
  *     --dir scripts/transcription-benchmark/private-fixtures \
  *     --baseline gpt-4o-mini-transcribe \
  *     --challenger Whisper-Large-V3
  *
- * Requires NANOGPT_API_KEY. Never run from CI.
+ *   STT_BASE_URL=http://localhost:8000/v1 npx tsx scripts/transcription-benchmark/compare.ts \
+ *     --challenger openai-compatible:Systran/faster-whisper-small
+ *
+ * Needs each side's env (NANOGPT_API_KEY, STT_BASE_URL). Never run from CI.
  */
 
 import path from 'node:path';
 import { fileURLToPath } from 'node:url';
 import type { BenchmarkSummary } from './fixtureTypes.ts';
-import { runTranscriptionBenchmark } from './run.ts';
+import { runTranscriptionBenchmark, sttProviderFromArg } from './run.ts';
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 
 function parseArgs(argv: string[]) {
   let dir = path.join(__dirname, 'private-fixtures');
-  let baseline = process.env.NANOGPT_STT_MODEL ?? 'gpt-4o-mini-transcribe';
+  let baseline: string | undefined;
   let challenger = '';
 
   for (let i = 0; i < argv.length; i += 1) {
@@ -30,7 +35,7 @@ function parseArgs(argv: string[]) {
   }
 
   if (!challenger) {
-    throw new Error('Pass --challenger <model-id> (a NanoGPT-supported STT model).');
+    throw new Error('Pass --challenger <provider:model> (or a NanoGPT STT model id).');
   }
 
   return { dir, baseline, challenger };
@@ -55,32 +60,29 @@ function decision(baseline: BenchmarkSummary, challenger: BenchmarkSummary): str
 
 async function main() {
   const { dir, baseline, challenger } = parseArgs(process.argv.slice(2));
-  if (!process.env.NANOGPT_API_KEY) {
-    throw new Error('NANOGPT_API_KEY is required for live bake-off.');
-  }
+  // Baseline defaults to production: STT_PROVIDER, then NANOGPT_STT_MODEL.
+  const baselineStt = sttProviderFromArg(baseline);
+  const challengerStt = sttProviderFromArg(challenger);
+  const outPath = (name: string) => path.join(
+    process.cwd(),
+    'benchmark-results',
+    `stt-live-${name.replace(/[^\w.-]+/g, '_')}-${Date.now()}.json`,
+  );
 
-  console.log(`Running baseline ${baseline}…`);
+  console.log(`Running baseline ${baselineStt.name}…`);
   const baselineRun = await runTranscriptionBenchmark({
     dir,
     live: true,
-    model: baseline,
-    out: path.join(
-      process.cwd(),
-      'benchmark-results',
-      `stt-live-${baseline.replace(/[^\w.-]+/g, '_')}-${Date.now()}.json`,
-    ),
+    stt: baselineStt,
+    out: outPath(baselineStt.name),
   });
 
-  console.log(`Running challenger ${challenger}…`);
+  console.log(`Running challenger ${challengerStt.name}…`);
   const challengerRun = await runTranscriptionBenchmark({
     dir,
     live: true,
-    model: challenger,
-    out: path.join(
-      process.cwd(),
-      'benchmark-results',
-      `stt-live-${challenger.replace(/[^\w.-]+/g, '_')}-${Date.now()}.json`,
-    ),
+    stt: challengerStt,
+    out: outPath(challengerStt.name),
   });
 
   const report = {
@@ -88,6 +90,7 @@ async function main() {
     baselinePath: baselineRun.outPath,
     challengerPath: challengerRun.outPath,
     baseline: {
+      provider: baselineRun.summary.provider,
       model: baselineRun.summary.model,
       meanCriticalTokenAccuracy: baselineRun.summary.meanCriticalTokenAccuracy,
       passRate: baselineRun.summary.passRate,
@@ -96,6 +99,7 @@ async function main() {
       failureCount: baselineRun.summary.failureCount,
     },
     challenger: {
+      provider: challengerRun.summary.provider,
       model: challengerRun.summary.model,
       meanCriticalTokenAccuracy: challengerRun.summary.meanCriticalTokenAccuracy,
       passRate: challengerRun.summary.passRate,
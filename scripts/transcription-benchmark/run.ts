@@ -2,13 +2,15 @@
  * Offline / owner-run transcription benchmark.
  *
  * Default: mock mode — scores fixture `mockSttText` against critical tokens.
- * Live mode (--live): calls NanoGPT Whisper for fixtures that include audio.
+ * Live mode (--live): transcribes fixtures that include audio with the
+ * production STT provider (STT_PROVIDER / NANOGPT_STT_MODEL) or --provider.
  * Never run --live from CI. Do not commit private-fixtures/.
  *
  * Usage:
  *   npx tsx scripts/transcription-benchmark/run.ts
  *   npx tsx scripts/transcription-benchmark/run.ts --dir scripts/transcription-benchmark/example-fixtures
  *   npx tsx scripts/transcription-benchmark/run.ts --live --dir scripts/transcription-benchmark/private-fixtures
+ *   npx tsx scripts/transcription-benchmark/run.ts --live --provider openai-compatible:Systran/faster-whisper-small
  */
 
 import { mkdir, readFile, writeFile } from 'node:fs/promises';
@@ -16,6 +18,12 @@ import path from 'node:path';
 import { fileURLToPath } from 'node:url';
 import type { BenchmarkSummary, FixtureCaseResult, FixtureManifest } from './fixtureTypes.ts';
 import { scoreCriticalTokens, summarizeLatencies } from './score.ts';
+import {
+  createSttProvider,
+  resolveSttProvider,
+  STT_PROVIDER_KINDS,
+  type SttProvider,
+} from '../../supabase/functions/_shared/stt/index.ts';
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 const DEFAULT_DIR = path.join(__dirname, 'example-fixtures');
@@ -24,11 +32,22 @@ const PRIVATE_DIR = path.join(__dirname, 'private-fixtures');
 /** Rough Whisper Large V3 cost via NanoGPT — owner may override with --usd-per-minute. */
 const DEFAULT_USD_PER_MINUTE = 0.006;
 
+/**
+ * A provider spec (`openai-compatible:<model>`) or, for older commands, a bare
+ * NanoGPT model id such as `Whisper-Large-V3`.
+ */
+export function sttProviderFromArg(arg: string | undefined): SttProvider {
+  const env = (name: string) => process.env[name];
+  if (!arg) return resolveSttProvider(env);
+  const kind = arg.slice(0, arg.indexOf(':'));
+  return createSttProvider(STT_PROVIDER_KINDS.includes(kind) ? arg : `nanogpt:${arg}`, env);
+}
+
 function parseArgs(argv: string[]) {
   let dir = DEFAULT_DIR;
   let live = false;
-  let model = process.env.NANOGPT_STT_MODEL ?? 'gpt-4o-mini-transcribe';
-  let usdPerMinute = DEFAULT_USD_PER_MINUTE;
+  let provider: string | undefined;
+  let usdPerMinute: number | undefined;
   let out: string | undefined;
 
   for (let i = 0; i < argv.length; i += 1) {
@@ -37,8 +56,8 @@ function parseArgs(argv: string[]) {
       live = true;
     } else if (arg === '--dir' && argv[i + 1]) {
       dir = path.resolve(argv[++i]);
-    } else if (arg === '--model' && argv[i + 1]) {
-      model = argv[++i];
+    } else if ((arg === '--provider' || arg === '--model') && argv[i + 1]) {
+      provider = argv[++i];
     } else if (arg === '--usd-per-minute' && argv[i + 1]) {
       usdPerMinute = Number(argv[++i]);
     } else if (arg === '--out' && argv[i + 1]) {
@@ -53,16 +72,19 @@ function parseArgs(argv: string[]) {
     dir = PRIVATE_DIR;
   }
 
-  return { dir, live, model, usdPerMinute, out };
+  return { dir, live, provider, usdPerMinute, out };
 }
 
 function printHelp() {
   console.log(`Transcription benchmark
 
-  npx tsx scripts/transcription-benchmark/run.ts [--dir <fixtures>] [--live] [--model <id>] [--out <json>]
+  npx tsx scripts/transcription-benchmark/run.ts [--dir <fixtures>] [--live] [--provider <spec>] [--out <json>]
 
   Default mode is offline/mock (no provider calls).
-  --live requires NANOGPT_API_KEY and audio files under the fixture directory.
+  --live needs audio files under the fixture directory and the provider's env:
+  NANOGPT_API_KEY for nanogpt:<model>, STT_BASE_URL for openai-compatible:<model>.
+  --provider defaults to STT_PROVIDER, then nanogpt:NANOGPT_STT_MODEL; a bare
+  model id means NanoGPT (--model is an alias).
 `);
 }
 
@@ -79,48 +101,33 @@ async function loadManifest(dir: string): Promise<FixtureManifest> {
 async function liveTranscribe(
   audioPath: string,
   mimeType: string,
-  model: string,
+  stt: SttProvider,
 ): Promise<{ text: string; latencyMs: number; durationSec?: number }> {
-  const apiKey = process.env.NANOGPT_API_KEY;
-  if (!apiKey) {
-    throw new Error('NANOGPT_API_KEY is required for --live');
-  }
-  const baseUrl = process.env.NANOGPT_BASE_URL ?? 'https://nano-gpt.com/api/v1';
   const bytes = await readFile(audioPath);
-  const form = new FormData();
-  form.append('file', new Blob([bytes], { type: mimeType }), path.basename(audioPath));
-  form.append('model', model);
-  form.append('language', 'en');
-  form.append('response_format', 'verbose_json');
-  form.append('temperature', '0');
-
-  const started = performance.now();
-  const response = await fetch(`${baseUrl}/audio/transcriptions`, {
-    method: 'POST',
-    headers: { Authorization: `Bearer ${apiKey}` },
-    body: form,
+  const result = await stt.transcribe({
+    audio: { bytes, mimeType, byteLength: bytes.byteLength },
+    language: 'en',
   });
-  const latencyMs = Math.round(performance.now() - started);
-  if (!response.ok) {
-    throw new Error(`STT failed (${response.status}): ${await response.text()}`);
-  }
-  const payload = await response.json() as { text?: string; duration?: number };
   return {
-    text: String(payload.text ?? ''),
-    latencyMs,
-    durationSec: typeof payload.duration === 'number' ? payload.duration : undefined,
+    text: result.text,
+    latencyMs: result.latencyMs,
+    durationSec: result.durationMs !== undefined ? result.durationMs / 1000 : undefined,
   };
 }
 
 export async function runTranscriptionBenchmark(options: {
   dir: string;
   live: boolean;
-  model: string;
+  /** Required with live; mock mode makes no provider calls. */
+  stt?: SttProvider;
+  /** Defaults to NanoGPT's rate, or zero for self-hosted providers. */
   usdPerMinute?: number;
   out?: string;
 }): Promise<{ summary: BenchmarkSummary; outPath: string }> {
-  const { dir, live, model } = options;
-  const usdPerMinute = options.usdPerMinute ?? DEFAULT_USD_PER_MINUTE;
+  const { dir, live, stt } = options;
+  if (live && !stt) throw new Error('Live runs need an STT provider');
+  const usdPerMinute = options.usdPerMinute ??
+    (stt?.kind === 'nanogpt' ? DEFAULT_USD_PER_MINUTE : 0);
   const manifest = await loadManifest(dir);
   const cases: FixtureCaseResult[] = [];
 
@@ -131,11 +138,11 @@ export async function runTranscriptionBenchmark(options: {
       let durationSec: number | undefined;
       let mode: 'mock' | 'live' = 'mock';
 
-      if (live && fixture.audio) {
+      if (live && stt && fixture.audio) {
         mode = 'live';
         const audioPath = path.join(dir, fixture.audio);
         const mimeType = fixture.mimeType ?? 'audio/mp4';
-        const liveResult = await liveTranscribe(audioPath, mimeType, model);
+        const liveResult = await liveTranscribe(audioPath, mimeType, stt);
         transcript = liveResult.text;
         latencyMs = liveResult.latencyMs;
         durationSec = liveResult.durationSec;
@@ -198,8 +205,8 @@ export async function runTranscriptionBenchmark(options: {
   const summary: BenchmarkSummary = {
     generatedAt: new Date().toISOString(),
     mode: live ? 'live' : 'mock',
-    provider: live ? 'nanogpt' : undefined,
-    model: live ? model : undefined,
+    provider: live ? stt?.kind : undefined,
+    model: live ? stt?.model : undefined,
     fixtureCount: cases.length,
     scoredCount: scored.length,
     failureCount: failures.length,
@@ -223,11 +230,11 @@ export async function runTranscriptionBenchmark(options: {
 }
 
 async function main() {
-  const { dir, live, model, usdPerMinute, out } = parseArgs(process.argv.slice(2));
+  const { dir, live, provider, usdPerMinute, out } = parseArgs(process.argv.slice(2));
   const { summary, outPath } = await runTranscriptionBenchmark({
     dir,
     live,
-    model,
+    stt: live ? sttProviderFromArg(provider) : undefined,
     usdPerMinute,
     out,
   });
@@ -235,6 +242,7 @@ async function main() {
   console.log(JSON.stringify({
     outPath,
     mode: summary.mode,
+    provider: summary.provider,
     model: summary.model,
     fixtureCount: summary.fixtureCount,
     scoredCount: summary.scoredCount,
@@ -0,0 +1,157 @@
+import assert from 'node:assert/strict';
+import { ParseRejectionError } from '../../supabase/functions/_shared/parseRejection.ts';
+import {
+  createFixtureSttProvider,
+  createOpenAiCompatibleSttProvider,
+  mapSttError,
+  resolveSttProvider,
+  SttError,
+  transcribeMealAudio,
+  type SttRequest,
+} from '../../supabase/functions/_shared/stt/index.ts';
+import { sttProviderFromArg } from './run.ts';
+
+const request: SttRequest = {
+  audio: { bytes: new Uint8Array(8192), mimeType: 'audio/webm', byteLength: 8192 },
+  language: 'en',
+  prompt: 'Vocabulary: skyr',
+};
+
+const env = (values: Record<string, string>) => (name: string) => values[name];
+
+function json(payload: unknown, status = 200) {
+  return new Response(JSON.stringify(payload), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+async function testOpenAiCompatibleServer() {
+  const sent: Array<{ url: string; headers: Record<string, string>; form: FormData }> = [];
+  const replies = [
+    () => new Response('warming up', { status: 503 }),
+    () => json({
+      text: 'two eggs on toast',
+      duration: 2.4,
+      segments: [{ text: 'two eggs on toast', no_speech_prob: 0.1 }, { no_speech_prob: 0.3 }],
+    }),
+  ];
+  const stt = createOpenAiCompatibleSttProvider({
+    baseUrl: 'http://localhost:8000/v1/',
+    model: 'Systran/faster-whisper-small',
+    verboseJson: true,
+    fetchImpl: (async (input: string | URL | Request, init?: RequestInit) => {
+      sent.push({
+        url: String(input),
+        headers: init?.headers as Record<string, string>,
+        form: init?.body as FormData,
+      });
+      return replies.shift()!();
+    }) as typeof fetch,
+  });
+
+  const result = await stt.transcribe(request);
+  assert.equal(stt.name, 'openai-compatible:Systran/faster-whisper-small');
+  assert.equal(sent[0].url, 'http://localhost:8000/v1/audio/transcriptions');
+  assert.equal('Authorization' in sent[0].headers, false, 'Keyless servers get no Authorization header');
+  assert.equal(sent[0].form.get('response_format'), 'verbose_json');
+  assert.equal(sent[0].form.get('prompt'), 'Vocabulary: skyr');
+  assert.equal(result.attempts, 2, '5xx is retried once');
+  assert.equal(result.provider, 'openai-compatible');
+  assert.equal(result.durationMs, 2400);
+  assert.equal(result.noSpeechProbMax, 0.3);
+}
+
+async function testUnsupportedAudioIsFinal() {
+  let calls = 0;
+  const stt = createOpenAiCompatibleSttProvider({
+    kind: 'nanogpt',
+    baseUrl: 'https://stt.test/v1',
+    apiKey: 'secret',
+    model: 'gpt-4o-mini-transcribe',
+    fetchImpl: (async () => {
+      calls += 1;
+      return new Response('{"error":{"message":"bad format"}}', { status: 415 });
+    }) as typeof fetch,
+  });
+  await assert.rejects(stt.transcribe(request), (error) => {
+    assert.ok(error instanceof SttError);
+    assert.equal(error.code, 'unsupported_audio');
+    return true;
+  });
+  assert.equal(calls, 1);
+}
+
+function testEnvSelection() {
+  const nanogpt = resolveSttProvider(env({ NANOGPT_API_KEY: 'k' }));
+  assert.equal(nanogpt.name, 'nanogpt:gpt-4o-mini-transcribe');
+  assert.equal(
+    resolveSttProvider(env({ NANOGPT_API_KEY: 'k', NANOGPT_STT_MODEL: 'Whisper-Large-V3' })).name,
+    'nanogpt:Whisper-Large-V3',
+  );
+
+  const local = resolveSttProvider(env({
+    STT_PROVIDER: 'openai-compatible:ggml-large-v3-turbo:q5',
+    STT_BASE_URL: 'http://localhost:8080/v1',
+  }));
+  assert.equal(local.kind, 'openai-compatible');
+  assert.equal(local.model, 'ggml-large-v3-turbo:q5', 'Only the first colon separates');
+
+  assert.throws(() => resolveSttProvider(env({})), /NANOGPT_API_KEY/);
+  assert.throws(
+    () => resolveSttProvider(env({ STT_PROVIDER: 'openai-compatible:whisper' })),
+    /STT_BASE_URL/,
+  );
+  assert.throws(
+    () => resolveSttProvider(env({ STT_PROVIDER: 'deepgram:nova-3' })),
+    /Unknown STT provider/,
+  );
+
+  process.env.NANOGPT_API_KEY ??= 'k';
+  assert.equal(sttProviderFromArg('Whisper-Large-V3').name, 'nanogpt:Whisper-Large-V3', 'Bare ids are NanoGPT models');
+}
+
+async function testFixtureThroughGuards() {
+  const stt = createFixtureSttProvider([
+    { text: 'a bowl of skyr with honey', segments: [{ noSpeechProb: 0.05 }] },
+    { text: 'thanks for watching', segments: [{ noSpeechProb: 0.95 }, { noSpeechProb: 0.9 }] },
+    new SttError('timeout', 'Speech recognition timed out. Try a shorter recording.', { retryable: true }),
+  ]);
+
+  const ok = await transcribeMealAudio(request, stt);
+  assert.equal(ok.transcript, 'a bowl of skyr with honey');
+  assert.equal(ok.timings.stt_provider, 'fixture');
+  assert.equal(ok.timings.stt_bytes, 8192);
+
+  await assert.rejects(transcribeMealAudio(request, stt), (error) => {
+    assert.ok(error instanceof ParseRejectionError);
+    assert.equal(error.code, 'no_speech');
+    return true;
+  });
+
+  await assert.rejects(transcribeMealAudio(request, stt), (error) => {
+    const mapped = mapSttError(error);
+    assert.equal(mapped.message, 'Speech recognition timed out. Try a shorter recording.');
+    return true;
+  });
+
+  const tiny: SttRequest = { audio: { bytes: new Uint8Array(10), mimeType: 'audio/webm', byteLength: 10 } };
+  await assert.rejects(transcribeMealAudio(tiny, stt), (error) => {
+    assert.ok(mapSttError(error) instanceof ParseRejectionError, 'Too-small audio maps to no_speech');
+    return true;
+  });
+  assert.equal(stt.calls.length, 4);
+}
+
+async function main() {
+  await testOpenAiCompatibleServer();
+  await testUnsupportedAudioIsFinal();
+  testEnvSelection();
+  await testFixtureThroughGuards();
+  console.log('All STT provider checks passed.');
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,56 @@
+import {
+  coveredIntakeDays,
+  estimateAdaptiveTdee,
+  suggestedCalorieTarget,
+  type DailyIntake,
+} from '../../src/utils/adaptiveTdee.ts';
+import { weightTrend } from '../../src/utils/weightTrend.ts';
+
+function assert(condition: boolean, message: string) {
+  if (!condition) throw new Error(message);
+}
+
+function dateKey(day: number): string {
+  return new Date(Date.UTC(2026, 8, 21 + day)).toISOString().slice(0, 10);
+}
+
+const END = dateKey(27);
+
+// Four weeks at 2,000 cal a day, losing 0.5kg a week in a straight line.
+const steadyIntake: DailyIntake[] = Array.from({ length: 28 }, (_, i) => ({
+  date: dateKey(i),
+  calories: 2000,
+  entry_count: 4,
+}));
+const losingTrend = weightTrend(
+  Array.from({ length: 28 + 28 }, (_, i) => ({ date: dateKey(i - 28), weight_kg: 84 - (i * 0.5) / 7 })),
+);
+
+const estimate = estimateAdaptiveTdee(steadyIntake, losingTrend, END);
+assert(estimate !== null, 'a well-logged month gives an estimate');
+assert(estimate!.average_intake === 2000, 'average intake over covered days');
+assert(Math.abs(estimate!.weight_rate_kg_per_week + 0.5) < 0.05, 'trend rate tracks the loss');
+// 0.5kg/week ≈ 550 kcal/day deficit.
+assert(estimate!.tdee > 2500 && estimate!.tdee < 2600, `maintenance adds the deficit back (${estimate!.tdee})`);
+assert(estimate!.confidence === 'high', 'full coverage and daily weigh-ins are high confidence');
+assert(suggestedCalorieTarget(estimate!, 'maintain') % 50 === 0, 'suggestions round to 50');
+assert(suggestedCalorieTarget(estimate!, 'cut') < suggestedCalorieTarget(estimate!, 'maintain'), 'a cut suggests less than maintenance');
+
+// Forgotten dinners: single-entry days and near-empty days are skipped, not averaged in.
+const patchy: DailyIntake[] = steadyIntake.map((day, i) => {
+  if (i % 7 === 0) return { ...day, calories: 450, entry_count: 1 };
+  if (i % 7 === 3) return { ...day, calories: 600, entry_count: 3 };
+  return day;
+});
+assert(coveredIntakeDays(patchy).length === 20, 'low-coverage days are skipped');
+const patchyEstimate = estimateAdaptiveTdee(patchy, losingTrend, END);
+assert(patchyEstimate?.average_intake === 2000, 'skipped days do not drag intake down');
+assert(patchyEstimate?.days_skipped === 8, 'skipped days are counted');
+
+const sparse = steadyIntake.filter((_, i) => i % 3 === 0);
+assert(estimateAdaptiveTdee(sparse, losingTrend, END) === null, 'too few logged days gives no estimate');
+
+const oneWeighIn = weightTrend([{ date: dateKey(27), weight_kg: 80 }]);
+assert(estimateAdaptiveTdee(steadyIntake, oneWeighIn, END) === null, 'no weight trend gives no estimate');
+
+console.log('All adaptive TDEE checks passed.');
@@ -0,0 +1,54 @@
+import {
+  dailyWeights,
+  weeklyWeightRate,
+  weightDirection,
+  weightTrend,
+} from '../../src/utils/weightTrend.ts';
+
+function assert(condition: boolean, message: string) {
+  if (!condition) throw new Error(message);
+}
+
+const sameDay = dailyWeights([
+  { date: '2026-10-02', weight_kg: 80.4 },
+  { date: '2026-10-01', weight_kg: 80.0 },
+  { date: '2026-10-02', weight_kg: 80.0 },
+]);
+assert(sameDay.length === 2, 'readings on one day collapse to one');
+assert(sameDay[0].date === '2026-10-01', 'days sort oldest first');
+assert(sameDay[1].weight_kg === 80.2, 'a day with two readings uses their mean');
+
+const flat = weightTrend([
+  { date: '2026-10-01', weight_kg: 80 },
+  { date: '2026-10-02', weight_kg: 80 },
+]);
+assert(flat[1].trend_kg === 80, 'trend starts at the first reading');
+
+const spike = weightTrend([
+  { date: '2026-10-01', weight_kg: 80 },
+  { date: '2026-10-02', weight_kg: 82 },
+]);
+assert(spike[1].trend_kg === 80.2, 'one heavy day moves the trend by a tenth of the gap');
+
+const gap = weightTrend([
+  { date: '2026-10-01', weight_kg: 80 },
+  { date: '2026-10-08', weight_kg: 78 },
+]);
+// 1 - 0.9^7 ≈ 0.522 of the 2kg difference.
+assert(Math.abs(gap[1].trend_kg - 78.96) < 0.01, 'a week-long gap applies a week of smoothing');
+
+// Steady loss of 0.1kg a day for four weeks.
+const losing = weightTrend(
+  Array.from({ length: 28 }, (_, i) => ({
+    date: `2026-10-${String(i + 1).padStart(2, '0')}`,
+    weight_kg: 90 - i * 0.1,
+  })),
+);
+const lastTwoWeeks = weeklyWeightRate(losing, '2026-10-15', '2026-10-28');
+assert(lastTwoWeeks !== null && lastTwoWeeks < -0.5 && lastTwoWeeks > -0.8, 'trend rate follows a steady loss');
+assert(weightDirection(lastTwoWeeks ?? 0) === 'down', 'steady loss reads as down');
+assert(weeklyWeightRate(losing, '2026-10-27', '2026-10-28') === null, 'two days is too short for a rate');
+assert(weeklyWeightRate(losing, '2026-11-01', '2026-11-07') === null, 'no readings, no rate');
+assert(weightDirection(0.05) === 'steady', 'small drift reads as steady');
+
+console.log('All weight trend checks passed.');
@@ -0,0 +1,42 @@
+import React from 'react';
+import { suggestedCalorieTarget, type AdaptiveTdeeEstimate } from '../utils/adaptiveTdee';
+import type { GoalType } from '../utils/goalCalculator';
+import { formatWeeklyWeightRate, getAdaptiveTdeeBody } from '../copy/experience';
+
+interface AdaptiveTdeeSuggestionProps {
+  estimate: AdaptiveTdeeEstimate;
+  goalType: GoalType | null;
+  currentCalories: number;
+  onAccept: (calories: number) => void;
+}
+
+/** Maintenance worked out from the user's own log and weigh-ins. Only fills the field — saving is still theirs. */
+const AdaptiveTdeeSuggestion: React.FC<AdaptiveTdeeSuggestionProps> = ({
+  estimate,
+  goalType,
+  currentCalories,
+  onAccept,
+}) => {
+  const suggested = suggestedCalorieTarget(estimate, goalType ?? 'maintain');
+  const differs = !Number.isFinite(currentCalories) || Math.abs(suggested - currentCalories) >= 50;
+
+  return (
+    <div className="tdee-suggestion">
+      <p className="form-label-sm">From your log</p>
+      <p className="tdee-suggestion__body">{getAdaptiveTdeeBody(estimate)}</p>
+      <p className="form-hint">
+        {estimate.days_used} well-logged days · weight {formatWeeklyWeightRate(estimate.weight_rate_kg_per_week)}
+        {estimate.days_skipped > 0 ? ` · ${estimate.days_skipped} partly logged ${estimate.days_skipped === 1 ? 'day' : 'days'} left out` : ''}
+      </p>
+      {differs ? (
+        <button type="button" onClick={() => onAccept(suggested)} className="btn-secondary">
+          Use {suggested.toLocaleString()} cal{goalType && goalType !== 'maintain' ? ` for your ${goalType}` : ''}
+        </button>
+      ) : (
+        <p className="form-hint">Your calorie target already matches.</p>
+      )}
+    </div>
+  );
+};
+
+export default AdaptiveTdeeSuggestion;
@@ -0,0 +1,122 @@
+import React, { useCallback, useRef, useState } from 'react';
+import Modal from './Modal';
+import { useBarcodeCamera } from '../hooks/useBarcodeCamera';
+import { lookupBarcode } from '../utils/barcodeProducts';
+import { normalizeBarcode, productToParsedItem } from '../utils/barcodeLookup';
+import { isNetworkError } from '../utils/outboxQueue';
+import { hapticLight } from '../utils/haptics';
+import type { ParsedFoodItem } from '../types/mealParse';
+import {
+  getBarcodeInvalidMessage,
+  getBarcodeLookupFailureMessage,
+  getBarcodeNotFoundMessage,
+  getNetworkUnreachableMessage,
+} from '../copy/experience';
+
+interface BarcodeScannerProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onFound: (item: ParsedFoodItem) => void;
+}
+
+/** Camera scan where the browser can decode barcodes, typed digits everywhere. */
+const BarcodeScanner: React.FC<BarcodeScannerProps> = ({ isOpen, onClose, onFound }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [digits, setDigits] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const lookup = useCallback(async (code: string) => {
+    if (!normalizeBarcode(code)) {
+      setDigits(code);
+      setError(getBarcodeInvalidMessage());
+      return;
+    }
+    setBusy(true);
+    setError(null);
+    try {
+      const product = await lookupBarcode(code);
+      if (!product) {
+        setDigits(code);
+        setError(getBarcodeNotFoundMessage());
+        return;
+      }
+      hapticLight();
+      setDigits('');
+      onFound(productToParsedItem(product));
+    } catch (err: unknown) {
+      console.error('Error looking up barcode:', err);
+      setError(isNetworkError(err) ? getNetworkUnreachableMessage() : getBarcodeLookupFailureMessage());
+    } finally {
+      setBusy(false);
+    }
+  }, [onFound]);
+
+  const scanning = isOpen && !busy && !error;
+  const cameraStatus = useBarcodeCamera(videoRef, scanning, (code) => {
+    void lookup(code);
+  });
+  const showCamera = cameraStatus === 'starting' || cameraStatus === 'scanning';
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (digits.trim()) void lookup(digits);
+  };
+
+  const handleClose = () => {
+    setError(null);
+    setDigits('');
+    onClose();
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={handleClose} title="Scan a barcode">
+      {showCamera && (
+        <div className="barcode-scanner__viewport">
+          <video ref={videoRef} className="barcode-scanner__video" muted playsInline />
+          <span className="barcode-scanner__guide" aria-hidden="true" />
+          <p className="barcode-scanner__status">
+            {busy ? 'Looking it up…' : cameraStatus === 'starting' ? 'Starting camera…' : 'Point at the barcode'}
+          </p>
+        </div>
+      )}
+      {cameraStatus === 'denied' && (
+        <p className="form-hint mb-3">Camera isn&apos;t available. Type the digits under the bars instead.</p>
+      )}
+
+      <form onSubmit={handleSubmit} className="barcode-scanner__manual">
+        <label htmlFor="barcode_digits" className="form-label">
+          {showCamera ? 'Or type the digits' : 'Barcode digits'}
+        </label>
+        <div className="flex gap-2">
+          <input
+            id="barcode_digits"
+            type="text"
+            inputMode="numeric"
+            autoComplete="off"
+            value={digits}
+            onChange={(e) => setDigits(e.target.value.replace(/[^\d\s-]/g, ''))}
+            placeholder="5000000000000"
+            className="input-premium flex-1 tabular-nums"
+          />
+          <button type="submit" disabled={busy || !digits.trim()} className="btn-primary w-auto px-4">
+            {busy ? 'Looking…' : 'Look up'}
+          </button>
+        </div>
+      </form>
+
+      {error && (
+        <div className="alert-error mt-3">
+          {error}
+          {showCamera && (
+            <button type="button" className="btn-ghost text-xs py-1 px-2 ml-2" onClick={() => setError(null)}>
+              Scan again
+            </button>
+          )}
+        </div>
+      )}
+    </Modal>
+  );
+};
+
+export default BarcodeScanner;
@@ -0,0 +1,93 @@
+import React, { useState } from 'react';
+import { parseLocalDateKey } from '../utils/localDate';
+import { SERIES_METRICS, type DailySeriesDay, type SeriesMetric } from '../utils/dailySeries';
+
+interface DailySeriesChartProps {
+  days: DailySeriesDay[];
+  /** Days after this key haven't happened yet and can't be opened. */
+  todayKey: string;
+  onSelectDay: (dateKey: string) => void;
+  /** Month view: many narrow bars, labelled by day of month. */
+  dense?: boolean;
+}
+
+function formatValue(value: number, unit: string): string {
+  return `${Math.round(value).toLocaleString()}${unit}`;
+}
+
+/** Per-day bars for one metric, each with a tick at that day's goal. Tapping a bar opens the day. */
+const DailySeriesChart: React.FC<DailySeriesChartProps> = ({ days, todayKey, onSelectDay, dense = false }) => {
+  const [metric, setMetric] = useState<SeriesMetric>('calories');
+  const unit = SERIES_METRICS.find((option) => option.key === metric)?.unit ?? '';
+
+  const scaleMax = Math.max(
+    1,
+    ...days.map((day) => day[metric]),
+    ...days.map((day) => day.goals?.[metric] ?? 0),
+  ) * 1.1;
+  const hasGoals = days.some((day) => day.goals);
+
+  return (
+    <div className="series-chart">
+      <div className="series-chart__metrics" role="radiogroup" aria-label="Metric">
+        {SERIES_METRICS.map((option) => (
+          <button
+            key={option.key}
+            type="button"
+            role="radio"
+            aria-checked={metric === option.key}
+            onClick={() => setMetric(option.key)}
+            className={`series-chart__metric ${metric === option.key ? 'series-chart__metric--active' : ''}`}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+
+      <div className={`series-chart__plot ${dense ? 'series-chart__plot--dense' : ''}`}>
+        {days.map((day) => {
+          const date = parseLocalDateKey(day.day);
+          const future = day.day > todayKey;
+          const value = day[metric];
+          const goal = day.goals?.[metric] ?? null;
+          const dateLabel = date.toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric' });
+          const label = dense
+            ? String(date.getDate())
+            : date.toLocaleDateString(undefined, { weekday: 'narrow' });
+
+          return (
+            <button
+              key={day.day}
+              type="button"
+              disabled={future}
+              onClick={() => onSelectDay(day.day)}
+              className="series-chart__col"
+              aria-label={`${dateLabel}: ${formatValue(value, unit)}${goal ? ` of ${formatValue(goal, unit)}` : ''}${day.entry_count === 0 ? ', nothing logged' : ''}`}
+            >
+              <span className="series-chart__track">
+                {value > 0 && (
+                  <span
+                    className={`series-chart__bar series-chart__bar--${metric} ${goal && value > goal * 1.1 ? 'series-chart__bar--over' : ''}`}
+                    style={{ height: `${(value / scaleMax) * 100}%` }}
+                  />
+                )}
+                {goal !== null && goal > 0 && (
+                  <span className="series-chart__goal" style={{ bottom: `${(goal / scaleMax) * 100}%` }} />
+                )}
+              </span>
+              <span className={`series-chart__label ${day.day === todayKey ? 'series-chart__label--today' : ''}`}>
+                {dense && date.getDate() % 5 !== 1 && day.day !== todayKey ? '' : label}
+              </span>
+            </button>
+          );
+        })}
+      </div>
+
+      <p className="series-chart__legend">
+        {hasGoals ? 'Line marks the target for each day · tap a day to open it' : 'Tap a day to open it'}
+      </p>
+    </div>
+  );
+};
+
+export default DailySeriesChart;
@@ -0,0 +1,94 @@
+import React, { useState } from 'react';
+import DatePicker from './DatePicker';
+import { useUserExperience } from '../context/userExperience';
+import { fetchExportBundle, downloadFile } from '../utils/dataExport';
+import { renderExport, type ExportKind } from '../utils/exportFormat';
+import { formatLocalDateKey } from '../utils/localDate';
+import { hapticSuccess } from '../utils/haptics';
+import { getExportFailureMessage } from '../copy/experience';
+
+interface DataExportPanelProps {
+  userId: string;
+}
+
+const EXPORT_OPTIONS: Array<{ kind: ExportKind; label: string; hint: string }> = [
+  { kind: 'entries', label: 'Food log', hint: 'CSV · one row per entry' },
+  { kind: 'saved-foods', label: 'Saved foods', hint: 'CSV' },
+  { kind: 'weights', label: 'Weights', hint: 'CSV' },
+  { kind: 'goals', label: 'Targets', hint: 'CSV · default, weekdays and one-off days' },
+  { kind: 'all', label: 'Everything', hint: 'JSON · its entries can be imported again' },
+];
+
+const daysAgo = (days: number): Date => {
+  const date = new Date();
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() - days);
+};
+
+/** Downloads the log for a date range. Files are built in the browser; nothing is sent anywhere. */
+const DataExportPanel: React.FC<DataExportPanelProps> = ({ userId }) => {
+  const { timezone } = useUserExperience();
+  const [start, setStart] = useState(() => daysAgo(29));
+  const [end, setEnd] = useState(() => daysAgo(0));
+  const [busyKind, setBusyKind] = useState<ExportKind | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const changeStart = (date: Date) => {
+    setStart(date);
+    if (date > end) setEnd(date);
+  };
+
+  const changeEnd = (date: Date) => {
+    setEnd(date);
+    if (date < start) setStart(date);
+  };
+
+  const handleExport = async (kind: ExportKind) => {
+    setBusyKind(kind);
+    setError(null);
+    try {
+      const bundle = await fetchExportBundle(userId, formatLocalDateKey(start), formatLocalDateKey(end), timezone);
+      const file = renderExport(bundle, kind);
+      downloadFile(file.fileName, file.mimeType, file.content);
+      hapticSuccess();
+    } catch (err: unknown) {
+      console.error('Error exporting data:', err);
+      setError(getExportFailureMessage());
+    } finally {
+      setBusyKind(null);
+    }
+  };
+
+  return (
+    <div className="data-export">
+      <p className="form-label">Export your data</p>
+      <p className="form-hint mb-3">Dates and times are in {timezone}</p>
+
+      <div className="range-picker mb-4">
+        <DatePicker selectedDate={start} onDateChange={changeStart} variant="chip" />
+        <span className="range-picker__sep" aria-hidden="true">–</span>
+        <DatePicker selectedDate={end} onDateChange={changeEnd} variant="chip" />
+      </div>
+
+      <div className="data-export__options">
+        {EXPORT_OPTIONS.map((option) => (
+          <button
+            key={option.kind}
+            type="button"
+            disabled={busyKind !== null}
+            onClick={() => handleExport(option.kind)}
+            className="data-export__option"
+          >
+            <span className="data-export__label">{option.label}</span>
+            <span className="data-export__hint">
+              {busyKind === option.kind ? 'Preparing…' : option.hint}
+            </span>
+          </button>
+        ))}
+      </div>
+
+      {error && <div className="alert-error mt-3">{error}</div>}
+    </div>
+  );
+};
+
+export default DataExportPanel;
@@ -0,0 +1,171 @@
+import React, { useRef, useState } from 'react';
+import { useUserExperience } from '../context/userExperience';
+import { useToast } from '../context/toast';
+import { importDiaryEntries, previewDiaryFile } from '../utils/diaryImporter';
+import { DIARY_FORMAT_LABELS, type ImportPreview } from '../utils/diaryImport';
+import { parseLocalDateKey } from '../utils/localDate';
+import { hapticSuccess } from '../utils/haptics';
+import { getImportDoneToast, getImportFailureMessage, getImportPartialFailureMessage } from '../copy/experience';
+
+interface DiaryImportPanelProps {
+  userId: string;
+}
+
+// Enough to check the mapping looks right without scrolling through a year.
+const SAMPLE_ROWS = 5;
+
+function formatImportDate(dateKey: string): string {
+  return parseLocalDateKey(dateKey).toLocaleDateString(undefined, { day: 'numeric', month: 'short', year: 'numeric' });
+}
+
+/** Diary CSVs from other trackers: a dry-run preview first, then an explicit import of the new rows only. */
+const DiaryImportPanel: React.FC<DiaryImportPanelProps> = ({ userId }) => {
+  const { timezone } = useUserExperience();
+  const { showToast } = useToast();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const reset = () => {
+    setPreview(null);
+    setError(null);
+    if (inputRef.current) inputRef.current.value = '';
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setBusy(true);
+    setError(null);
+    setPreview(null);
+    try {
+      setPreview(await previewDiaryFile(userId, await file.text(), timezone));
+    } catch (err: unknown) {
+      console.error('Error reading diary export:', err);
+      setError(err instanceof Error ? err.message : getImportFailureMessage());
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!preview) return;
+    setBusy(true);
+    setError(null);
+    try {
+      const { written, error: failure } = await importDiaryEntries(userId, preview.fresh);
+      if (failure) {
+        console.error('Error importing diary entries:', failure);
+        // The preview no longer matches the log; a fresh one skips what got in.
+        if (written) reset();
+        setError(written ? getImportPartialFailureMessage(written, failure) : failure);
+        return;
+      }
+      hapticSuccess();
+      showToast(getImportDoneToast(written));
+      reset();
+    } catch (err: unknown) {
+      console.error('Error importing diary entries:', err);
+      setError(err instanceof Error ? err.message : getImportFailureMessage());
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="diary-import">
+      <p className="form-label">Import from another tracker</p>
+      <p className="form-hint mb-3">
+        MyFitnessPal nutrition export or Cronometer servings export (CSV), read as {timezone} time, or the
+        entries from a Soha &ldquo;Everything&rdquo; export (JSON). Entries only: meals come back ungrouped, and
+        saved foods, targets and weights are not imported.
+      </p>
+
+      <input
+        ref={inputRef}
+        type="file"
+        accept=".csv,text/csv,.json,application/json"
+        disabled={busy}
+        onChange={(e) => handleFile(e.target.files?.[0])}
+        className="diary-import__file"
+        aria-label="Diary CSV or Soha export file"
+      />
+
+      {busy && !preview && <p className="form-hint mt-3">Reading file…</p>}
+
+      {preview && (
+        <div className="diary-import__preview">
+          <p className="diary-import__summary">
+            {DIARY_FORMAT_LABELS[preview.format]}
+            {preview.firstDate && preview.lastDate && (
+              <> · {formatImportDate(preview.firstDate)} – {formatImportDate(preview.lastDate)}</>
+            )}
+          </p>
+
+          <dl className="diary-import__counts">
+            <div>
+              <dt>New</dt>
+              <dd className="tabular-nums">{preview.fresh.length}</dd>
+            </div>
+            <div>
+              <dt>Already logged</dt>
+              <dd className="tabular-nums">{preview.duplicates.length}</dd>
+            </div>
+            <div>
+              <dt>Unreadable</dt>
+              <dd className="tabular-nums">{preview.skipped.length}</dd>
+            </div>
+          </dl>
+
+          {preview.fresh.length > 0 && (
+            <ul className="diary-import__rows">
+              {preview.fresh.slice(0, SAMPLE_ROWS).map((entry) => (
+                <li key={`${entry.created_at}-${entry.food_name}`} className="diary-import__row">
+                  <span className="diary-import__when tabular-nums">{entry.local_date} {entry.local_time}</span>
+                  <span className="diary-import__name">{entry.food_name}</span>
+                  <span className="tabular-nums">{Math.round(entry.calories)} cal</span>
+                </li>
+              ))}
+              {preview.fresh.length > SAMPLE_ROWS && (
+                <li className="form-hint">and {preview.fresh.length - SAMPLE_ROWS} more</li>
+              )}
+            </ul>
+          )}
+
+          {preview.skipped.length > 0 && (
+            <details className="diary-import__skipped">
+              <summary>Why rows were skipped</summary>
+              <ul>
+                {preview.skipped.slice(0, 20).map((row) => (
+                  <li key={row.line}>Line {row.line}: {row.reason}</li>
+                ))}
+              </ul>
+            </details>
+          )}
+
+          <div className="flex gap-3 mt-4">
+            <button
+              type="button"
+              disabled={busy || preview.fresh.length === 0}
+              onClick={handleImport}
+              className="btn-primary"
+            >
+              {busy
+                ? 'Importing…'
+                : preview.fresh.length === 0
+                  ? 'Nothing new to import'
+                  : `Import ${preview.fresh.length} ${preview.fresh.length === 1 ? 'entry' : 'entries'}`}
+            </button>
+            <button type="button" disabled={busy} onClick={reset} className="btn-ghost text-xs py-1.5 px-3">
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {error && <div className="alert-error mt-3">{error}</div>}
+    </div>
+  );
+};
+
+export default DiaryImportPanel;
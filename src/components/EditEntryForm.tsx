@@ -1,5 +1,12 @@
 import React, { useState, useEffect } from 'react';
 import { getEntryUpdateFailureMessage } from '../copy/experience';
+import type { FoodEntry, FoodEntryProvenance } from '../types/foodEntry';
+import {
+  entryReferenceAmount,
+  hasEntryProvenance,
+  provenanceWhisper,
+  userAdjustedEntryProvenance,
+} from '../utils/entryProvenance';
 
 interface FoodEntryData {
   food_name: string;
@@ -8,18 +15,12 @@ interface FoodEntryData {
   carbs: number | null;
   fats: number | null;
   quantity: number;
+  evidence_status?: FoodEntryProvenance['evidence_status'];
+  source_note?: string | null;
 }
 
 interface EditEntryFormProps {
-  entry: {
-    id: number;
-    food_name: string;
-    calories: number;
-    protein: number | null;
-    carbs: number | null;
-    fats: number | null;
-    quantity: number;
-  };
+  entry: FoodEntry;
   onSave: (updatedData: FoodEntryData & { id: number }) => Promise<void>;
   onCancel: () => void;
 }
@@ -78,6 +79,14 @@ const EditEntryForm: React.FC<EditEntryFormProps> = ({ entry, onSave, onCancel }
       quantity: parsedQuantity,
     };
 
+    const macrosChanged = updatedData.calories !== entry.calories
+      || updatedData.protein !== entry.protein
+      || updatedData.carbs !== entry.carbs
+      || updatedData.fats !== entry.fats;
+    if (macrosChanged && hasEntryProvenance(entry)) {
+      Object.assign(updatedData, userAdjustedEntryProvenance());
+    }
+
     try {
       await onSave(updatedData);
     } catch (error: unknown) {
@@ -88,10 +97,37 @@ const EditEntryForm: React.FC<EditEntryFormProps> = ({ entry, onSave, onCancel }
     }
   };
 
+  const referenceAmount = entryReferenceAmount(entry);
+
   return (
     <form onSubmit={handleSubmit} className="space-y-4">
       {errorMessage && <div className="alert-error">{errorMessage}</div>}
 
+      {hasEntryProvenance(entry) && (
+        <div className="entry-provenance">
+          <p className="section-label">Where this came from</p>
+          <p className="entry-provenance__status">
+            {provenanceWhisper(entry)}
+            {referenceAmount && ` · ${referenceAmount.value}${referenceAmount.unit} per item`}
+          </p>
+          {(entry.source_title || entry.source_note) && (
+            entry.source_url ? (
+              <a href={entry.source_url} target="_blank" rel="noreferrer" className="entry-provenance__source">
+                {entry.source_title || entry.source_note}
+              </a>
+            ) : (
+              <p className="entry-provenance__source">{entry.source_title || entry.source_note}</p>
+            )
+          )}
+          {entry.portion_assumption && (
+            <p className="entry-provenance__detail">{entry.portion_assumption}</p>
+          )}
+          {entry.evidence_quote && (
+            <blockquote className="entry-provenance__quote">{entry.evidence_quote}</blockquote>
+          )}
+        </div>
+      )}
+
       <div>
         <label htmlFor="foodName" className="form-label">Food name</label>
         <input
@@ -1,21 +1,20 @@
-import React, { useMemo } from 'react';
+import React, { useMemo, useState } from 'react';
 import { Link } from 'react-router-dom';
 import { SahhaMark } from './SahhaBrand';
 import MacroStatGrid from './MacroStatGrid';
-import { getEmptyStateBody, getEmptyStateCta, getEmptyStateTitle } from '../copy/experience';
+import {
+  getEmptyStateBody,
+  getEmptyStateCta,
+  getEmptyStateTitle,
+  getOutboxFailedHint,
+  getOutboxFailedLabel,
+} from '../copy/experience';
 import { useUserExperience } from '../context/userExperience';
-import { getMealPeriod } from '../utils/mealTotals';
-
-interface FoodEntry {
-  id: number;
-  created_at: string;
-  food_name: string;
-  calories: number;
-  protein: number | null;
-  carbs: number | null;
-  fats: number | null;
-  quantity: number;
-}
+import MacroLine from './MacroLine';
+import { getMealPeriod, sumItemMacros } from '../utils/mealTotals';
+import { entryReferenceAmount, hasEntryProvenance, provenanceWhisper } from '../utils/entryProvenance';
+import type { FoodEntry, Meal } from '../types/foodEntry';
+import type { PendingEntry } from '../utils/outboxQueue';
 
 interface DailyTotals {
   calories: number;
@@ -26,9 +25,16 @@ interface DailyTotals {
 
 interface EntriesTabProps {
   entries: FoodEntry[];
+  meals?: Meal[];
+  /** Logged offline and not yet on the server; shown above the feed. */
+  pending?: PendingEntry[];
+  /** For pending entries the server kept refusing; both act on the whole outbox item. */
+  onRetryPending?: (itemId: string) => void;
+  onDiscardPending?: (itemId: string) => void;
   dailyTotals: DailyTotals;
   onEditEntry: (entry: FoodEntry) => void;
   onDeleteEntry: (id: number) => void;
+  onMealActions?: (meal: Meal) => void;
   isActive: boolean;
   showDayTotals?: boolean;
   highlightLoggedAfter?: number | null;
@@ -41,25 +47,182 @@ const periodClass: Record<string, string> = {
   Dinner: 'entry-card--dinner',
 };
 
+type EntryBlock =
+  | { kind: 'entry'; entry: FoodEntry }
+  | { kind: 'meal'; meal: Meal; entries: FoodEntry[] };
+
+function formatEntryTime(timestamp: string): string {
+  return new Date(timestamp).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' });
+}
+
 const EntriesTab: React.FC<EntriesTabProps> = ({
-  entries, dailyTotals, onEditEntry, onDeleteEntry, isActive, showDayTotals = true,
-  highlightLoggedAfter = null,
+  entries, meals = [], pending = [], onRetryPending, onDiscardPending, dailyTotals, onEditEntry, onDeleteEntry,
+  onMealActions, isActive, showDayTotals = true, highlightLoggedAfter = null,
 }) => {
   const { experience } = useUserExperience();
+  const [collapsedMealIds, setCollapsedMealIds] = useState<Set<number>>(new Set());
 
   const grouped = useMemo(() => {
-    const groups = new Map<string, FoodEntry[]>();
+    const mealsById = new Map(meals.map((meal) => [meal.id, meal]));
+    const mealBlocks = new Map<number, Extract<EntryBlock, { kind: 'meal' }>>();
+    const groups = new Map<string, EntryBlock[]>();
+
+    // Entries arrive newest first; a meal block sits where its first entry does.
     for (const entry of entries) {
+      const meal = entry.meal_id != null ? mealsById.get(entry.meal_id) : undefined;
+      if (meal) {
+        const existing = mealBlocks.get(meal.id);
+        if (existing) {
+          existing.entries.push(entry);
+          continue;
+        }
+        const block = { kind: 'meal' as const, meal, entries: [entry] };
+        mealBlocks.set(meal.id, block);
+        const list = groups.get(meal.meal_period) ?? [];
+        list.push(block);
+        groups.set(meal.meal_period, list);
+        continue;
+      }
+
       const period = getMealPeriod(new Date(entry.created_at));
       const list = groups.get(period) ?? [];
-      list.push(entry);
+      list.push({ kind: 'entry', entry });
       groups.set(period, list);
     }
     const order = ['Breakfast', 'Lunch', 'Snack', 'Dinner'];
     return order
       .filter((p) => groups.has(p))
-      .map((period) => ({ period, items: groups.get(period)! }));
-  }, [entries]);
+      .map((period) => ({ period, blocks: groups.get(period)! }));
+  }, [entries, meals]);
+
+  const toggleMeal = (mealId: number) => {
+    setCollapsedMealIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(mealId)) next.delete(mealId);
+      else next.add(mealId);
+      return next;
+    });
+  };
+
+  const renderEntry = (entry: FoodEntry, period: string) => {
+    const isJustLogged = highlightLoggedAfter !== null
+      && new Date(entry.created_at).getTime() >= highlightLoggedAfter;
+    const referenceAmount = entryReferenceAmount(entry);
+    return (
+      <article
+        key={entry.id}
+        className={`entry-card ${periodClass[period] ?? ''}${isJustLogged ? ' entry-card--just-logged' : ''}`}
+      >
+        <div className="min-w-0 flex-1">
+          <p className="entry-card__name">{entry.food_name}</p>
+          <div className="entry-card__meta">
+            <span className="type-meta">
+              {formatEntryTime(entry.created_at)}
+            </span>
+            <span className="macro-pill macro-pill--calories">
+              {(entry.calories * entry.quantity).toFixed(0)} cal
+            </span>
+            {entry.quantity !== 1 && (
+              <span className="macro-pill macro-pill--neutral">×{entry.quantity}</span>
+            )}
+            {referenceAmount && (
+              <span className="macro-pill macro-pill--neutral">
+                {referenceAmount.value}{referenceAmount.unit}
+              </span>
+            )}
+          </div>
+          {hasEntryProvenance(entry) && (
+            entry.source_url ? (
+              <a
+                href={entry.source_url}
+                target="_blank"
+                rel="noreferrer"
+                className="entry-card__source"
+              >
+                {provenanceWhisper(entry)}
+              </a>
+            ) : (
+              <p className="entry-card__source">{provenanceWhisper(entry)}</p>
+            )
+          )}
+        </div>
+        <div className="entry-card__actions">
+          <button
+            type="button"
+            onClick={() => onEditEntry(entry)}
+            className="entry-card__action"
+            aria-label="Edit"
+          >
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" /></svg>
+          </button>
+          <button
+            type="button"
+            onClick={() => onDeleteEntry(entry.id)}
+            className="entry-card__action entry-card__action--danger"
+            aria-label="Delete"
+          >
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" /></svg>
+          </button>
+        </div>
+      </article>
+    );
+  };
+
+  const renderMeal = (meal: Meal, mealEntries: FoodEntry[], period: string) => {
+    const collapsed = collapsedMealIds.has(meal.id);
+    const subtotal = sumItemMacros(mealEntries);
+    return (
+      <section key={`meal-${meal.id}`} className="meal-group">
+        <div className="meal-group__header">
+          <button
+            type="button"
+            className="meal-group__toggle"
+            onClick={() => toggleMeal(meal.id)}
+            aria-expanded={!collapsed}
+          >
+            <svg
+              className={`meal-group__chevron${collapsed ? '' : ' meal-group__chevron--open'}`}
+              fill="none"
+              stroke="currentColor"
+              viewBox="0 0 24 24"
+              aria-hidden
+            >
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+            </svg>
+            <span className="meal-group__title">
+              <span className="meal-group__name">{meal.name || period}</span>
+              <span className="type-meta">
+                {formatEntryTime(meal.eaten_at)} · {mealEntries.length} item{mealEntries.length === 1 ? '' : 's'}
+              </span>
+            </span>
+            <span className="meal-group__subtotal">
+              <span className="macro-pill macro-pill--calories">{Math.round(subtotal.calories)} cal</span>
+              <MacroLine protein={subtotal.protein} carbs={subtotal.carbs} fats={subtotal.fats} />
+            </span>
+          </button>
+          {onMealActions && (
+            <button
+              type="button"
+              className="entry-card__action"
+              onClick={() => onMealActions(meal)}
+              aria-label={`Meal options for ${meal.name || period}`}
+            >
+              <svg className="h-4 w-4" fill="currentColor" viewBox="0 0 24 24">
+                <circle cx="5" cy="12" r="2" />
+                <circle cx="12" cy="12" r="2" />
+                <circle cx="19" cy="12" r="2" />
+              </svg>
+            </button>
+          )}
+        </div>
+        {!collapsed && (
+          <div className="meal-group__entries space-y-2">
+            {mealEntries.map((entry) => renderEntry(entry, period))}
+          </div>
+        )}
+      </section>
+    );
+  };
 
   return (
     <div className={`transition-opacity duration-300 ${isActive ? 'opacity-100' : 'opacity-0 pointer-events-none'}`}>
@@ -78,7 +241,54 @@ const EntriesTab: React.FC<EntriesTabProps> = ({
         </div>
       )}
 
-      {entries.length === 0 && (
+      {pending.length > 0 && (
+        <section className="pending-sync mb-5" aria-label="Waiting to sync">
+          <p className="entry-group__label">Waiting to sync</p>
+          <div className="space-y-2">
+            {pending.map((entry, index) => (
+              <article
+                key={entry.client_id}
+                className={`entry-card entry-card--pending${entry.failed ? ' entry-card--failed' : ''}`}
+              >
+                <div className="min-w-0 flex-1">
+                  <p className="entry-card__name">{entry.food_name}</p>
+                  <div className="entry-card__meta">
+                    <span className="type-meta">{formatEntryTime(entry.created_at)}</span>
+                    <span className="macro-pill macro-pill--calories">
+                      {(entry.calories * entry.quantity).toFixed(0)} cal
+                    </span>
+                    {entry.failed ? (
+                      <span className="pending-sync__pill pending-sync__pill--failed">{getOutboxFailedLabel()}</span>
+                    ) : (
+                      <span className="pending-sync__pill">Pending</span>
+                    )}
+                  </div>
+                  {/* A meal's entries fail together; explain and offer actions once, after its last one. */}
+                  {entry.failed && pending[index + 1]?.item_id !== entry.item_id && (
+                    <>
+                      {entry.error && <p className="pending-sync__error">{getOutboxFailedHint(entry.error)}</p>}
+                      <div className="pending-sync__actions">
+                        {onRetryPending && (
+                          <button type="button" onClick={() => onRetryPending(entry.item_id)} className="btn-ghost text-xs py-1.5 px-3">
+                            Retry
+                          </button>
+                        )}
+                        {onDiscardPending && (
+                          <button type="button" onClick={() => onDiscardPending(entry.item_id)} className="btn-ghost text-xs py-1.5 px-3">
+                            Discard
+                          </button>
+                        )}
+                      </div>
+                    </>
+                  )}
+                </div>
+              </article>
+            ))}
+          </div>
+        </section>
+      )}
+
+      {entries.length === 0 && pending.length === 0 && (
         <div className="empty-panel">
           <div className="empty-panel__mark">
             <SahhaMark className="brand-mark--hero-sm" glow />
@@ -93,53 +303,15 @@ const EntriesTab: React.FC<EntriesTabProps> = ({
 
       {entries.length > 0 && (
         <div className="entry-feed">
-          {grouped.map(({ period, items }) => (
+          {grouped.map(({ period, blocks }) => (
             <div key={period}>
               <p className="entry-group__label">{period}</p>
               <div className="space-y-2">
-                {items.map((entry) => {
-                  const isJustLogged = highlightLoggedAfter !== null
-                    && new Date(entry.created_at).getTime() >= highlightLoggedAfter;
-                  return (
-                  <article
-                    key={entry.id}
-                    className={`entry-card ${periodClass[period] ?? ''}${isJustLogged ? ' entry-card--just-logged' : ''}`}
-                  >
-                    <div className="min-w-0 flex-1">
-                      <p className="entry-card__name">{entry.food_name}</p>
-                      <div className="entry-card__meta">
-                        <span className="type-meta">
-                          {new Date(entry.created_at).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })}
-                        </span>
-                        <span className="macro-pill macro-pill--calories">
-                          {(entry.calories * entry.quantity).toFixed(0)} cal
-                        </span>
-                        {entry.quantity !== 1 && (
-                          <span className="macro-pill macro-pill--neutral">×{entry.quantity}</span>
-                        )}
-                      </div>
-                    </div>
-                    <div className="entry-card__actions">
-                      <button
-                        type="button"
-                        onClick={() => onEditEntry(entry)}
-                        className="entry-card__action"
-                        aria-label="Edit"
-                      >
-                        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" /></svg>
-                      </button>
-                      <button
-                        type="button"
-                        onClick={() => onDeleteEntry(entry.id)}
-                        className="entry-card__action entry-card__action--danger"
-                        aria-label="Delete"
-                      >
-                        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" /></svg>
-                      </button>
-                    </div>
-                  </article>
-                  );
-                })}
+                {blocks.map((block) => (
+                  block.kind === 'meal'
+                    ? renderMeal(block.meal, block.entries, period)
+                    : renderEntry(block.entry, period)
+                ))}
               </div>
             </div>
           ))}
@@ -4,15 +4,18 @@ import { supabase } from '../supabaseClient';
 import type { Session } from '@supabase/supabase-js';
 import Modal from './Modal';
 import EditEntryForm from './EditEntryForm';
+import MealActionsForm from './MealActionsForm';
+import ParseSessionPanel from './ParseSessionPanel';
 import GoalsSettingsForm from './GoalsSettingsForm';
 import TodayHero from './TodayHero';
+import WeightQuickEntry from './WeightQuickEntry';
 import DatePicker from './DatePicker';
 import { TodayPageSkeleton } from './Skeleton';
 import { computeStreak, datesFromTimestamps, todayDateKey } from '../utils/streak';
 import TabNavigation from './TabNavigation';
 import EntriesTab from './EntriesTab';
 import GoalsTab from './GoalsTab';
-import { formatLocalDateKey, localDayBounds } from '../utils/localDate';
+import { dateKeyInTimezone, formatLocalDateKey, localDayBounds, parseLocalDateKey } from '../utils/localDate';
 import {
   getEntryDeleteFailureMessage,
   getEntryUpdateFailureMessage,
@@ -20,18 +23,22 @@ import {
 } from '../copy/experience';
 import { useUserExperience } from '../context/userExperience';
 import { useToast } from '../context/toast';
-import { getDeleteEntryBody, getDeleteEntryTitle, getLogSuccessToast } from '../copy/experience';
-
-interface FoodEntry {
-  id: number;
-  created_at: string;
-  food_name: string;
-  calories: number;
-  protein: number | null;
-  carbs: number | null;
-  fats: number | null;
-  quantity: number;
-}
+import {
+  getDeleteEntryBody,
+  getDeleteEntryTitle,
+  getLogSuccessToast,
+  getMealActionsTitle,
+  getOutboxDiscardConfirm,
+  getQueuedOfflineToast,
+} from '../copy/experience';
+import type { FoodEntry, FoodEntryProvenance, Meal } from '../types/foodEntry';
+import { deleteMeal, duplicateMeal, fetchMealsInRange, moveMeal, renameMeal } from '../utils/meals';
+import { fetchDailyInsight } from '../utils/dailyInsight';
+import { fetchGoalsForDate } from '../utils/goalSchedule';
+import { usePendingOutbox } from '../hooks/useOutbox';
+import { discardOutboxItem, retryOutboxItem } from '../utils/outbox';
+import { DIARY_IMPORTED_EVENT } from '../utils/diaryImporter';
+import { pendingEntries } from '../utils/outboxQueue';
 
 // Interface for the data to be updated in Supabase
 interface FoodEntryUpdateData {
@@ -41,6 +48,8 @@ interface FoodEntryUpdateData {
     carbs: number | null;
     fats: number | null;
     quantity: number;
+    evidence_status?: FoodEntryProvenance['evidence_status'];
+    source_note?: string | null;
     // user_id and created_at should not be updated directly by the user edit form
 }
 
@@ -62,6 +71,7 @@ const FoodEntryList: React.FC<FoodEntryListProps> = ({ session }) => {
   const { showToast } = useToast();
   const { refresh: refreshExperience, timezone } = useUserExperience();
   const [entries, setEntries] = useState<FoodEntry[]>([]);
+  const [meals, setMeals] = useState<Meal[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [displayedDate, setDisplayedDate] = useState(new Date());
@@ -71,6 +81,9 @@ const FoodEntryList: React.FC<FoodEntryListProps> = ({ session }) => {
   const [isEditModalOpen, setIsEditModalOpen] = useState(false);
   const [entryToEdit, setEntryToEdit] = useState<FoodEntry | null>(null);
 
+  // State for Meal Actions Modal
+  const [mealForActions, setMealForActions] = useState<Meal | null>(null);
+
   // State for Delete Confirmation Modal
   const [isDeleteConfirmOpen, setIsDeleteConfirmOpen] = useState(false);
   const [itemIdToDelete, setItemIdToDelete] = useState<number | null>(null);
@@ -89,6 +102,7 @@ const FoodEntryList: React.FC<FoodEntryListProps> = ({ session }) => {
     daily_fats_goal: number;
   } | null>(null);
   const [streak, setStreak] = useState(0);
+  const [dailyInsight, setDailyInsight] = useState<string | null>(null);
   const [goalsLoading, setGoalsLoading] = useState(true);
 
   // Calculate daily totals
@@ -132,6 +146,48 @@ const FoodEntryList: React.FC<FoodEntryListProps> = ({ session }) => {
     }
   }, [session.user.id, timezone]);
 
+  // Meal headers are decoration over the entry list: if they fail to load,
+  // entries still render ungrouped.
+  const fetchMeals = useCallback(async (date: Date) => {
+    const { dayStart, dayEnd } = localDayBounds(date, timezone);
+    try {
+      setMeals(await fetchMealsInRange(session.user.id, dayStart, dayEnd));
+    } catch (err: unknown) {
+      console.error('Error fetching meals:', err);
+      setMeals([]);
+    }
+  }, [session.user.id, timezone]);
+
+  // The insight is a nice-to-have line under the hero; failures just hide it.
+  // The server caches it per set of facts, so refetch whenever the day's totals
+  // or the target change — an edited quantity moves the numbers without
+  // changing how many entries there are.
+  const insightKey = isToday(displayedDate) && entries.length > 0
+    ? JSON.stringify({
+      calories: Math.round(dailyTotals.calories),
+      protein: Math.round(dailyTotals.protein),
+      carbs: Math.round(dailyTotals.carbs),
+      fats: Math.round(dailyTotals.fats),
+      goals: userGoals,
+    })
+    : null;
+  useEffect(() => {
+    if (insightKey === null) {
+      setDailyInsight(null);
+      return;
+    }
+    let cancelled = false;
+    fetchDailyInsight(new Date(), timezone)
+      .then((insight) => {
+        if (!cancelled) setDailyInsight(insight?.insight_text ?? null);
+      })
+      .catch((err: unknown) => {
+        console.warn('Error fetching daily insight:', err);
+        if (!cancelled) setDailyInsight(null);
+      });
+    return () => { cancelled = true; };
+  }, [insightKey, timezone]);
+
   // Function to fetch user goals
   const fetchStreak = useCallback(async () => {
     try {
@@ -152,32 +208,19 @@ const FoodEntryList: React.FC<FoodEntryListProps> = ({ session }) => {
     }
   }, [session.user.id, timezone]);
 
-  const fetchUserGoals = useCallback(async () => {
+  // Goals for the day on screen: a weekday schedule or date override can differ from the default.
+  const fetchUserGoals = useCallback(async (date: Date) => {
     try {
       setGoalsLoading(true);
-
-      const { data, error } = await supabase
-        .from('user_goals')
-        .select('daily_calories_goal, daily_protein_goal, daily_carbs_goal, daily_fats_goal')
-        .eq('user_id', session.user.id)
-        .single();
-
-      if (error) {
-        if (error.code === 'PGRST116') {
-          setUserGoals(null);
-        } else {
-          throw error;
-        }
-      } else {
-        setUserGoals(data);
-      }
+      const { dateKey } = localDayBounds(date, timezone);
+      setUserGoals(await fetchGoalsForDate(session.user.id, dateKey));
     } catch (err: unknown) {
       console.error('Error fetching user goals:', err);
       setUserGoals(null);
     } finally {
       setGoalsLoading(false);
     }
-  }, [session.user.id]); // Dependency on session.user.id
+  }, [session.user.id, timezone]);
 
   // Function to handle deleting an entry
   // Step 1: Open the confirmation modal
@@ -225,18 +268,30 @@ const FoodEntryList: React.FC<FoodEntryListProps> = ({ session }) => {
   useEffect(() => {
     if (session) {
       fetchEntries(displayedDate);
-      fetchUserGoals();
+      fetchMeals(displayedDate);
+      fetchUserGoals(displayedDate);
       fetchStreak();
     }
-  }, [session, displayedDate, fetchEntries, fetchUserGoals, fetchStreak]);
+  }, [session, displayedDate, fetchEntries, fetchMeals, fetchUserGoals, fetchStreak]);
 
   useEffect(() => {
     const state = location.state as {
-      logSuccess?: { calories: number; loggedAt: number };
+      logSuccess?: { calories: number; loggedAt: number; queued?: boolean };
+      /** Opened from a day in the Weekly/Monthly charts */
+      showDate?: string;
     } | null;
 
+    if (state?.showDate) {
+      setDisplayedDate(parseLocalDateKey(state.showDate));
+      setActiveTab('entries');
+      window.history.replaceState({}, document.title);
+      return;
+    }
+
     if (state?.logSuccess) {
-      showToast(getLogSuccessToast(state.logSuccess.calories));
+      showToast(state.logSuccess.queued
+        ? getQueuedOfflineToast(state.logSuccess.calories)
+        : getLogSuccessToast(state.logSuccess.calories));
       setHighlightLoggedAfter(state.logSuccess.loggedAt - 2000);
       setDisplayedDate(new Date());
       setActiveTab('entries');
@@ -245,6 +300,39 @@ const FoodEntryList: React.FC<FoodEntryListProps> = ({ session }) => {
     }
   }, [location.state, showToast]);
 
+  // Entries logged offline, shown for their day until the outbox sends them.
+  const refetchAfterSync = useCallback(() => {
+    fetchEntries(displayedDate);
+    fetchMeals(displayedDate);
+    fetchStreak();
+    refreshExperience();
+  }, [displayedDate, fetchEntries, fetchMeals, fetchStreak, refreshExperience]);
+  const outboxItems = usePendingOutbox(session.user.id, refetchAfterSync);
+
+  // A diary import from Settings can add to the day on screen.
+  useEffect(() => {
+    window.addEventListener(DIARY_IMPORTED_EVENT, refetchAfterSync);
+    return () => window.removeEventListener(DIARY_IMPORTED_EVENT, refetchAfterSync);
+  }, [refetchAfterSync]);
+
+  const pending = React.useMemo(() => {
+    const dateKey = formatDate(displayedDate);
+    return pendingEntries(outboxItems)
+      .filter((entry) => dateKeyInTimezone(timezone, new Date(entry.created_at)) === dateKey);
+  }, [outboxItems, displayedDate, timezone]);
+
+  const handleRetryPending = (itemId: string) => {
+    const item = outboxItems.find((candidate) => candidate.client_id === itemId);
+    if (!item) return;
+    retryOutboxItem(item).catch((err: unknown) => console.warn('Outbox retry failed', err));
+  };
+
+  const handleDiscardPending = (itemId: string) => {
+    const count = pending.filter((entry) => entry.item_id === itemId).length;
+    if (!window.confirm(getOutboxDiscardConfirm(count))) return;
+    discardOutboxItem(itemId).catch((err: unknown) => console.warn('Could not discard outbox item', err));
+  };
+
   // Effect for Realtime subscription
   useEffect(() => {
     if (!session) return;
@@ -268,6 +356,7 @@ const FoodEntryList: React.FC<FoodEntryListProps> = ({ session }) => {
           if (isToday(displayedDate) && formatDate(newEntryDate) === formatDate(displayedDate)) {
              console.log('New entry received for today:', payload);
              setEntries(currentEntries => [payload.new as FoodEntry, ...currentEntries].sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime()));
+             if (payload.new.meal_id != null) fetchMeals(displayedDate);
              fetchStreak();
              refreshExperience();
           }
@@ -279,7 +368,7 @@ const FoodEntryList: React.FC<FoodEntryListProps> = ({ session }) => {
       supabase.removeChannel(channel);
     };
 
-  }, [session, displayedDate, fetchStreak, refreshExperience]);
+  }, [session, displayedDate, fetchMeals, fetchStreak, refreshExperience]);
 
   // --- Edit Modal Handlers ---
   const handleOpenEditModal = (entry: FoodEntry) => {
@@ -309,6 +398,11 @@ const FoodEntryList: React.FC<FoodEntryListProps> = ({ session }) => {
           carbs: updatedData.carbs,
           fats: updatedData.fats,
           quantity: updatedData.quantity,
+          // Provenance only changes when the form overrode the logged macros.
+          ...(updatedData.evidence_status !== undefined && {
+            evidence_status: updatedData.evidence_status,
+            source_note: updatedData.source_note ?? null,
+          }),
           // Note: We don't update created_at or user_id here.
           // Supabase automatically updates an 'updated_at' column if it exists and is configured for auto-update.
           // We don't have one explicitly, but good to keep in mind.
@@ -347,6 +441,45 @@ const FoodEntryList: React.FC<FoodEntryListProps> = ({ session }) => {
   };
   // --- End Edit Modal Handlers ---
 
+  // --- Meal Actions Handlers ---
+  const reloadDay = () => {
+    fetchEntries(displayedDate);
+    fetchMeals(displayedDate);
+    fetchStreak();
+    refreshExperience();
+  };
+
+  const handleRenameMeal = async (name: string) => {
+    if (!mealForActions) return;
+    await renameMeal(session.user.id, mealForActions.id, name);
+    setMeals(current => current.map(meal => (
+      meal.id === mealForActions.id ? { ...meal, name: name.trim() || null } : meal
+    )));
+    setMealForActions(null);
+  };
+
+  const handleMoveMeal = async (date: Date) => {
+    if (!mealForActions) return;
+    await moveMeal(mealForActions, date);
+    setMealForActions(null);
+    reloadDay();
+  };
+
+  const handleDuplicateMeal = async (date: Date) => {
+    if (!mealForActions) return;
+    await duplicateMeal(session.user.id, mealForActions, date);
+    setMealForActions(null);
+    reloadDay();
+  };
+
+  const handleDeleteMeal = async () => {
+    if (!mealForActions) return;
+    await deleteMeal(session.user.id, mealForActions.id);
+    setMealForActions(null);
+    reloadDay();
+  };
+  // --- End Meal Actions Handlers ---
+
   const goToPreviousDay = () => {
     setDisplayedDate(prevDate => {
       const newDate = new Date(prevDate);
@@ -373,7 +506,7 @@ const FoodEntryList: React.FC<FoodEntryListProps> = ({ session }) => {
   };
 
   const handleGoalsUpdated = () => {
-    fetchUserGoals();
+    fetchUserGoals(displayedDate);
     refreshExperience();
   };
 
@@ -399,12 +532,16 @@ const FoodEntryList: React.FC<FoodEntryListProps> = ({ session }) => {
       />
 
       {isToday(displayedDate) && (
-        <TodayHero
-          dailyTotals={dailyTotals}
-          userGoals={userGoals}
-          streak={streak}
-          onSetTargets={handleGoalsClick}
-        />
+        <>
+          <TodayHero
+            dailyTotals={dailyTotals}
+            userGoals={userGoals}
+            streak={streak}
+            insight={dailyInsight}
+            onSetTargets={handleGoalsClick}
+          />
+          <WeightQuickEntry userId={session.user.id} />
+        </>
       )}
 
       <TabNavigation
@@ -422,9 +559,14 @@ const FoodEntryList: React.FC<FoodEntryListProps> = ({ session }) => {
         {activeTab === 'entries' ? (
           <EntriesTab
             entries={entries}
+            meals={meals}
+            pending={pending}
+            onRetryPending={handleRetryPending}
+            onDiscardPending={handleDiscardPending}
             dailyTotals={dailyTotals}
             onEditEntry={handleOpenEditModal}
             onDeleteEntry={requestDeleteEntry}
+            onMealActions={setMealForActions}
             isActive={true}
             showDayTotals={!isToday(displayedDate)}
             highlightLoggedAfter={highlightLoggedAfter}
@@ -449,6 +591,24 @@ const FoodEntryList: React.FC<FoodEntryListProps> = ({ session }) => {
             onSave={handleUpdateEntry} 
             onCancel={handleCloseEditModal} 
           />
+          {entryToEdit.parse_session_id != null && (
+            <ParseSessionPanel session={session} parseSessionId={entryToEdit.parse_session_id} />
+          )}
+        </Modal>
+      )}
+
+      {/* Meal Actions Modal */}
+      {mealForActions && (
+        <Modal isOpen={true} onClose={() => setMealForActions(null)} title={getMealActionsTitle()}>
+          <MealActionsForm
+            meal={mealForActions}
+            itemCount={entries.filter(entry => entry.meal_id === mealForActions.id).length}
+            onRename={handleRenameMeal}
+            onMove={handleMoveMeal}
+            onDuplicate={handleDuplicateMeal}
+            onDelete={handleDeleteMeal}
+            onCancel={() => setMealForActions(null)}
+          />
         </Modal>
       )}
 
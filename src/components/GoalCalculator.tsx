@@ -0,0 +1,180 @@
+import React, { useState } from 'react';
+import MacroLine from './MacroLine';
+import {
+  ACTIVITY_LEVEL_OPTIONS,
+  bodyStatsError,
+  calculateGoals,
+  GOAL_TYPE_OPTIONS,
+  type ActivityLevel,
+  type BiologicalSex,
+  type BodyStats,
+  type GoalCalculation,
+  type GoalType,
+} from '../utils/goalCalculator';
+
+interface GoalCalculatorProps {
+  /** Saved stats to start from, so a recalculation only needs the changes. */
+  initial: BodyStats | null;
+  onApply: (calculation: GoalCalculation, stats: BodyStats) => void;
+  applying?: boolean;
+}
+
+interface CalculatorForm {
+  sex: BiologicalSex | '';
+  age: string;
+  height_cm: string;
+  weight_kg: string;
+  activity_level: ActivityLevel;
+  goal_type: GoalType;
+}
+
+function toForm(stats: BodyStats | null): CalculatorForm {
+  return {
+    sex: stats?.sex ?? '',
+    age: stats ? String(stats.age) : '',
+    height_cm: stats ? String(stats.height_cm) : '',
+    weight_kg: stats ? String(stats.weight_kg) : '',
+    activity_level: stats?.activity_level ?? 'light',
+    goal_type: stats?.goal_type ?? 'maintain',
+  };
+}
+
+function fromForm(form: CalculatorForm): BodyStats {
+  return {
+    sex: form.sex as BiologicalSex,
+    age: Number.parseFloat(form.age),
+    height_cm: Number.parseFloat(form.height_cm),
+    weight_kg: Number.parseFloat(form.weight_kg),
+    activity_level: form.activity_level,
+    goal_type: form.goal_type,
+  };
+}
+
+/** Suggests targets from sex, age, height, weight, activity and goal. Nothing is saved until "Use these". */
+const GoalCalculator: React.FC<GoalCalculatorProps> = ({ initial, onApply, applying = false }) => {
+  const [form, setForm] = useState<CalculatorForm>(() => toForm(initial));
+
+  const stats = fromForm(form);
+  const invalid = bodyStatsError(stats);
+  const calculation = invalid ? null : calculateGoals(stats);
+  const activityHint = ACTIVITY_LEVEL_OPTIONS.find((option) => option.value === form.activity_level)?.hint;
+
+  const update = (patch: Partial<CalculatorForm>) => setForm((prev) => ({ ...prev, ...patch }));
+
+  return (
+    <div className="goal-calculator">
+      <div className="goal-calculator__choices" role="radiogroup" aria-label="Sex">
+        {(['female', 'male'] as const).map((sex) => (
+          <button
+            key={sex}
+            type="button"
+            role="radio"
+            aria-checked={form.sex === sex}
+            onClick={() => update({ sex })}
+            className={`goal-calculator__choice ${form.sex === sex ? 'goal-calculator__choice--active' : ''}`}
+          >
+            {sex === 'female' ? 'Female' : 'Male'}
+          </button>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-3 gap-3">
+        <div>
+          <label htmlFor="calc_age" className="form-label-sm">Age</label>
+          <input
+            id="calc_age"
+            type="number"
+            value={form.age}
+            onChange={(e) => update({ age: e.target.value })}
+            min="14"
+            max="100"
+            inputMode="numeric"
+            className="input-premium"
+          />
+        </div>
+        <div>
+          <label htmlFor="calc_height" className="form-label-sm">Height (cm)</label>
+          <input
+            id="calc_height"
+            type="number"
+            value={form.height_cm}
+            onChange={(e) => update({ height_cm: e.target.value })}
+            min="120"
+            max="230"
+            inputMode="numeric"
+            className="input-premium"
+          />
+        </div>
+        <div>
+          <label htmlFor="calc_weight" className="form-label-sm">Weight (kg)</label>
+          <input
+            id="calc_weight"
+            type="number"
+            value={form.weight_kg}
+            onChange={(e) => update({ weight_kg: e.target.value })}
+            min="30"
+            max="300"
+            step="0.1"
+            inputMode="decimal"
+            className="input-premium"
+          />
+        </div>
+      </div>
+
+      <div>
+        <label htmlFor="calc_activity" className="form-label-sm">Activity</label>
+        <select
+          id="calc_activity"
+          value={form.activity_level}
+          onChange={(e) => update({ activity_level: e.target.value as ActivityLevel })}
+          className="input-premium"
+        >
+          {ACTIVITY_LEVEL_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+        {activityHint && <p className="form-hint">{activityHint}</p>}
+      </div>
+
+      <div className="goal-calculator__choices" role="radiogroup" aria-label="Goal">
+        {GOAL_TYPE_OPTIONS.map((option) => (
+          <button
+            key={option.value}
+            type="button"
+            role="radio"
+            aria-checked={form.goal_type === option.value}
+            onClick={() => update({ goal_type: option.value })}
+            className={`goal-calculator__choice ${form.goal_type === option.value ? 'goal-calculator__choice--active' : ''}`}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+
+      {calculation ? (
+        <div className="goal-calculator__result">
+          <p className="form-label-sm">
+            Maintenance ≈ {calculation.tdee.toLocaleString()} cal · suggested {calculation.goals.daily_calories_goal.toLocaleString()} cal
+          </p>
+          <MacroLine
+            protein={calculation.goals.daily_protein_goal}
+            carbs={calculation.goals.daily_carbs_goal}
+            fats={calculation.goals.daily_fats_goal}
+          />
+          <button
+            type="button"
+            disabled={applying}
+            onClick={() => onApply(calculation, stats)}
+            className="btn-secondary"
+          >
+            {applying ? 'Saving…' : 'Use these targets'}
+          </button>
+        </div>
+      ) : (
+        <p className="form-hint">{form.sex && form.age && form.height_cm && form.weight_kg ? invalid : 'Fill in your details to see suggested targets'}</p>
+      )}
+    </div>
+  );
+};
+
+export default GoalCalculator;
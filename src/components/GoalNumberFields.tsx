@@ -0,0 +1,41 @@
+import React from 'react';
+import type { GoalFormValues } from '../utils/goalSchedule';
+
+interface GoalNumberFieldsProps {
+  value: GoalFormValues;
+  onChange: (value: GoalFormValues) => void;
+  /** Prefix for input ids so several rows can sit in one form. */
+  idPrefix: string;
+}
+
+const FIELDS: Array<{ key: keyof GoalFormValues; label: string; className: string; min: string; max: string; step: string }> = [
+  { key: 'daily_calories_goal', label: 'Cal', className: 'text-macro-calories', min: '500', max: '10000', step: '50' },
+  { key: 'daily_protein_goal', label: 'P (g)', className: 'text-macro-protein', min: '0', max: '500', step: '5' },
+  { key: 'daily_carbs_goal', label: 'C (g)', className: 'text-macro-carbs', min: '0', max: '1000', step: '10' },
+  { key: 'daily_fats_goal', label: 'F (g)', className: 'text-macro-fats', min: '0', max: '300', step: '5' },
+];
+
+/** The four daily targets in one compact row, for schedule and override lines. */
+const GoalNumberFields: React.FC<GoalNumberFieldsProps> = ({ value, onChange, idPrefix }) => (
+  <div className="goal-number-fields">
+    {FIELDS.map((field) => (
+      <label key={field.key} htmlFor={`${idPrefix}_${field.key}`} className="goal-number-fields__field">
+        <span className={`form-label-sm ${field.className}`}>{field.label}</span>
+        <input
+          type="number"
+          id={`${idPrefix}_${field.key}`}
+          value={value[field.key]}
+          onChange={(e) => onChange({ ...value, [field.key]: e.target.value })}
+          required
+          min={field.min}
+          max={field.max}
+          step={field.step}
+          inputMode="numeric"
+          className="input-premium"
+        />
+      </label>
+    ))}
+  </div>
+);
+
+export default GoalNumberFields;
@@ -0,0 +1,124 @@
+import React, { useState } from 'react';
+import GoalNumberFields from './GoalNumberFields';
+import {
+  deleteGoalOverride,
+  goalsFromForm,
+  goalTargetsError,
+  saveGoalOverride,
+  type GoalFormValues,
+  type GoalOverrideRow,
+} from '../utils/goalSchedule';
+import { formatLocalDateKey, parseLocalDateKey } from '../utils/localDate';
+import { hapticLight } from '../utils/haptics';
+
+interface GoalOverrideListProps {
+  userId: string;
+  /** Upcoming overrides, soonest first. */
+  overrides: GoalOverrideRow[];
+  defaults: GoalFormValues;
+  onChanged: () => void;
+}
+
+function formatOverrideDate(dateKey: string): string {
+  return parseLocalDateKey(dateKey).toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric' });
+}
+
+/** One-off targets for a single date. Saved as soon as they are added or removed. */
+const GoalOverrideList: React.FC<GoalOverrideListProps> = ({ userId, overrides, defaults, onChanged }) => {
+  const [goalDate, setGoalDate] = useState(() => formatLocalDateKey(new Date()));
+  const [values, setValues] = useState<GoalFormValues | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await action();
+      hapticLight();
+      onChanged();
+    } catch (err: unknown) {
+      console.error('Error saving goal override:', err);
+      setError(err instanceof Error ? err.message : 'Could not save that day.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleAdd = () => {
+    if (!values) return;
+    const goals = goalsFromForm(values);
+    const invalid = goalTargetsError(goals);
+    if (invalid) {
+      setError(invalid);
+      return;
+    }
+    run(async () => {
+      await saveGoalOverride(userId, { goal_date: goalDate, ...goals });
+      setValues(null);
+    });
+  };
+
+  return (
+    <div className="goal-schedule">
+      <p className="form-label">One-off days</p>
+      <p className="form-hint mb-3">Different targets for a single date, like a long run or a big dinner</p>
+
+      {overrides.map((row) => (
+        <div key={row.goal_date} className="goal-schedule__day">
+          <div className="goal-schedule__day-head">
+            <span className="goal-schedule__day-name">
+              {formatOverrideDate(row.goal_date)}
+              <span className="goal-schedule__default"> · {Math.round(row.daily_calories_goal)} cal · P {Math.round(row.daily_protein_goal)}g</span>
+            </span>
+            <button
+              type="button"
+              disabled={busy}
+              onClick={() => run(() => deleteGoalOverride(userId, row.goal_date))}
+              className="btn-ghost text-xs py-1.5 px-3"
+              aria-label={`Remove targets for ${formatOverrideDate(row.goal_date)}`}
+            >
+              Remove
+            </button>
+          </div>
+        </div>
+      ))}
+
+      {values ? (
+        <div className="goal-schedule__day">
+          <input
+            type="date"
+            id="goal_override_date"
+            aria-label="Date"
+            value={goalDate}
+            onChange={(e) => {
+              if (e.target.value) setGoalDate(e.target.value);
+            }}
+            className="input-premium"
+          />
+          <GoalNumberFields value={values} onChange={setValues} idPrefix="goal_override" />
+          <div className="flex gap-3">
+            <button type="button" disabled={busy} onClick={handleAdd} className="btn-secondary">
+              {busy ? 'Saving…' : 'Save day'}
+            </button>
+            <button type="button" disabled={busy} onClick={() => setValues(null)} className="btn-ghost text-xs py-1.5 px-3">
+              Cancel
+            </button>
+          </div>
+        </div>
+      ) : (
+        <button
+          type="button"
+          onClick={() => setValues({ ...defaults })}
+          className="btn-ghost text-xs py-1.5 px-3"
+        >
+          + Add a day
+        </button>
+      )}
+
+      {error && <div className="alert-error">{error}</div>}
+    </div>
+  );
+};
+
+export default GoalOverrideList;
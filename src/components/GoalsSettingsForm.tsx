@@ -4,6 +4,7 @@ import type { Session } from '@supabase/supabase-js';
 import Modal from './Modal';
 import LoadingState from './LoadingState';
 import {
+  getGoalCalculatorCta,
   getGoalsModalTitle,
   getGoalsSaveFailureMessage,
   getGoalsSavedMessage,
@@ -12,13 +13,39 @@ import {
   getTabLoadingLabel,
 } from '../copy/experience';
 import { hapticSuccess } from '../utils/haptics';
+import { formatLocalDateKey } from '../utils/localDate';
+import {
+  fetchGoalPlan,
+  goalsFromForm,
+  goalsToForm,
+  goalTargetsError,
+  saveWeekdaySchedule,
+  WEEKDAY_LABELS,
+  type GoalFormValues,
+  type GoalOverrideRow,
+  type WeekdayGoalRow,
+} from '../utils/goalSchedule';
+import { fetchBodyStats, saveBodyStats, updateWeekStart } from '../utils/profile';
+import type { BodyStats, GoalCalculation } from '../utils/goalCalculator';
+import WeekdayGoalSchedule from './WeekdayGoalSchedule';
+import GoalCalculator from './GoalCalculator';
+import AdaptiveTdeeSuggestion from './AdaptiveTdeeSuggestion';
+import { fetchAdaptiveTdee } from '../utils/maintenanceEstimate';
+import type { AdaptiveTdeeEstimate } from '../utils/adaptiveTdee';
+import { useUserExperience } from '../context/userExperience';
+import GoalOverrideList from './GoalOverrideList';
 
-interface GoalsFormData {
-  daily_calories_goal: string;
-  daily_protein_goal: string;
-  daily_carbs_goal: string;
-  daily_fats_goal: string;
-}
+type GoalsFormData = GoalFormValues;
+
+// Monday for most of the world, Sunday for the US and a few others.
+const WEEK_START_CHOICES = [1, 0];
+
+const emptyWeekdays = (): Array<GoalsFormData | null> => WEEKDAY_LABELS.map(() => null);
+
+const upcomingOverrides = (rows: GoalOverrideRow[]): GoalOverrideRow[] => {
+  const today = formatLocalDateKey(new Date());
+  return rows.filter((row) => row.goal_date >= today);
+};
 
 interface GoalsSettingsFormProps {
   session: Session;
@@ -40,6 +67,14 @@ const GoalsSettingsForm: React.FC<GoalsSettingsFormProps> = ({
     daily_fats_goal: '65',
   });
 
+  const [weekdays, setWeekdays] = useState<Array<GoalsFormData | null>>(emptyWeekdays);
+  const [bodyStats, setBodyStats] = useState<BodyStats | null>(null);
+  const [bodyStatsChanged, setBodyStatsChanged] = useState(false);
+  const [showCalculator, setShowCalculator] = useState(false);
+  const [tdeeEstimate, setTdeeEstimate] = useState<AdaptiveTdeeEstimate | null>(null);
+  const { timezone, weekStart: savedWeekStart, refresh: refreshExperience } = useUserExperience();
+  const [weekStart, setWeekStart] = useState(savedWeekStart);
+  const [overrides, setOverrides] = useState<GoalOverrideRow[]>([]);
   const [loading, setLoading] = useState(false);
   const [saving, setSaving] = useState(false);
   const [message, setMessage] = useState<string | null>(null);
@@ -50,22 +85,35 @@ const GoalsSettingsForm: React.FC<GoalsSettingsFormProps> = ({
       setLoading(true);
       setMessage(null);
 
-      const { data, error } = await supabase
-        .from('user_goals')
-        .select('daily_calories_goal, daily_protein_goal, daily_carbs_goal, daily_fats_goal')
-        .eq('user_id', session.user.id)
-        .single();
+      const [{ data, error }, plan, stats, estimate] = await Promise.all([
+        supabase
+          .from('user_goals')
+          .select('daily_calories_goal, daily_protein_goal, daily_carbs_goal, daily_fats_goal')
+          .eq('user_id', session.user.id)
+          .single(),
+        fetchGoalPlan(session.user.id),
+        fetchBodyStats(session.user.id),
+        // A suggestion only — without it the form works exactly as before.
+        fetchAdaptiveTdee(session.user.id, timezone).catch((err: unknown) => {
+          console.warn('Maintenance estimate unavailable:', err);
+          return null;
+        }),
+      ]);
 
       if (error) {
         if (error.code !== 'PGRST116') throw error;
       } else {
-        setFormData({
-          daily_calories_goal: data.daily_calories_goal.toString(),
-          daily_protein_goal: data.daily_protein_goal.toString(),
-          daily_carbs_goal: data.daily_carbs_goal.toString(),
-          daily_fats_goal: data.daily_fats_goal.toString(),
-        });
+        setFormData(goalsToForm(data));
       }
+
+      const scheduled = emptyWeekdays();
+      for (const row of plan.weekdays) scheduled[row.weekday] = goalsToForm(row);
+      setWeekdays(scheduled);
+      setBodyStats(stats);
+      setTdeeEstimate(estimate);
+      setBodyStatsChanged(false);
+      setShowCalculator(false);
+      setOverrides(upcomingOverrides(plan.overrides));
     } catch (err: unknown) {
       console.error('Error fetching goals:', err);
       setMessage('Could not load your targets.');
@@ -73,7 +121,14 @@ const GoalsSettingsForm: React.FC<GoalsSettingsFormProps> = ({
     } finally {
       setLoading(false);
     }
-  }, [session.user.id]);
+  }, [session.user.id, timezone]);
+
+  // Overrides save on their own, so only the list reloads — unsaved edits above stay put.
+  const refreshOverrides = useCallback(async () => {
+    const plan = await fetchGoalPlan(session.user.id);
+    setOverrides(upcomingOverrides(plan.overrides));
+    onGoalsUpdated?.();
+  }, [session.user.id, onGoalsUpdated]);
 
   useEffect(() => {
     if (isOpen) {
@@ -81,11 +136,22 @@ const GoalsSettingsForm: React.FC<GoalsSettingsFormProps> = ({
     }
   }, [isOpen, fetchCurrentGoals]);
 
+  useEffect(() => {
+    if (isOpen) setWeekStart(savedWeekStart);
+  }, [isOpen, savedWeekStart]);
+
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const { name, value } = e.target;
     setFormData((prev) => ({ ...prev, [name]: value }));
   };
 
+  const handleCalculatorApply = (calculation: GoalCalculation, stats: BodyStats) => {
+    setFormData(goalsToForm(calculation.goals));
+    setBodyStats(stats);
+    setBodyStatsChanged(true);
+    setShowCalculator(false);
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
@@ -93,30 +159,36 @@ const GoalsSettingsForm: React.FC<GoalsSettingsFormProps> = ({
       setSaving(true);
       setMessage(null);
 
-      const calories = parseFloat(formData.daily_calories_goal);
-      const protein = parseFloat(formData.daily_protein_goal);
-      const carbs = parseFloat(formData.daily_carbs_goal);
-      const fats = parseFloat(formData.daily_fats_goal);
+      const goals = goalsFromForm(formData);
+      const invalid = goalTargetsError(goals);
+      if (invalid) throw new Error(invalid);
 
-      if (calories < 500 || calories > 10000) throw new Error('Calories must be between 500 and 10,000');
-      if (protein < 0 || protein > 500) throw new Error('Protein must be between 0 and 500g');
-      if (carbs < 0 || carbs > 1000) throw new Error('Carbs must be between 0 and 1,000g');
-      if (fats < 0 || fats > 300) throw new Error('Fats must be between 0 and 300g');
+      const schedule: WeekdayGoalRow[] = [];
+      weekdays.forEach((day, weekday) => {
+        if (!day) return;
+        const dayGoals = goalsFromForm(day);
+        const dayInvalid = goalTargetsError(dayGoals);
+        if (dayInvalid) throw new Error(`${WEEKDAY_LABELS[weekday]}: ${dayInvalid}`);
+        schedule.push({ weekday, ...dayGoals });
+      });
 
       const { error } = await supabase
         .from('user_goals')
         .upsert(
           {
             user_id: session.user.id,
-            daily_calories_goal: calories,
-            daily_protein_goal: protein,
-            daily_carbs_goal: carbs,
-            daily_fats_goal: fats,
+            ...goals,
           },
           { onConflict: 'user_id' },
         );
 
       if (error) throw error;
+      await saveWeekdaySchedule(session.user.id, schedule);
+      if (bodyStats && bodyStatsChanged) await saveBodyStats(session.user.id, bodyStats);
+      if (weekStart !== savedWeekStart) {
+        await updateWeekStart(session.user.id, weekStart);
+        await refreshExperience();
+      }
 
       hapticSuccess();
       setMessage(getGoalsSavedMessage());
@@ -146,6 +218,22 @@ const GoalsSettingsForm: React.FC<GoalsSettingsFormProps> = ({
         />
       ) : (
         <form onSubmit={handleSubmit} className="goals-form space-y-5">
+          <div>
+            <button
+              type="button"
+              onClick={() => setShowCalculator((open) => !open)}
+              aria-expanded={showCalculator}
+              className="btn-ghost text-xs py-1.5 px-3"
+            >
+              {showCalculator ? 'Hide calculator' : bodyStats ? 'Recalculate from my stats' : getGoalCalculatorCta()}
+            </button>
+            {showCalculator && (
+              <div className="mt-3">
+                <GoalCalculator initial={bodyStats} onApply={handleCalculatorApply} />
+              </div>
+            )}
+          </div>
+
           <div>
             <label htmlFor="daily_calories_goal" className="form-label">
               Daily calories
@@ -164,6 +252,16 @@ const GoalsSettingsForm: React.FC<GoalsSettingsFormProps> = ({
               className="input-premium text-macro-calories"
             />
             <p className="form-hint">Recommended: 1,800–2,500 calories</p>
+            {tdeeEstimate && (
+              <div className="mt-3">
+                <AdaptiveTdeeSuggestion
+                  estimate={tdeeEstimate}
+                  goalType={bodyStats?.goal_type ?? null}
+                  currentCalories={parseFloat(formData.daily_calories_goal)}
+                  onAccept={(calories) => setFormData((prev) => ({ ...prev, daily_calories_goal: String(calories) }))}
+                />
+              </div>
+            )}
           </div>
 
           <div>
@@ -227,6 +325,27 @@ const GoalsSettingsForm: React.FC<GoalsSettingsFormProps> = ({
             <p className="form-hint mt-2">Typical ratios: 25% protein, 45% carbs, 30% fats</p>
           </div>
 
+          <div>
+            <p className="form-label">Week starts on</p>
+            <div className="segment-tabs" role="radiogroup" aria-label="Week starts on">
+              {WEEK_START_CHOICES.map((weekday) => (
+                <button
+                  key={weekday}
+                  type="button"
+                  role="radio"
+                  aria-checked={weekStart === weekday}
+                  onClick={() => setWeekStart(weekday)}
+                  className={`segment-tabs__btn ${weekStart === weekday ? 'segment-tabs__btn--active' : ''}`}
+                >
+                  {WEEKDAY_LABELS[weekday]}
+                </button>
+              ))}
+            </div>
+            <p className="form-hint">Used for weekly summaries</p>
+          </div>
+
+          <WeekdayGoalSchedule value={weekdays} defaults={formData} weekStart={weekStart} onChange={setWeekdays} />
+
           {message && (
             <div className={messageIsError ? 'alert-error' : 'alert-success'}>
               {message}
@@ -238,6 +357,15 @@ const GoalsSettingsForm: React.FC<GoalsSettingsFormProps> = ({
           </button>
         </form>
       )}
+
+      {!loading && (
+        <GoalOverrideList
+          userId={session.user.id}
+          overrides={overrides}
+          defaults={formData}
+          onChanged={refreshOverrides}
+        />
+      )}
     </Modal>
   );
 };
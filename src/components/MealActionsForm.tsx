@@ -0,0 +1,129 @@
+import React, { useState } from 'react';
+import type { Meal } from '../types/foodEntry';
+import { formatLocalDateKey, parseLocalDateKey } from '../utils/localDate';
+import { getDeleteMealBody, getMealActionFailureMessage } from '../copy/experience';
+
+interface MealActionsFormProps {
+  meal: Meal;
+  itemCount: number;
+  onRename: (name: string) => Promise<void>;
+  onMove: (date: Date) => Promise<void>;
+  onDuplicate: (date: Date) => Promise<void>;
+  onDelete: () => Promise<void>;
+  onCancel: () => void;
+}
+
+type MealAction = 'rename' | 'move' | 'duplicate' | 'delete';
+
+const MealActionsForm: React.FC<MealActionsFormProps> = ({
+  meal, itemCount, onRename, onMove, onDuplicate, onDelete, onCancel,
+}) => {
+  const [name, setName] = useState(meal.name ?? '');
+  const [targetDate, setTargetDate] = useState(() => new Date());
+  const [confirmingDelete, setConfirmingDelete] = useState(false);
+  const [busyAction, setBusyAction] = useState<MealAction | null>(null);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+  const run = async (action: MealAction, task: () => Promise<void>) => {
+    setBusyAction(action);
+    setErrorMessage(null);
+    try {
+      await task();
+    } catch (error: unknown) {
+      console.error(`Error running meal action (${action}):`, error);
+      setErrorMessage(getMealActionFailureMessage());
+    } finally {
+      setBusyAction(null);
+    }
+  };
+
+  const busy = busyAction !== null;
+
+  if (confirmingDelete) {
+    return (
+      <div className="space-y-6">
+        {errorMessage && <div className="alert-error">{errorMessage}</div>}
+        <p className="type-body-sm text-[var(--color-text-secondary)]">{getDeleteMealBody(itemCount)}</p>
+        <div className="flex gap-3">
+          <button type="button" onClick={() => setConfirmingDelete(false)} disabled={busy} className="flex-1 btn-ghost py-3">
+            Cancel
+          </button>
+          <button type="button" onClick={() => run('delete', onDelete)} disabled={busy} className="btn-danger">
+            {busyAction === 'delete' ? 'Deleting…' : 'Delete meal'}
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-5">
+      {errorMessage && <div className="alert-error">{errorMessage}</div>}
+
+      <form
+        className="space-y-2"
+        onSubmit={(event) => {
+          event.preventDefault();
+          void run('rename', () => onRename(name));
+        }}
+      >
+        <label htmlFor="mealName" className="form-label">Meal name</label>
+        <div className="flex gap-3">
+          <input
+            type="text"
+            id="mealName"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder={meal.meal_period}
+            className="input-premium flex-1"
+          />
+          <button type="submit" disabled={busy} className="btn-secondary">
+            {busyAction === 'rename' ? 'Saving…' : 'Save'}
+          </button>
+        </div>
+      </form>
+
+      <div className="space-y-2">
+        <label htmlFor="mealTargetDate" className="form-label">Day</label>
+        <input
+          type="date"
+          id="mealTargetDate"
+          value={formatLocalDateKey(targetDate)}
+          onChange={(e) => {
+            if (e.target.value) setTargetDate(parseLocalDateKey(e.target.value));
+          }}
+          className="input-premium"
+        />
+        <div className="flex gap-3">
+          <button
+            type="button"
+            onClick={() => run('move', () => onMove(targetDate))}
+            disabled={busy}
+            className="flex-1 btn-ghost py-3"
+          >
+            {busyAction === 'move' ? 'Moving…' : 'Move meal'}
+          </button>
+          <button
+            type="button"
+            onClick={() => run('duplicate', () => onDuplicate(targetDate))}
+            disabled={busy}
+            className="flex-1 btn-primary"
+          >
+            {busyAction === 'duplicate' ? 'Copying…' : 'Log again'}
+          </button>
+        </div>
+      </div>
+
+      <div className="flex justify-between gap-3 pt-2">
+        <button type="button" onClick={() => setConfirmingDelete(true)} disabled={busy} className="btn-ghost text-danger">
+          Delete meal
+        </button>
+        <button type="button" onClick={onCancel} disabled={busy} className="btn-secondary">
+          Done
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default MealActionsForm;
@@ -7,7 +7,7 @@ import {
   type CSSProperties,
   type PointerEvent as ReactPointerEvent,
 } from 'react';
-import { useAudioRecorder } from '../hooks/useAudioRecorder';
+import { useAudioRecorder, type RecordingResult } from '../hooks/useAudioRecorder';
 import { SahhaMark } from './SahhaBrand';
 import type { ParseMealResponse, ParseProgressStage } from '../types/mealParse';
 import {
@@ -28,6 +28,7 @@ import {
   normalizeAudioMimeType,
 } from '../utils/transcriptValidation';
 import { hapticLight, hapticMedium } from '../utils/haptics';
+import { isNetworkError } from '../utils/outboxQueue';
 import { MAX_RECORDING_MS } from '../../supabase/functions/_shared/stt/constants.ts';
 
 export interface MealParseInputHandle {
@@ -46,6 +47,8 @@ interface MealParseInputProps {
   onTranscript?: (transcript: string) => void;
   onParseProgress?: (stage: ParseProgressStage) => void;
   onParseError?: (payload: ParseErrorPayload) => void;
+  /** A recording that couldn't be sent because the device is offline; the parent keeps it for later. */
+  onRecordingOffline?: (recording: RecordingResult) => void;
   /** Hide mic hints while the review sheet is open. */
   reviewActive?: boolean;
 }
@@ -64,6 +67,7 @@ const MealParseInput = forwardRef<MealParseInputHandle, MealParseInputProps>(({
   onTranscript,
   onParseProgress,
   onParseError,
+  onRecordingOffline,
   reviewActive = false,
 }, ref) => {
   const [text, setText] = useState('');
@@ -231,9 +235,11 @@ const MealParseInput = forwardRef<MealParseInputHandle, MealParseInputProps>(({
     setLoading(true);
     onParseStart?.({ mode: 'voice' });
 
+    let recording: RecordingResult | null = null;
     try {
       // Overlap MediaRecorder finalize with token fetch.
       const tokenPromise = prefetchParseAccessToken();
+      recording = await stopRecording();
       const {
         blob,
         mimeType,
@@ -241,11 +247,17 @@ const MealParseInput = forwardRef<MealParseInputHandle, MealParseInputProps>(({
         peakLevel,
         voicedMs,
         byteLength,
-      } = await stopRecording();
+      } = recording;
       if (!isCurrentParse(generation)) return;
 
       assertRecordingHasSpeech(durationMs, peakLevel, byteLength, voicedMs);
 
+      if (!navigator.onLine && onRecordingOffline) {
+        void tokenPromise.catch(() => undefined);
+        onRecordingOffline(recording);
+        return;
+      }
+
       const accessToken = await tokenPromise;
       const data = await invokeParseMealVoice(
         {
@@ -277,6 +289,10 @@ const MealParseInput = forwardRef<MealParseInputHandle, MealParseInputProps>(({
     } catch (err: unknown) {
       if (!isCurrentParse(generation)) return;
       if (err instanceof DOMException && err.name === 'AbortError') return;
+      if (recording && onRecordingOffline && isNetworkError(err)) {
+        onRecordingOffline(recording);
+        return;
+      }
       const payload = toParseErrorPayload(err);
       onParseError?.(payload);
     } finally {
@@ -12,6 +12,12 @@ import { getReviewHint, getResearchTrustLine, getParseErrorTitle, getRejectionTi
 import type { ParseErrorKind, ParseRejectionCode } from '../utils/parseRejection.ts';
 import { useUserExperience } from '../context/userExperience';
 import { upsertSavedFoods } from '../utils/savedFoods';
+import { provenanceWhisper, toEntryProvenance } from '../utils/entryProvenance';
+import { logMeal } from '../utils/meals';
+import { queueOutboxItem } from '../utils/outbox';
+import { isNetworkError, newClientId } from '../utils/outboxQueue';
+import { createParseSession } from '../utils/parseSessions';
+import { fetchGoalsForDate } from '../utils/goalSchedule';
 import { localDayBounds, createTimestampForDate } from '../utils/localDate';
 import { useCountUp } from '../hooks/useCountUp';
 import {
@@ -37,9 +43,15 @@ interface MealParseReviewProps {
   parseRejectionReason?: ParseRejectionCode;
   result: ParseMealResponse | null;
   selectedDate: Date;
+  /** Log at this instant instead of the current time on `selectedDate` — a recording parsed after the fact. */
+  eatenAt?: string | null;
   dayContext?: DayContext | null;
   onClose: () => void;
-  onLogged: () => void;
+  onLogged: (logged: { calories: number; queued: boolean }) => void;
+  /** Stay on the page after logging instead of going to Today, so the parent can open the next review. */
+  stayAfterLog?: boolean;
+  /** Drop the saved recording this review came from without logging it. */
+  onDiscardRecording?: () => void;
   onRetry?: (text: string) => void;
   onRetryVoice?: () => void;
   /** Abort in-flight parse and restart from corrected transcript (skip STT). */
@@ -82,18 +94,6 @@ function parseNumber(value: string, fallback: number): number {
   return Number.isFinite(parsed) ? parsed : fallback;
 }
 
-/** Quiet provenance whisper shown under each item. */
-function provenanceWhisper(item: ParsedFoodItem): string {
-  if (item.from_saved_food || item.evidence_status === 'user_saved') return 'from your saved foods';
-  switch (item.evidence_status) {
-    case 'uk_evidence': return 'UK-verified';
-    case 'related_match': return item.source_note || 'closest match';
-    case 'ai_estimate': return 'adjusted by you';
-    case 'unavailable': return 'couldn\'t verify';
-    default: return 'estimated';
-  }
-}
-
 const MealParseReview: React.FC<MealParseReviewProps> = ({
   session,
   isOpen,
@@ -106,9 +106,12 @@ const MealParseReview: React.FC<MealParseReviewProps> = ({
   parseRejectionReason,
   result,
   selectedDate,
+  eatenAt,
   dayContext,
   onClose,
   onLogged,
+  stayAfterLog = false,
+  onDiscardRecording,
   onRetry,
   onRetryVoice,
   onCorrectTranscript,
@@ -211,14 +214,10 @@ const MealParseReview: React.FC<MealParseReviewProps> = ({
     if (!isOpen) return;
 
     const fetchContext = async () => {
-      const { dayStart, dayEnd } = localDayBounds(selectedDate, timezone);
+      const { dayStart, dayEnd, dateKey } = localDayBounds(selectedDate, timezone);
 
-      const [goalsRes, entriesRes] = await Promise.all([
-        supabase
-          .from('user_goals')
-          .select('daily_calories_goal, daily_protein_goal, daily_carbs_goal, daily_fats_goal')
-          .eq('user_id', session.user.id)
-          .maybeSingle(),
+      const [goals, entriesRes] = await Promise.all([
+        fetchGoalsForDate(session.user.id, dateKey),
         supabase
           .from('food_entries')
           .select('calories, quantity')
@@ -227,7 +226,7 @@ const MealParseReview: React.FC<MealParseReviewProps> = ({
           .lte('created_at', dayEnd),
       ]);
 
-      if (goalsRes.data) setUserGoals(goalsRes.data);
+      if (goals) setUserGoals(goals);
 
       if (entriesRes.data) {
         const total = entriesRes.data.reduce(
@@ -403,18 +402,50 @@ const MealParseReview: React.FC<MealParseReviewProps> = ({
     setLogging(true);
     setError(null);
     try {
+      // The parse session is context for later, not part of the log: if it
+      // can't be stored the meal is still logged, just without "what I said".
+      let parseSessionId: number | null = null;
+      if (result) {
+        try {
+          parseSessionId = (await createParseSession(session.user.id, result, transcript))?.id ?? null;
+        } catch (sessionError) {
+          console.warn('Failed to store parse session', sessionError);
+        }
+      }
+
       const entries = items.map((item) => ({
-        user_id: session.user.id,
+        parse_session_id: parseSessionId,
         food_name: item.food_name,
         calories: item.calories,
         protein: item.protein,
         carbs: item.carbs,
         fats: item.fats,
         quantity: item.quantity,
-        created_at: createTimestampForDate(selectedDate),
+        ...toEntryProvenance(item),
+        client_id: newClientId(),
       }));
-      const { error: insertError } = await supabase.from('food_entries').insert(entries);
-      if (insertError) throw insertError;
+      const meal = {
+        eatenAt: eatenAt ?? createTimestampForDate(selectedDate),
+        transcript: result?.transcript ?? transcript,
+        clientId: newClientId(),
+      };
+      let queued = false;
+      try {
+        await logMeal(session.user.id, meal, entries);
+      } catch (logError) {
+        if (!isNetworkError(logError)) throw logError;
+        // Offline: keep it on the device and carry on as logged; the outbox
+        // sends it with the same IDs once the connection is back.
+        await queueOutboxItem({
+          kind: 'meal',
+          client_id: meal.clientId,
+          user_id: session.user.id,
+          queued_at: Date.now(),
+          meal,
+          entries,
+        });
+        queued = true;
+      }
 
       const foodsToRemember = items
         .filter((item) =>
@@ -427,6 +458,8 @@ const MealParseReview: React.FC<MealParseReviewProps> = ({
           protein: item.protein!,
           carbs: item.carbs!,
           fats: item.fats!,
+          serving_weight_g: item.reference_weight_g ?? null,
+          serving_volume_ml: item.reference_volume_ml ?? null,
         }));
 
       if (foodsToRemember.length > 0) {
@@ -445,13 +478,15 @@ const MealParseReview: React.FC<MealParseReviewProps> = ({
         (sum, item) => sum + item.calories * item.quantity,
         0,
       );
-      onLogged();
+      onLogged({ calories: totalCalories, queued });
       onClose();
+      if (stayAfterLog) return;
       navigate('/', {
         state: {
           logSuccess: {
             calories: totalCalories,
             loggedAt: Date.now(),
+            queued,
           },
         },
       });
@@ -563,6 +598,16 @@ const MealParseReview: React.FC<MealParseReviewProps> = ({
                   : `Log ${items.length} item${items.length === 1 ? '' : 's'}`}
           </button>
         </div>
+        {onDiscardRecording && (
+          <button
+            type="button"
+            onClick={onDiscardRecording}
+            disabled={logging}
+            className="w-full btn-ghost text-xs py-2 mt-2"
+          >
+            Discard recording
+          </button>
+        )}
       </div>
     </div>
   );
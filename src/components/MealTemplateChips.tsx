@@ -0,0 +1,71 @@
+import React, { useEffect, useState } from 'react';
+import type { Session } from '@supabase/supabase-js';
+import { fetchMealTemplates, logMealTemplate } from '../utils/mealTemplates';
+import type { MealTemplate } from '../utils/mealTemplateGroups';
+import { getLogAgainLabel } from '../copy/experience';
+
+interface MealTemplateChipsProps {
+  session: Session;
+  logDate: Date;
+  /** Called after a template is logged, with the calories added. */
+  onLogged: (calories: number) => void;
+  onError: () => void;
+}
+
+/** One-tap chips for meals the user logs over and over. No parse call involved. */
+const MealTemplateChips: React.FC<MealTemplateChipsProps> = ({ session, logDate, onLogged, onError }) => {
+  const [templates, setTemplates] = useState<MealTemplate[]>([]);
+  const [loggingKey, setLoggingKey] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchMealTemplates(session.user.id)
+      .then((rows) => {
+        if (!cancelled) setTemplates(rows);
+      })
+      .catch((err: unknown) => {
+        console.error('Error fetching meal templates:', err);
+      });
+    return () => { cancelled = true; };
+  }, [session.user.id]);
+
+  if (templates.length === 0) return null;
+
+  const handleSelect = async (template: MealTemplate) => {
+    setLoggingKey(template.key);
+    try {
+      await logMealTemplate(session.user.id, template, logDate);
+      onLogged(template.calories);
+    } catch (err: unknown) {
+      console.error('Error logging meal template:', err);
+      onError();
+    } finally {
+      setLoggingKey(null);
+    }
+  };
+
+  return (
+    <section className="meal-templates" aria-label={getLogAgainLabel()}>
+      <p className="section-label">{getLogAgainLabel()}</p>
+      <div className="meal-templates__chips">
+        {templates.map((template) => (
+          <button
+            key={template.key}
+            type="button"
+            onClick={() => void handleSelect(template)}
+            disabled={loggingKey !== null}
+            className="meal-templates__chip"
+            title={template.entries.map((entry) => entry.food_name).join(', ')}
+          >
+            <span className="meal-templates__label">{template.label}</span>
+            <span className="meal-templates__cal tabular-nums">
+              {loggingKey === template.key ? 'Logging…' : `${Math.round(template.calories)} cal`}
+            </span>
+          </button>
+        ))}
+      </div>
+    </section>
+  );
+};
+
+export default MealTemplateChips;
@@ -5,6 +5,7 @@ import Modal from './Modal';
 import { SahhaMark } from './SahhaBrand';
 import { supabase } from '../supabaseClient';
 import {
+  getGoalCalculatorCta,
   getGoalsOnboardingBody,
   getGoalsSavingButton,
   getGoalsUpdateButton,
@@ -13,6 +14,9 @@ import {
   getNameSetupBody,
 } from '../copy/experience';
 import { hapticLight, hapticSuccess } from '../utils/haptics';
+import { saveBodyStats } from '../utils/profile';
+import type { BodyStats, GoalCalculation } from '../utils/goalCalculator';
+import GoalCalculator from './GoalCalculator';
 
 interface OnboardingWizardProps {
   session: Session;
@@ -74,6 +78,8 @@ const OnboardingWizard: React.FC<OnboardingWizardProps> = ({
     carbs: '250',
     fats: '65',
   });
+  const [showCalculator, setShowCalculator] = useState(false);
+  const [bodyStats, setBodyStats] = useState<BodyStats | null>(null);
   const [goalsSaving, setGoalsSaving] = useState(false);
   const [goalsError, setGoalsError] = useState<string | null>(null);
 
@@ -134,6 +140,12 @@ const OnboardingWizard: React.FC<OnboardingWizardProps> = ({
         );
 
       if (upsertError) throw upsertError;
+      if (bodyStats) {
+        // The targets are saved; losing the stats only costs a later recalculation.
+        await saveBodyStats(session.user.id, bodyStats).catch((err: unknown) => {
+          console.warn('Body stats save failed:', err);
+        });
+      }
       hapticSuccess();
       onGoalsComplete();
     } catch (err: unknown) {
@@ -143,6 +155,19 @@ const OnboardingWizard: React.FC<OnboardingWizardProps> = ({
     }
   };
 
+  const handleCalculatorApply = (calculation: GoalCalculation, stats: BodyStats) => {
+    hapticLight();
+    setCalories(String(calculation.goals.daily_calories_goal));
+    setMacros({
+      protein: String(calculation.goals.daily_protein_goal),
+      carbs: String(calculation.goals.daily_carbs_goal),
+      fats: String(calculation.goals.daily_fats_goal),
+    });
+    setUseDefaultMacros(false);
+    setBodyStats(stats);
+    setShowCalculator(false);
+  };
+
   const handleTryMic = () => {
     hapticLight();
     onMicComplete();
@@ -183,6 +208,17 @@ const OnboardingWizard: React.FC<OnboardingWizardProps> = ({
         {step === 'goals' && (
           <form onSubmit={handleGoalsSubmit} className="onboard__form">
             <p className="onboard__body">{getGoalsOnboardingBody()}</p>
+            <button
+              type="button"
+              onClick={() => setShowCalculator((open) => !open)}
+              aria-expanded={showCalculator}
+              className="btn-ghost text-xs py-1.5 px-3 self-start"
+            >
+              {showCalculator ? 'Enter my own numbers' : getGoalCalculatorCta()}
+            </button>
+            {showCalculator && (
+              <GoalCalculator initial={bodyStats} onApply={handleCalculatorApply} />
+            )}
             <label htmlFor="onboard_calories" className="form-label">Daily calories</label>
             <input
               id="onboard_calories"
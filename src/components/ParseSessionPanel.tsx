@@ -0,0 +1,166 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import type { Session } from '@supabase/supabase-js';
+import TranscriptCorrectBlock from './TranscriptCorrectBlock';
+import MacroLine from './MacroLine';
+import type { ParseMealResponse, ParseProgressState, ParseSession } from '../types/mealParse';
+import { advanceParseProgress, invokeParseMeal, toParseErrorPayload } from '../utils/parseMeal';
+import { compareParseItems, fetchParseSession } from '../utils/parseSessions';
+import { sumItemMacros } from '../utils/mealTotals';
+import {
+  getParseStageLabel,
+  getRerunEstimateCta,
+  getRerunEstimateTitle,
+  getResearchTrustLine,
+} from '../copy/experience';
+
+interface ParseSessionPanelProps {
+  session: Session;
+  parseSessionId: number;
+}
+
+function formatDelta(delta: number | null): string {
+  if (delta === null) return '';
+  if (delta === 0) return 'same';
+  return `${delta > 0 ? '+' : '−'}${Math.abs(delta)} cal`;
+}
+
+/** "What I said" for a logged entry, with a side-by-side re-run of the parser. */
+const ParseSessionPanel: React.FC<ParseSessionPanelProps> = ({ session, parseSessionId }) => {
+  const [parseSession, setParseSession] = useState<ParseSession | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [rerunText, setRerunText] = useState<string | null>(null);
+  const [rerunning, setRerunning] = useState(false);
+  const [rerunProgress, setRerunProgress] = useState<ParseProgressState | null>(null);
+  const [fresh, setFresh] = useState<ParseMealResponse | null>(null);
+  const [rerunError, setRerunError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    fetchParseSession(session.user.id, parseSessionId)
+      .then((row) => {
+        if (!cancelled) setParseSession(row);
+      })
+      .catch((err: unknown) => {
+        console.error('Error fetching parse session:', err);
+        if (!cancelled) setParseSession(null);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => { cancelled = true; };
+  }, [session.user.id, parseSessionId]);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const rerun = async (text: string) => {
+    const trimmed = text.trim();
+    if (!trimmed) return;
+
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setRerunText(trimmed);
+    setFresh(null);
+    setRerunError(null);
+    setRerunning(true);
+    setRerunProgress(null);
+
+    try {
+      const data = await invokeParseMeal(
+        { text: trimmed },
+        {
+          onProgress: (stage) => setRerunProgress((prev) => advanceParseProgress(prev, stage)),
+          signal: controller.signal,
+        },
+      );
+      setFresh(data);
+    } catch (err: unknown) {
+      if (controller.signal.aborted) return;
+      setRerunError(toParseErrorPayload(err).message);
+    } finally {
+      if (abortRef.current === controller) abortRef.current = null;
+      if (!controller.signal.aborted) {
+        setRerunning(false);
+        setRerunProgress(null);
+      }
+    }
+  };
+
+  const comparison = useMemo(
+    () => (parseSession && fresh ? compareParseItems(parseSession.items, fresh.items) : []),
+    [parseSession, fresh],
+  );
+
+  if (loading || !parseSession) return null;
+
+  const originalTotals = sumItemMacros(parseSession.items);
+  const freshTotals = fresh ? sumItemMacros(fresh.items) : null;
+
+  return (
+    <section className="parse-session">
+      <TranscriptCorrectBlock
+        transcript={parseSession.transcript}
+        label="You said"
+        canEdit={!rerunning}
+        onCorrect={(text) => void rerun(text)}
+        className="parse-session__transcript"
+      />
+      {parseSession.research_used && (
+        <p className="section-label">{getResearchTrustLine()}</p>
+      )}
+      {parseSession.notes && (
+        <p className="parse-session__notes">{parseSession.notes}</p>
+      )}
+
+      <button
+        type="button"
+        onClick={() => void rerun(parseSession.transcript)}
+        disabled={rerunning}
+        className="btn-ghost py-3 w-full"
+      >
+        {rerunning ? getParseStageLabel(rerunProgress?.current ?? null, 'text') : getRerunEstimateCta()}
+      </button>
+
+      {rerunError && <p className="alert-error">{rerunError}</p>}
+
+      {fresh && freshTotals && (
+        <div className="parse-session__compare" aria-live="polite">
+          <p className="section-label">{getRerunEstimateTitle()}</p>
+          {rerunText && rerunText !== parseSession.transcript.trim() && (
+            <p className="parse-session__notes">From your edit: “{rerunText}”</p>
+          )}
+          <div className="parse-session__row parse-session__row--head">
+            <span>Item</span>
+            <span>Logged parse</span>
+            <span>Fresh</span>
+          </div>
+          {comparison.map((row, index) => (
+            <div key={`${row.food_name}-${index}`} className="parse-session__row">
+              <span className="parse-session__name">{row.food_name}</span>
+              <span className="tabular-nums">
+                {row.original ? `${Math.round(row.original.calories * (row.original.quantity || 1))} cal` : '—'}
+              </span>
+              <span className="tabular-nums">
+                {row.fresh ? `${Math.round(row.fresh.calories * (row.fresh.quantity || 1))} cal` : '—'}
+                {row.calorieDelta !== null && (
+                  <span className="parse-session__delta"> {formatDelta(row.calorieDelta)}</span>
+                )}
+              </span>
+            </div>
+          ))}
+          <div className="parse-session__row parse-session__row--total">
+            <span>Total</span>
+            <span className="tabular-nums">{Math.round(originalTotals.calories)} cal</span>
+            <span className="tabular-nums">{Math.round(freshTotals.calories)} cal</span>
+          </div>
+          <MacroLine protein={freshTotals.protein} carbs={freshTotals.carbs} fats={freshTotals.fats} />
+          {fresh.notes && <p className="parse-session__notes">{fresh.notes}</p>}
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default ParseSessionPanel;
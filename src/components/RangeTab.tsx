@@ -0,0 +1,91 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import SummaryPeriodStats from './SummaryPeriodStats';
+import LoadingState from './LoadingState';
+import DatePicker from './DatePicker';
+import { SahhaMark } from './SahhaBrand';
+import type { GoalTargets } from '../utils/goalSchedule';
+import type { SummaryData } from '../types/summary';
+import type { DailySeriesDay } from '../utils/dailySeries';
+import { getStatsEmptyBody, getStatsEmptyCta, getStatsEmptyTitle, getTabLoadingLabel } from '../copy/experience';
+
+interface RangeTabProps {
+  data: SummaryData | null;
+  /** The same number of days immediately before the range. */
+  previousData: SummaryData | null;
+  goals: GoalTargets | null;
+  series: DailySeriesDay[];
+  onSelectDay: (dateKey: string) => void;
+  /** Trend weight change across the range in kg/week. */
+  weightRate: number | null;
+  loading: boolean;
+  start: Date;
+  end: Date;
+  onChangeStart: (date: Date) => void;
+  onChangeEnd: (date: Date) => void;
+}
+
+const RangeTab: React.FC<RangeTabProps> = ({
+  data,
+  previousData,
+  goals,
+  series,
+  onSelectDay,
+  weightRate,
+  loading,
+  start,
+  end,
+  onChangeStart,
+  onChangeEnd,
+}) => {
+  const dayCount = Math.round((end.getTime() - start.getTime()) / 86_400_000) + 1;
+
+  return (
+    <div className="space-y-6">
+      <div className="text-center">
+        <div className="range-picker">
+          <DatePicker selectedDate={start} onDateChange={onChangeStart} variant="chip" />
+          <span className="range-picker__sep" aria-hidden="true">–</span>
+          <DatePicker selectedDate={end} onDateChange={onChangeEnd} variant="chip" />
+        </div>
+        <p className="section-label mt-2">
+          {dayCount} {dayCount === 1 ? 'day' : 'days'} · compared with the {dayCount} before
+        </p>
+      </div>
+
+      <div className="card-elevated p-6">
+        {loading ? (
+          <LoadingState
+            compact
+            showMark={false}
+            label={getTabLoadingLabel('range')}
+            sublabel="Summarising your logged meals"
+          />
+        ) : !data || data.entry_count === 0 ? (
+          <div className="stats-empty">
+            <div className="stats-empty__icon">
+              <SahhaMark className="brand-mark--header-lg" />
+            </div>
+            <h3 className="stats-empty__title">{getStatsEmptyTitle()}</h3>
+            <p className="stats-empty__body">{getStatsEmptyBody()}</p>
+            <Link to="/log" className="btn-primary max-w-[14rem] mx-auto mt-4">
+              {getStatsEmptyCta()}
+            </Link>
+          </div>
+        ) : (
+          <SummaryPeriodStats
+            data={data}
+            previousData={previousData}
+            goals={goals}
+            weightRate={weightRate}
+            series={series}
+            onSelectDay={onSelectDay}
+            denseSeries={dayCount > 14}
+          />
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RangeTab;
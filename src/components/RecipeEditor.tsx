@@ -0,0 +1,144 @@
+import React from 'react';
+import MacroLine from './MacroLine';
+import {
+  emptyIngredientLine,
+  recipeFromForm,
+  recipePer100g,
+  recipePerServing,
+  recipeServingGrams,
+} from '../utils/savedFoodRecipe';
+import type { RecipeFormData, RecipeIngredientFormLine } from '../utils/savedFoodRecipe';
+
+interface RecipeEditorProps {
+  value: RecipeFormData;
+  onChange: (value: RecipeFormData) => void;
+}
+
+const NUMBER_FIELDS: Array<{ key: keyof Omit<RecipeIngredientFormLine, 'food_name'>; label: string; className?: string }> = [
+  { key: 'grams', label: 'Grams' },
+  { key: 'calories', label: 'Cal', className: 'text-macro-calories' },
+  { key: 'protein', label: 'P (g)', className: 'text-macro-protein' },
+  { key: 'carbs', label: 'C (g)', className: 'text-macro-carbs' },
+  { key: 'fats', label: 'F (g)', className: 'text-macro-fats' },
+];
+
+function toFormNumber(value: string): number | '' {
+  return value === '' ? '' : Number(value);
+}
+
+/** Ingredient lines, cooked yield and servings, with the derived macros underneath. */
+const RecipeEditor: React.FC<RecipeEditorProps> = ({ value, onChange }) => {
+  const updateLine = (index: number, patch: Partial<RecipeIngredientFormLine>) => {
+    onChange({
+      ...value,
+      ingredients: value.ingredients.map((line, i) => (i === index ? { ...line, ...patch } : line)),
+    });
+  };
+
+  const removeLine = (index: number) => {
+    const ingredients = value.ingredients.filter((_, i) => i !== index);
+    onChange({ ...value, ingredients: ingredients.length ? ingredients : [emptyIngredientLine()] });
+  };
+
+  const recipe = recipeFromForm(value);
+  const perServing = recipe ? recipePerServing(recipe) : null;
+  const per100g = recipe ? recipePer100g(recipe) : null;
+  const servingGrams = recipe ? recipeServingGrams(recipe) : null;
+
+  return (
+    <div className="recipe-editor">
+      <p className="form-label">Ingredients</p>
+      <p className="form-hint mb-3">Macros for the amount that goes in the pot</p>
+
+      {value.ingredients.map((line, index) => (
+        <div key={index} className="recipe-editor__line">
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={line.food_name}
+              onChange={(e) => updateLine(index, { food_name: e.target.value })}
+              placeholder="Beef mince 5%"
+              aria-label={`Ingredient ${index + 1} name`}
+              className="input-premium flex-1"
+            />
+            <button
+              type="button"
+              onClick={() => removeLine(index)}
+              className="btn-ghost text-xs py-1.5 px-3"
+              aria-label={`Remove ingredient ${index + 1}`}
+            >
+              Remove
+            </button>
+          </div>
+          <div className="recipe-editor__numbers">
+            {NUMBER_FIELDS.map((field) => (
+              <label key={field.key} className="recipe-editor__number">
+                <span className={`form-label-sm ${field.className ?? ''}`}>{field.label}</span>
+                <input
+                  type="number"
+                  value={line[field.key]}
+                  onChange={(e) => updateLine(index, { [field.key]: toFormNumber(e.target.value) })}
+                  min="0"
+                  step="0.1"
+                  inputMode="decimal"
+                  className="input-premium"
+                />
+              </label>
+            ))}
+          </div>
+        </div>
+      ))}
+
+      <button
+        type="button"
+        onClick={() => onChange({ ...value, ingredients: [...value.ingredients, emptyIngredientLine()] })}
+        className="btn-ghost text-xs py-1.5 px-3"
+      >
+        + Add ingredient
+      </button>
+
+      <div className="grid grid-cols-2 gap-3 pt-2">
+        <div>
+          <label htmlFor="recipe_yield" className="form-label-sm">Cooked weight (g)</label>
+          <input
+            type="number"
+            id="recipe_yield"
+            value={value.cooked_yield_g}
+            onChange={(e) => onChange({ ...value, cooked_yield_g: toFormNumber(e.target.value) })}
+            min="0"
+            inputMode="numeric"
+            placeholder="Optional"
+            className="input-premium"
+          />
+        </div>
+        <div>
+          <label htmlFor="recipe_servings" className="form-label-sm">Servings</label>
+          <input
+            type="number"
+            id="recipe_servings"
+            value={value.servings}
+            onChange={(e) => onChange({ ...value, servings: toFormNumber(e.target.value) })}
+            min="1"
+            step="0.5"
+            inputMode="decimal"
+            className="input-premium"
+          />
+        </div>
+      </div>
+
+      {perServing && (
+        <div className="recipe-editor__derived">
+          <p className="form-label-sm">
+            Per serving{servingGrams ? ` (${servingGrams}g)` : ''} · {perServing.calories} cal
+          </p>
+          <MacroLine protein={perServing.protein} carbs={perServing.carbs} fats={perServing.fats} />
+          {per100g && (
+            <p className="form-hint">Per 100g · {per100g.calories} cal · P {per100g.protein}g · C {per100g.carbs}g · F {per100g.fats}g</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RecipeEditor;
@@ -2,15 +2,29 @@ import React, { useState, useEffect, useCallback } from 'react';
 import { supabase } from '../supabaseClient';
 import type { Session } from '@supabase/supabase-js';
 import Modal from './Modal'; // Import Modal component
+import RecipeEditor from './RecipeEditor';
+import {
+  emptyRecipeForm,
+  normalizeSavedFoodRecipe,
+  recipeFromForm,
+  recipePerServing,
+  recipeServingGrams,
+  recipeToForm,
+} from '../utils/savedFoodRecipe';
+import type { RecipeFormData, SavedFoodRecipe } from '../utils/savedFoodRecipe';
+import { NUTRITION_BASIS_OPTIONS, normalizeNutritionBasis } from '../utils/savedFoodBasis';
+import type { NutritionBasis, SavedFoodBasis } from '../utils/savedFoodBasis';
 
 // Interface for the data of a single saved food item
-export interface SavedFoodItem {
+export interface SavedFoodItem extends SavedFoodBasis {
   id: number;
   food_name: string;
   calories: number;
   protein: number;
   carbs: number;
   fats: number;
+  // Set for foods built from ingredients; the macros above are then per serving
+  recipe?: SavedFoodRecipe | null;
   // user_id and created_at are also there but not always needed for display
 }
 
@@ -21,28 +35,41 @@ interface SavedFoodFormData {
   protein: number | '';
   carbs: number | '';
   fats: number | '';
+  basis: NutritionBasis;
+  serving_weight_g: number | '';
+  serving_volume_ml: number | '';
 }
 
+const EMPTY_FORM: SavedFoodFormData = {
+  food_name: '',
+  calories: '',
+  protein: '',
+  carbs: '',
+  fats: '',
+  basis: 'per_serving',
+  serving_weight_g: '',
+  serving_volume_ml: '',
+};
+
 interface SavedFoodManagerProps {
   session: Session;
   onFoodSelect: (food: SavedFoodItem) => void; // Callback when a food is selected to be added to journal
 }
 
+function toSavedFoodItem(row: Omit<SavedFoodItem, 'basis' | 'recipe'> & { basis: unknown; recipe: unknown }): SavedFoodItem {
+  return { ...row, basis: normalizeNutritionBasis(row.basis), recipe: normalizeSavedFoodRecipe(row.recipe) };
+}
+
 const SavedFoodManager: React.FC<SavedFoodManagerProps> = ({ session, onFoodSelect }) => {
   const [savedFoods, setSavedFoods] = useState<SavedFoodItem[]>([]);
-  const [formData, setFormData] = useState<SavedFoodFormData>({
-    food_name: '',
-    calories: '',
-    protein: '',
-    carbs: '',
-    fats: '',
-  });
+  const [formData, setFormData] = useState<SavedFoodFormData>(EMPTY_FORM);
   const [showForm, setShowForm] = useState(false);
   const [loading, setLoading] = useState(false); // For general loading like initial fetch
   const [saving, setSaving] = useState(false); // For save/update operation
   const [error, setError] = useState<string | null>(null);
   const [formMessage, setFormMessage] = useState<string | null>(null);
   const [editingFoodId, setEditingFoodId] = useState<number | null>(null); // To track if editing
+  const [recipeForm, setRecipeForm] = useState<RecipeFormData | null>(null); // Null for a plain food
   const [searchTerm, setSearchTerm] = useState(''); // State for search/filter
 
   // State for Delete Confirmation Modal
@@ -56,12 +83,12 @@ const SavedFoodManager: React.FC<SavedFoodManagerProps> = ({ session, onFoodSele
     try {
       const { data, error } = await supabase
         .from('saved_foods')
-        .select('id, food_name, calories, protein, carbs, fats')
+        .select('id, food_name, calories, protein, carbs, fats, basis, serving_weight_g, serving_volume_ml, recipe')
         .eq('user_id', session.user.id)
         .order('food_name', { ascending: true });
 
       if (error) throw error;
-      setSavedFoods(data || []);
+      setSavedFoods((data || []).map(toSavedFoodItem));
     } catch (err: unknown) {
       console.error('Error fetching saved foods:', err);
       setError('Could not load your saved foods.');
@@ -83,29 +110,48 @@ const SavedFoodManager: React.FC<SavedFoodManagerProps> = ({ session, onFoodSele
   };
 
   const resetForm = () => {
-    setFormData({ food_name: '', calories: '', protein: '', carbs: '', fats: '' });
+    setFormData(EMPTY_FORM);
     setEditingFoodId(null);
+    setRecipeForm(null);
     setShowForm(false);
     setFormMessage(null);
   };
   
   const handleFormSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault();
-    if (!formData.food_name || formData.calories === '' || isNaN(Number(formData.calories))) {
+    const recipe = recipeForm ? recipeFromForm(recipeForm) : null;
+    if (recipeForm && (!formData.food_name || !recipe)) {
+        setFormMessage('Food name and at least one ingredient are required.');
+        return;
+    }
+    if (!recipeForm && (!formData.food_name || formData.calories === '' || isNaN(Number(formData.calories)))) {
         setFormMessage('Food name and valid calories are required.');
         return;
     }
     setSaving(true);
     setFormMessage(null);
 
-    const foodDataToSave = {
+    const foodDataToSave = recipe
+      ? {
+        food_name: formData.food_name,
+        ...recipePerServing(recipe),
+        basis: 'per_serving',
+        serving_weight_g: recipeServingGrams(recipe),
+        serving_volume_ml: null,
+        recipe,
+      }
+      : {
         // user_id is handled by RLS policy, not needed for update if policy allows
         food_name: formData.food_name,
         calories: Number(formData.calories),
         protein: Number(formData.protein) || 0,
         carbs: Number(formData.carbs) || 0,
         fats: Number(formData.fats) || 0,
-    };
+        basis: formData.basis,
+        serving_weight_g: Number(formData.serving_weight_g) || null,
+        serving_volume_ml: Number(formData.serving_volume_ml) || null,
+        recipe: null,
+      };
 
     try {
       let savedItem: SavedFoodItem;
@@ -123,7 +169,7 @@ const SavedFoodManager: React.FC<SavedFoodManagerProps> = ({ session, onFoodSele
             }
             throw updateError;
         }
-        savedItem = data as SavedFoodItem;
+        savedItem = toSavedFoodItem(data);
         setSavedFoods(prev => prev.map(food => food.id === editingFoodId ? savedItem : food).sort((a,b) => a.food_name.localeCompare(b.food_name)));
         setFormMessage('Food updated successfully!');
       } else {
@@ -139,7 +185,7 @@ const SavedFoodManager: React.FC<SavedFoodManagerProps> = ({ session, onFoodSele
             }
             throw insertError;
         }
-        savedItem = data as SavedFoodItem;
+        savedItem = toSavedFoodItem(data);
         setSavedFoods(prev => [...prev, savedItem].sort((a, b) => a.food_name.localeCompare(b.food_name)));
         setFormMessage('Food saved successfully!');
       }
@@ -161,7 +207,11 @@ const SavedFoodManager: React.FC<SavedFoodManagerProps> = ({ session, onFoodSele
       protein: food.protein,
       carbs: food.carbs,
       fats: food.fats,
+      basis: food.basis ?? 'per_serving',
+      serving_weight_g: food.serving_weight_g ?? '',
+      serving_volume_ml: food.serving_volume_ml ?? '',
     });
+    setRecipeForm(food.recipe ? recipeToForm(food.recipe) : null);
     setShowForm(true);
     setFormMessage(null);
   };
@@ -243,6 +293,44 @@ const SavedFoodManager: React.FC<SavedFoodManagerProps> = ({ session, onFoodSele
                             <input type="text" name="food_name" id="saved_food_name" value={formData.food_name} onChange={handleInputChange} required placeholder="Grilled chicken" className="input-premium" />
                         </div>
 
+                        <button
+                            type="button"
+                            onClick={() => setRecipeForm(recipeForm ? null : emptyRecipeForm())}
+                            className="btn-ghost text-xs py-1.5 px-3"
+                        >
+                            {recipeForm ? 'Enter macros directly' : 'Build from ingredients'}
+                        </button>
+
+                        {recipeForm ? (
+                            <div className="pt-2 border-t border-[var(--color-border)]">
+                                <RecipeEditor value={recipeForm} onChange={setRecipeForm} />
+                            </div>
+                        ) : (<>
+                        <div className="grid grid-cols-2 gap-3">
+                            <div>
+                                <label htmlFor="saved_basis" className="form-label-sm">Nutrition is</label>
+                                <select
+                                    id="saved_basis"
+                                    value={formData.basis}
+                                    onChange={(e) => setFormData(prev => ({ ...prev, basis: e.target.value as NutritionBasis }))}
+                                    className="input-premium"
+                                >
+                                    {NUTRITION_BASIS_OPTIONS.map(option => (
+                                        <option key={option.value} value={option.value}>{option.label}</option>
+                                    ))}
+                                </select>
+                            </div>
+                            <div>
+                                {formData.basis === 'per_100ml' ? (<>
+                                    <label htmlFor="saved_serving_volume" className="form-label-sm">Serving (ml)</label>
+                                    <input type="number" name="serving_volume_ml" id="saved_serving_volume" value={formData.serving_volume_ml} onChange={handleInputChange} min="0" inputMode="numeric" placeholder="250" className="input-premium" />
+                                </>) : (<>
+                                    <label htmlFor="saved_serving_weight" className="form-label-sm">{formData.basis === 'per_item' ? 'One item (g)' : 'Serving (g)'}</label>
+                                    <input type="number" name="serving_weight_g" id="saved_serving_weight" value={formData.serving_weight_g} onChange={handleInputChange} min="0" inputMode="numeric" placeholder="Optional" className="input-premium" />
+                                </>)}
+                            </div>
+                        </div>
+
                         <div>
                             <label htmlFor="saved_calories" className="form-label text-macro-calories">Calories</label>
                             <input
@@ -251,7 +339,7 @@ const SavedFoodManager: React.FC<SavedFoodManagerProps> = ({ session, onFoodSele
                                 id="saved_calories"
                                 value={formData.calories}
                                 onChange={handleInputChange}
-                                required
+                                required={!recipeForm}
                                 min="0"
                                 inputMode="numeric"
                                 placeholder="200"
@@ -261,7 +349,7 @@ const SavedFoodManager: React.FC<SavedFoodManagerProps> = ({ session, onFoodSele
 
                         <div className="pt-2 border-t border-[var(--color-border)]">
                             <p className="form-label">Macros (optional)</p>
-                            <p className="form-hint mb-3">Per serving</p>
+                            <p className="form-hint mb-3">{NUTRITION_BASIS_OPTIONS.find(option => option.value === formData.basis)?.label}</p>
 
                             <div className="grid grid-cols-3 gap-3">
                                 <div>
@@ -278,6 +366,7 @@ const SavedFoodManager: React.FC<SavedFoodManagerProps> = ({ session, onFoodSele
                                 </div>
                             </div>
                         </div>
+                        </>)}
                         
                         <div className="pt-2">
                             <button type="submit" disabled={saving} className="btn-primary">
@@ -302,7 +391,7 @@ const SavedFoodManager: React.FC<SavedFoodManagerProps> = ({ session, onFoodSele
                             <div key={food.id} className="card p-3 flex items-center justify-between gap-2">
                                 <div className="min-w-0 flex-1">
                                     <p className="font-medium text-[var(--color-text-primary)] capitalize truncate text-sm">{food.food_name}</p>
-                                    <p className="text-xs text-[var(--color-text-muted)] mt-0.5">{food.calories} cal · P {food.protein}g</p>
+                                    <p className="text-xs text-[var(--color-text-muted)] mt-0.5">{food.recipe ? 'Recipe · ' : ''}{food.calories} cal · P {food.protein}g{food.basis === 'per_100g' ? ' per 100g' : food.basis === 'per_100ml' ? ' per 100ml' : ''}</p>
                                 </div>
                                 <div className="flex gap-1 shrink-0">
                                   <button type="button" onClick={() => onFoodSelect(food)} disabled={saving} className="px-3 py-1.5 text-xs font-semibold text-[var(--color-btn-fill-text)] bg-[var(--color-btn-fill)] rounded-lg hover:opacity-90 disabled:opacity-50">Use</button>
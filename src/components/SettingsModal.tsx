@@ -0,0 +1,24 @@
+import React from 'react';
+import Modal from './Modal';
+import DataExportPanel from './DataExportPanel';
+import DiaryImportPanel from './DiaryImportPanel';
+
+interface SettingsModalProps {
+  userId: string;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+/** Account-level settings reached from the app bar. Targets stay in their own modal on Today. */
+const SettingsModal: React.FC<SettingsModalProps> = ({ userId, isOpen, onClose }) => (
+  <Modal isOpen={isOpen} onClose={onClose} title="Settings">
+    <div className="space-y-6">
+      <DataExportPanel userId={userId} />
+      <div className="stats-divider">
+        <DiaryImportPanel userId={userId} />
+      </div>
+    </div>
+  </Modal>
+);
+
+export default SettingsModal;
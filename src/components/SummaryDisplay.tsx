@@ -4,22 +4,22 @@ import type { Session } from '@supabase/supabase-js';
 import TabNavigation from './TabNavigation';
 import WeeklyTab from './WeeklyTab';
 import MonthlyTab from './MonthlyTab';
+import RangeTab from './RangeTab';
 import SummaryDisplayHeader from './SummaryDisplayHeader';
-import { getMonthlySummaryFailureMessage, getWeeklySummaryFailureMessage } from '../copy/experience';
-import { formatLocalDateKey } from '../utils/localDate';
-
-interface SummaryData {
-
-  total_calories: number;
-  total_protein: number;
-  total_carbs: number;
-  total_fats: number;
-  entry_count: number;
-  days_logged: number;
-  week_start_display?: string;
-  week_end_display?: string;
-  month_display?: string;
-}
+import {
+  getMonthlySummaryFailureMessage,
+  getRangeSummaryFailureMessage,
+  getWeeklySummaryFailureMessage,
+} from '../copy/experience';
+import { formatLocalDateKey, startOfWeek } from '../utils/localDate';
+import { fetchAverageGoalsForRange, type GoalTargets } from '../utils/goalSchedule';
+import { fetchWeightTrend } from '../utils/weightEntries';
+import { weeklyWeightRate } from '../utils/weightTrend';
+import { useUserExperience } from '../context/userExperience';
+import WeightTrendCard from './WeightTrendCard';
+import { fetchDailySeries, type DailySeriesDay } from '../utils/dailySeries';
+import { useNavigate } from 'react-router-dom';
+import type { SummaryData } from '../types/summary';
 
 interface SummaryDisplayProps {
   session: Session;
@@ -27,6 +27,30 @@ interface SummaryDisplayProps {
 
 const formatDate = (date: Date): string => formatLocalDateKey(date);
 
+/** Days still to come don't count towards a period's average target. */
+const clipToToday = (dateKey: string): string => {
+  const today = formatDate(new Date());
+  return dateKey < today ? dateKey : today;
+};
+
+/** Per-day bars are a detail under the totals; if they fail to load the totals still show. */
+const fetchSeriesOrEmpty = (userId: string, start: string, end: string): Promise<DailySeriesDay[]> =>
+  fetchDailySeries(userId, start, end).catch((err: unknown) => {
+    console.warn('Daily series unavailable:', err);
+    return [];
+  });
+
+// get_daily_series, which the range summary builds on, stops at a year.
+const MAX_RANGE_DAYS = 366;
+const DAY_MS = 86_400_000;
+
+/** Local midnight `days` after `date`; also drops the time of day when `days` is 0. */
+const addDays = (date: Date, days: number): Date =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+const daysBetween = (start: Date, end: Date): number =>
+  Math.round((addDays(end, 0).getTime() - addDays(start, 0).getTime()) / DAY_MS);
+
 const emptySummary: SummaryData = {
   entry_count: 0,
   days_logged: 0,
@@ -34,9 +58,21 @@ const emptySummary: SummaryData = {
   total_protein: 0,
   total_carbs: 0,
   total_fats: 0,
+  avg_calories: 0,
+  avg_protein: 0,
+  avg_carbs: 0,
+  avg_fats: 0,
+  goal_days: 0,
+  calorie_goal_days: 0,
+  protein_goal_days: 0,
+  protein_pct: 0,
+  carbs_pct: 0,
+  fats_pct: 0,
 };
 
 const SummaryDisplay: React.FC<SummaryDisplayProps> = ({ session }) => {
+  const { timezone, weekStart } = useUserExperience();
+  const navigate = useNavigate();
   const [weeklySummary, setWeeklySummary] = useState<SummaryData | null>(null);
   const [previousWeeklySummary, setPreviousWeeklySummary] = useState<SummaryData | null>(null);
   const [monthlySummary, setMonthlySummary] = useState<SummaryData | null>(null);
@@ -45,11 +81,25 @@ const SummaryDisplay: React.FC<SummaryDisplayProps> = ({ session }) => {
   const [loadingMonthly, setLoadingMonthly] = useState(true);
   const [weeklyError, setWeeklyError] = useState<string | null>(null);
   const [monthlyError, setMonthlyError] = useState<string | null>(null);
+  const [weeklyGoals, setWeeklyGoals] = useState<GoalTargets | null>(null);
+  const [monthlyGoals, setMonthlyGoals] = useState<GoalTargets | null>(null);
+  const [weeklyWeightChange, setWeeklyWeightChange] = useState<number | null>(null);
+  const [weeklySeries, setWeeklySeries] = useState<DailySeriesDay[]>([]);
+  const [monthlySeries, setMonthlySeries] = useState<DailySeriesDay[]>([]);
+  const [rangeSummary, setRangeSummary] = useState<SummaryData | null>(null);
+  const [previousRangeSummary, setPreviousRangeSummary] = useState<SummaryData | null>(null);
+  const [rangeGoals, setRangeGoals] = useState<GoalTargets | null>(null);
+  const [rangeSeries, setRangeSeries] = useState<DailySeriesDay[]>([]);
+  const [rangeWeightChange, setRangeWeightChange] = useState<number | null>(null);
+  const [loadingRange, setLoadingRange] = useState(true);
+  const [rangeError, setRangeError] = useState<string | null>(null);
 
   const [activeTab, setActiveTab] = useState('weekly');
 
   const [currentWeekDate, setCurrentWeekDate] = useState(new Date());
   const [currentMonthDate, setCurrentMonthDate] = useState(new Date());
+  const [rangeStart, setRangeStart] = useState(() => addDays(new Date(), -27));
+  const [rangeEnd, setRangeEnd] = useState(() => addDays(new Date(), 0));
 
   const fetchSummaries = useCallback(async (weekTargetDate: Date, monthTargetDate: Date) => {
     setLoadingWeekly(true);
@@ -81,7 +131,30 @@ const SummaryDisplay: React.FC<SummaryDisplayProps> = ({ session }) => {
       if (weeklyError) throw new Error(`Weekly Summary: ${weeklyError.message}`);
       if (prevWeeklyError) throw new Error(`Previous Week: ${prevWeeklyError.message}`);
 
-      setWeeklySummary(weeklyData && weeklyData.length > 0 ? weeklyData[0] : { ...emptySummary });
+      const weekly: SummaryData = weeklyData && weeklyData.length > 0 ? weeklyData[0] : { ...emptySummary };
+      setWeeklySummary(weekly);
+      if (weekly.week_start_display && weekly.week_end_display) {
+        const weekStart = weekly.week_start_display;
+        const weekEnd = clipToToday(weekly.week_end_display);
+        const [goals, series, weightRate] = await Promise.all([
+          fetchAverageGoalsForRange(session.user.id, weekStart, weekEnd),
+          fetchSeriesOrEmpty(session.user.id, weekStart, weekly.week_end_display),
+          // Weight is a side panel; a failed read shouldn't blank the calorie summary.
+          fetchWeightTrend(session.user.id, weekStart, weekEnd, timezone)
+            .then((points) => weeklyWeightRate(points, weekStart, weekEnd))
+            .catch((err: unknown) => {
+              console.warn('Weekly weight trend unavailable:', err);
+              return null;
+            }),
+        ]);
+        setWeeklyGoals(goals);
+        setWeeklySeries(series);
+        setWeeklyWeightChange(weightRate);
+      } else {
+        setWeeklyGoals(null);
+        setWeeklySeries([]);
+        setWeeklyWeightChange(null);
+      }
       setPreviousWeeklySummary(
         prevWeeklyData && prevWeeklyData.length > 0 && prevWeeklyData[0].entry_count > 0
           ? prevWeeklyData[0]
@@ -92,6 +165,9 @@ const SummaryDisplay: React.FC<SummaryDisplayProps> = ({ session }) => {
       setWeeklyError(getWeeklySummaryFailureMessage());
       setWeeklySummary(null);
       setPreviousWeeklySummary(null);
+      setWeeklyGoals(null);
+      setWeeklySeries([]);
+      setWeeklyWeightChange(null);
     } finally {
       setLoadingWeekly(false);
     }
@@ -109,6 +185,14 @@ const SummaryDisplay: React.FC<SummaryDisplayProps> = ({ session }) => {
       if (prevMonthlyError) throw new Error(`Previous Month: ${prevMonthlyError.message}`);
 
       setMonthlySummary(monthlyData && monthlyData.length > 0 ? monthlyData[0] : { ...emptySummary });
+      const monthStart = formatDate(new Date(monthYear, monthNum - 1, 1));
+      const monthEnd = formatDate(new Date(monthYear, monthNum, 0));
+      const [goals, series] = await Promise.all([
+        fetchAverageGoalsForRange(session.user.id, monthStart, clipToToday(monthEnd)),
+        fetchSeriesOrEmpty(session.user.id, monthStart, monthEnd),
+      ]);
+      setMonthlyGoals(goals);
+      setMonthlySeries(series);
       setPreviousMonthlySummary(
         prevMonthlyData && prevMonthlyData.length > 0 && prevMonthlyData[0].entry_count > 0
           ? prevMonthlyData[0]
@@ -119,16 +203,86 @@ const SummaryDisplay: React.FC<SummaryDisplayProps> = ({ session }) => {
       setMonthlyError(getMonthlySummaryFailureMessage());
       setMonthlySummary(null);
       setPreviousMonthlySummary(null);
+      setMonthlyGoals(null);
+      setMonthlySeries([]);
     } finally {
       setLoadingMonthly(false);
     }
-  }, [session.user.id]);
+  }, [session.user.id, timezone]);
 
+  // get_weekly_summary reads week_start from the profile, so a changed preference needs a refetch.
   useEffect(() => {
     if (session) {
       fetchSummaries(currentWeekDate, currentMonthDate);
     }
-  }, [session, currentWeekDate, currentMonthDate, fetchSummaries]);
+  }, [session, currentWeekDate, currentMonthDate, fetchSummaries, weekStart]);
+
+  const fetchRangeSummary = useCallback(async (start: Date, end: Date) => {
+    setLoadingRange(true);
+    setRangeError(null);
+
+    const startStr = formatDate(start);
+    const endStr = formatDate(end);
+    // Compare with the same number of days immediately before.
+    const length = daysBetween(start, end) + 1;
+    const prevStartStr = formatDate(addDays(start, -length));
+    const prevEndStr = formatDate(addDays(start, -1));
+
+    try {
+      const [
+        { data: rangeData, error: rangeError },
+        { data: prevRangeData, error: prevRangeError },
+      ] = await Promise.all([
+        supabase.rpc('get_range_summary', { p_user_id: session.user.id, p_start: startStr, p_end: endStr }),
+        supabase.rpc('get_range_summary', { p_user_id: session.user.id, p_start: prevStartStr, p_end: prevEndStr }),
+      ]);
+
+      if (rangeError) throw new Error(`Range Summary: ${rangeError.message}`);
+      if (prevRangeError) throw new Error(`Previous Range: ${prevRangeError.message}`);
+
+      setRangeSummary(rangeData && rangeData.length > 0 ? rangeData[0] : { ...emptySummary });
+      const clippedEnd = clipToToday(endStr);
+      const [goals, series, weightRate] = await Promise.all([
+        fetchAverageGoalsForRange(session.user.id, startStr, clippedEnd),
+        fetchSeriesOrEmpty(session.user.id, startStr, endStr),
+        fetchWeightTrend(session.user.id, startStr, clippedEnd, timezone)
+          .then((points) => weeklyWeightRate(points, startStr, clippedEnd))
+          .catch((err: unknown) => {
+            console.warn('Range weight trend unavailable:', err);
+            return null;
+          }),
+      ]);
+      setRangeGoals(goals);
+      setRangeSeries(series);
+      setRangeWeightChange(weightRate);
+      setPreviousRangeSummary(
+        prevRangeData && prevRangeData.length > 0 && prevRangeData[0].entry_count > 0
+          ? prevRangeData[0]
+          : null,
+      );
+    } catch (err: unknown) {
+      console.error('Error fetching range summary:', err);
+      setRangeError(getRangeSummaryFailureMessage());
+      setRangeSummary(null);
+      setPreviousRangeSummary(null);
+      setRangeGoals(null);
+      setRangeSeries([]);
+      setRangeWeightChange(null);
+    } finally {
+      setLoadingRange(false);
+    }
+  }, [session.user.id, timezone]);
+
+  // Only fetched once the range tab is opened; most visits never leave Weekly.
+  useEffect(() => {
+    if (session && activeTab === 'range') {
+      fetchRangeSummary(rangeStart, rangeEnd);
+    }
+  }, [session, activeTab, rangeStart, rangeEnd, fetchRangeSummary]);
+
+  const openDay = (dateKey: string) => {
+    navigate('/', { state: { showDate: dateKey } });
+  };
 
   const changeWeek = (offset: number) => {
     setCurrentWeekDate((prevDate) => {
@@ -146,13 +300,28 @@ const SummaryDisplay: React.FC<SummaryDisplayProps> = ({ session }) => {
     });
   };
 
+  /** Keeps the range in the past, in order, and within a year — moving the other end if needed. */
+  const changeRangeStart = (date: Date) => {
+    const today = addDays(new Date(), 0);
+    const start = date > today ? today : addDays(date, 0);
+    setRangeStart(start);
+    if (rangeEnd < start) setRangeEnd(start);
+    else if (daysBetween(start, rangeEnd) >= MAX_RANGE_DAYS) setRangeEnd(addDays(start, MAX_RANGE_DAYS - 1));
+  };
+
+  const changeRangeEnd = (date: Date) => {
+    const today = addDays(new Date(), 0);
+    const end = date > today ? today : addDays(date, 0);
+    setRangeEnd(end);
+    if (rangeStart > end) setRangeStart(end);
+    else if (daysBetween(rangeStart, end) >= MAX_RANGE_DAYS) setRangeStart(addDays(end, -(MAX_RANGE_DAYS - 1)));
+  };
+
   const isCurrentWeek = useCallback(() => {
-    const today = new Date();
-    const startOfThisWeek = new Date(today.getFullYear(), today.getMonth(), today.getDate() - today.getDay());
-    const tempCurrentWeekDate = new Date(currentWeekDate);
-    const startOfTargetWeek = new Date(tempCurrentWeekDate.getFullYear(), tempCurrentWeekDate.getMonth(), tempCurrentWeekDate.getDate() - tempCurrentWeekDate.getDay());
+    const startOfThisWeek = startOfWeek(new Date(), weekStart);
+    const startOfTargetWeek = startOfWeek(currentWeekDate, weekStart);
     return startOfThisWeek.toDateString() === startOfTargetWeek.toDateString();
-  }, [currentWeekDate]);
+  }, [currentWeekDate, weekStart]);
 
   const isCurrentMonth = useCallback(() => {
     const today = new Date();
@@ -175,10 +344,17 @@ const SummaryDisplay: React.FC<SummaryDisplayProps> = ({ session }) => {
         </div>
       )}
 
+      {activeTab === 'range' && rangeError && (
+        <div className="text-center mb-5">
+          <p className="text-danger text-sm">{rangeError}</p>
+        </div>
+      )}
+
       <TabNavigation
         tabs={[
           { id: 'weekly', label: 'Weekly' },
           { id: 'monthly', label: 'Monthly' },
+          { id: 'range', label: 'Custom' },
         ]}
         activeTab={activeTab}
         onTabChange={setActiveTab}
@@ -190,22 +366,47 @@ const SummaryDisplay: React.FC<SummaryDisplayProps> = ({ session }) => {
           <WeeklyTab
             data={weeklySummary}
             previousData={previousWeeklySummary}
+            goals={weeklyGoals}
+            weightRate={weeklyWeightChange}
+            series={weeklySeries}
+            onSelectDay={openDay}
             loading={loadingWeekly}
             isActive={true}
             isCurrentWeek={isCurrentWeek}
             changeWeek={changeWeek}
           />
-        ) : (
+        ) : activeTab === 'monthly' ? (
           <MonthlyTab
             data={monthlySummary}
             previousData={previousMonthlySummary}
+            goals={monthlyGoals}
+            series={monthlySeries}
+            onSelectDay={openDay}
             loading={loadingMonthly}
             isActive={true}
             isCurrentMonth={isCurrentMonth}
             changeMonth={changeMonth}
           />
+        ) : (
+          <RangeTab
+            data={rangeSummary}
+            previousData={previousRangeSummary}
+            goals={rangeGoals}
+            weightRate={rangeWeightChange}
+            series={rangeSeries}
+            onSelectDay={openDay}
+            loading={loadingRange}
+            start={rangeStart}
+            end={rangeEnd}
+            onChangeStart={changeRangeStart}
+            onChangeEnd={changeRangeEnd}
+          />
         )}
       </div>
+
+      <div className="mt-6">
+        <WeightTrendCard userId={session.user.id} />
+      </div>
     </div>
   );
 };
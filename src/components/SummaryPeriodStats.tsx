@@ -0,0 +1,153 @@
+import React from 'react';
+import MacroStatGrid from './MacroStatGrid';
+import DailySeriesChart from './DailySeriesChart';
+import type { SummaryData } from '../types/summary';
+import type { GoalTargets } from '../utils/goalSchedule';
+import type { DailySeriesDay } from '../utils/dailySeries';
+import { useUserExperience } from '../context/userExperience';
+import { dateKeyInTimezone } from '../utils/localDate';
+import {
+  formatWeeklyWeightRate,
+  getCalorieAdherenceLine,
+  getPeriodTargetLine,
+  getProteinAdherenceLine,
+} from '../copy/experience';
+
+interface SummaryPeriodStatsProps {
+  data: SummaryData;
+  previousData: SummaryData | null;
+  goals: GoalTargets | null;
+  weightRate?: number | null;
+  series: DailySeriesDay[];
+  onSelectDay: (dateKey: string) => void;
+  denseSeries?: boolean;
+}
+
+// Past about two months the per-day bars get too thin to tap.
+const MAX_CHART_DAYS = 62;
+
+/** Everything under a summary period's header: per-logged-day averages, adherence, macro split and daily bars. */
+const SummaryPeriodStats: React.FC<SummaryPeriodStatsProps> = ({
+  data,
+  previousData,
+  goals,
+  weightRate = null,
+  series,
+  onSelectDay,
+  denseSeries = false,
+}) => {
+  const { timezone } = useUserExperience();
+  // The series buckets days in the profile timezone, so "today" must too.
+  const todayKey = dateKeyInTimezone(timezone);
+  const daysLogged = Number(data.days_logged);
+  // Calendar days so far in the period, for "4 of 7 days logged".
+  const periodDays = series.filter((day) => day.day <= todayKey).length;
+  const goalDays = Number(data.goal_days);
+  const split = [
+    { key: 'protein', label: 'Protein', pct: Number(data.protein_pct) },
+    { key: 'carbs', label: 'Carbs', pct: Number(data.carbs_pct) },
+    { key: 'fats', label: 'Fats', pct: Number(data.fats_pct) },
+  ];
+
+  return (
+    <div>
+      {daysLogged > 0 && (
+        <div className="stats-hero">
+          <p className="stats-hero-num tabular-nums">
+            {Math.round(Number(data.avg_calories)).toLocaleString()}
+          </p>
+          <p className="stats-hero-label">avg cal / logged day</p>
+          <p className="stats-hero-meta">
+            {periodDays > 0 ? `${daysLogged} of ${periodDays}` : daysLogged} {(periodDays || daysLogged) === 1 ? 'day' : 'days'} logged · {Math.round(Number(data.total_calories)).toLocaleString()} total
+          </p>
+          {goals && (
+            <p className="stats-hero-meta">
+              {getPeriodTargetLine(goals.daily_calories_goal)}
+            </p>
+          )}
+          {weightRate !== null && (
+            <p className="stats-hero-meta">
+              Weight trend {formatWeeklyWeightRate(weightRate)}
+            </p>
+          )}
+        </div>
+      )}
+
+      {goalDays > 0 && (
+        <div className="stats-adherence">
+          <div className="stats-adherence__item">
+            <p className="stats-adherence__num tabular-nums">
+              {data.calorie_goal_days}<span className="stats-adherence__of">/{goalDays}</span>
+            </p>
+            <p className="stats-adherence__label">{getCalorieAdherenceLine()}</p>
+          </div>
+          <div className="stats-adherence__item">
+            <p className="stats-adherence__num tabular-nums">
+              {data.protein_goal_days}<span className="stats-adherence__of">/{goalDays}</span>
+            </p>
+            <p className="stats-adherence__label">{getProteinAdherenceLine()}</p>
+          </div>
+        </div>
+      )}
+
+      <div className="text-center mb-4">
+        <div className="stats-avg-label">Per logged day</div>
+      </div>
+
+      <MacroStatGrid
+        size="lg"
+        showTrend
+        values={{
+          calories: Number(data.avg_calories),
+          protein: Number(data.avg_protein),
+          carbs: Number(data.avg_carbs),
+          fats: Number(data.avg_fats),
+        }}
+        previousValues={previousData ? {
+          calories: Number(previousData.avg_calories),
+          protein: Number(previousData.avg_protein),
+          carbs: Number(previousData.avg_carbs),
+          fats: Number(previousData.avg_fats),
+        } : null}
+      />
+
+      {split.some((part) => part.pct > 0) && (
+        <div className="stats-divider mt-6">
+          <div className="text-center mb-4">
+            <div className="stats-avg-label">Macro split</div>
+          </div>
+          <div className="stats-split__bar" aria-hidden="true">
+            {split.map((part) => (
+              <span
+                key={part.key}
+                className={`stats-split__part stats-split__part--${part.key}`}
+                style={{ width: `${part.pct}%` }}
+              />
+            ))}
+          </div>
+          <div className="grid grid-cols-3 gap-4 mt-3">
+            {split.map((part) => (
+              <div key={part.key} className={`macro-stat macro-stat--${part.key}`}>
+                <div className="macro-stat__value macro-stat__value--sm">{Math.round(part.pct)}%</div>
+                <div className="macro-stat__label">{part.label}</div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {series.length > 0 && series.length <= MAX_CHART_DAYS && (
+        <div className="stats-divider mt-6">
+          <DailySeriesChart
+            days={series}
+            todayKey={todayKey}
+            onSelectDay={onSelectDay}
+            dense={denseSeries}
+          />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SummaryPeriodStats;
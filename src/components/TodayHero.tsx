@@ -21,10 +21,12 @@ interface TodayHeroProps {
   dailyTotals: DailyTotals;
   userGoals: UserGoals | null;
   streak: number;
+  /** Short generated observation about today, when there is one */
+  insight?: string | null;
   onSetTargets?: () => void;
 }
 
-const TodayHero: React.FC<TodayHeroProps> = ({ dailyTotals, userGoals, streak, onSetTargets }) => {
+const TodayHero: React.FC<TodayHeroProps> = ({ dailyTotals, userGoals, streak, insight, onSetTargets }) => {
   const { experience } = useUserExperience();
 
   return (
@@ -42,6 +44,10 @@ const TodayHero: React.FC<TodayHeroProps> = ({ dailyTotals, userGoals, streak, o
         </div>
       )}
 
+      {insight && (
+        <p className="today-summary__insight" aria-live="polite">{insight}</p>
+      )}
+
       <p className="today-summary__whisper">
         {getGreeting(experience)}
         {streak > 1 && (
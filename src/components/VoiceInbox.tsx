@@ -0,0 +1,47 @@
+import React, { useEffect, useState } from 'react';
+import { getVoiceInboxReadyLabel, getVoiceInboxWaitingLabel } from '../copy/experience';
+
+interface VoiceInboxProps {
+  readyCount: number;
+  waitingCount: number;
+  onReview: () => void;
+}
+
+function useOnline(): boolean {
+  const [online, setOnline] = useState(() => navigator.onLine);
+  useEffect(() => {
+    const update = () => setOnline(navigator.onLine);
+    window.addEventListener('online', update);
+    window.addEventListener('offline', update);
+    return () => {
+      window.removeEventListener('online', update);
+      window.removeEventListener('offline', update);
+    };
+  }, []);
+  return online;
+}
+
+/** Recordings made offline: how many are still waiting, and a way into the parsed ones. */
+const VoiceInbox: React.FC<VoiceInboxProps> = ({ readyCount, waitingCount, onReview }) => {
+  const online = useOnline();
+  if (readyCount === 0 && waitingCount === 0) return null;
+
+  return (
+    <section className="voice-inbox" aria-live="polite">
+      {readyCount > 0 && (
+        <button type="button" onClick={onReview} className="voice-inbox__review">
+          <span className="voice-inbox__count tabular-nums">{readyCount}</span>
+          <span>{getVoiceInboxReadyLabel(readyCount)}</span>
+          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden>
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+          </svg>
+        </button>
+      )}
+      {waitingCount > 0 && (
+        <p className="voice-inbox__waiting">{getVoiceInboxWaitingLabel(waitingCount, online)}</p>
+      )}
+    </section>
+  );
+};
+
+export default VoiceInbox;
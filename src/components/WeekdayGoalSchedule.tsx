@@ -0,0 +1,58 @@
+import React from 'react';
+import GoalNumberFields from './GoalNumberFields';
+import { WEEKDAY_LABELS, weekdaysFrom, type GoalFormValues } from '../utils/goalSchedule';
+
+interface WeekdayGoalScheduleProps {
+  /** Index 0 = Sunday; null means the day uses the default targets. */
+  value: Array<GoalFormValues | null>;
+  defaults: GoalFormValues;
+  /** Rows are listed from the user's first day of the week. */
+  weekStart?: number;
+  onChange: (value: Array<GoalFormValues | null>) => void;
+}
+
+/** Per-weekday targets. A day is either "Default" or has its own four numbers. */
+const WeekdayGoalSchedule: React.FC<WeekdayGoalScheduleProps> = ({ value, defaults, weekStart = 0, onChange }) => {
+  const setDay = (weekday: number, next: GoalFormValues | null) => {
+    onChange(value.map((day, i) => (i === weekday ? next : day)));
+  };
+
+  return (
+    <div className="goal-schedule">
+      <p className="form-label">Weekday schedule</p>
+      <p className="form-hint mb-3">Give training days or weekends their own targets</p>
+
+      {weekdaysFrom(weekStart).map((weekday) => {
+        const label = WEEKDAY_LABELS[weekday];
+        const day = value[weekday];
+        return (
+          <div key={label} className="goal-schedule__day">
+            <div className="goal-schedule__day-head">
+              <span className="goal-schedule__day-name">
+                {label}
+                {!day && <span className="goal-schedule__default"> · Default</span>}
+              </span>
+              <button
+                type="button"
+                onClick={() => setDay(weekday, day ? null : { ...defaults })}
+                className="btn-ghost text-xs py-1.5 px-3"
+                aria-pressed={day !== null}
+              >
+                {day ? 'Use default' : 'Customise'}
+              </button>
+            </div>
+            {day && (
+              <GoalNumberFields
+                value={day}
+                onChange={(next) => setDay(weekday, next)}
+                idPrefix={`weekday_${weekday}`}
+              />
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default WeekdayGoalSchedule;
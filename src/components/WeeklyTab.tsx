@@ -1,24 +1,22 @@
 import React from 'react';
 import { Link } from 'react-router-dom';
-import MacroStatGrid from './MacroStatGrid';
+import SummaryPeriodStats from './SummaryPeriodStats';
 import LoadingState from './LoadingState';
 import { SahhaMark } from './SahhaBrand';
+import type { GoalTargets } from '../utils/goalSchedule';
+import type { SummaryData } from '../types/summary';
+import type { DailySeriesDay } from '../utils/dailySeries';
 import { getStatsEmptyBody, getStatsEmptyCta, getStatsEmptyTitle, getTabLoadingLabel } from '../copy/experience';
 
-interface SummaryData {
-  total_calories: number;
-  total_protein: number;
-  total_carbs: number;
-  total_fats: number;
-  entry_count: number;
-  days_logged: number;
-  week_start_display?: string;
-  week_end_display?: string;
-}
-
 interface WeeklyTabProps {
   data: SummaryData | null;
   previousData: SummaryData | null;
+  /** Average daily target over the period, each day resolved against its own schedule. */
+  goals: GoalTargets | null;
+  series: DailySeriesDay[];
+  onSelectDay: (dateKey: string) => void;
+  /** Trend weight change across the week in kg/week, when there are enough readings. */
+  weightRate: number | null;
   loading: boolean;
   isActive: boolean;
   isCurrentWeek: () => boolean;
@@ -28,6 +26,10 @@ interface WeeklyTabProps {
 const WeeklyTab: React.FC<WeeklyTabProps> = ({
   data,
   previousData,
+  goals,
+  series,
+  onSelectDay,
+  weightRate,
   loading,
   isActive,
   isCurrentWeek,
@@ -83,67 +85,14 @@ const WeeklyTab: React.FC<WeeklyTabProps> = ({
             </Link>
           </div>
         ) : (
-          <div>
-            {data.days_logged > 0 && (
-              <div className="stats-hero">
-                <p className="stats-hero-num tabular-nums">
-                  {Math.round(data.total_calories / data.days_logged)}
-                </p>
-                <p className="stats-hero-label">avg cal / day</p>
-                <p className="stats-hero-meta">
-                  {data.days_logged} {data.days_logged === 1 ? 'day' : 'days'} logged · {Math.round(data.total_calories)} total
-                </p>
-              </div>
-            )}
-
-            <MacroStatGrid
-              size="lg"
-              showTrend
-              values={{
-                calories: data.total_calories,
-                protein: data.total_protein,
-                carbs: data.total_carbs,
-                fats: data.total_fats,
-              }}
-              previousValues={previousData ? {
-                calories: previousData.total_calories,
-                protein: previousData.total_protein,
-                carbs: previousData.total_carbs,
-                fats: previousData.total_fats,
-              } : null}
-            />
-
-            {data.days_logged > 0 && (
-              <div className="stats-divider mt-6">
-                <div className="text-center mb-4">
-                  <div className="stats-avg-label">
-                    Daily averages
-                  </div>
-                </div>
-
-                <div className="grid grid-cols-3 gap-4">
-                  <div className="macro-stat macro-stat--protein">
-                    <div className="macro-stat__value macro-stat__value--sm">
-                      {(data.total_protein / data.days_logged).toFixed(1)}g
-                    </div>
-                    <div className="macro-stat__label">Protein/day</div>
-                  </div>
-                  <div className="macro-stat macro-stat--carbs">
-                    <div className="macro-stat__value macro-stat__value--sm">
-                      {(data.total_carbs / data.days_logged).toFixed(1)}g
-                    </div>
-                    <div className="macro-stat__label">Carbs/day</div>
-                  </div>
-                  <div className="macro-stat macro-stat--fats">
-                    <div className="macro-stat__value macro-stat__value--sm">
-                      {(data.total_fats / data.days_logged).toFixed(1)}g
-                    </div>
-                    <div className="macro-stat__label">Fats/day</div>
-                  </div>
-                </div>
-              </div>
-            )}
-          </div>
+          <SummaryPeriodStats
+            data={data}
+            previousData={previousData}
+            goals={goals}
+            weightRate={weightRate}
+            series={series}
+            onSelectDay={onSelectDay}
+          />
         )}
       </div>
     </div>
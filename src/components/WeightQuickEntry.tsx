@@ -0,0 +1,91 @@
+import React, { useEffect, useState } from 'react';
+import { useToast } from '../context/toast';
+import { useUserExperience } from '../context/userExperience';
+import { dateKeyInTimezone } from '../utils/localDate';
+import { hapticSuccess } from '../utils/haptics';
+import { fetchLatestWeightEntry, logWeight, MAX_WEIGHT_KG, MIN_WEIGHT_KG, type WeightEntry } from '../utils/weightEntries';
+import { getWeightLoggedToast } from '../copy/experience';
+
+interface WeightQuickEntryProps {
+  userId: string;
+}
+
+/** One-line weigh-in on Today. Shows today's reading once there is one, with the last reading as a hint before. */
+const WeightQuickEntry: React.FC<WeightQuickEntryProps> = ({ userId }) => {
+  const { timezone } = useUserExperience();
+  const { showToast } = useToast();
+  const [latest, setLatest] = useState<WeightEntry | null>(null);
+  const [value, setValue] = useState('');
+  const [editing, setEditing] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchLatestWeightEntry(userId)
+      .then((entry) => {
+        if (!cancelled) setLatest(entry);
+      })
+      .catch((err: unknown) => console.warn('Latest weight unavailable:', err));
+    return () => { cancelled = true; };
+  }, [userId]);
+
+  const today = dateKeyInTimezone(timezone);
+  const loggedToday = latest !== null && dateKeyInTimezone(timezone, new Date(latest.recorded_at)) === today;
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setSaving(true);
+    setError(null);
+    try {
+      const entry = await logWeight(userId, Number.parseFloat(value));
+      hapticSuccess();
+      setLatest(entry);
+      setValue('');
+      setEditing(false);
+      showToast(getWeightLoggedToast(entry.weight_kg));
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Could not save your weight.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (latest && loggedToday && !editing) {
+    return (
+      <div className="weight-quick">
+        <span className="weight-quick__label">Weight</span>
+        <span className="weight-quick__value tabular-nums">{latest.weight_kg.toFixed(1)} kg today</span>
+        <button type="button" onClick={() => setEditing(true)} className="btn-ghost text-xs py-1.5 px-3">
+          Weigh again
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="weight-quick">
+      <label htmlFor="weight_quick_input" className="weight-quick__label">Weight</label>
+      <input
+        id="weight_quick_input"
+        type="number"
+        value={value}
+        onChange={(e) => setValue(e.target.value)}
+        min={MIN_WEIGHT_KG}
+        max={MAX_WEIGHT_KG}
+        step="0.1"
+        inputMode="decimal"
+        placeholder={latest ? latest.weight_kg.toFixed(1) : 'kg'}
+        required
+        className="input-premium weight-quick__input"
+      />
+      <span className="weight-quick__unit">kg</span>
+      <button type="submit" disabled={saving || !value} className="btn-secondary weight-quick__save">
+        {saving ? 'Saving…' : 'Log'}
+      </button>
+      {error && <p className="weight-quick__error">{error}</p>}
+    </form>
+  );
+};
+
+export default WeightQuickEntry;
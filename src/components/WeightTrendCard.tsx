@@ -0,0 +1,108 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import LoadingState from './LoadingState';
+import { useUserExperience } from '../context/userExperience';
+import { dateKeyInTimezone, parseLocalDateKey, shiftDateKey } from '../utils/localDate';
+import { fetchBodyStats } from '../utils/profile';
+import { fetchWeightTrend } from '../utils/weightEntries';
+import { weeklyWeightRate, type WeightTrendPoint } from '../utils/weightTrend';
+import type { GoalType } from '../utils/goalCalculator';
+import { getWeightEmptyBody, getWeightRateLine } from '../copy/experience';
+
+interface WeightTrendCardProps {
+  userId: string;
+}
+
+const CHART_DAYS = 90;
+const RATE_DAYS = 14;
+const WIDTH = 320;
+const HEIGHT = 140;
+const PAD_X = 6;
+const PAD_Y = 10;
+
+function dayIndex(dateKey: string, startKey: string): number {
+  return Math.round((parseLocalDateKey(dateKey).getTime() - parseLocalDateKey(startKey).getTime()) / 86_400_000);
+}
+
+/** Raw readings as dots, the smoothed trend as a line, over the last 90 days. */
+const WeightTrendCard: React.FC<WeightTrendCardProps> = ({ userId }) => {
+  const { timezone } = useUserExperience();
+  const [points, setPoints] = useState<WeightTrendPoint[] | null>(null);
+  const [goalType, setGoalType] = useState<GoalType | null>(null);
+
+  const endKey = dateKeyInTimezone(timezone);
+  const startKey = shiftDateKey(endKey, -(CHART_DAYS - 1));
+
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all([
+      fetchWeightTrend(userId, startKey, endKey, timezone),
+      fetchBodyStats(userId),
+    ])
+      .then(([trend, stats]) => {
+        if (cancelled) return;
+        setPoints(trend.filter((point) => point.date >= startKey));
+        setGoalType(stats?.goal_type ?? null);
+      })
+      .catch((err: unknown) => {
+        console.error('Error fetching weight trend:', err);
+        if (!cancelled) setPoints([]);
+      });
+    return () => { cancelled = true; };
+  }, [userId, startKey, endKey, timezone]);
+
+  const chart = useMemo(() => {
+    if (!points || points.length === 0) return null;
+    const values = points.flatMap((point) => [point.weight_kg, point.trend_kg]);
+    const min = Math.min(...values) - 0.5;
+    const max = Math.max(...values) + 0.5;
+    const x = (date: string) => PAD_X + (dayIndex(date, startKey) / (CHART_DAYS - 1)) * (WIDTH - PAD_X * 2);
+    const y = (kg: number) => PAD_Y + ((max - kg) / (max - min)) * (HEIGHT - PAD_Y * 2);
+    return {
+      dots: points.map((point) => ({ key: point.date, cx: x(point.date), cy: y(point.weight_kg) })),
+      trendPath: points.map((point, i) => `${i === 0 ? 'M' : 'L'}${x(point.date).toFixed(1)},${y(point.trend_kg).toFixed(1)}`).join(' '),
+      min,
+      max,
+    };
+  }, [points, startKey]);
+
+  const latest = points && points.length ? points[points.length - 1] : null;
+  const rate = points ? weeklyWeightRate(points, shiftDateKey(endKey, -RATE_DAYS), endKey) : null;
+
+  return (
+    <section className="card-elevated p-6 weight-trend" aria-label="Body weight">
+      <div className="weight-trend__head">
+        <p className="section-label">Weight · last {CHART_DAYS} days</p>
+        {latest && (
+          <p className="weight-trend__current tabular-nums">
+            {latest.trend_kg.toFixed(1)} <span className="weight-trend__unit">kg trend</span>
+          </p>
+        )}
+      </div>
+
+      {points === null ? (
+        <LoadingState compact showMark={false} label="Loading your weight" />
+      ) : !chart ? (
+        <p className="weight-trend__empty">{getWeightEmptyBody()}</p>
+      ) : (
+        <>
+          <svg
+            className="weight-trend__chart"
+            viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+            role="img"
+            aria-label={`Weight between ${chart.min.toFixed(1)} and ${chart.max.toFixed(1)} kg`}
+          >
+            {chart.dots.map((dot) => (
+              <circle key={dot.key} cx={dot.cx} cy={dot.cy} r={2.5} className="weight-trend__reading" />
+            ))}
+            <path d={chart.trendPath} className="weight-trend__line" />
+          </svg>
+          {rate !== null && (
+            <p className="weight-trend__rate">{getWeightRateLine(rate, goalType)}</p>
+          )}
+        </>
+      )}
+    </section>
+  );
+};
+
+export default WeightTrendCard;
@@ -15,6 +15,7 @@ import {
 import { todayDayBounds, dateKeyInTimezone } from '../utils/localDate';
 import { ensureProfile, fetchProfile, syncProfileTimezone, updateDisplayName } from '../utils/profile';
 import { resolveUserTimezone } from '../utils/userTimezone';
+import { fetchGoalsForDate } from '../utils/goalSchedule';
 import { supabase } from '../supabaseClient';
 import { UserExperienceContext } from './userExperience';
 
@@ -37,15 +38,9 @@ const defaultExperience: ExperienceContext = {
   weeklyDaysLogged: null,
 };
 
-async function fetchGoals(userId: string): Promise<UserGoals | null> {
-  const { data, error } = await supabase
-    .from('user_goals')
-    .select('daily_calories_goal, daily_protein_goal, daily_carbs_goal, daily_fats_goal')
-    .eq('user_id', userId)
-    .maybeSingle();
-
-  if (error || !data) return null;
-  return data;
+/** Today's goals in the user's timezone — a weekday schedule or override can differ from the default. */
+async function fetchGoals(userId: string, timeZone: string): Promise<UserGoals | null> {
+  return fetchGoalsForDate(userId, dateKeyInTimezone(timeZone));
 }
 
 async function fetchTodayTotals(userId: string, timeZone: string) {
@@ -166,7 +161,7 @@ export function UserExperienceProvider({
     const timeZone = resolveUserTimezone(profileRow);
 
     const [goals, today, streak, weeklyDaysLogged] = await Promise.all([
-      fetchGoals(userId),
+      fetchGoals(userId, timeZone),
       fetchTodayTotals(userId, timeZone),
       fetchStreak(userId, timeZone),
       fetchWeeklyDaysLogged(userId, timeZone),
@@ -216,6 +211,7 @@ export function UserExperienceProvider({
     () => ({
       profile,
       timezone: resolveUserTimezone(profile),
+      weekStart: profile?.week_start ?? 0,
       experience,
       loading,
       needsName,
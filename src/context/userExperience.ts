@@ -4,6 +4,8 @@ import type { ExperienceContext, UserProfile } from '../types/experience';
 export interface UserExperienceValue {
   profile: UserProfile | null;
   timezone: string;
+  /** First day of the week from the profile, 0 = Sunday. */
+  weekStart: number;
   experience: ExperienceContext;
   loading: boolean;
   needsName: boolean;
@@ -1,6 +1,9 @@
 import type { ExperienceContext } from '../types/experience';
 import type { ParseProgressStage } from '../types/mealParse';
 import { timeOfDayLabel } from '../utils/experience';
+import type { GoalType } from '../utils/goalCalculator';
+import type { AdaptiveTdeeEstimate } from '../utils/adaptiveTdee';
+import { weightDirection } from '../utils/weightTrend';
 
 function withName(prefix: string, ctx: ExperienceContext): string {
   return ctx.firstName ? `${prefix}, ${ctx.firstName}` : prefix;
@@ -109,11 +112,12 @@ export function getBootLoadingSublabel(): string {
   return 'Your private nutrition journal';
 }
 
-export function getTabLoadingLabel(context: 'goals' | 'weekly' | 'monthly' | 'settings'): string {
+export function getTabLoadingLabel(context: 'goals' | 'weekly' | 'monthly' | 'range' | 'settings'): string {
   switch (context) {
     case 'goals': return 'Loading your targets';
     case 'weekly': return 'Loading this week';
     case 'monthly': return 'Loading this month';
+    case 'range': return 'Loading these dates';
     case 'settings': return 'Saving your targets';
   }
 }
@@ -128,6 +132,49 @@ export function getLogSuccessToast(calories: number): string {
   return `Logged · ${Math.round(calories).toLocaleString()} cal`;
 }
 
+export function getQueuedOfflineToast(calories: number): string {
+  return `Saved offline · ${Math.round(calories).toLocaleString()} cal · syncs when you're back online`;
+}
+
+export function getWeightLoggedToast(weightKg: number): string {
+  return `Weight logged · ${weightKg.toFixed(1)} kg`;
+}
+
+export function getWeightEmptyBody(): string {
+  return 'Log your weight on Today and a trend line appears here after a few readings.';
+}
+
+/** Signed kg per week, e.g. "−0.4 kg/wk". */
+export function formatWeeklyWeightRate(ratePerWeek: number): string {
+  const sign = ratePerWeek > 0 ? '+' : ratePerWeek < 0 ? '−' : '';
+  return `${sign}${Math.abs(ratePerWeek).toFixed(1)} kg/wk`;
+}
+
+const GOAL_DIRECTION: Record<GoalType, ReturnType<typeof weightDirection>> = {
+  cut: 'down',
+  maintain: 'steady',
+  bulk: 'up',
+};
+
+export function getWeightRateLine(ratePerWeek: number, goalType: GoalType | null): string {
+  const direction = weightDirection(ratePerWeek);
+  const movement = direction === 'steady'
+    ? 'Holding steady over the last two weeks'
+    : `Trending ${formatWeeklyWeightRate(ratePerWeek)} over the last two weeks`;
+  if (!goalType) return `${movement}.`;
+  return GOAL_DIRECTION[goalType] === direction
+    ? `${movement}, in line with your goal.`
+    : `${movement}, not yet where your goal points.`;
+}
+
+export function getLogAgainLabel(): string {
+  return 'Log again';
+}
+
+export function getLogAgainFailureMessage(): string {
+  return 'Could not log that meal. Try again.';
+}
+
 export function getGoalsSavedMessage(): string {
   return 'Targets saved';
 }
@@ -140,6 +187,15 @@ export function getGoalsOnboardingTitle(): string {
   return 'Set your daily targets';
 }
 
+export function getAdaptiveTdeeBody(estimate: AdaptiveTdeeEstimate): string {
+  const hedge = estimate.confidence === 'high' ? '' : estimate.confidence === 'medium' ? 'roughly ' : 'very roughly ';
+  return `Over the last four weeks you've averaged ${estimate.average_intake.toLocaleString()} cal a day, which puts your maintenance at ${hedge}${estimate.tdee.toLocaleString()} cal.`;
+}
+
+export function getGoalCalculatorCta(): string {
+  return 'Work it out from my stats';
+}
+
 export function getGoalsOnboardingBody(): string {
   return 'Calorie and macro goals help Soha track your day calmly — adjust these anytime in Targets.';
 }
@@ -164,6 +220,30 @@ export function getDeleteEntryBody(): string {
   return 'This entry will be permanently removed.';
 }
 
+export function getMealActionsTitle(): string {
+  return 'Meal';
+}
+
+export function getDeleteMealBody(itemCount: number): string {
+  return `This meal and its ${itemCount} item${itemCount === 1 ? '' : 's'} will be permanently removed.`;
+}
+
+export function getMealActionFailureMessage(): string {
+  return 'Couldn\'t update that meal. Try again.';
+}
+
+export function getPeriodTargetLine(averageTarget: number): string {
+  return `Target ${Math.round(averageTarget).toLocaleString()} cal / day on average`;
+}
+
+export function getCalorieAdherenceLine(): string {
+  return 'days within 10% of calories';
+}
+
+export function getProteinAdherenceLine(): string {
+  return 'days hitting protein';
+}
+
 export function getStatsEmptyTitle(): string {
   return 'No data for this period';
 }
@@ -253,6 +333,14 @@ export function getTranscriptReparseConfirm(): string {
   return 'Re-parse from this transcript? Your item edits will be lost.';
 }
 
+export function getRerunEstimateCta(): string {
+  return 'Get a fresh estimate';
+}
+
+export function getRerunEstimateTitle(): string {
+  return 'Fresh estimate vs what you logged from';
+}
+
 export function getTextParsingCtaLabel(): string {
   return 'One moment…';
 }
@@ -269,6 +357,46 @@ export function getNetworkUnreachableMessage(): string {
   return 'Can\'t reach Soha right now. Check your connection and try again.';
 }
 
+export function getBarcodeInvalidMessage(): string {
+  return 'That doesn\'t look like a full barcode. Check the digits under the bars.';
+}
+
+export function getBarcodeNotFoundMessage(): string {
+  return 'That product isn\'t in the database yet. Check the digits, or say what it is instead.';
+}
+
+export function getBarcodeLookupFailureMessage(): string {
+  return 'Couldn\'t look that product up. Try again in a moment.';
+}
+
+export function getRecordingSavedOfflineToast(): string {
+  return 'You\'re offline · recording saved, we\'ll read it when you\'re back';
+}
+
+/** "3 meals ready to review" */
+export function getVoiceInboxReadyLabel(count: number): string {
+  return `${count} ${count === 1 ? 'meal' : 'meals'} ready to review`;
+}
+
+export function getVoiceInboxWaitingLabel(count: number, online: boolean): string {
+  const noun = count === 1 ? 'recording' : 'recordings';
+  return online ? `Reading ${count} saved ${noun}…` : `${count} ${noun} saved · waiting for a connection`;
+}
+
+export function getOutboxFailedLabel(): string {
+  return 'Not saved';
+}
+
+export function getOutboxFailedHint(message: string): string {
+  return `The server turned this down: ${message}`;
+}
+
+export function getOutboxDiscardConfirm(count: number): string {
+  return count === 1
+    ? 'Discard this entry? It was never saved.'
+    : `Discard these ${count} entries? They were never saved.`;
+}
+
 export function getSessionExpiredMessage(): string {
   return 'Your session expired — sign in again to keep logging.';
 }
@@ -305,6 +433,26 @@ export function getMonthlySummaryFailureMessage(): string {
   return 'Couldn\'t load this month. Try again shortly.';
 }
 
+export function getRangeSummaryFailureMessage(): string {
+  return 'Couldn\'t load these dates. Try again shortly.';
+}
+
+export function getExportFailureMessage(): string {
+  return 'Couldn\'t prepare the export. Try again shortly.';
+}
+
+export function getImportFailureMessage(): string {
+  return 'Couldn\'t import that file. Try again shortly.';
+}
+
+export function getImportDoneToast(count: number): string {
+  return `Imported ${count.toLocaleString()} ${count === 1 ? 'entry' : 'entries'}`;
+}
+
+export function getImportPartialFailureMessage(count: number, reason: string): string {
+  return `Imported ${count.toLocaleString()} ${count === 1 ? 'entry' : 'entries'}, then stopped: ${reason}. Choose the file again to import the rest; what's already in is skipped.`;
+}
+
 export function getGoalsSaveFailureMessage(): string {
   return 'Couldn\'t save your targets. Try again.';
 }
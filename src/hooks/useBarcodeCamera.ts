@@ -0,0 +1,94 @@
+import { useEffect, useRef, useState, type RefObject } from 'react';
+
+// Shape Detection API; not in TypeScript's DOM lib yet.
+interface DetectedBarcode {
+  rawValue: string;
+}
+
+interface BarcodeDetectorInstance {
+  detect: (source: HTMLVideoElement) => Promise<DetectedBarcode[]>;
+}
+
+type BarcodeDetectorConstructor = new (options?: { formats?: string[] }) => BarcodeDetectorInstance;
+
+const RETAIL_FORMATS = ['ean_13', 'ean_8', 'upc_a'];
+const SCAN_INTERVAL_MS = 250;
+
+export type BarcodeCameraStatus = 'unsupported' | 'starting' | 'scanning' | 'denied';
+
+function getDetector(): BarcodeDetectorConstructor | null {
+  const detector = (window as unknown as { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector;
+  return detector && typeof navigator.mediaDevices?.getUserMedia === 'function' ? detector : null;
+}
+
+/**
+ * Rear camera into `videoRef`, decoded with `BarcodeDetector` until a code is
+ * seen. Browsers without the API report `unsupported` and callers fall back to
+ * typing the digits.
+ */
+export function useBarcodeCamera(
+  videoRef: RefObject<HTMLVideoElement | null>,
+  active: boolean,
+  onDetected: (barcode: string) => void,
+): BarcodeCameraStatus {
+  const [status, setStatus] = useState<BarcodeCameraStatus>(() => (getDetector() ? 'starting' : 'unsupported'));
+  const onDetectedRef = useRef(onDetected);
+
+  useEffect(() => {
+    onDetectedRef.current = onDetected;
+  }, [onDetected]);
+
+  useEffect(() => {
+    const Detector = getDetector();
+    if (!active || !Detector) return;
+
+    let stream: MediaStream | null = null;
+    let timer: number | undefined;
+    let stopped = false;
+    const detector = new Detector({ formats: RETAIL_FORMATS });
+
+    const scan = async () => {
+      const video = videoRef.current;
+      if (stopped || !video) return;
+      try {
+        const [code] = video.readyState >= 2 ? await detector.detect(video) : [];
+        if (code?.rawValue && !stopped) {
+          onDetectedRef.current(code.rawValue);
+          return;
+        }
+      } catch (err) {
+        console.warn('Barcode detection failed', err);
+      }
+      timer = window.setTimeout(scan, SCAN_INTERVAL_MS);
+    };
+
+    setStatus('starting');
+    navigator.mediaDevices
+      .getUserMedia({ video: { facingMode: 'environment' }, audio: false })
+      .then(async (media) => {
+        if (stopped) {
+          media.getTracks().forEach((track) => track.stop());
+          return;
+        }
+        stream = media;
+        const video = videoRef.current;
+        if (!video) return;
+        video.srcObject = media;
+        await video.play();
+        setStatus('scanning');
+        void scan();
+      })
+      .catch((err: unknown) => {
+        console.warn('Camera unavailable for barcode scan', err);
+        if (!stopped) setStatus('denied');
+      });
+
+    return () => {
+      stopped = true;
+      window.clearTimeout(timer);
+      stream?.getTracks().forEach((track) => track.stop());
+    };
+  }, [active, videoRef]);
+
+  return status;
+}
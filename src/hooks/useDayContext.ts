@@ -2,6 +2,8 @@ import { useEffect, useState } from 'react';
 import type { Session } from '@supabase/supabase-js';
 import { supabase } from '../supabaseClient';
 import { localDayBounds } from '../utils/localDate';
+import { fetchGoalsForDate } from '../utils/goalSchedule';
+import { DIARY_IMPORTED_EVENT } from '../utils/diaryImporter';
 
 export interface DayContext {
   daily_calories_goal: number;
@@ -13,19 +15,23 @@ export interface DayContext {
 
 export function useDayContext(session: Session, selectedDate: Date, timeZone?: string) {
   const [context, setContext] = useState<DayContext | null>(null);
+  // Bumped when a diary import may have added to the day.
+  const [imports, setImports] = useState(0);
+
+  useEffect(() => {
+    const handleImported = () => setImports((count) => count + 1);
+    window.addEventListener(DIARY_IMPORTED_EVENT, handleImported);
+    return () => window.removeEventListener(DIARY_IMPORTED_EVENT, handleImported);
+  }, []);
 
   useEffect(() => {
     let cancelled = false;
 
     const fetchContext = async () => {
-      const { dayStart, dayEnd } = localDayBounds(selectedDate, timeZone);
+      const { dayStart, dayEnd, dateKey } = localDayBounds(selectedDate, timeZone);
 
-      const [goalsRes, entriesRes] = await Promise.all([
-        supabase
-          .from('user_goals')
-          .select('daily_calories_goal, daily_protein_goal, daily_carbs_goal, daily_fats_goal')
-          .eq('user_id', session.user.id)
-          .maybeSingle(),
+      const [goals, entriesRes] = await Promise.all([
+        fetchGoalsForDate(session.user.id, dateKey),
         supabase
           .from('food_entries')
           .select('calories, quantity')
@@ -40,8 +46,8 @@ export function useDayContext(session: Session, selectedDate: Date, timeZone?: s
         ? entriesRes.data.reduce((acc, e) => acc + (e.calories || 0) * (e.quantity || 1), 0)
         : 0;
 
-      if (goalsRes.data) {
-        setContext({ ...goalsRes.data, dayCalories });
+      if (goals) {
+        setContext({ ...goals, dayCalories });
       } else {
         setContext(null);
       }
@@ -49,7 +55,7 @@ export function useDayContext(session: Session, selectedDate: Date, timeZone?: s
 
     fetchContext();
     return () => { cancelled = true; };
-  }, [session.user.id, selectedDate, timeZone]);
+  }, [session.user.id, selectedDate, timeZone, imports]);
 
   return context;
 }
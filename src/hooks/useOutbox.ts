@@ -0,0 +1,63 @@
+import { useEffect, useRef, useState } from 'react';
+import { flushOutbox, listOutboxItems, OUTBOX_CHANGED_EVENT, type OutboxChangedEvent } from '../utils/outbox';
+import type { OutboxItem } from '../utils/outboxQueue';
+import { parseSavedRecordings } from '../utils/voiceInbox';
+
+/**
+ * Sends queued entries and parses saved recordings when the app opens, comes
+ * back online or returns to the foreground.
+ */
+export function useOutboxSync(userId: string) {
+  useEffect(() => {
+    const flush = () => {
+      if (!navigator.onLine) return;
+      flushOutbox(userId).catch((err: unknown) => console.warn('Outbox sync failed', err));
+      parseSavedRecordings(userId).catch((err: unknown) => console.warn('Parsing saved recordings failed', err));
+    };
+    const handleVisibility = () => {
+      if (document.visibilityState === 'visible') flush();
+    };
+
+    flush();
+    window.addEventListener('online', flush);
+    document.addEventListener('visibilitychange', handleVisibility);
+    return () => {
+      window.removeEventListener('online', flush);
+      document.removeEventListener('visibilitychange', handleVisibility);
+    };
+  }, [userId]);
+}
+
+/** Items still waiting to sync. `onSent` runs after some reach the server, to reload what they landed in. */
+export function usePendingOutbox(userId: string, onSent?: () => void): OutboxItem[] {
+  const [items, setItems] = useState<OutboxItem[]>([]);
+  const onSentRef = useRef(onSent);
+
+  useEffect(() => {
+    onSentRef.current = onSent;
+  }, [onSent]);
+
+  useEffect(() => {
+    let cancelled = false;
+    const load = () => {
+      listOutboxItems(userId)
+        .then((next) => {
+          if (!cancelled) setItems(next);
+        })
+        .catch((err: unknown) => console.warn('Could not read the outbox', err));
+    };
+    const handleChanged = (event: Event) => {
+      load();
+      if ((event as OutboxChangedEvent).detail?.sent > 0) onSentRef.current?.();
+    };
+
+    load();
+    window.addEventListener(OUTBOX_CHANGED_EVENT, handleChanged);
+    return () => {
+      cancelled = true;
+      window.removeEventListener(OUTBOX_CHANGED_EVENT, handleChanged);
+    };
+  }, [userId]);
+
+  return items;
+}
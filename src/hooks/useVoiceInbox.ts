@@ -0,0 +1,28 @@
+import { useEffect, useState } from 'react';
+import { listRecordings, VOICE_INBOX_CHANGED_EVENT } from '../utils/voiceInbox';
+import type { SavedRecording } from '../utils/voiceInboxQueue';
+
+/** Recordings saved offline for this user, reloaded whenever one is saved, parsed or cleared. */
+export function useVoiceInbox(userId: string): SavedRecording[] {
+  const [recordings, setRecordings] = useState<SavedRecording[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    const load = () => {
+      listRecordings(userId)
+        .then((next) => {
+          if (!cancelled) setRecordings(next);
+        })
+        .catch((err: unknown) => console.warn('Could not read saved recordings', err));
+    };
+
+    load();
+    window.addEventListener(VOICE_INBOX_CHANGED_EVENT, load);
+    return () => {
+      cancelled = true;
+      window.removeEventListener(VOICE_INBOX_CHANGED_EVENT, load);
+    };
+  }, [userId]);
+
+  return recordings;
+}
@@ -1,19 +1,23 @@
-import React, { useEffect, useRef } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { Outlet, NavLink, useLocation, Link } from 'react-router-dom';
 import type { Session } from '@supabase/supabase-js';
 import { SahhaWordmark } from '../components/SahhaBrand';
+import SettingsModal from '../components/SettingsModal';
+import { useOutboxSync } from '../hooks/useOutbox';
 
 interface MainLayoutProps {
   session: Session;
   handleLogout: () => void;
 }
 
-const MainLayout: React.FC<MainLayoutProps> = ({ handleLogout }) => {
+const MainLayout: React.FC<MainLayoutProps> = ({ session, handleLogout }) => {
   const location = useLocation();
+  const [settingsOpen, setSettingsOpen] = useState(false);
   const mainRef = useRef<HTMLElement>(null);
   const isLog = location.pathname === '/log';
   const isToday = location.pathname === '/';
   const isStats = location.pathname === '/summary';
+  useOutboxSync(session.user.id);
 
   // Keep dock navigations at the top of the page (shared scroll container).
   useEffect(() => {
@@ -25,7 +29,17 @@ const MainLayout: React.FC<MainLayoutProps> = ({ handleLogout }) => {
     <div className={`app-shell app-bg ${isLog ? 'app-shell--log' : ''}`}>
       <header className={`app-bar safe-x ${isLog ? 'app-bar--hidden' : ''}`}>
         <div className="app-container app-bar__inner app-bar__inner--centered">
-          <div className="app-bar__side" aria-hidden="true" />
+          <button
+            type="button"
+            onClick={() => setSettingsOpen(true)}
+            className="app-bar__settings"
+            aria-label="Settings"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.75} d="M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066c1.543-.94 3.31.826 2.37 2.37a1.724 1.724 0 001.065 2.572c1.756.426 1.756 2.924 0 3.35a1.724 1.724 0 00-1.066 2.573c.94 1.543-.826 3.31-2.37 2.37a1.724 1.724 0 00-2.572 1.065c-.426 1.756-2.924 1.756-3.35 0a1.724 1.724 0 00-2.573-1.066c-1.543.94-3.31-.826-2.37-2.37a1.724 1.724 0 00-1.065-2.572c-1.756-.426-1.756-2.924 0-3.35a1.724 1.724 0 001.066-2.573c-.94-1.543.826-3.31 2.37-2.37.996.608 2.296.07 2.572-1.065z" />
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.75} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
+            </svg>
+          </button>
 
           <Link to="/" className="app-bar__center" aria-label="Soha home">
             <SahhaWordmark size="header" />
@@ -90,6 +104,12 @@ const MainLayout: React.FC<MainLayoutProps> = ({ handleLogout }) => {
           </div>
         </div>
       </nav>
+
+      <SettingsModal
+        userId={session.user.id}
+        isOpen={settingsOpen}
+        onClose={() => setSettingsOpen(false)}
+      />
     </div>
   );
 };
@@ -1,4 +1,4 @@
-import React, { useCallback, useRef, useState } from 'react';
+import React, { useCallback, useMemo, useRef, useState } from 'react';
 import type { Session } from '@supabase/supabase-js';
 import SavedFoodManager from '../components/SavedFoodManager';
 import type { SavedFoodItem } from '../components/SavedFoodManager';
@@ -6,15 +6,34 @@ import MealParseInput from '../components/MealParseInput';
 import type { MealParseInputHandle } from '../components/MealParseInput';
 import MealParseReview from '../components/MealParseReview';
 import LogHero from '../components/LogHero';
+import MealTemplateChips from '../components/MealTemplateChips';
+import VoiceInbox from '../components/VoiceInbox';
+import BarcodeScanner from '../components/BarcodeScanner';
 import { useDayContext } from '../hooks/useDayContext';
+import { useVoiceInbox } from '../hooks/useVoiceInbox';
+import type { RecordingResult } from '../hooks/useAudioRecorder';
 import { useUserExperience } from '../context/userExperience';
 import { useToast } from '../context/toast';
-import { getLogSuccessToast } from '../copy/experience';
-import { supabase } from '../supabaseClient';
+import {
+  getGenericParseFailureMessage,
+  getLogAgainFailureMessage,
+  getLogSuccessToast,
+  getNetworkUnreachableMessage,
+  getQueuedOfflineToast,
+  getRecordingSavedOfflineToast,
+} from '../copy/experience';
 import { hapticSuccess, hapticLight } from '../utils/haptics';
-import { createTimestampForDate } from '../utils/localDate';
+import { createTimestampForDate, formatLocalDateKey, moveTimestampToDate, parseLocalDateKey } from '../utils/localDate';
+import { savedFoodEntryProvenance } from '../utils/entryProvenance';
+import { savedFoodServingMacros } from '../utils/savedFoodBasis';
+import { insertEntries } from '../utils/meals';
+import { queueOutboxItem } from '../utils/outbox';
+import { isNetworkError, newClientId } from '../utils/outboxQueue';
+import { listRecordings, removeRecording, saveRecording } from '../utils/voiceInbox';
+import { inboxRecordings, type SavedRecording } from '../utils/voiceInboxQueue';
+import { normalizeAudioMimeType } from '../utils/transcriptValidation';
 import { invokeParseMeal, toParseErrorPayload } from '../utils/parseMeal';
-import type { ParseMealResponse, ParseProgressState } from '../types/mealParse';
+import type { ParsedFoodItem, ParseMealResponse, ParseProgressState } from '../types/mealParse';
 import type { ParseErrorPayload } from '../utils/parseRejection.ts';
 import { advanceParseProgress } from '../utils/parseMeal';
 
@@ -32,12 +51,17 @@ const LogPage: React.FC<LogPageProps> = ({ session }) => {
   const [parseError, setParseError] = useState<ParseErrorPayload | null>(null);
   const [logDate, setLogDate] = useState<Date>(new Date());
   const [showSaved, setShowSaved] = useState(false);
+  const [scannerOpen, setScannerOpen] = useState(false);
   const { refresh: refreshExperience, timezone } = useUserExperience();
   const dayContext = useDayContext(session, logDate, timezone);
   const { showToast } = useToast();
 
   const [parseMode, setParseMode] = useState<'voice' | 'text' | null>(null);
   const [parseProgress, setParseProgress] = useState<ParseProgressState | null>(null);
+  /** The offline recording whose result is in the review sheet, if it came from the inbox. */
+  const [inboxRecording, setInboxRecording] = useState<SavedRecording | null>(null);
+  const recordings = useVoiceInbox(session.user.id);
+  const inbox = useMemo(() => inboxRecordings(recordings), [recordings]);
 
   const resetReview = useCallback(() => {
     retryAbortRef.current?.abort();
@@ -50,6 +74,7 @@ const LogPage: React.FC<LogPageProps> = ({ session }) => {
     setParseError(null);
     setParseMode(null);
     setParseProgress(null);
+    setInboxRecording(null);
   }, []);
 
   const handleParseStart = useCallback(({ mode, previewText }: { mode: 'voice' | 'text'; previewText?: string }) => {
@@ -59,7 +84,8 @@ const LogPage: React.FC<LogPageProps> = ({ session }) => {
     setParseResult(null);
     setParseError(null);
     setReviewTranscript(previewText ?? null);
-    setParseProgress(mode === 'voice' ? { current: 'transcribing' } : { current: 'identifying' });
+    // Text waits for the first streamed stage rather than assuming one.
+    setParseProgress(mode === 'voice' ? { current: 'transcribing' } : null);
   }, []);
 
   const handleTranscript = useCallback((transcript: string) => {
@@ -79,10 +105,77 @@ const LogPage: React.FC<LogPageProps> = ({ session }) => {
     setParseProgress(null);
   }, []);
 
-  const handleLogged = useCallback(() => {
+  // A parsed recording opens as if it had just been parsed; one the parser
+  // refused shows its error and leaves the inbox, as there's nothing to log.
+  const openRecording = useCallback((recording: SavedRecording) => {
+    resetReview();
+    setInboxRecording(recording);
+    setLogDate(parseLocalDateKey(recording.log_date));
+    setParseMode('voice');
+    setReviewOpen(true);
+    if (recording.status === 'ready' && recording.result) {
+      setParseResult(recording.result);
+      setReviewTranscript(recording.result.transcript ?? null);
+      return;
+    }
+    setParseError(recording.error ?? { message: getGenericParseFailureMessage(), kind: 'failure' });
+    setReviewTranscript(recording.error?.transcript ?? null);
+    void removeRecording(recording.id);
+  }, [resetReview]);
+
+  // Runs after the review's own close, so the next result isn't closed with it.
+  const removeAndOpenNext = useCallback((recording: SavedRecording) => {
+    void removeRecording(recording.id)
+      .then(() => listRecordings(session.user.id))
+      .then((remaining) => {
+        const next = inboxRecordings(remaining)[0];
+        if (next) openRecording(next);
+      })
+      .catch((err: unknown) => console.warn('Could not open the next saved recording', err));
+  }, [openRecording, session.user.id]);
+
+  const handleLogged = useCallback(({ calories, queued }: { calories: number; queued: boolean }) => {
     refreshExperience();
     resetReview();
-  }, [refreshExperience, resetReview]);
+    if (!inboxRecording) return;
+
+    showToast(queued ? getQueuedOfflineToast(calories) : getLogSuccessToast(calories));
+    removeAndOpenNext(inboxRecording);
+  }, [inboxRecording, refreshExperience, removeAndOpenNext, resetReview, showToast]);
+
+  // Closing a review keeps its recording in the inbox; this is how one leaves unlogged.
+  const handleDiscardRecording = useCallback(() => {
+    if (!inboxRecording) return;
+    resetReview();
+    removeAndOpenNext(inboxRecording);
+  }, [inboxRecording, removeAndOpenNext, resetReview]);
+
+  const handleRecordingOffline = useCallback(async (recording: RecordingResult) => {
+    const capturedAt = new Date().toISOString();
+    try {
+      await saveRecording({
+        id: crypto.randomUUID(),
+        user_id: session.user.id,
+        captured_at: capturedAt,
+        log_date: formatLocalDateKey(logDate),
+        eaten_at: moveTimestampToDate(capturedAt, logDate),
+        audio: recording.blob,
+        mime_type: normalizeAudioMimeType(recording.mimeType),
+        duration_ms: recording.durationMs,
+        status: 'waiting',
+        attempts: 0,
+      });
+    } catch (err: unknown) {
+      console.warn('Could not save recording offline', err);
+      setReviewLoading(false);
+      setParseError({ message: getNetworkUnreachableMessage(), kind: 'failure' });
+      setParseProgress(null);
+      return;
+    }
+    resetReview();
+    hapticSuccess();
+    showToast(getRecordingSavedOfflineToast());
+  }, [logDate, resetReview, session.user.id, showToast]);
 
   const handleParseError = useCallback((payload: ParseErrorPayload) => {
     setReviewLoading(false);
@@ -104,9 +197,9 @@ const LogPage: React.FC<LogPageProps> = ({ session }) => {
     setParseError(null);
     setParseResult(null);
     setReviewTranscript(trimmed);
-    // Correction/retry always restarts from text and skips STT.
+    // Correction/retry always restarts from text and skips STT; stages arrive on the stream.
     setParseMode('text');
-    setParseProgress({ current: 'identifying' });
+    setParseProgress(null);
     retryAbortRef.current?.abort();
     const controller = new AbortController();
     retryAbortRef.current = controller;
@@ -145,28 +238,63 @@ const LogPage: React.FC<LogPageProps> = ({ session }) => {
   }, [resetReview]);
 
   const handleSavedFoodSelect = async (food: SavedFoodItem) => {
-    const { error } = await supabase.from('food_entries').insert({
-      user_id: session.user.id,
+    const serving = savedFoodServingMacros(food);
+    const entry = {
       food_name: food.food_name,
-      calories: food.calories,
-      protein: food.protein,
-      carbs: food.carbs,
-      fats: food.fats,
+      calories: serving.calories,
+      protein: serving.protein,
+      carbs: serving.carbs,
+      fats: serving.fats,
       quantity: 1,
       created_at: createTimestampForDate(logDate),
-    });
+      ...savedFoodEntryProvenance(),
+      client_id: newClientId(),
+    };
 
-    if (error) {
-      showToast('Could not add that saved food. Try again.');
-      return;
+    try {
+      await insertEntries([{ ...entry, user_id: session.user.id }]);
+      showToast(getLogSuccessToast(serving.calories));
+    } catch (error) {
+      if (!isNetworkError(error)) {
+        showToast('Could not add that saved food. Try again.');
+        return;
+      }
+      try {
+        await queueOutboxItem({
+          kind: 'entry',
+          client_id: entry.client_id,
+          user_id: session.user.id,
+          queued_at: Date.now(),
+          entry,
+        });
+      } catch (queueError) {
+        console.warn('Could not queue saved food offline', queueError);
+        showToast('Could not add that saved food. Try again.');
+        return;
+      }
+      showToast(getQueuedOfflineToast(serving.calories));
     }
 
     hapticSuccess();
-    showToast(getLogSuccessToast(food.calories));
     setShowSaved(false);
     refreshExperience();
   };
 
+  // A scanned product goes through the same review as a parse, to confirm how much was eaten.
+  const handleBarcodeFound = useCallback((item: ParsedFoodItem) => {
+    setScannerOpen(false);
+    resetReview();
+    setParseMode('text');
+    setParseResult({ items: [item] });
+    setReviewOpen(true);
+  }, [resetReview]);
+
+  const handleTemplateLogged = (calories: number) => {
+    hapticSuccess();
+    showToast(getLogSuccessToast(calories));
+    refreshExperience();
+  };
+
   return (
     <div className="log-page">
       <div className="log-page__stage">
@@ -180,9 +308,23 @@ const LogPage: React.FC<LogPageProps> = ({ session }) => {
           onParseProgress={handleParseProgress}
           onParsed={handleParsed}
           onParseError={handleParseError}
+          onRecordingOffline={handleRecordingOffline}
+        />
+
+        <VoiceInbox
+          readyCount={inbox.length}
+          waitingCount={recordings.length - inbox.length}
+          onReview={() => openRecording(inbox[0])}
         />
       </div>
 
+      <MealTemplateChips
+        session={session}
+        logDate={logDate}
+        onLogged={handleTemplateLogged}
+        onError={() => showToast(getLogAgainFailureMessage())}
+      />
+
       <section className={`log-secondary ${showSaved ? 'log-secondary--open' : ''}`} aria-label="Quick add">
         <button
           type="button"
@@ -192,6 +334,13 @@ const LogPage: React.FC<LogPageProps> = ({ session }) => {
         >
           {showSaved ? 'Hide saved foods' : 'Saved foods'}
         </button>
+        <button
+          type="button"
+          onClick={() => setScannerOpen(true)}
+          className="log-secondary__link"
+        >
+          Scan barcode
+        </button>
         {showSaved && (
           <div className="log-secondary__panel">
             <SavedFoodManager session={session} onFoodSelect={handleSavedFoodSelect} />
@@ -199,6 +348,12 @@ const LogPage: React.FC<LogPageProps> = ({ session }) => {
         )}
       </section>
 
+      <BarcodeScanner
+        isOpen={scannerOpen}
+        onClose={() => setScannerOpen(false)}
+        onFound={handleBarcodeFound}
+      />
+
       <MealParseReview
         session={session}
         isOpen={reviewOpen}
@@ -211,9 +366,12 @@ const LogPage: React.FC<LogPageProps> = ({ session }) => {
         parseRejectionReason={parseError?.reason}
         result={parseResult}
         selectedDate={logDate}
+        eatenAt={inboxRecording?.eaten_at}
         dayContext={dayContext}
         onClose={resetReview}
         onLogged={handleLogged}
+        stayAfterLog={inboxRecording !== null}
+        onDiscardRecording={inboxRecording ? handleDiscardRecording : undefined}
         onRetry={handleParseRetry}
         onRetryVoice={handleVoiceRetry}
         onCorrectTranscript={handleCorrectTranscript}
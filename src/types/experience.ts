@@ -4,6 +4,8 @@ export interface UserProfile {
   timezone: string;
   locale: string;
   onboarding_completed: boolean;
+  /** First day of the week, 0 = Sunday … 6 = Saturday. */
+  week_start: number;
 }
 
 export interface UserGoals {
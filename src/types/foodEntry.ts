@@ -0,0 +1,42 @@
+import type { MealPeriod } from './experience';
+import type { ParseConfidence, ParsedFoodItem } from './mealParse';
+
+export type EvidenceStatus = NonNullable<ParsedFoodItem['evidence_status']>;
+
+/** Evidence a parsed item carried into `food_entries`. Null on manual and legacy rows. */
+export interface FoodEntryProvenance {
+  evidence_status: EvidenceStatus | null;
+  source_note: string | null;
+  source_title: string | null;
+  source_url: string | null;
+  evidence_quote: string | null;
+  portion_assumption: string | null;
+  reference_weight_g: number | null;
+  reference_volume_ml: number | null;
+  unit: 'count' | 'serving' | null;
+  confidence: ParseConfidence | null;
+}
+
+export interface FoodEntry extends Partial<FoodEntryProvenance> {
+  id: number;
+  created_at: string;
+  food_name: string;
+  calories: number;
+  protein: number | null;
+  carbs: number | null;
+  fats: number | null;
+  quantity: number;
+  meal_id?: number | null;
+  parse_session_id?: number | null;
+  /** Made on the device for entries that may be retried from the offline outbox. */
+  client_id?: string | null;
+}
+
+/** One logged parse; its items are `food_entries` rows sharing `meal_id`. */
+export interface Meal {
+  id: number;
+  meal_period: MealPeriod;
+  name: string | null;
+  eaten_at: string;
+  transcript: string | null;
+}
@@ -1,3 +1,5 @@
+import type { NutritionBasis } from '../../supabase/functions/_shared/mealParsePrompt.ts';
+
 export type ParseConfidence = 'high' | 'medium' | 'low';
 
 export interface ParsedFoodItem {
@@ -17,6 +19,8 @@ export interface ParsedFoodItem {
   reference_weight_g?: number;
   /** Millilitre volume the per-unit macros represent; never treated as grams implicitly */
   reference_volume_ml?: number;
+  /** Set when the source values are per 100g/100ml (a pack label), so rescaling the amount stays exact */
+  basis?: NutritionBasis;
   /** UK source used for the estimate (e.g. CoFID, Tesco UK) */
   source_note?: string;
   source_title?: string;
@@ -39,6 +43,21 @@ export interface ParseMealResponse {
   searches_run?: number;
   parse_path?: 'fast' | 'research';
   research_available?: boolean;
+  /** Stage timings; only sent when the edge function runs with PARSE_TIMING=1 */
+  timings?: Record<string, number | string>;
+}
+
+/** Stored transcript and parse metadata behind a logged meal. */
+export interface ParseSession {
+  id: number;
+  transcript: string;
+  notes: string | null;
+  parse_path: 'fast' | 'research' | null;
+  searches_run: number | null;
+  research_used: boolean;
+  timings: Record<string, number | string> | null;
+  items: ParsedFoodItem[];
+  created_at: string;
 }
 
 /** User-visible parse pipeline stages streamed from the edge function. */
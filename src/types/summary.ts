@@ -0,0 +1,27 @@
+/** One row of `get_weekly_summary`, `get_monthly_summary` or `get_range_summary`. */
+export interface SummaryData {
+  total_calories: number;
+  total_protein: number;
+  total_carbs: number;
+  total_fats: number;
+  entry_count: number;
+  days_logged: number;
+  /** Averages divide by logged days, not calendar days. */
+  avg_calories: number;
+  avg_protein: number;
+  avg_carbs: number;
+  avg_fats: number;
+  /** Logged days that had a goal in force. */
+  goal_days: number;
+  /** Logged days within ±10% of that day's calorie goal. */
+  calorie_goal_days: number;
+  /** Logged days at or over that day's protein goal. */
+  protein_goal_days: number;
+  /** Share of calories from each macro, 0–100. */
+  protein_pct: number;
+  carbs_pct: number;
+  fats_pct: number;
+  week_start_display?: string;
+  week_end_display?: string;
+  month_display?: string;
+}
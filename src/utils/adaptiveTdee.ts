@@ -0,0 +1,107 @@
+import { goalCalorieFactor, type GoalType } from './goalCalculator';
+import { shiftDateKey } from './localDate';
+import { weeklyWeightRate, type WeightTrendPoint } from './weightTrend';
+
+/** One local day's logged intake. */
+export interface DailyIntake {
+  date: string;
+  calories: number;
+  entry_count: number;
+}
+
+export type TdeeConfidence = 'low' | 'medium' | 'high';
+
+export interface AdaptiveTdeeEstimate {
+  /** Estimated maintenance calories per day. */
+  tdee: number;
+  /** Mean intake across the days that counted. */
+  average_intake: number;
+  /** Smoothed weight change across the window, kg per week. */
+  weight_rate_kg_per_week: number;
+  days_used: number;
+  days_skipped: number;
+  confidence: TdeeConfidence;
+}
+
+export interface AdaptiveTdeeOptions {
+  windowDays?: number;
+  /** Fewest well-logged days needed before we estimate anything. */
+  minCoveredDays?: number;
+  /** A day with fewer entries is treated as partly logged. */
+  minEntriesPerDay?: number;
+  /** A day below this share of the median logged day is treated as partly logged. */
+  minShareOfMedian?: number;
+}
+
+/** Energy in a kilogram of body-weight change — the usual 3,500 kcal/lb rule in metric. */
+export const KCAL_PER_KG = 7700;
+
+const DEFAULTS: Required<AdaptiveTdeeOptions> = {
+  windowDays: 28,
+  minCoveredDays: 14,
+  minEntriesPerDay: 2,
+  minShareOfMedian: 0.5,
+};
+
+function median(values: number[]): number {
+  if (!values.length) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+/**
+ * Days that look fully logged. A day with one entry, or far below the user's
+ * usual intake, is more likely a forgotten dinner than a real fast — counting
+ * it would drag the average down and make maintenance look lower than it is.
+ */
+export function coveredIntakeDays(days: DailyIntake[], options: AdaptiveTdeeOptions = {}): DailyIntake[] {
+  const { minEntriesPerDay, minShareOfMedian } = { ...DEFAULTS, ...options };
+  const logged = days.filter((day) => day.entry_count > 0);
+  const floor = median(logged.map((day) => day.calories)) * minShareOfMedian;
+  return logged.filter((day) => day.entry_count >= minEntriesPerDay && day.calories >= floor);
+}
+
+/**
+ * Maintenance calories from what was eaten and what the scales did over the
+ * window ending on `endKey`: average intake minus the energy of the trend
+ * weight change. Null until there are enough well-logged days and a weight
+ * trend that spans the window.
+ */
+export function estimateAdaptiveTdee(
+  intake: DailyIntake[],
+  trend: WeightTrendPoint[],
+  endKey: string,
+  options: AdaptiveTdeeOptions = {},
+): AdaptiveTdeeEstimate | null {
+  const settings = { ...DEFAULTS, ...options };
+  const startKey = shiftDateKey(endKey, -(settings.windowDays - 1));
+
+  const inWindow = intake.filter((day) => day.date >= startKey && day.date <= endKey);
+  const covered = coveredIntakeDays(inWindow, settings);
+  if (covered.length < settings.minCoveredDays) return null;
+
+  const rate = weeklyWeightRate(trend, startKey, endKey);
+  if (rate === null) return null;
+  const trendInWindow = trend.filter((point) => point.date >= startKey && point.date <= endKey);
+  // A couple of readings at one end of the window say little about the whole of it.
+  if (trendInWindow.length < 4) return null;
+
+  const averageIntake = covered.reduce((sum, day) => sum + day.calories, 0) / covered.length;
+  const tdee = averageIntake - (rate / 7) * KCAL_PER_KG;
+  const coverage = covered.length / settings.windowDays;
+
+  return {
+    tdee: Math.round(tdee),
+    average_intake: Math.round(averageIntake),
+    weight_rate_kg_per_week: rate,
+    days_used: covered.length,
+    days_skipped: inWindow.length - covered.length,
+    confidence: coverage >= 0.8 && trendInWindow.length >= 8 ? 'high' : coverage >= 0.6 ? 'medium' : 'low',
+  };
+}
+
+/** The calorie target the estimate points to for a goal, rounded like the calculator's. */
+export function suggestedCalorieTarget(estimate: AdaptiveTdeeEstimate, goalType: GoalType = 'maintain'): number {
+  return Math.round((estimate.tdee * goalCalorieFactor(goalType)) / 50) * 50;
+}
@@ -0,0 +1,193 @@
+import type { ParsedFoodItem } from '../types/mealParse';
+
+/** A packaged product's label, per 100g (or 100ml for drinks). */
+export interface BarcodeProduct {
+  barcode: string;
+  name: string;
+  brand: string | null;
+  unit: 'g' | 'ml';
+  per100: {
+    calories: number;
+    protein: number | null;
+    carbs: number | null;
+    fats: number | null;
+  };
+  /** The pack's own serving, in `unit`, when it states one. */
+  serving_amount: number | null;
+  source_title: string;
+  source_url: string;
+}
+
+/** Where products come from. `lookup` resolves null for a barcode it doesn't know. */
+export interface BarcodeProvider {
+  name: string;
+  lookup: (barcode: string) => Promise<BarcodeProduct | null>;
+}
+
+/** Somewhere to keep products already looked up, so a repeat scan needs no network. */
+export interface BarcodeProductCache {
+  get: (barcode: string) => Promise<{ product: BarcodeProduct; fetched_at: number } | null>;
+  set: (barcode: string, product: BarcodeProduct) => Promise<void>;
+}
+
+// Labels change with recipes; a month is long enough to cover the weekly shop.
+export const PRODUCT_CACHE_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+/**
+ * Digits only, with a valid GS1 check digit: EAN-8, UPC-A, EAN-13 or GTIN-14.
+ * Returns null for anything else so a mistyped code never reaches the provider.
+ */
+export function normalizeBarcode(input: string): string | null {
+  const digits = input.replace(/[\s-]/g, '');
+  if (!/^\d+$/.test(digits) || ![8, 12, 13, 14].includes(digits.length)) return null;
+
+  const body = digits.slice(0, -1);
+  let sum = 0;
+  for (let i = 0; i < body.length; i += 1) {
+    // Weights alternate 3, 1 from the digit nearest the check digit.
+    const weight = (body.length - i) % 2 === 1 ? 3 : 1;
+    sum += Number(body[i]) * weight;
+  }
+  const check = (10 - (sum % 10)) % 10;
+  return check === Number(digits[digits.length - 1]) ? digits : null;
+}
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+/**
+ * The label as a review item. Values stay on the per-100 basis so changing the
+ * amount in review is exact; it starts at the pack's serving when there is one.
+ */
+export function productToParsedItem(product: BarcodeProduct): ParsedFoodItem {
+  const amount = product.serving_amount && product.serving_amount > 0 ? product.serving_amount : 100;
+  const factor = amount / 100;
+  const scale = (value: number | null) => (value == null ? null : round1(value * factor));
+  const label = product.brand && !product.name.toLowerCase().includes(product.brand.toLowerCase())
+    ? `${product.brand} ${product.name}`
+    : product.name;
+  const { per100 } = product;
+
+  return {
+    item_id: `barcode-${product.barcode}`,
+    food_name: label,
+    calories: Math.round(per100.calories * factor),
+    protein: scale(per100.protein),
+    carbs: scale(per100.carbs),
+    fats: scale(per100.fats),
+    quantity: 1,
+    unit: 'serving',
+    confidence: 'high',
+    basis: product.unit === 'ml' ? 'per_100ml' : 'per_100g',
+    reference_weight_g: product.unit === 'g' ? amount : undefined,
+    reference_volume_ml: product.unit === 'ml' ? amount : undefined,
+    portion_assumption: `${amount}${product.unit}${amount === 100 ? '' : ' (pack serving)'}`,
+    evidence_status: 'uk_evidence',
+    source_note: `Pack label · ${product.source_title}`,
+    source_title: product.source_title,
+    source_url: product.source_url,
+    evidence_quote: `Per 100${product.unit}: ${Math.round(per100.calories)} kcal`
+      + `, protein ${per100.protein ?? '–'}g, carbohydrate ${per100.carbs ?? '–'}g, fat ${per100.fats ?? '–'}g`,
+  };
+}
+
+/** Serve from the cache while fresh; otherwise ask the provider and remember the answer. */
+export function withProductCache(
+  provider: BarcodeProvider,
+  cache: BarcodeProductCache,
+  now: () => number = Date.now,
+): BarcodeProvider {
+  return {
+    name: provider.name,
+    lookup: async (barcode) => {
+      const cached = await cache.get(barcode).catch(() => null);
+      if (cached && now() - cached.fetched_at < PRODUCT_CACHE_TTL_MS) return cached.product;
+
+      const product = await provider.lookup(barcode);
+      if (product) await cache.set(barcode, product).catch(() => undefined);
+      return product;
+    },
+  };
+}
+
+type OffNutriments = Record<string, number | string | undefined>;
+
+interface OffProductResponse {
+  status?: number;
+  product?: {
+    product_name?: string;
+    product_name_en?: string;
+    generic_name?: string;
+    brands?: string;
+    nutriments?: OffNutriments;
+    serving_quantity?: number | string;
+    serving_quantity_unit?: string;
+    product_quantity_unit?: string;
+  };
+}
+
+const KJ_PER_KCAL = 4.184;
+
+function nutriment(nutriments: OffNutriments, key: string): number | null {
+  const value = Number(nutriments[key]);
+  return nutriments[key] !== undefined && nutriments[key] !== '' && Number.isFinite(value) ? value : null;
+}
+
+/**
+ * Maps an Open Food Facts `/api/v2/product/<code>.json` response. Null when the
+ * product is unknown or its label has no energy per 100 — a half-filled entry
+ * is worse than saying it out loud.
+ */
+export function parseOpenFoodFactsProduct(
+  barcode: string,
+  payload: OffProductResponse,
+  baseUrl: string,
+): BarcodeProduct | null {
+  const product = payload.product;
+  if (payload.status !== 1 || !product) return null;
+
+  const name = (product.product_name || product.product_name_en || product.generic_name || '').trim();
+  const nutriments = product.nutriments ?? {};
+  const kcal = nutriment(nutriments, 'energy-kcal_100g');
+  const kj = nutriment(nutriments, 'energy-kj_100g') ?? nutriment(nutriments, 'energy_100g');
+  const calories = kcal ?? (kj != null ? kj / KJ_PER_KCAL : null);
+  if (!name || calories == null) return null;
+
+  const unit = [product.product_quantity_unit, product.serving_quantity_unit]
+    .some((value) => value?.toLowerCase() === 'ml') ? 'ml' : 'g';
+  const serving = Number(product.serving_quantity);
+
+  return {
+    barcode,
+    name,
+    brand: product.brands?.split(',')[0]?.trim() || null,
+    unit,
+    per100: {
+      calories: Math.round(calories),
+      protein: nutriment(nutriments, 'proteins_100g'),
+      carbs: nutriment(nutriments, 'carbohydrates_100g'),
+      fats: nutriment(nutriments, 'fat_100g'),
+    },
+    serving_amount: Number.isFinite(serving) && serving > 0 ? serving : null,
+    source_title: 'Open Food Facts',
+    source_url: `${baseUrl.replace(/\/$/, '')}/product/${barcode}`,
+  };
+}
+
+/** Any Open Food Facts-style server: the public one, a mirror, or a local stub. */
+export function createOpenFoodFactsProvider(
+  baseUrl: string,
+  fetchImpl: typeof fetch = (...args) => fetch(...args),
+): BarcodeProvider {
+  const root = baseUrl.replace(/\/$/, '');
+  return {
+    name: 'open-food-facts',
+    lookup: async (barcode) => {
+      const response = await fetchImpl(
+        `${root}/api/v2/product/${barcode}.json?fields=product_name,product_name_en,generic_name,brands,nutriments,serving_quantity,serving_quantity_unit,product_quantity_unit`,
+      );
+      if (response.status === 404) return null;
+      if (!response.ok) throw new Error(`Product lookup failed (${response.status})`);
+      return parseOpenFoodFactsProduct(barcode, await response.json() as OffProductResponse, root);
+    },
+  };
+}
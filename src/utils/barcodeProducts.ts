@@ -0,0 +1,29 @@
+import { getBarcodeInvalidMessage } from '../copy/experience';
+import { getRecord, putRecord } from './deviceStore';
+import {
+  createOpenFoodFactsProvider,
+  normalizeBarcode,
+  withProductCache,
+  type BarcodeProduct,
+  type BarcodeProductCache,
+} from './barcodeLookup';
+
+// The UK instance, so product names and labels match what's on UK shelves.
+const DEFAULT_PRODUCT_API_URL = 'https://uk.openfoodfacts.org';
+
+const deviceCache: BarcodeProductCache = {
+  get: (barcode) => getRecord<{ barcode: string; product: BarcodeProduct; fetched_at: number }>('products', barcode),
+  set: (barcode, product) => putRecord('products', { barcode, product, fetched_at: Date.now() }),
+};
+
+const provider = withProductCache(
+  createOpenFoodFactsProvider(import.meta.env.VITE_PRODUCT_API_URL || DEFAULT_PRODUCT_API_URL),
+  deviceCache,
+);
+
+/** Look a scanned or typed barcode up, from this device's cache when it has been seen before. */
+export async function lookupBarcode(input: string): Promise<BarcodeProduct | null> {
+  const barcode = normalizeBarcode(input);
+  if (!barcode) throw new Error(getBarcodeInvalidMessage());
+  return provider.lookup(barcode);
+}
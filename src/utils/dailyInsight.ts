@@ -0,0 +1,25 @@
+import { supabase } from '../supabaseClient';
+import { localDayBounds } from './localDate';
+
+export interface DailyInsight {
+  insight_date: string;
+  insight_text: string | null;
+  cached: boolean;
+}
+
+/**
+ * The day's insight from the daily-insight edge function. The function keys its
+ * cached row on a hash of the facts it would send the model, so a call that
+ * changes nothing is served from the cache and only new totals, targets or
+ * foods cost a fresh insight.
+ */
+export async function fetchDailyInsight(date: Date, timeZone: string): Promise<DailyInsight | null> {
+  const { dayStart, dayEnd, dateKey } = localDayBounds(date, timeZone);
+  const { data, error } = await supabase.functions.invoke<DailyInsight & { error?: string }>('daily-insight', {
+    body: { date: dateKey, dayStart, dayEnd },
+  });
+
+  if (error) throw error;
+  if (data && typeof data.error === 'string') throw new Error(data.error);
+  return data ?? null;
+}
@@ -0,0 +1,65 @@
+import { supabase } from '../supabaseClient';
+
+export type SeriesMetric = 'calories' | 'protein' | 'carbs' | 'fats';
+
+/** One row of `get_daily_series`: a local day's totals and the goal in force that day. */
+export interface DailySeriesDay {
+  day: string;
+  calories: number;
+  protein: number;
+  carbs: number;
+  fats: number;
+  entry_count: number;
+  goals: Record<SeriesMetric, number> | null;
+}
+
+interface DailySeriesRow {
+  day: string;
+  total_calories: number | string;
+  total_protein: number | string;
+  total_carbs: number | string;
+  total_fats: number | string;
+  entry_count: number | string;
+  goal_calories: number | string | null;
+  goal_protein: number | string | null;
+  goal_carbs: number | string | null;
+  goal_fats: number | string | null;
+}
+
+export const SERIES_METRICS: Array<{ key: SeriesMetric; label: string; unit: string }> = [
+  { key: 'calories', label: 'Cal', unit: '' },
+  { key: 'protein', label: 'Protein', unit: 'g' },
+  { key: 'carbs', label: 'Carbs', unit: 'g' },
+  { key: 'fats', label: 'Fats', unit: 'g' },
+];
+
+function toDay(row: DailySeriesRow): DailySeriesDay {
+  return {
+    day: row.day,
+    calories: Number(row.total_calories) || 0,
+    protein: Number(row.total_protein) || 0,
+    carbs: Number(row.total_carbs) || 0,
+    fats: Number(row.total_fats) || 0,
+    entry_count: Number(row.entry_count) || 0,
+    goals: row.goal_calories == null
+      ? null
+      : {
+        calories: Number(row.goal_calories),
+        protein: Number(row.goal_protein),
+        carbs: Number(row.goal_carbs),
+        fats: Number(row.goal_fats),
+      },
+  };
+}
+
+/** Every day from start to end inclusive, empty days included. */
+export async function fetchDailySeries(userId: string, start: string, end: string): Promise<DailySeriesDay[]> {
+  const { data, error } = await supabase.rpc('get_daily_series', {
+    p_user_id: userId,
+    p_start: start,
+    p_end: end,
+  });
+
+  if (error) throw error;
+  return ((data ?? []) as DailySeriesRow[]).map(toDay);
+}
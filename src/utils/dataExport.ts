@@ -0,0 +1,91 @@
+import { supabase } from '../supabaseClient';
+import type { FoodEntry, Meal } from '../types/foodEntry';
+import { localDayBoundsForDateKey } from './localDate';
+import { fetchGoalPlan } from './goalSchedule';
+import { normalizeNutritionBasis } from './savedFoodBasis';
+import { normalizeSavedFoodRecipe } from './savedFoodRecipe';
+import { fetchWeightEntries } from './weightEntries';
+import { buildExportBundle, type ExportBundle } from './exportFormat';
+
+// PostgREST caps a response at 1000 rows by default; a year of logging is more.
+const PAGE_SIZE = 1000;
+
+/** Every row of a query, a page at a time. `fetchPage` must apply `.range(from, to)` to an ordered query. */
+export async function fetchAllPages<T>(
+  fetchPage: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: { message: string } | null }>,
+): Promise<T[]> {
+  const rows: T[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await fetchPage(from, from + PAGE_SIZE - 1);
+    if (error) throw new Error(error.message);
+    rows.push(...(data ?? []));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+}
+
+/** Everything the export covers between two local dates (inclusive) in `timeZone`. */
+export async function fetchExportBundle(
+  userId: string,
+  startKey: string,
+  endKey: string,
+  timeZone: string,
+): Promise<ExportBundle> {
+  const { dayStart } = localDayBoundsForDateKey(startKey, timeZone);
+  const { dayEnd } = localDayBoundsForDateKey(endKey, timeZone);
+
+  const [entries, meals, savedFoods, goals, weights] = await Promise.all([
+    fetchAllPages<FoodEntry>((from, to) => supabase
+      .from('food_entries')
+      .select('*')
+      .eq('user_id', userId)
+      .gte('created_at', dayStart)
+      .lte('created_at', dayEnd)
+      .order('created_at', { ascending: true })
+      .range(from, to)),
+    fetchAllPages<Meal>((from, to) => supabase
+      .from('meals')
+      .select('id, meal_period, name, eaten_at, transcript')
+      .eq('user_id', userId)
+      .gte('eaten_at', dayStart)
+      .lte('eaten_at', dayEnd)
+      .order('eaten_at', { ascending: true })
+      .range(from, to)),
+    supabase
+      .from('saved_foods')
+      .select('food_name, calories, protein, carbs, fats, basis, serving_weight_g, serving_volume_ml, recipe')
+      .eq('user_id', userId)
+      .order('food_name', { ascending: true })
+      .then(({ data, error }) => {
+        if (error) throw error;
+        return data ?? [];
+      }),
+    fetchGoalPlan(userId),
+    fetchWeightEntries(userId, dayStart, dayEnd),
+  ]);
+
+  return buildExportBundle({
+    timezone: timeZone,
+    range: { start: startKey, end: endKey },
+    entries,
+    meals,
+    saved_foods: savedFoods.map((food) => ({
+      ...food,
+      basis: food.basis == null ? null : normalizeNutritionBasis(food.basis),
+      recipe: normalizeSavedFoodRecipe(food.recipe),
+    })),
+    goals,
+    weights: weights.map(({ weight_kg, recorded_at }) => ({ weight_kg, recorded_at })),
+  });
+}
+
+export function downloadFile(fileName: string, mimeType: string, content: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Safari needs the URL to outlive the click a moment.
+  window.setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
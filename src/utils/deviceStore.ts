@@ -0,0 +1,68 @@
+// Small IndexedDB wrapper for data that has to outlive a dropped connection or
+// a closed tab. One database; each store is keyed by a field on its records.
+
+const DB_NAME = 'soha-device';
+// Bump when adding a store; the upgrade creates any that are missing.
+const DB_VERSION = 3;
+
+export type DeviceStoreName = 'outbox' | 'recordings' | 'products';
+
+const STORE_KEYS: Record<DeviceStoreName, string> = {
+  outbox: 'client_id',
+  recordings: 'id',
+  products: 'barcode',
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        for (const [name, keyPath] of Object.entries(STORE_KEYS)) {
+          if (!db.objectStoreNames.contains(name)) db.createObjectStore(name, { keyPath });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+async function withStore<T>(
+  name: DeviceStoreName,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(name, mode);
+    const request = run(transaction.objectStore(name));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+export async function putRecord<T>(name: DeviceStoreName, record: T): Promise<void> {
+  await withStore(name, 'readwrite', (store) => store.put(record));
+}
+
+export async function getRecord<T>(name: DeviceStoreName, key: string): Promise<T | null> {
+  const record = await withStore(name, 'readonly', (store) => store.get(key) as IDBRequest<T | undefined>);
+  return record ?? null;
+}
+
+export function getAllRecords<T>(name: DeviceStoreName): Promise<T[]> {
+  return withStore(name, 'readonly', (store) => store.getAll() as IDBRequest<T[]>);
+}
+
+export async function deleteRecord(name: DeviceStoreName, key: string): Promise<void> {
+  await withStore(name, 'readwrite', (store) => store.delete(key));
+}
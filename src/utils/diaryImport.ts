@@ -0,0 +1,342 @@
+import { dateKeyInTimezone, timeInTimezone, zonedLocalToUtc } from './localDate';
+import { parseExportBundle } from './exportFormat';
+import type { FoodEntryProvenance } from '../types/foodEntry';
+
+/** Trackers whose diary CSV we read; `soha` is our own JSON export. */
+export type CsvDiaryFormat = 'myfitnesspal' | 'cronometer';
+export type DiaryFormat = CsvDiaryFormat | 'soha';
+
+export const DIARY_FORMAT_LABELS: Record<DiaryFormat, string> = {
+  myfitnesspal: 'MyFitnessPal',
+  cronometer: 'Cronometer',
+  soha: 'Soha export · entries only',
+};
+
+/** One diary row mapped onto `food_entries` columns, timed in the user's timezone. */
+export interface ImportedEntry {
+  created_at: string;
+  /** Local date and time the row was read as, for the preview. */
+  local_date: string;
+  local_time: string;
+  food_name: string;
+  calories: number;
+  protein: number | null;
+  carbs: number | null;
+  fats: number | null;
+  quantity: number;
+  portion_assumption: string | null;
+  source_note: string;
+  /** Evidence the entry carried when it came from our own export. */
+  provenance?: Omit<FoodEntryProvenance, 'portion_assumption' | 'source_note'>;
+}
+
+export interface SkippedRow {
+  /** 1-based line in the file, counting the header. */
+  line: number;
+  reason: string;
+}
+
+export interface ParsedDiary {
+  format: DiaryFormat;
+  entries: ImportedEntry[];
+  skipped: SkippedRow[];
+}
+
+export interface ImportPreview extends ParsedDiary {
+  /** Entries that are new to the log. */
+  fresh: ImportedEntry[];
+  /** Entries that match something already logged on the same local day. */
+  duplicates: ImportedEntry[];
+  firstDate: string | null;
+  lastDate: string | null;
+}
+
+/** RFC 4180 CSV: quoted fields, doubled quotes, CRLF or LF, a trailing newline or not. */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  const source = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < source.length; i += 1) {
+    const char = source[i];
+    if (quoted) {
+      if (char === '"' && source[i + 1] === '"') {
+        field += '"';
+        i += 1;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i += 1;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((cells) => cells.some((cell) => cell.trim()));
+}
+
+const normalizeHeader = (header: string) => header.trim().toLowerCase();
+
+/**
+ * Which tracker wrote the file, from its header. MyFitnessPal's meal-level
+ * export has Date, Meal and Calories; Cronometer's servings export has Day,
+ * Food Name and Energy (kcal).
+ */
+export function detectDiaryFormat(header: string[]): CsvDiaryFormat | null {
+  const columns = new Set(header.map(normalizeHeader));
+  if (columns.has('date') && columns.has('meal') && columns.has('calories')) return 'myfitnesspal';
+  if (columns.has('day') && columns.has('food name') && columns.has('energy (kcal)')) return 'cronometer';
+  return null;
+}
+
+/** YYYY-MM-DD or YYYY/MM/DD. Slash dates with the year last are too ambiguous between US and UK to guess. */
+export function parseDiaryDate(value: string): string | null {
+  const match = value.trim().match(/^(\d{4})[-/](\d{1,2})[-/](\d{1,2})$/);
+  if (!match) return null;
+  const [, year, month, day] = match.map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+/** "8:05 AM", "20:05" or "20:05:30" → [hour, minute]. */
+export function parseDiaryTime(value: string): [number, number] | null {
+  const match = value.trim().match(/^(\d{1,2}):(\d{2})(?::\d{2})?\s*([AaPp][Mm])?$/);
+  if (!match) return null;
+  let hour = Number(match[1]);
+  const minute = Number(match[2]);
+  const meridiem = match[3]?.toLowerCase();
+  if (meridiem) {
+    if (hour < 1 || hour > 12) return null;
+    hour = (hour % 12) + (meridiem === 'pm' ? 12 : 0);
+  }
+  if (hour > 23 || minute > 59) return null;
+  return [hour, minute];
+}
+
+/** Blank is null; thousands separators are dropped. */
+function parseAmount(value: string | undefined): number | null {
+  const trimmed = value?.replace(/,/g, '').trim();
+  if (!trimmed) return null;
+  const amount = Number(trimmed);
+  return Number.isFinite(amount) ? amount : null;
+}
+
+// Neither tracker always records a time; these keep a meal on its day and in the right slot.
+const DEFAULT_MEAL_TIMES: Array<{ pattern: RegExp; time: [number, number] }> = [
+  { pattern: /breakfast/i, time: [8, 0] },
+  { pattern: /lunch/i, time: [12, 30] },
+  { pattern: /dinner|supper/i, time: [18, 30] },
+  { pattern: /snack/i, time: [15, 30] },
+];
+const FALLBACK_TIME: [number, number] = [12, 0];
+
+export function defaultTimeForMeal(meal: string): [number, number] {
+  return DEFAULT_MEAL_TIMES.find((slot) => slot.pattern.test(meal))?.time ?? FALLBACK_TIME;
+}
+
+interface RowFields {
+  date: string;
+  time: string;
+  meal: string;
+  foodName: string;
+  amount: string;
+  calories: string;
+  protein: string;
+  carbs: string;
+  fats: string;
+}
+
+const COLUMN_NAMES: Record<CsvDiaryFormat, Record<keyof RowFields, string>> = {
+  myfitnesspal: {
+    date: 'date',
+    time: 'time',
+    meal: 'meal',
+    foodName: '',
+    amount: '',
+    calories: 'calories',
+    protein: 'protein (g)',
+    carbs: 'carbohydrates (g)',
+    fats: 'fat (g)',
+  },
+  cronometer: {
+    date: 'day',
+    time: 'time',
+    meal: 'group',
+    foodName: 'food name',
+    amount: 'amount',
+    calories: 'energy (kcal)',
+    protein: 'protein (g)',
+    carbs: 'carbs (g)',
+    fats: 'fat (g)',
+  },
+};
+
+/**
+ * Maps a diary export onto entries. MyFitnessPal's export is one row per meal,
+ * so each becomes a single entry named after the meal; Cronometer's is one
+ * row per food. Rows that can't be read are listed rather than guessed at.
+ */
+export function parseDiaryCsv(text: string, timeZone: string): ParsedDiary {
+  const [header, ...rows] = parseCsv(text);
+  const format = header ? detectDiaryFormat(header) : null;
+  if (!header || !format) {
+    throw new Error('This doesn\'t look like a MyFitnessPal or Cronometer diary export');
+  }
+
+  const index = new Map(header.map((name, i) => [normalizeHeader(name), i]));
+  const names = COLUMN_NAMES[format];
+  const source_note = `Imported from ${DIARY_FORMAT_LABELS[format]}`;
+  const entries: ImportedEntry[] = [];
+  const skipped: SkippedRow[] = [];
+
+  rows.forEach((cells, i) => {
+    const line = i + 2;
+    const get = (key: keyof RowFields) => {
+      const column = names[key] ? index.get(names[key]) : undefined;
+      return column === undefined ? '' : (cells[column] ?? '').trim();
+    };
+
+    const date = parseDiaryDate(get('date'));
+    if (!date) {
+      skipped.push({ line, reason: `Unreadable date "${get('date')}"` });
+      return;
+    }
+    const calories = parseAmount(get('calories'));
+    if (calories === null || calories < 0) {
+      skipped.push({ line, reason: 'No calories' });
+      return;
+    }
+
+    const meal = get('meal');
+    const foodName = format === 'myfitnesspal' ? meal || 'Meal' : get('foodName');
+    if (!foodName) {
+      skipped.push({ line, reason: 'No food name' });
+      return;
+    }
+    // A zero-calorie line with no macros is usually a water or note row.
+    const protein = parseAmount(get('protein'));
+    const carbs = parseAmount(get('carbs'));
+    const fats = parseAmount(get('fats'));
+    if (calories === 0 && !protein && !carbs && !fats) {
+      skipped.push({ line, reason: 'Nothing to log' });
+      return;
+    }
+
+    const [hour, minute] = parseDiaryTime(get('time')) ?? defaultTimeForMeal(meal);
+    const [year, month, day] = date.split('-').map(Number);
+    const instant = zonedLocalToUtc(year, month, day, hour, minute, 0, 0, timeZone);
+
+    entries.push({
+      created_at: instant.toISOString(),
+      // Read back from the instant, so a time skipped by the clocks going forward shows as stored.
+      local_date: dateKeyInTimezone(timeZone, instant),
+      local_time: timeInTimezone(timeZone, instant),
+      food_name: foodName,
+      calories,
+      protein,
+      carbs,
+      fats,
+      quantity: 1,
+      portion_assumption: get('amount') || null,
+      source_note,
+    });
+  });
+
+  return { format, entries, skipped };
+}
+
+/**
+ * The food log from an "Everything" export, read back as entries with the
+ * evidence each one was logged with. Times are instants already, so only the
+ * preview columns use `timeZone`. Entries only: meals come back ungrouped,
+ * and the file's saved foods, weights and targets are left alone.
+ */
+export function parseSohaExport(text: string, timeZone: string): ParsedDiary {
+  const bundle = parseExportBundle(text);
+  const entries = bundle.entries.map((entry): ImportedEntry => {
+    const instant = new Date(entry.created_at);
+    return {
+      created_at: instant.toISOString(),
+      local_date: dateKeyInTimezone(timeZone, instant),
+      local_time: timeInTimezone(timeZone, instant),
+      food_name: entry.food_name,
+      calories: entry.calories,
+      protein: entry.protein ?? null,
+      carbs: entry.carbs ?? null,
+      fats: entry.fats ?? null,
+      quantity: entry.quantity || 1,
+      portion_assumption: entry.portion_assumption ?? null,
+      source_note: entry.source_note ?? `Imported from ${DIARY_FORMAT_LABELS.soha}`,
+      provenance: {
+        evidence_status: entry.evidence_status ?? null,
+        source_title: entry.source_title ?? null,
+        source_url: entry.source_url ?? null,
+        evidence_quote: entry.evidence_quote ?? null,
+        reference_weight_g: entry.reference_weight_g ?? null,
+        reference_volume_ml: entry.reference_volume_ml ?? null,
+        unit: entry.unit ?? null,
+        confidence: entry.confidence ?? null,
+      },
+    };
+  });
+  return { format: 'soha', entries, skipped: [] };
+}
+
+/** A Soha JSON export or a diary CSV from another tracker, told apart by the first character. */
+export function parseDiaryFile(text: string, timeZone: string): ParsedDiary {
+  return text.trimStart().startsWith('{') ? parseSohaExport(text, timeZone) : parseDiaryCsv(text, timeZone);
+}
+
+/** Same local day, same name, same calories to the nearest kcal. */
+export function duplicateKey(localDate: string, foodName: string, calories: number): string {
+  return `${localDate}|${foodName.trim().toLowerCase()}|${Math.round(calories)}`;
+}
+
+/**
+ * Splits parsed entries into new and already-logged. Keys are counted, so two
+ * identical bananas in the file against one already logged leaves one new.
+ */
+export function previewDiaryImport(parsed: ParsedDiary, existingKeys: string[]): ImportPreview {
+  const remaining = new Map<string, number>();
+  for (const key of existingKeys) remaining.set(key, (remaining.get(key) ?? 0) + 1);
+
+  const fresh: ImportedEntry[] = [];
+  const duplicates: ImportedEntry[] = [];
+  for (const entry of parsed.entries) {
+    const key = duplicateKey(entry.local_date, entry.food_name, entry.calories * entry.quantity);
+    const left = remaining.get(key) ?? 0;
+    if (left > 0) {
+      remaining.set(key, left - 1);
+      duplicates.push(entry);
+    } else {
+      fresh.push(entry);
+    }
+  }
+
+  const dates = parsed.entries.map((entry) => entry.local_date).sort();
+  return {
+    ...parsed,
+    fresh,
+    duplicates,
+    firstDate: dates[0] ?? null,
+    lastDate: dates[dates.length - 1] ?? null,
+  };
+}
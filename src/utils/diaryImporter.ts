@@ -0,0 +1,80 @@
+import { supabase } from '../supabaseClient';
+import { dateKeyInTimezone, localDayBoundsForDateKey } from './localDate';
+import { fetchAllPages } from './dataExport';
+import { duplicateKey, parseDiaryFile, previewDiaryImport, type ImportedEntry, type ImportPreview } from './diaryImport';
+
+const INSERT_BATCH = 500;
+
+/** Duplicate keys for what's already logged between two local dates. */
+async function fetchExistingKeys(userId: string, startKey: string, endKey: string, timeZone: string): Promise<string[]> {
+  const { dayStart } = localDayBoundsForDateKey(startKey, timeZone);
+  const { dayEnd } = localDayBoundsForDateKey(endKey, timeZone);
+
+  const rows = await fetchAllPages<{ food_name: string; calories: number; quantity: number; created_at: string }>(
+    (from, to) => supabase
+      .from('food_entries')
+      .select('food_name, calories, quantity, created_at')
+      .eq('user_id', userId)
+      .gte('created_at', dayStart)
+      .lte('created_at', dayEnd)
+      .order('created_at', { ascending: true })
+      .range(from, to),
+  );
+
+  return rows.map((row) => duplicateKey(
+    dateKeyInTimezone(timeZone, new Date(row.created_at)),
+    row.food_name,
+    (row.calories || 0) * (row.quantity || 1),
+  ));
+}
+
+/** Parses the file and checks it against the log. Nothing is written. */
+export async function previewDiaryFile(userId: string, text: string, timeZone: string): Promise<ImportPreview> {
+  const parsed = parseDiaryFile(text, timeZone);
+  const dates = parsed.entries.map((entry) => entry.local_date).sort();
+  const existing = dates.length
+    ? await fetchExistingKeys(userId, dates[0], dates[dates.length - 1], timeZone)
+    : [];
+  return previewDiaryImport(parsed, existing);
+}
+
+/**
+ * Fired on `window` after an import writes anything, so views showing the
+ * log reload; imported entries can land on any day, including the one open.
+ */
+export const DIARY_IMPORTED_EVENT = 'soha:diary-imported';
+
+export interface DiaryImportResult {
+  written: number;
+  /** Why the import stopped early; null when every entry was written. */
+  error: string | null;
+}
+
+/** Writes the entries in batches, stopping at the first failed batch. */
+export async function importDiaryEntries(userId: string, entries: ImportedEntry[]): Promise<DiaryImportResult> {
+  let written = 0;
+  let failure: string | null = null;
+  for (let i = 0; i < entries.length; i += INSERT_BATCH) {
+    const batch = entries.slice(i, i + INSERT_BATCH).map((entry) => ({
+      user_id: userId,
+      created_at: entry.created_at,
+      food_name: entry.food_name,
+      calories: entry.calories,
+      protein: entry.protein,
+      carbs: entry.carbs,
+      fats: entry.fats,
+      quantity: entry.quantity,
+      portion_assumption: entry.portion_assumption,
+      source_note: entry.source_note,
+      ...entry.provenance,
+    }));
+    const { error } = await supabase.from('food_entries').insert(batch);
+    if (error) {
+      failure = error.message;
+      break;
+    }
+    written += batch.length;
+  }
+  if (written) window.dispatchEvent(new Event(DIARY_IMPORTED_EVENT));
+  return { written, error: failure };
+}
@@ -0,0 +1,74 @@
+import type { ParsedFoodItem } from '../types/mealParse';
+import type { FoodEntry, FoodEntryProvenance } from '../types/foodEntry';
+import { extractReferenceAmount, type ReferenceAmount } from './portionAssumption';
+
+type ProvenanceSource = {
+  from_saved_food?: boolean;
+  evidence_status?: ParsedFoodItem['evidence_status'] | null;
+  source_note?: string | null;
+};
+
+/** Quiet provenance whisper shown under a reviewed item or logged entry. */
+export function provenanceWhisper(item: ProvenanceSource): string {
+  if (item.from_saved_food || item.evidence_status === 'user_saved') return 'from your saved foods';
+  switch (item.evidence_status) {
+    case 'uk_evidence': return 'UK-verified';
+    case 'related_match': return item.source_note || 'closest match';
+    case 'ai_estimate': return 'adjusted by you';
+    case 'unavailable': return 'couldn\'t verify';
+    default: return 'estimated';
+  }
+}
+
+/** Columns written alongside the macros when a reviewed item is logged. */
+export function toEntryProvenance(item: ParsedFoodItem): FoodEntryProvenance {
+  return {
+    evidence_status: item.from_saved_food ? 'user_saved' : item.evidence_status ?? null,
+    source_note: item.source_note ?? null,
+    source_title: item.source_title ?? null,
+    source_url: item.source_url ?? null,
+    evidence_quote: item.evidence_quote ?? null,
+    portion_assumption: item.portion_assumption ?? null,
+    reference_weight_g: item.reference_weight_g ?? null,
+    reference_volume_ml: item.reference_volume_ml ?? null,
+    unit: item.unit ?? null,
+    confidence: item.confidence ?? null,
+  };
+}
+
+/** Provenance for a saved food added straight from the saved foods list. */
+export function savedFoodEntryProvenance(): FoodEntryProvenance {
+  return {
+    evidence_status: 'user_saved',
+    source_note: 'Your saved food',
+    source_title: 'Your saved food',
+    source_url: null,
+    evidence_quote: null,
+    portion_assumption: null,
+    reference_weight_g: null,
+    reference_volume_ml: null,
+    unit: null,
+    confidence: 'high',
+  };
+}
+
+/** Manual macro edits keep the source link but no longer claim its numbers. */
+export function userAdjustedEntryProvenance(): Pick<FoodEntryProvenance, 'evidence_status' | 'source_note'> {
+  return {
+    evidence_status: 'ai_estimate',
+    source_note: 'Adjusted by user',
+  };
+}
+
+export function hasEntryProvenance(entry: FoodEntry): boolean {
+  return Boolean(entry.evidence_status);
+}
+
+/** Weight or volume the entry's per-unit macros represent, if it was recorded. */
+export function entryReferenceAmount(entry: FoodEntry): ReferenceAmount | null {
+  return extractReferenceAmount({
+    reference_weight_g: entry.reference_weight_g ?? undefined,
+    reference_volume_ml: entry.reference_volume_ml ?? undefined,
+    portion_assumption: entry.portion_assumption ?? undefined,
+  });
+}
@@ -0,0 +1,21 @@
+/** Row-level helpers with no Supabase import, so offline scripts can use them. */
+
+import type { FoodEntry } from '../types/foodEntry';
+import type { MealEntryInput } from './meals';
+
+/** A `food_entries` row as selected with `*`, which also carries the owner. */
+type EntryRow = FoodEntry & { user_id?: string };
+
+/** Copy an entry row as loggable input, dropping identity, time and grouping. */
+export function stripEntryIdentity(row: EntryRow): MealEntryInput {
+  const { id, created_at, meal_id, user_id, client_id, ...input } = row;
+  return input;
+}
+
+export function normalizeFoodName(name: string): string {
+  return name.trim();
+}
+
+export function isSameFoodName(a: string, b: string): boolean {
+  return normalizeFoodName(a).toLowerCase() === normalizeFoodName(b).toLowerCase();
+}
@@ -0,0 +1,237 @@
+import type { FoodEntry, Meal } from '../types/foodEntry';
+import { WEEKDAY_LABELS, type GoalPlan, type GoalTargets } from '../../supabase/functions/_shared/goalSchedule.ts';
+import type { NutritionBasis } from '../../supabase/functions/_shared/mealParsePrompt.ts';
+import type { SavedFoodRecipe } from './savedFoodRecipe';
+import { dateKeyInTimezone, timeInTimezone } from './localDate';
+
+export const EXPORT_FORMAT = 'soha-export';
+// Files exported before the product name settled; read the same way.
+const LEGACY_EXPORT_FORMATS = ['sahha-export'];
+export const EXPORT_VERSION = 1;
+
+export type ExportKind = 'entries' | 'saved-foods' | 'weights' | 'goals' | 'all';
+
+/** An entry as exported: the row without its database identity. `meal_id` still groups entries within the file. */
+export type ExportEntry = Omit<FoodEntry, 'id' | 'parse_session_id' | 'client_id'>;
+
+export interface ExportSavedFood {
+  food_name: string;
+  calories: number;
+  protein: number;
+  carbs: number;
+  fats: number;
+  basis: NutritionBasis | null;
+  serving_weight_g: number | null;
+  serving_volume_ml: number | null;
+  recipe: SavedFoodRecipe | null;
+}
+
+export interface ExportWeight {
+  weight_kg: number;
+  recorded_at: string;
+}
+
+/**
+ * Everything in one file, in a shape an importer can read back. Times stay
+ * as UTC instants; `timezone` records how the user saw them.
+ */
+export interface ExportBundle {
+  format: typeof EXPORT_FORMAT;
+  version: typeof EXPORT_VERSION;
+  exported_at: string;
+  timezone: string;
+  range: { start: string; end: string };
+  entries: ExportEntry[];
+  meals: Meal[];
+  saved_foods: ExportSavedFood[];
+  goals: GoalPlan;
+  weights: ExportWeight[];
+}
+
+export type ExportBundleInput = Omit<ExportBundle, 'format' | 'version' | 'exported_at' | 'entries'> & {
+  entries: FoodEntry[];
+};
+
+// Row identity means nothing in another account or after a re-import.
+const ENTRY_EXCLUDED_COLUMNS = ['id', 'parse_session_id', 'user_id', 'client_id'];
+
+export function buildExportBundle(input: ExportBundleInput, now = new Date()): ExportBundle {
+  return {
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    exported_at: now.toISOString(),
+    timezone: input.timezone,
+    range: input.range,
+    entries: input.entries.map((entry) => {
+      const copy: Record<string, unknown> = { ...entry };
+      for (const column of ENTRY_EXCLUDED_COLUMNS) delete copy[column];
+      return copy as unknown as ExportEntry;
+    }),
+    meals: input.meals,
+    saved_foods: input.saved_foods,
+    goals: input.goals,
+    weights: input.weights,
+  };
+}
+
+/**
+ * One CSV field. Text that a spreadsheet would run as a formula is prefixed
+ * with an apostrophe — food names are user input.
+ */
+export function csvField(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'number') return Number.isFinite(value) ? String(value) : '';
+  let text = String(value);
+  if (/^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(header: string[], rows: unknown[][]): string {
+  return [header, ...rows].map((row) => row.map(csvField).join(',')).join('\r\n') + '\r\n';
+}
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+/** One row per entry, dated and timed in `timeZone`. Per-unit macros and the quantity-multiplied totals both appear. */
+export function entriesToCsv(entries: ExportEntry[], meals: Meal[], timeZone: string): string {
+  const mealsById = new Map(meals.map((meal) => [meal.id, meal]));
+  const sorted = [...entries].sort((a, b) => a.created_at.localeCompare(b.created_at));
+
+  return toCsv(
+    [
+      'date', 'time', 'meal', 'food_name', 'quantity',
+      'calories', 'protein_g', 'carbs_g', 'fats_g',
+      'total_calories', 'total_protein_g', 'total_carbs_g', 'total_fats_g',
+      'evidence_status', 'source_title', 'source_url', 'portion_assumption',
+    ],
+    sorted.map((entry) => {
+      const instant = new Date(entry.created_at);
+      const meal = entry.meal_id != null ? mealsById.get(entry.meal_id) : undefined;
+      const quantity = entry.quantity || 1;
+      return [
+        dateKeyInTimezone(timeZone, instant),
+        timeInTimezone(timeZone, instant),
+        meal ? meal.name || meal.meal_period : '',
+        entry.food_name,
+        quantity,
+        entry.calories,
+        entry.protein,
+        entry.carbs,
+        entry.fats,
+        round1(entry.calories * quantity),
+        entry.protein == null ? null : round1(entry.protein * quantity),
+        entry.carbs == null ? null : round1(entry.carbs * quantity),
+        entry.fats == null ? null : round1(entry.fats * quantity),
+        entry.evidence_status,
+        entry.source_title,
+        entry.source_url,
+        entry.portion_assumption,
+      ];
+    }),
+  );
+}
+
+export function savedFoodsToCsv(foods: ExportSavedFood[]): string {
+  return toCsv(
+    ['food_name', 'calories', 'protein_g', 'carbs_g', 'fats_g', 'basis', 'serving_weight_g', 'serving_volume_ml', 'is_recipe'],
+    foods.map((food) => [
+      food.food_name,
+      food.calories,
+      food.protein,
+      food.carbs,
+      food.fats,
+      food.basis,
+      food.serving_weight_g,
+      food.serving_volume_ml,
+      food.recipe ? 'yes' : 'no',
+    ]),
+  );
+}
+
+export function weightsToCsv(weights: ExportWeight[], timeZone: string): string {
+  return toCsv(
+    ['date', 'time', 'weight_kg'],
+    weights.map((weight) => {
+      const instant = new Date(weight.recorded_at);
+      return [dateKeyInTimezone(timeZone, instant), timeInTimezone(timeZone, instant), weight.weight_kg];
+    }),
+  );
+}
+
+/** The default targets, then each weekday schedule, then each dated override. */
+export function goalsToCsv(plan: GoalPlan): string {
+  const rows: unknown[][] = [];
+  if (plan.base) rows.push(['default', '', ...goalValues(plan.base)]);
+  for (const row of [...plan.weekdays].sort((a, b) => a.weekday - b.weekday)) {
+    rows.push(['weekday', WEEKDAY_LABELS[row.weekday], ...goalValues(row)]);
+  }
+  for (const row of [...plan.overrides].sort((a, b) => a.goal_date.localeCompare(b.goal_date))) {
+    rows.push(['date', row.goal_date, ...goalValues(row)]);
+  }
+  return toCsv(['applies_to', 'when', 'calories', 'protein_g', 'carbs_g', 'fats_g'], rows);
+}
+
+function goalValues(goals: GoalTargets): number[] {
+  return [goals.daily_calories_goal, goals.daily_protein_goal, goals.daily_carbs_goal, goals.daily_fats_goal];
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/** Reads an export file back, or throws with a plain-words reason. */
+export function parseExportBundle(raw: unknown): ExportBundle {
+  const value = typeof raw === 'string' ? JSON.parse(raw) as unknown : raw;
+  if (!isRecord(value) || (value.format !== EXPORT_FORMAT && !LEGACY_EXPORT_FORMATS.includes(String(value.format)))) {
+    throw new Error('This is not a Soha export file');
+  }
+  if (value.version !== EXPORT_VERSION) throw new Error(`Export version ${String(value.version)} is not supported`);
+  if (typeof value.timezone !== 'string' || !isRecord(value.range)) throw new Error('The export is missing its timezone or date range');
+
+  for (const key of ['entries', 'meals', 'saved_foods', 'weights'] as const) {
+    if (!Array.isArray(value[key])) throw new Error(`The export has no ${key.replace('_', ' ')} list`);
+  }
+  const goals = value.goals;
+  if (!isRecord(goals) || !Array.isArray(goals.weekdays) || !Array.isArray(goals.overrides)) {
+    throw new Error('The export has no goals');
+  }
+
+  const entries = value.entries as unknown[];
+  entries.forEach((entry, index) => {
+    if (
+      !isRecord(entry)
+      || typeof entry.food_name !== 'string'
+      || typeof entry.calories !== 'number'
+      || typeof entry.created_at !== 'string'
+      || Number.isNaN(Date.parse(entry.created_at))
+    ) {
+      throw new Error(`Entry ${index + 1} is missing a name, calories or time`);
+    }
+  });
+
+  return { ...value, format: EXPORT_FORMAT } as unknown as ExportBundle;
+}
+
+export function exportFileName(kind: string, range: { start: string; end: string }, extension: 'csv' | 'json'): string {
+  return `soha-${kind}-${range.start}-to-${range.end}.${extension}`;
+}
+
+/** File name, MIME type and contents for one kind of export. */
+export function renderExport(bundle: ExportBundle, kind: ExportKind): { fileName: string; mimeType: string; content: string } {
+  const csv = (name: string, content: string) => ({
+    fileName: exportFileName(name, bundle.range, 'csv'),
+    mimeType: 'text/csv;charset=utf-8',
+    content,
+  });
+
+  switch (kind) {
+    case 'entries': return csv('food-log', entriesToCsv(bundle.entries, bundle.meals, bundle.timezone));
+    case 'saved-foods': return csv('saved-foods', savedFoodsToCsv(bundle.saved_foods));
+    case 'weights': return csv('weights', weightsToCsv(bundle.weights, bundle.timezone));
+    case 'goals': return csv('goals', goalsToCsv(bundle.goals));
+    case 'all': return {
+      fileName: exportFileName('export', bundle.range, 'json'),
+      mimeType: 'application/json',
+      content: JSON.stringify(bundle, null, 2),
+    };
+  }
+}
@@ -0,0 +1,126 @@
+import type { UserGoals } from '../types/experience';
+
+export type BiologicalSex = 'female' | 'male';
+export type ActivityLevel = 'sedentary' | 'light' | 'moderate' | 'active' | 'very_active';
+export type GoalType = 'cut' | 'maintain' | 'bulk';
+
+/** What the calculator needs; stored on `profiles` so targets can be recalculated later. */
+export interface BodyStats {
+  sex: BiologicalSex;
+  age: number;
+  height_cm: number;
+  weight_kg: number;
+  activity_level: ActivityLevel;
+  goal_type: GoalType;
+}
+
+export interface GoalCalculation {
+  bmr: number;
+  tdee: number;
+  goals: UserGoals;
+}
+
+export const ACTIVITY_LEVEL_OPTIONS: Array<{ value: ActivityLevel; label: string; hint: string; multiplier: number }> = [
+  { value: 'sedentary', label: 'Mostly sitting', hint: 'Desk job, little exercise', multiplier: 1.2 },
+  { value: 'light', label: 'Lightly active', hint: 'Exercise 1–3 days a week', multiplier: 1.375 },
+  { value: 'moderate', label: 'Moderately active', hint: 'Exercise 3–5 days a week', multiplier: 1.55 },
+  { value: 'active', label: 'Very active', hint: 'Hard exercise 6–7 days a week', multiplier: 1.725 },
+  { value: 'very_active', label: 'Athlete', hint: 'Physical job or training twice a day', multiplier: 1.9 },
+];
+
+export const GOAL_TYPE_OPTIONS: Array<{ value: GoalType; label: string }> = [
+  { value: 'cut', label: 'Lose fat' },
+  { value: 'maintain', label: 'Maintain' },
+  { value: 'bulk', label: 'Build muscle' },
+];
+
+/**
+ * Per goal: calorie change from maintenance, protein per kg bodyweight, and
+ * the share of calories from fat. Carbs take whatever is left.
+ */
+const GOAL_SPLITS: Record<GoalType, { calorieFactor: number; proteinPerKg: number; fatShare: number }> = {
+  cut: { calorieFactor: 0.8, proteinPerKg: 2.0, fatShare: 0.25 },
+  maintain: { calorieFactor: 1, proteinPerKg: 1.6, fatShare: 0.3 },
+  bulk: { calorieFactor: 1.1, proteinPerKg: 1.8, fatShare: 0.25 },
+};
+
+// Below this a calculated cut stops being a sensible default target.
+const CALORIE_FLOOR: Record<BiologicalSex, number> = { female: 1200, male: 1500 };
+const CALORIE_CEILING = 10_000;
+
+/** Multiplier from maintenance calories to the target for a goal. */
+export function goalCalorieFactor(goalType: GoalType): number {
+  return GOAL_SPLITS[goalType].calorieFactor;
+}
+
+export function isActivityLevel(value: unknown): value is ActivityLevel {
+  return ACTIVITY_LEVEL_OPTIONS.some((option) => option.value === value);
+}
+
+export function isGoalType(value: unknown): value is GoalType {
+  return GOAL_TYPE_OPTIONS.some((option) => option.value === value);
+}
+
+export function isBiologicalSex(value: unknown): value is BiologicalSex {
+  return value === 'female' || value === 'male';
+}
+
+/** Null when the stats are usable, otherwise the first problem in plain words. */
+export function bodyStatsError(stats: BodyStats): string | null {
+  if (!isBiologicalSex(stats.sex)) return 'Choose female or male';
+  if (!Number.isFinite(stats.age) || stats.age < 14 || stats.age > 100) return 'Age must be between 14 and 100';
+  if (!Number.isFinite(stats.height_cm) || stats.height_cm < 120 || stats.height_cm > 230) return 'Height must be between 120 and 230cm';
+  if (!Number.isFinite(stats.weight_kg) || stats.weight_kg < 30 || stats.weight_kg > 300) return 'Weight must be between 30 and 300kg';
+  if (!isActivityLevel(stats.activity_level)) return 'Choose an activity level';
+  if (!isGoalType(stats.goal_type)) return 'Choose a goal';
+  return null;
+}
+
+/** Mifflin-St Jeor resting energy in kcal/day. */
+export function mifflinStJeorBmr(stats: Pick<BodyStats, 'sex' | 'age' | 'height_cm' | 'weight_kg'>): number {
+  const base = 10 * stats.weight_kg + 6.25 * stats.height_cm - 5 * stats.age;
+  return base + (stats.sex === 'male' ? 5 : -161);
+}
+
+export function activityMultiplier(level: ActivityLevel): number {
+  return ACTIVITY_LEVEL_OPTIONS.find((option) => option.value === level)?.multiplier ?? 1.2;
+}
+
+function roundTo(value: number, step: number): number {
+  return Math.round(value / step) * step;
+}
+
+/** Daily targets from body stats: TDEE, adjusted for the goal, split into macros. */
+export function calculateGoals(stats: BodyStats): GoalCalculation {
+  const bmr = mifflinStJeorBmr(stats);
+  const tdee = bmr * activityMultiplier(stats.activity_level);
+  const split = GOAL_SPLITS[stats.goal_type];
+
+  const calories = Math.min(
+    CALORIE_CEILING,
+    Math.max(CALORIE_FLOOR[stats.sex], roundTo(tdee * split.calorieFactor, 50)),
+  );
+  const protein = roundTo(stats.weight_kg * split.proteinPerKg, 5);
+  const fats = roundTo((calories * split.fatShare) / 9, 5);
+  const carbs = Math.max(0, roundTo((calories - protein * 4 - fats * 9) / 4, 5));
+
+  return {
+    bmr: Math.round(bmr),
+    tdee: Math.round(tdee),
+    goals: {
+      daily_calories_goal: calories,
+      daily_protein_goal: protein,
+      daily_carbs_goal: carbs,
+      daily_fats_goal: fats,
+    },
+  };
+}
+
+/** Profiles keep a birth year rather than an age, so a recalculation next year uses the right age. */
+export function birthYearFromAge(age: number, now = new Date()): number {
+  return now.getFullYear() - Math.round(age);
+}
+
+export function ageFromBirthYear(birthYear: number, now = new Date()): number {
+  return now.getFullYear() - birthYear;
+}
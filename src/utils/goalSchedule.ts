@@ -0,0 +1,185 @@
+import { supabase } from '../supabaseClient';
+import {
+  averageGoalsForDates,
+  dateKeysInRange,
+  EMPTY_GOAL_PLAN,
+  GOAL_SELECT,
+  goalTargetsError,
+  resolveGoalsForDate,
+  resolveGoalsWithSource,
+  weekdayForDateKey,
+  WEEKDAY_LABELS,
+  type GoalHistory,
+  type GoalHistoryRow,
+  type GoalOverrideRow,
+  type GoalPlan,
+  type GoalSource,
+  type GoalTargets,
+  type WeekdayGoalHistoryRow,
+  type WeekdayGoalRow,
+} from '../../supabase/functions/_shared/goalSchedule.ts';
+
+export type { GoalOverrideRow, GoalPlan, GoalSource, GoalTargets, WeekdayGoalRow };
+export {
+  averageGoalsForDates,
+  dateKeysInRange,
+  goalTargetsError,
+  resolveGoalsForDate,
+  resolveGoalsWithSource,
+  weekdayForDateKey,
+  WEEKDAY_LABELS,
+};
+
+/** Weekday numbers (0 = Sunday) in display order for a week that begins on `weekStart`. */
+export function weekdaysFrom(weekStart: number): number[] {
+  return WEEKDAY_LABELS.map((_, i) => (weekStart + i) % 7);
+}
+
+/**
+ * The default goals, the weekday schedule and the overrides inside `range`
+ * (all overrides when no range is given). With a range, the goal history up to
+ * its end comes too, so past days resolve against the targets they had.
+ * Failed reads degrade to "no goals", and a failed history read to today's.
+ */
+export async function fetchGoalPlan(
+  userId: string,
+  range?: { start: string; end: string },
+): Promise<GoalPlan> {
+  let overridesQuery = supabase
+    .from('goal_overrides')
+    .select(`goal_date, ${GOAL_SELECT}`)
+    .eq('user_id', userId);
+  if (range) {
+    overridesQuery = overridesQuery.gte('goal_date', range.start).lte('goal_date', range.end);
+  }
+
+  const [baseRes, weekdaysRes, overridesRes, history] = await Promise.all([
+    supabase.from('user_goals').select(GOAL_SELECT).eq('user_id', userId).maybeSingle(),
+    supabase.from('goal_schedules').select(`weekday, ${GOAL_SELECT}`).eq('user_id', userId),
+    overridesQuery.order('goal_date'),
+    range ? fetchGoalHistory(userId, range.end) : Promise.resolve(undefined),
+  ]);
+
+  if (baseRes.error) {
+    console.error('Error fetching goals:', baseRes.error);
+    return EMPTY_GOAL_PLAN;
+  }
+  if (weekdaysRes.error) console.warn('[goals] weekday schedule unavailable', weekdaysRes.error.message);
+  if (overridesRes.error) console.warn('[goals] overrides unavailable', overridesRes.error.message);
+
+  return {
+    base: (baseRes.data ?? null) as GoalTargets | null,
+    weekdays: (weekdaysRes.data ?? []) as WeekdayGoalRow[],
+    overrides: (overridesRes.data ?? []) as GoalOverrideRow[],
+    history,
+  };
+}
+
+async function fetchGoalHistory(userId: string, until: string): Promise<GoalHistory | undefined> {
+  const [baseRes, weekdaysRes] = await Promise.all([
+    supabase
+      .from('user_goal_history')
+      .select(`valid_from, ${GOAL_SELECT}`)
+      .eq('user_id', userId)
+      .lte('valid_from', until),
+    supabase
+      .from('goal_schedule_history')
+      .select(`weekday, valid_from, ${GOAL_SELECT}`)
+      .eq('user_id', userId)
+      .lte('valid_from', until),
+  ]);
+  if (baseRes.error || weekdaysRes.error) {
+    console.warn('[goals] goal history unavailable', (baseRes.error ?? weekdaysRes.error)?.message);
+    return undefined;
+  }
+  return {
+    base: (baseRes.data ?? []) as GoalHistoryRow[],
+    weekdays: (weekdaysRes.data ?? []) as WeekdayGoalHistoryRow[],
+  };
+}
+
+/** The goals in force on one local date. */
+export async function fetchGoalsForDate(userId: string, dateKey: string): Promise<GoalTargets | null> {
+  const plan = await fetchGoalPlan(userId, { start: dateKey, end: dateKey });
+  return resolveGoalsForDate(plan, dateKey);
+}
+
+/**
+ * Average target across a date range, resolving each day on its own so a
+ * week with heavier training days compares against what was actually set.
+ */
+export async function fetchAverageGoalsForRange(
+  userId: string,
+  start: string,
+  end: string,
+): Promise<GoalTargets | null> {
+  if (end < start) return null;
+  const plan = await fetchGoalPlan(userId, { start, end });
+  return averageGoalsForDates(plan, dateKeysInRange(start, end));
+}
+
+/** Goal inputs as the settings form holds them: raw strings until saved. */
+export interface GoalFormValues {
+  daily_calories_goal: string;
+  daily_protein_goal: string;
+  daily_carbs_goal: string;
+  daily_fats_goal: string;
+}
+
+export function goalsToForm(goals: GoalTargets): GoalFormValues {
+  return {
+    daily_calories_goal: goals.daily_calories_goal.toString(),
+    daily_protein_goal: goals.daily_protein_goal.toString(),
+    daily_carbs_goal: goals.daily_carbs_goal.toString(),
+    daily_fats_goal: goals.daily_fats_goal.toString(),
+  };
+}
+
+export function goalsFromForm(form: GoalFormValues): GoalTargets {
+  return {
+    daily_calories_goal: parseFloat(form.daily_calories_goal),
+    daily_protein_goal: parseFloat(form.daily_protein_goal),
+    daily_carbs_goal: parseFloat(form.daily_carbs_goal),
+    daily_fats_goal: parseFloat(form.daily_fats_goal),
+  };
+}
+
+/** Replace the weekday schedule: listed weekdays are upserted, the rest fall back to the default. */
+export async function saveWeekdaySchedule(userId: string, rows: WeekdayGoalRow[]): Promise<void> {
+  const updatedAt = new Date().toISOString();
+  if (rows.length) {
+    const { error } = await supabase
+      .from('goal_schedules')
+      .upsert(
+        rows.map((row) => ({ ...row, user_id: userId, updated_at: updatedAt })),
+        { onConflict: 'user_id,weekday' },
+      );
+    if (error) throw error;
+  }
+
+  let removeQuery = supabase.from('goal_schedules').delete().eq('user_id', userId);
+  if (rows.length) {
+    removeQuery = removeQuery.not('weekday', 'in', `(${rows.map((row) => row.weekday).join(',')})`);
+  }
+  const { error } = await removeQuery;
+  if (error) throw error;
+}
+
+export async function saveGoalOverride(userId: string, row: GoalOverrideRow): Promise<void> {
+  const { error } = await supabase
+    .from('goal_overrides')
+    .upsert(
+      { ...row, user_id: userId, updated_at: new Date().toISOString() },
+      { onConflict: 'user_id,goal_date' },
+    );
+  if (error) throw error;
+}
+
+export async function deleteGoalOverride(userId: string, goalDate: string): Promise<void> {
+  const { error } = await supabase
+    .from('goal_overrides')
+    .delete()
+    .eq('user_id', userId)
+    .eq('goal_date', goalDate);
+  if (error) throw error;
+}
@@ -12,6 +12,18 @@ export function parseLocalDateKey(key: string): Date {
   return new Date(year, month - 1, day);
 }
 
+/** YYYY-MM-DD `days` calendar days later (or earlier); DST-safe. */
+export function shiftDateKey(dateKey: string, days: number): string {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().slice(0, 10);
+}
+
+/** Local midnight on the first day of `date`'s week. `weekStart` uses getDay() numbering: 0 = Sunday, 1 = Monday. */
+export function startOfWeek(date: Date, weekStart = 0): Date {
+  const offset = (date.getDay() - weekStart + 7) % 7;
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() - offset);
+}
+
 export function getBrowserTimezone(): string {
   try {
     return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
@@ -122,6 +134,12 @@ export function dateKeyInTimezone(timeZone: string, instant = new Date()): strin
   return new Intl.DateTimeFormat('en-CA', { timeZone }).format(instant);
 }
 
+/** Wall-clock time of an instant in an IANA timezone as HH:mm (24-hour) */
+export function timeInTimezone(timeZone: string, instant = new Date()): string {
+  const { hour, minute } = getZonedParts(instant, timeZone);
+  return `${String(hour).padStart(2, '0')}:${String(minute).padStart(2, '0')}`;
+}
+
 /** Store the selected calendar day with the current local clock time */
 export function createTimestampForDate(date: Date): string {
   const now = new Date();
@@ -134,3 +152,16 @@ export function createTimestampForDate(date: Date): string {
   );
   return selected.toISOString();
 }
+
+/** Same local clock time as `timestamp`, moved onto the selected calendar day */
+export function moveTimestampToDate(timestamp: string, date: Date): string {
+  const original = new Date(timestamp);
+  const moved = new Date(date);
+  moved.setHours(
+    original.getHours(),
+    original.getMinutes(),
+    original.getSeconds(),
+    original.getMilliseconds(),
+  );
+  return moved.toISOString();
+}
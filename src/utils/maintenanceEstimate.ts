@@ -0,0 +1,51 @@
+import { supabase } from '../supabaseClient';
+import { dateKeyInTimezone, localDayBoundsForDateKey, shiftDateKey } from './localDate';
+import { estimateAdaptiveTdee, type AdaptiveTdeeEstimate, type DailyIntake } from './adaptiveTdee';
+import { fetchWeightTrend } from './weightEntries';
+
+const WINDOW_DAYS = 28;
+
+/** Calories and entry counts per local day between two date keys. */
+export async function fetchDailyIntake(
+  userId: string,
+  startKey: string,
+  endKey: string,
+  timeZone: string,
+): Promise<DailyIntake[]> {
+  const { dayStart } = localDayBoundsForDateKey(startKey, timeZone);
+  const { dayEnd } = localDayBoundsForDateKey(endKey, timeZone);
+
+  const { data, error } = await supabase
+    .from('food_entries')
+    .select('calories, quantity, created_at')
+    .eq('user_id', userId)
+    .gte('created_at', dayStart)
+    .lte('created_at', dayEnd);
+
+  if (error) throw error;
+
+  const byDay = new Map<string, DailyIntake>();
+  for (const row of data ?? []) {
+    const date = dateKeyInTimezone(timeZone, new Date(row.created_at));
+    const day = byDay.get(date) ?? { date, calories: 0, entry_count: 0 };
+    day.calories += (row.calories || 0) * (row.quantity || 1);
+    day.entry_count += 1;
+    byDay.set(date, day);
+  }
+  return [...byDay.values()];
+}
+
+/**
+ * Maintenance estimate for the four weeks ending yesterday — today is still
+ * being logged, so it would read as a low-intake day.
+ */
+export async function fetchAdaptiveTdee(userId: string, timeZone: string): Promise<AdaptiveTdeeEstimate | null> {
+  const endKey = shiftDateKey(dateKeyInTimezone(timeZone), -1);
+  const startKey = shiftDateKey(endKey, -(WINDOW_DAYS - 1));
+
+  const [intake, trend] = await Promise.all([
+    fetchDailyIntake(userId, startKey, endKey, timeZone),
+    fetchWeightTrend(userId, startKey, endKey, timeZone),
+  ]);
+  return estimateAdaptiveTdee(intake, trend, endKey, { windowDays: WINDOW_DAYS });
+}
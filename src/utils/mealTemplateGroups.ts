@@ -0,0 +1,97 @@
+import type { FoodEntry, Meal } from '../types/foodEntry';
+import { normalizeFoodName, stripEntryIdentity } from './entryRows';
+import type { MealEntryInput } from './meals';
+
+/** A combination must have been logged at least this often to become a template. */
+const TEMPLATE_MIN_REPEATS = 2;
+const TEMPLATE_LIMIT = 6;
+
+export interface MealTemplate {
+  /** Stable key for the item combination, independent of order and casing */
+  key: string;
+  /** Name the user gave the meal, if any */
+  name: string | null;
+  label: string;
+  timesLogged: number;
+  lastLoggedAt: string;
+  calories: number;
+  /** Entries from the most recent time the combination was logged */
+  entries: MealEntryInput[];
+}
+
+export type TemplateSourceEntry = FoodEntry & { meals?: Pick<Meal, 'name'> | null };
+
+function toTemplateEntry(entry: TemplateSourceEntry): MealEntryInput {
+  const { meals, ...row } = entry;
+  return stripEntryIdentity(row);
+}
+
+function combinationKey(entries: FoodEntry[]): string {
+  return entries
+    .map((entry) => normalizeFoodName(entry.food_name).toLowerCase())
+    .sort()
+    .join(' + ');
+}
+
+function mealName(entries: TemplateSourceEntry[]): string | null {
+  return entries.find((entry) => entry.meals?.name)?.meals?.name ?? null;
+}
+
+function templateLabel(entries: TemplateSourceEntry[]): string {
+  return mealName(entries) ?? entries.map((entry) => normalizeFoodName(entry.food_name)).join(', ');
+}
+
+function lineCalories(entries: FoodEntry[]): number {
+  return entries.reduce((sum, entry) => sum + entry.calories * (entry.quantity || 1), 0);
+}
+
+/**
+ * Group entries into the occasions they were logged on and keep combinations
+ * that repeat. Entries logged together share a meal, or — for rows from before
+ * meals existed — the same timestamp. Single-item occasions are left to saved foods.
+ */
+export function buildMealTemplates(entries: TemplateSourceEntry[]): MealTemplate[] {
+  const occasions = new Map<string, TemplateSourceEntry[]>();
+  for (const entry of entries) {
+    const occasionKey = entry.meal_id != null ? `meal:${entry.meal_id}` : `at:${entry.created_at}`;
+    const group = occasions.get(occasionKey);
+    if (group) group.push(entry);
+    else occasions.set(occasionKey, [entry]);
+  }
+
+  const templates = new Map<string, MealTemplate>();
+  for (const group of occasions.values()) {
+    if (group.length < 2) continue;
+
+    const key = combinationKey(group);
+    const loggedAt = group[0].created_at;
+    const existing = templates.get(key);
+
+    if (!existing) {
+      templates.set(key, {
+        key,
+        name: mealName(group),
+        label: templateLabel(group),
+        timesLogged: 1,
+        lastLoggedAt: loggedAt,
+        calories: lineCalories(group),
+        entries: group.map(toTemplateEntry),
+      });
+      continue;
+    }
+
+    existing.timesLogged += 1;
+    if (loggedAt > existing.lastLoggedAt) {
+      existing.lastLoggedAt = loggedAt;
+      existing.name = mealName(group);
+      existing.label = templateLabel(group);
+      existing.calories = lineCalories(group);
+      existing.entries = group.map(toTemplateEntry);
+    }
+  }
+
+  return [...templates.values()]
+    .filter((template) => template.timesLogged >= TEMPLATE_MIN_REPEATS)
+    .sort((a, b) => b.timesLogged - a.timesLogged || b.lastLoggedAt.localeCompare(a.lastLoggedAt))
+    .slice(0, TEMPLATE_LIMIT);
+}
@@ -0,0 +1,34 @@
+import { supabase } from '../supabaseClient';
+import type { Meal } from '../types/foodEntry';
+import { logMeal } from './meals';
+import { createTimestampForDate } from './localDate';
+import { buildMealTemplates, type MealTemplate, type TemplateSourceEntry } from './mealTemplateGroups';
+
+/** How far back to look for repeated meals. */
+const TEMPLATE_LOOKBACK_DAYS = 60;
+
+/** Meals the user logs repeatedly, most frequent first. */
+export async function fetchMealTemplates(userId: string): Promise<MealTemplate[]> {
+  const since = new Date();
+  since.setDate(since.getDate() - TEMPLATE_LOOKBACK_DAYS);
+
+  const { data, error } = await supabase
+    .from('food_entries')
+    .select('*, meals(name)')
+    .eq('user_id', userId)
+    .gte('created_at', since.toISOString())
+    .order('created_at', { ascending: false })
+    .order('id', { ascending: true });
+
+  if (error) throw error;
+  return buildMealTemplates((data ?? []) as TemplateSourceEntry[]);
+}
+
+/** Log every item of a template as one meal on the chosen day. */
+export async function logMealTemplate(userId: string, template: MealTemplate, date: Date): Promise<Meal> {
+  return logMeal(
+    userId,
+    { eatenAt: createTimestampForDate(date), name: template.name },
+    template.entries,
+  );
+}
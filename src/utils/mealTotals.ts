@@ -7,7 +7,9 @@ export interface MacroTotals {
   fats: number;
 }
 
-export function sumItemMacros(items: ParsedFoodItem[]): MacroTotals {
+export function sumItemMacros(
+  items: Pick<ParsedFoodItem, 'calories' | 'protein' | 'carbs' | 'fats' | 'quantity'>[],
+): MacroTotals {
   return items.reduce(
     (acc, item) => {
       const q = item.quantity || 1;
@@ -0,0 +1,167 @@
+import { supabase } from '../supabaseClient';
+import type { FoodEntry, Meal } from '../types/foodEntry';
+import { getMealPeriod } from './experience';
+import { stripEntryIdentity } from './entryRows';
+import { createTimestampForDate, formatLocalDateKey } from './localDate';
+
+const MEAL_COLUMNS = 'id, meal_period, name, eaten_at, transcript';
+
+/** Entry columns as logged — everything except identity, time and grouping. */
+export type MealEntryInput = Omit<FoodEntry, 'id' | 'created_at' | 'meal_id'>;
+
+export interface MealInput {
+  eatenAt: string;
+  transcript?: string | null;
+  name?: string | null;
+  /** Made on the device; a meal sent twice with the same ID is only stored once. */
+  clientId?: string;
+}
+
+const CLIENT_ID_CONFLICT = { onConflict: 'user_id,client_id', ignoreDuplicates: true };
+
+/**
+ * Insert entry rows. When every row has a client ID a repeat send is a no-op,
+ * so the outbox can retry after a response went missing.
+ */
+export async function insertEntries(rows: Array<Record<string, unknown>>): Promise<void> {
+  const idempotent = rows.length > 0 && rows.every((row) => row.client_id);
+  const { error } = idempotent
+    ? await supabase.from('food_entries').upsert(rows, CLIENT_ID_CONFLICT)
+    : await supabase.from('food_entries').insert(rows);
+  if (error) throw error;
+}
+
+/** The meal row, and whether this call created it (false when a retry found it already stored). */
+async function insertMealRow(
+  row: Record<string, unknown>,
+  clientId: string | undefined,
+): Promise<{ meal: Meal; created: boolean }> {
+  if (!clientId) {
+    const { data, error } = await supabase.from('meals').insert(row).select(MEAL_COLUMNS).single();
+    if (error) throw error;
+    return { meal: data, created: true };
+  }
+
+  const { data, error } = await supabase
+    .from('meals')
+    .upsert({ ...row, client_id: clientId }, CLIENT_ID_CONFLICT)
+    .select(MEAL_COLUMNS);
+  if (error) throw error;
+  if (data && data.length > 0) return { meal: data[0], created: true };
+
+  const { data: existing, error: lookupError } = await supabase
+    .from('meals')
+    .select(MEAL_COLUMNS)
+    .eq('user_id', row.user_id as string)
+    .eq('client_id', clientId)
+    .single();
+  if (lookupError) throw lookupError;
+  return { meal: existing, created: false };
+}
+
+/** Insert a meal row and its entries. Removes the meal again if the entries fail. */
+export async function logMeal(
+  userId: string,
+  meal: MealInput,
+  entries: MealEntryInput[],
+): Promise<Meal> {
+  const { meal: saved, created } = await insertMealRow(
+    {
+      user_id: userId,
+      meal_period: getMealPeriod(new Date(meal.eatenAt)),
+      name: meal.name?.trim() || null,
+      eaten_at: meal.eatenAt,
+      transcript: meal.transcript?.trim() || null,
+    },
+    meal.clientId,
+  );
+
+  try {
+    await insertEntries(
+      entries.map((entry) => ({
+        ...entry,
+        user_id: userId,
+        meal_id: saved.id,
+        created_at: meal.eatenAt,
+      })),
+    );
+  } catch (entriesError) {
+    // A retried meal may already hold entries from an earlier send; leave it for the next retry.
+    if (created) await supabase.from('meals').delete().eq('id', saved.id).eq('user_id', userId);
+    throw entriesError;
+  }
+
+  return saved;
+}
+
+export async function fetchMealsInRange(
+  userId: string,
+  rangeStart: string,
+  rangeEnd: string,
+): Promise<Meal[]> {
+  const { data, error } = await supabase
+    .from('meals')
+    .select(MEAL_COLUMNS)
+    .eq('user_id', userId)
+    .gte('eaten_at', rangeStart)
+    .lte('eaten_at', rangeEnd)
+    .order('eaten_at', { ascending: false });
+
+  if (error) throw error;
+  return data ?? [];
+}
+
+export async function renameMeal(userId: string, mealId: number, name: string): Promise<void> {
+  const { error } = await supabase
+    .from('meals')
+    .update({ name: name.trim() || null })
+    .eq('id', mealId)
+    .eq('user_id', userId);
+
+  if (error) throw error;
+}
+
+/**
+ * Move a meal and all of its entries to another day, keeping the time it was
+ * eaten in the profile timezone. One RPC, so the entries can't be left behind.
+ */
+export async function moveMeal(meal: Meal, targetDate: Date): Promise<void> {
+  const { error } = await supabase.rpc('move_meal', {
+    p_meal_id: meal.id,
+    p_target_date: formatLocalDateKey(targetDate),
+  });
+  if (error) throw error;
+}
+
+/** Log a copy of a meal and its entries on the target day, at the current clock time. */
+export async function duplicateMeal(userId: string, meal: Meal, targetDate: Date): Promise<Meal> {
+  const { data, error } = await supabase
+    .from('food_entries')
+    .select('*')
+    .eq('meal_id', meal.id)
+    .eq('user_id', userId)
+    .order('id');
+
+  if (error) throw error;
+
+  return logMeal(
+    userId,
+    {
+      eatenAt: createTimestampForDate(targetDate),
+      transcript: meal.transcript,
+      name: meal.name,
+    },
+    (data ?? []).map(stripEntryIdentity),
+  );
+}
+
+/** Delete a meal; its entries go with it (`on delete cascade`). */
+export async function deleteMeal(userId: string, mealId: number): Promise<void> {
+  const { error } = await supabase
+    .from('meals')
+    .delete()
+    .eq('id', mealId)
+    .eq('user_id', userId);
+
+  if (error) throw error;
+}
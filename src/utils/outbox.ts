@@ -0,0 +1,89 @@
+import { deleteRecord, getAllRecords, putRecord } from './deviceStore';
+import { insertEntries, logMeal } from './meals';
+import { flushQueue, requeueItem, type FlushResult, type OutboxItem } from './outboxQueue';
+
+/**
+ * Fired on `window` whenever items are queued or sent, so pending lists can
+ * reload. `detail.sent` counts items that just reached the server.
+ */
+export const OUTBOX_CHANGED_EVENT = 'soha:outbox-changed';
+
+export type OutboxChangedEvent = CustomEvent<{ sent: number }>;
+
+function notifyChanged(sent = 0) {
+  window.dispatchEvent(new CustomEvent(OUTBOX_CHANGED_EVENT, { detail: { sent } }));
+}
+
+export async function queueOutboxItem(item: OutboxItem): Promise<void> {
+  await putRecord('outbox', item);
+  notifyChanged();
+}
+
+export async function listOutboxItems(userId: string): Promise<OutboxItem[]> {
+  const items = await getAllRecords<OutboxItem>('outbox');
+  return items.filter((item) => item.user_id === userId);
+}
+
+async function sendOutboxItem(item: OutboxItem): Promise<void> {
+  if (item.kind === 'meal') {
+    await logMeal(item.user_id, item.meal, item.entries);
+  } else {
+    await insertEntries([{ ...item.entry, user_id: item.user_id }]);
+  }
+}
+
+/** In-flight run per user, so two accounts on one device never share a result. */
+const flushing = new Map<string, Promise<FlushResult>>();
+
+/**
+ * Send everything queued for this user. Concurrent calls share one run, so an
+ * `online` event and a tab refocus arriving together don't race each other.
+ */
+export function flushOutbox(userId: string): Promise<FlushResult> {
+  const current = flushing.get(userId);
+  if (current) return current;
+
+  const run = (async () => {
+    try {
+      const items = await listOutboxItems(userId);
+      const result = await flushQueue(
+        items,
+        sendOutboxItem,
+        (clientId) => deleteRecord('outbox', clientId),
+        (item) => putRecord('outbox', item),
+      );
+      if (result.sent.length > 0 || result.failed.some((failure) => failure.final)) {
+        notifyChanged(result.sent.length);
+      }
+      for (const failure of result.failed) {
+        console.warn('Outbox item rejected', failure.client_id, failure.message);
+      }
+      return result;
+    } finally {
+      flushing.delete(userId);
+    }
+  })();
+  flushing.set(userId, run);
+  return run;
+}
+
+/**
+ * Give a failed item another round of attempts, starting now. A run already in
+ * flight listed its items before the requeue and would skip this one, so the
+ * retry waits for it and then starts a fresh run.
+ */
+export async function retryOutboxItem(item: OutboxItem): Promise<FlushResult> {
+  await putRecord('outbox', requeueItem(item));
+  notifyChanged();
+  const current = flushing.get(item.user_id);
+  if (current) {
+    await current.catch(() => undefined);
+  }
+  return flushOutbox(item.user_id);
+}
+
+/** Drop an item that will never be accepted. */
+export async function discardOutboxItem(clientId: string): Promise<void> {
+  await deleteRecord('outbox', clientId);
+  notifyChanged();
+}
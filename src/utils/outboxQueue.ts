@@ -0,0 +1,150 @@
+import type { MealEntryInput, MealInput } from './meals';
+
+/** Delivery state; absent on items queued before sends were counted. */
+interface OutboxItemState {
+  /** Times the server has refused the item. */
+  attempts?: number;
+  /** The server's last refusal. */
+  error?: string;
+  /** Refused MAX_SEND_ATTEMPTS times: no longer sent until retried by hand. */
+  failed?: boolean;
+}
+
+/**
+ * Something logged while offline, kept on the device until it reaches the
+ * server. `client_id` is the outbox key and the ID the server deduplicates on.
+ */
+export type OutboxItem = OutboxItemState & (
+  | {
+    kind: 'meal';
+    client_id: string;
+    user_id: string;
+    queued_at: number;
+    meal: MealInput & { clientId: string };
+    entries: Array<MealEntryInput & { client_id: string }>;
+  }
+  | {
+    kind: 'entry';
+    client_id: string;
+    user_id: string;
+    queued_at: number;
+    entry: MealEntryInput & { client_id: string; created_at: string };
+  }
+);
+
+// An item the server keeps refusing (a bad row, not a dropped connection) is
+// shown as failed after this many tries rather than retried forever.
+export const MAX_SEND_ATTEMPTS = 3;
+
+/** A queued entry as the day view shows it. */
+export interface PendingEntry {
+  client_id: string;
+  /** The outbox item it belongs to; a meal's entries share one. */
+  item_id: string;
+  /** Given up on; waits for the user to retry or discard it. */
+  failed: boolean;
+  error?: string;
+  food_name: string;
+  calories: number;
+  quantity: number;
+  created_at: string;
+}
+
+export interface FlushResult {
+  sent: string[];
+  /**
+   * Items the server refused. Each refusal counts an attempt; `final` ones
+   * reached MAX_SEND_ATTEMPTS and are now failed, the rest are retried.
+   */
+  failed: Array<{ client_id: string; message: string; final: boolean }>;
+  /** The connection dropped part-way; the rest were not tried. */
+  offline: boolean;
+}
+
+/**
+ * True for errors that mean "didn't reach the server", as opposed to the
+ * server saying no. supabase-js reports a failed fetch as an error object
+ * whose message carries the browser's TypeError text.
+ */
+export function isNetworkError(error: unknown, online = typeof navigator === 'undefined' ? true : navigator.onLine): boolean {
+  if (!online) return true;
+  const message = error instanceof Error
+    ? error.message
+    : typeof error === 'object' && error !== null && 'message' in error
+      ? String((error as { message: unknown }).message)
+      : '';
+  return /failed to fetch|networkerror|network request failed|load failed|fetch failed/i.test(message);
+}
+
+export function newClientId(): string {
+  return crypto.randomUUID();
+}
+
+/** Queued items flattened into entries, oldest first. */
+export function pendingEntries(items: OutboxItem[]): PendingEntry[] {
+  return [...items]
+    .sort((a, b) => a.queued_at - b.queued_at)
+    .flatMap((item) => {
+      const state = { item_id: item.client_id, failed: Boolean(item.failed), error: item.error };
+      return item.kind === 'meal'
+        ? item.entries.map((entry) => ({
+          ...state,
+          client_id: entry.client_id,
+          food_name: entry.food_name,
+          calories: entry.calories,
+          quantity: entry.quantity,
+          created_at: item.meal.eatenAt,
+        }))
+        : [{
+          ...state,
+          client_id: item.entry.client_id,
+          food_name: item.entry.food_name,
+          calories: item.entry.calories,
+          quantity: item.entry.quantity,
+          created_at: item.entry.created_at,
+        }];
+    });
+}
+
+/** A failed item put back in the queue with a fresh set of attempts. */
+export function requeueItem(item: OutboxItem): OutboxItem {
+  return { ...item, attempts: 0, error: undefined, failed: false };
+}
+
+/**
+ * Sends items oldest first and removes each once the server has it. Stops at
+ * the first network failure — the rest would fail the same way — but carries
+ * on past an item the server rejects so one bad row can't block the queue.
+ * A rejection is saved with the item; failed items are skipped.
+ */
+export async function flushQueue(
+  items: OutboxItem[],
+  send: (item: OutboxItem) => Promise<void>,
+  remove: (clientId: string) => Promise<void>,
+  save: (item: OutboxItem) => Promise<void>,
+  isOffline: (error: unknown) => boolean = isNetworkError,
+): Promise<FlushResult> {
+  const result: FlushResult = { sent: [], failed: [], offline: false };
+
+  for (const item of [...items].sort((a, b) => a.queued_at - b.queued_at)) {
+    if (item.failed) continue;
+    try {
+      await send(item);
+    } catch (error) {
+      if (isOffline(error)) {
+        result.offline = true;
+        break;
+      }
+      const message = error instanceof Error ? error.message : String((error as { message?: unknown })?.message ?? error);
+      const attempts = (item.attempts ?? 0) + 1;
+      const final = attempts >= MAX_SEND_ATTEMPTS;
+      await save({ ...item, attempts, error: message, failed: final });
+      result.failed.push({ client_id: item.client_id, message, final });
+      continue;
+    }
+    await remove(item.client_id);
+    result.sent.push(item.client_id);
+  }
+
+  return result;
+}
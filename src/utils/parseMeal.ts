@@ -146,6 +146,45 @@ async function readNdjsonStream(
   }
 }
 
+/**
+ * The stream request never got a response — the connection failed before the
+ * server answered. Only this case falls back to the plain JSON request; once a
+ * response arrives the parse has already run, so a second request would double
+ * the wait and the model cost.
+ */
+class ParseStreamUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ParseStreamUnavailableError';
+  }
+}
+
+async function throwParseErrorResponse(response: Response): Promise<never> {
+  try {
+    const payload = await response.json() as {
+      error?: string;
+      code?: ParseRejectionCode;
+      transcript?: string;
+    };
+    if (payload.code) {
+      throw new ParseRejectionError(payload.code, payload.transcript);
+    }
+    if (payload.error) throw new Error(payload.error);
+  } catch (err) {
+    if (isParseRejectionError(err) || err instanceof Error) throw err;
+  }
+  throw new Error('Meal parser failed. Sign in again or try in a moment.');
+}
+
+async function readParseJsonResponse(response: Response): Promise<ParseMealResponse> {
+  const data = await response.json() as ParseMealResponse & { error?: string };
+  if (typeof data.error === 'string') throw new Error(data.error);
+  if (!data.items?.length) {
+    throw new Error('No food items were found in that description.');
+  }
+  return data;
+}
+
 type StreamCallbacks = {
   onTranscript?: (transcript: string) => void;
   onProgress?: (stage: ParseProgressStage) => void;
@@ -157,26 +196,22 @@ async function consumeParseStream(
   callbacks?: StreamCallbacks,
 ): Promise<ParseMealResponse> {
   if (!response.ok) {
-    try {
-      const payload = await response.json() as {
-        error?: string;
-        code?: ParseRejectionCode;
-        transcript?: string;
-      };
-      if (payload.code) {
-        throw new ParseRejectionError(payload.code, payload.transcript);
-      }
-      if (payload.error) throw new Error(payload.error);
-    } catch (err) {
-      if (isParseRejectionError(err) || err instanceof Error) throw err;
-    }
-    throw new Error('Meal parser failed. Sign in again or try in a moment.');
+    await throwParseErrorResponse(response);
+  }
+
+  const contentType = response.headers.get('Content-Type') ?? '';
+  if (contentType.includes('application/json')) {
+    // A deploy without streaming answers with the finished parse as one body.
+    return readParseJsonResponse(response);
+  }
+  if (!response.body || !contentType.includes('ndjson')) {
+    throw new Error('Meal parser returned an unexpected response. Try again.');
   }
 
   let parsedMeal: ParseMealResponse | undefined;
   let streamError: Error | null = null;
 
-  await readNdjsonStream(response, (event) => {
+  const handleEvent = (event: Record<string, unknown>) => {
     if (event.event === 'progress' && typeof event.stage === 'string' && isParseProgressStage(event.stage)) {
       callbacks?.onProgress?.(event.stage);
       return;
@@ -213,9 +248,14 @@ async function consumeParseStream(
         research_available: typeof event.research_available === 'boolean'
           ? event.research_available
           : undefined,
+        timings: event.timings && typeof event.timings === 'object'
+          ? event.timings as ParseMealResponse['timings']
+          : undefined,
       };
     }
-  });
+  };
+
+  await readNdjsonStream(response, handleEvent);
 
   if (streamError !== null) {
     throw streamError;
@@ -237,6 +277,36 @@ async function consumeParseStream(
 async function invokeParseMealStream(
   body: Record<string, unknown>,
   callbacks?: StreamCallbacks,
+): Promise<ParseMealResponse> {
+  const accessToken = await getFreshAccessToken();
+  let response: Response;
+  try {
+    response = await fetch(`${supabaseUrl}/functions/v1/parse-meal`, {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${accessToken}`,
+        apikey: supabaseAnonKey,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        action: 'parse',
+        stream: true,
+        ...body,
+      }),
+      signal: callbacks?.signal,
+    });
+  } catch (err) {
+    if (callbacks?.signal?.aborted) throw err;
+    throw new ParseStreamUnavailableError(err instanceof Error ? err.message : 'Meal parser stream failed');
+  }
+
+  return consumeParseStream(response, callbacks);
+}
+
+/** Text parse as one JSON response — the fallback when the stream cannot be opened. */
+async function invokeParseMealJson(
+  body: Record<string, unknown>,
+  signal?: AbortSignal,
 ): Promise<ParseMealResponse> {
   const accessToken = await getFreshAccessToken();
   const response = await fetch(`${supabaseUrl}/functions/v1/parse-meal`, {
@@ -246,15 +316,15 @@ async function invokeParseMealStream(
       apikey: supabaseAnonKey,
       'Content-Type': 'application/json',
     },
-    body: JSON.stringify({
-      action: 'parse',
-      stream: true,
-      ...body,
-    }),
-    signal: callbacks?.signal,
+    body: JSON.stringify({ action: 'parse', ...body }),
+    signal,
   });
 
-  return consumeParseStream(response, callbacks);
+  if (!response.ok) {
+    await throwParseErrorResponse(response);
+  }
+
+  return readParseJsonResponse(response);
 }
 
 interface VoiceStreamCallbacks extends StreamCallbacks {
@@ -309,10 +379,17 @@ export async function invokeParseMeal(
   },
 ): Promise<ParseMealResponse> {
   if (body.text?.trim()) {
-    // Surface the stream error directly. Re-running the whole parse here on a
-    // timeout doubled the wait and masked the real failure with a misleading
-    // "no food items" message.
-    return await invokeParseMealStream({ text: body.text.trim() }, callbacks);
+    const text = body.text.trim();
+    try {
+      return await invokeParseMealStream({ text }, callbacks);
+    } catch (err) {
+      // Only fall back when the stream never started. Re-running the whole
+      // parse after a timeout doubled the wait and masked the real failure
+      // with a misleading "no food items" message.
+      if (!(err instanceof ParseStreamUnavailableError) || callbacks?.signal?.aborted) throw err;
+      console.warn('Parse stream unavailable, retrying without streaming:', err.message);
+      return invokeParseMealJson({ text }, callbacks?.signal);
+    }
   }
 
   const payload: Record<string, unknown> = { action: 'parse' };
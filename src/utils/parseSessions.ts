@@ -0,0 +1,81 @@
+import { supabase } from '../supabaseClient';
+import type { ParsedFoodItem, ParseMealResponse, ParseSession } from '../types/mealParse';
+import { isSameFoodName } from './entryRows';
+
+const PARSE_SESSION_COLUMNS =
+  'id, transcript, notes, parse_path, searches_run, research_used, timings, items, created_at';
+
+/** Store the parse a meal was logged from. Returns null when there is no transcript to keep. */
+export async function createParseSession(
+  userId: string,
+  result: ParseMealResponse,
+  transcript: string | null | undefined,
+): Promise<ParseSession | null> {
+  const text = (result.transcript ?? transcript)?.trim();
+  if (!text) return null;
+
+  const { data, error } = await supabase
+    .from('parse_sessions')
+    .insert({
+      user_id: userId,
+      transcript: text,
+      notes: result.notes ?? null,
+      parse_path: result.parse_path ?? null,
+      searches_run: result.searches_run ?? null,
+      research_used: result.research_used === true,
+      timings: result.timings ?? null,
+      items: result.items,
+    })
+    .select(PARSE_SESSION_COLUMNS)
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+export async function fetchParseSession(userId: string, sessionId: number): Promise<ParseSession | null> {
+  const { data, error } = await supabase
+    .from('parse_sessions')
+    .select(PARSE_SESSION_COLUMNS)
+    .eq('id', sessionId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+}
+
+export interface ParseItemComparison {
+  food_name: string;
+  original: ParsedFoodItem | null;
+  fresh: ParsedFoodItem | null;
+  /** Fresh minus original calories for the whole line (quantity applied) */
+  calorieDelta: number | null;
+}
+
+function lineCalories(item: ParsedFoodItem): number {
+  return item.calories * (item.quantity || 1);
+}
+
+/** Pair original and re-run items by food name; unmatched items appear on one side only. */
+export function compareParseItems(
+  original: ParsedFoodItem[],
+  fresh: ParsedFoodItem[],
+): ParseItemComparison[] {
+  const unmatchedFresh = [...fresh];
+  const rows: ParseItemComparison[] = original.map((item) => {
+    const index = unmatchedFresh.findIndex((candidate) => isSameFoodName(candidate.food_name, item.food_name));
+    const match = index >= 0 ? unmatchedFresh.splice(index, 1)[0] : null;
+    return {
+      food_name: item.food_name,
+      original: item,
+      fresh: match,
+      calorieDelta: match ? Math.round(lineCalories(match) - lineCalories(item)) : null,
+    };
+  });
+
+  for (const item of unmatchedFresh) {
+    rows.push({ food_name: item.food_name, original: null, fresh: item, calorieDelta: null });
+  }
+  return rows;
+}
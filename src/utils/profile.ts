@@ -2,11 +2,21 @@ import { supabase } from '../supabaseClient';
 import type { UserProfile } from '../types/experience';
 import { deriveNameFromEmail } from '../utils/experience';
 import { getBrowserTimezone } from './localDate';
+import {
+  ageFromBirthYear,
+  birthYearFromAge,
+  isActivityLevel,
+  isBiologicalSex,
+  isGoalType,
+  type BodyStats,
+} from './goalCalculator';
+
+const PROFILE_SELECT = 'id, display_name, timezone, locale, onboarding_completed, week_start';
 
 export async function fetchProfile(userId: string): Promise<UserProfile | null> {
   const { data, error } = await supabase
     .from('profiles')
-    .select('id, display_name, timezone, locale, onboarding_completed')
+    .select(PROFILE_SELECT)
     .eq('id', userId)
     .maybeSingle();
 
@@ -55,7 +65,7 @@ export async function ensureProfile(userId: string, email?: string | null): Prom
       timezone,
       onboarding_completed: Boolean(displayName),
     })
-    .select('id, display_name, timezone, locale, onboarding_completed')
+    .select(PROFILE_SELECT)
     .single();
 
   if (error) {
@@ -78,9 +88,60 @@ export async function updateDisplayName(userId: string, displayName: string): Pr
       onboarding_completed: true,
       updated_at: new Date().toISOString(),
     })
-    .select('id, display_name, timezone, locale, onboarding_completed')
+    .select(PROFILE_SELECT)
     .single();
 
   if (error) throw error;
   return data;
 }
+
+export async function updateWeekStart(userId: string, weekStart: number): Promise<void> {
+  const { error } = await supabase
+    .from('profiles')
+    .update({ week_start: weekStart, updated_at: new Date().toISOString() })
+    .eq('id', userId);
+
+  if (error) throw error;
+}
+
+/** The goal calculator inputs saved on the profile, or null until the user has run it. */
+export async function fetchBodyStats(userId: string): Promise<BodyStats | null> {
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('sex, birth_year, height_cm, weight_kg, activity_level, goal_type')
+    .eq('id', userId)
+    .maybeSingle();
+
+  if (error) {
+    console.warn('Body stats fetch failed:', error.message);
+    return null;
+  }
+  if (!data || data.birth_year == null || data.height_cm == null || data.weight_kg == null) return null;
+  if (!isBiologicalSex(data.sex) || !isActivityLevel(data.activity_level) || !isGoalType(data.goal_type)) return null;
+
+  return {
+    sex: data.sex,
+    age: ageFromBirthYear(data.birth_year),
+    height_cm: Number(data.height_cm),
+    weight_kg: Number(data.weight_kg),
+    activity_level: data.activity_level,
+    goal_type: data.goal_type,
+  };
+}
+
+export async function saveBodyStats(userId: string, stats: BodyStats): Promise<void> {
+  const { error } = await supabase
+    .from('profiles')
+    .update({
+      sex: stats.sex,
+      birth_year: birthYearFromAge(stats.age),
+      height_cm: stats.height_cm,
+      weight_kg: stats.weight_kg,
+      activity_level: stats.activity_level,
+      goal_type: stats.goal_type,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', userId);
+
+  if (error) throw error;
+}
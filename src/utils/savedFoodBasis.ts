@@ -0,0 +1,16 @@
+import type { NutritionBasis } from '../../supabase/functions/_shared/mealParsePrompt.ts';
+import {
+  normalizeNutritionBasis,
+  savedFoodServingMacros,
+  type SavedFoodBasis,
+} from '../../supabase/functions/_shared/savedFoodBasis.ts';
+
+export type { NutritionBasis, SavedFoodBasis };
+export { normalizeNutritionBasis, savedFoodServingMacros };
+
+export const NUTRITION_BASIS_OPTIONS: Array<{ value: NutritionBasis; label: string }> = [
+  { value: 'per_serving', label: 'Per serving' },
+  { value: 'per_100g', label: 'Per 100g' },
+  { value: 'per_100ml', label: 'Per 100ml' },
+  { value: 'per_item', label: 'Per item' },
+];
@@ -0,0 +1,49 @@
+import {
+  normalizeSavedFoodRecipe,
+  recipePer100g,
+  recipePerServing,
+  recipeServingGrams,
+  type RecipeMacros,
+  type SavedFoodRecipe,
+} from '../../supabase/functions/_shared/savedFoodRecipe.ts';
+
+export type { RecipeMacros, SavedFoodRecipe };
+export { normalizeSavedFoodRecipe, recipePer100g, recipePerServing, recipeServingGrams };
+
+type FormNumber = number | '';
+
+export interface RecipeIngredientFormLine {
+  food_name: string;
+  grams: FormNumber;
+  calories: FormNumber;
+  protein: FormNumber;
+  carbs: FormNumber;
+  fats: FormNumber;
+}
+
+export interface RecipeFormData {
+  ingredients: RecipeIngredientFormLine[];
+  cooked_yield_g: FormNumber;
+  servings: FormNumber;
+}
+
+export function emptyIngredientLine(): RecipeIngredientFormLine {
+  return { food_name: '', grams: '', calories: '', protein: '', carbs: '', fats: '' };
+}
+
+export function emptyRecipeForm(): RecipeFormData {
+  return { ingredients: [emptyIngredientLine()], cooked_yield_g: '', servings: 1 };
+}
+
+export function recipeToForm(recipe: SavedFoodRecipe): RecipeFormData {
+  return {
+    ingredients: recipe.ingredients.map((line) => ({ ...line })),
+    cooked_yield_g: recipe.cooked_yield_g ?? '',
+    servings: recipe.servings,
+  };
+}
+
+/** Null until at least one ingredient line has a name. */
+export function recipeFromForm(form: RecipeFormData): SavedFoodRecipe | null {
+  return normalizeSavedFoodRecipe(form);
+}
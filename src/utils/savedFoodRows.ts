@@ -0,0 +1,37 @@
+import { normalizeFoodName } from './entryRows';
+
+export interface SavedFoodPayload {
+  food_name: string;
+  calories: number;
+  protein: number;
+  carbs: number;
+  fats: number;
+  /** Weight/volume the macros describe, so a later "150g of ..." can scale them */
+  serving_weight_g?: number | null;
+  serving_volume_ml?: number | null;
+}
+
+/**
+ * The `saved_foods` columns a remembered parse item writes, on insert and on
+ * update alike. Parsed macros are always for the portion eaten, so the basis
+ * is `per_serving` when the item says what it weighs and null otherwise; an
+ * older per-100g basis or serving size never survives to rescale them.
+ * Null when the name is blank.
+ */
+export function rememberedFoodRow(food: SavedFoodPayload) {
+  const food_name = normalizeFoodName(food.food_name);
+  if (!food_name) return null;
+
+  const serving_weight_g = food.serving_weight_g ?? null;
+  const serving_volume_ml = food.serving_volume_ml ?? null;
+  return {
+    food_name,
+    calories: food.calories,
+    protein: food.protein,
+    carbs: food.carbs,
+    fats: food.fats,
+    basis: serving_weight_g || serving_volume_ml ? 'per_serving' as const : null,
+    serving_weight_g,
+    serving_volume_ml,
+  };
+}
@@ -1,68 +1,58 @@
 import { supabase } from '../supabaseClient';
+import { isSameFoodName } from './entryRows';
+import { rememberedFoodRow, type SavedFoodPayload } from './savedFoodRows';
 
-export interface SavedFoodPayload {
-  food_name: string;
-  calories: number;
-  protein: number;
-  carbs: number;
-  fats: number;
-}
-
-export function normalizeFoodName(name: string): string {
-  return name.trim();
-}
-
-export function isSameFoodName(a: string, b: string): boolean {
-  return normalizeFoodName(a).toLowerCase() === normalizeFoodName(b).toLowerCase();
-}
-
-export async function upsertSavedFood(userId: string, food: SavedFoodPayload): Promise<void> {
-  const food_name = normalizeFoodName(food.food_name);
-  if (!food_name) return;
+export type { SavedFoodPayload };
 
-  const payload = {
-    food_name,
-    calories: food.calories,
-    protein: food.protein,
-    carbs: food.carbs,
-    fats: food.fats,
-  };
+/**
+ * Remember a parsed item as a saved food, matching an existing one by name.
+ * A recipe built in the recipe editor is never overwritten by a parse.
+ * Returns false when the food was left alone.
+ */
+export async function upsertSavedFood(userId: string, food: SavedFoodPayload): Promise<boolean> {
+  const row = rememberedFoodRow(food);
+  if (!row) return false;
 
   const { data: existing, error: lookupError } = await supabase
     .from('saved_foods')
-    .select('id, food_name')
+    .select('id, food_name, recipe')
     .eq('user_id', userId);
 
   if (lookupError) throw lookupError;
 
-  const match = (existing ?? []).find((row) => isSameFoodName(row.food_name, food_name));
+  const match = (existing ?? []).find((saved) => isSameFoodName(saved.food_name, row.food_name));
 
   if (match) {
+    if (match.recipe) return false;
     const { error } = await supabase
       .from('saved_foods')
-      .update(payload)
+      .update(row)
       .eq('id', match.id)
       .eq('user_id', userId);
     if (error) throw error;
-    return;
+    return true;
   }
 
   const { error } = await supabase
     .from('saved_foods')
-    .insert({ ...payload, user_id: userId });
+    .insert({ ...row, user_id: userId });
 
   if (error) {
     if (error.code === '23505') {
-      const { error: updateError } = await supabase
+      // Saved elsewhere since the lookup; the same rules apply.
+      const { data: updated, error: updateError } = await supabase
         .from('saved_foods')
-        .update(payload)
+        .update(row)
         .eq('user_id', userId)
-        .eq('food_name', food_name);
+        .eq('food_name', row.food_name)
+        .is('recipe', null)
+        .select('id');
       if (updateError) throw updateError;
-      return;
+      return (updated ?? []).length > 0;
     }
     throw error;
   }
+  return true;
 }
 
 export async function upsertSavedFoods(userId: string, foods: SavedFoodPayload[]): Promise<void> {
@@ -24,6 +24,8 @@ export function scaleItemByReferenceAmount(
   }
 
   const ratio = newAmount / base.value;
+  // Per-100 label values scale exactly, so the source still stands behind the numbers.
+  const exact = (item.basis === 'per_100g' && base.unit === 'g') || (item.basis === 'per_100ml' && base.unit === 'ml');
   return {
     ...item,
     reference_weight_g: base.unit === 'g' ? newAmount : undefined,
@@ -39,8 +41,12 @@ export function scaleItemByReferenceAmount(
       item.food_name,
     ),
     from_saved_food: false,
-    evidence_status: 'ai_estimate',
-    source_note: `${item.source_note ?? 'Estimate'} · adjusted by user`,
+    ...(exact
+      ? {}
+      : {
+        evidence_status: 'ai_estimate' as const,
+        source_note: `${item.source_note ?? 'Estimate'} · adjusted by user`,
+      }),
   };
 }
 
@@ -0,0 +1,49 @@
+import { deleteRecord, getAllRecords, putRecord } from './deviceStore';
+import { invokeParseMealVoice, toParseErrorPayload } from './parseMeal';
+import { isNetworkError } from './outboxQueue';
+import { parseWaitingRecordings, type ParseRunResult, type SavedRecording } from './voiceInboxQueue';
+
+/** Fired on `window` whenever a recording is saved, parsed or cleared. */
+export const VOICE_INBOX_CHANGED_EVENT = 'soha:voice-inbox-changed';
+
+function notifyChanged() {
+  window.dispatchEvent(new Event(VOICE_INBOX_CHANGED_EVENT));
+}
+
+export async function saveRecording(recording: SavedRecording): Promise<void> {
+  await putRecord('recordings', recording);
+  notifyChanged();
+}
+
+export async function listRecordings(userId: string): Promise<SavedRecording[]> {
+  const recordings = await getAllRecords<SavedRecording>('recordings');
+  return recordings.filter((recording) => recording.user_id === userId);
+}
+
+export async function removeRecording(id: string): Promise<void> {
+  await deleteRecord('recordings', id);
+  notifyChanged();
+}
+
+let parsing: Promise<ParseRunResult> | null = null;
+
+/** Send waiting recordings to `parse-meal`. Concurrent calls share one run. */
+export function parseSavedRecordings(userId: string): Promise<ParseRunResult> {
+  if (!parsing) {
+    parsing = (async () => {
+      try {
+        const recordings = await listRecordings(userId);
+        return await parseWaitingRecordings(
+          recordings,
+          (recording) => invokeParseMealVoice({ audio: recording.audio, mimeType: recording.mime_type }),
+          saveRecording,
+          toParseErrorPayload,
+          (error) => isNetworkError(error),
+        );
+      } finally {
+        parsing = null;
+      }
+    })();
+  }
+  return parsing;
+}
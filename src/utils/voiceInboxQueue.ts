@@ -0,0 +1,85 @@
+import type { ParseMealResponse } from '../types/mealParse';
+import type { ParseErrorPayload } from './parseRejection.ts';
+
+/**
+ * A voice note recorded while offline. It waits on the device until it can be
+ * sent to `parse-meal`, then waits again with its result until it's reviewed.
+ */
+export interface SavedRecording {
+  id: string;
+  user_id: string;
+  /** When the mic was stopped. */
+  captured_at: string;
+  /** Log day that was selected when it was recorded, YYYY-MM-DD. */
+  log_date: string;
+  /** When the meal will be logged: the capture clock time on the log day. */
+  eaten_at: string;
+  audio: Blob;
+  mime_type: string;
+  duration_ms: number;
+  status: 'waiting' | 'ready' | 'failed';
+  attempts: number;
+  result?: ParseMealResponse;
+  error?: ParseErrorPayload;
+}
+
+// A recording the server keeps failing on (as opposed to refusing) is shown
+// as failed after this many tries rather than retried forever.
+export const MAX_PARSE_ATTEMPTS = 3;
+
+export interface ParseRunResult {
+  ready: number;
+  failed: number;
+  /** The connection dropped part-way; the rest were not tried. */
+  offline: boolean;
+}
+
+export function waitingRecordings(recordings: SavedRecording[]): SavedRecording[] {
+  return recordings
+    .filter((recording) => recording.status === 'waiting')
+    .sort((a, b) => a.captured_at.localeCompare(b.captured_at));
+}
+
+/** Parsed or failed recordings in the order they were made, for the review inbox. */
+export function inboxRecordings(recordings: SavedRecording[]): SavedRecording[] {
+  return recordings
+    .filter((recording) => recording.status !== 'waiting')
+    .sort((a, b) => a.captured_at.localeCompare(b.captured_at));
+}
+
+/**
+ * Parses waiting recordings oldest first, saving each outcome as it arrives.
+ * A refusal (no speech, no food) is final; any other error counts as an
+ * attempt. Stops at the first network failure.
+ */
+export async function parseWaitingRecordings(
+  recordings: SavedRecording[],
+  parse: (recording: SavedRecording) => Promise<ParseMealResponse>,
+  save: (recording: SavedRecording) => Promise<void>,
+  describe: (error: unknown) => ParseErrorPayload,
+  isOffline: (error: unknown) => boolean,
+): Promise<ParseRunResult> {
+  const run: ParseRunResult = { ready: 0, failed: 0, offline: false };
+
+  for (const recording of waitingRecordings(recordings)) {
+    let next: SavedRecording;
+    try {
+      const result = await parse(recording);
+      next = { ...recording, status: 'ready', result, error: undefined };
+    } catch (error) {
+      if (isOffline(error)) {
+        run.offline = true;
+        break;
+      }
+      const payload = describe(error);
+      const attempts = recording.attempts + 1;
+      const final = payload.kind === 'rejection' || attempts >= MAX_PARSE_ATTEMPTS;
+      next = { ...recording, attempts, status: final ? 'failed' : 'waiting', error: payload };
+    }
+    await save(next);
+    if (next.status === 'ready') run.ready += 1;
+    if (next.status === 'failed') run.failed += 1;
+  }
+
+  return run;
+}
@@ -0,0 +1,94 @@
+import { supabase } from '../supabaseClient';
+import { dateKeyInTimezone, formatLocalDateKey, localDayBoundsForDateKey, parseLocalDateKey } from './localDate';
+import { weightTrend, type WeightReading, type WeightTrendPoint } from './weightTrend';
+
+export interface WeightEntry {
+  id: number;
+  weight_kg: number;
+  recorded_at: string;
+}
+
+const WEIGHT_ENTRY_COLUMNS = 'id, weight_kg, recorded_at';
+
+export const MIN_WEIGHT_KG = 30;
+export const MAX_WEIGHT_KG = 300;
+
+/** Readings recorded between the two instants, oldest first. */
+export async function fetchWeightEntries(userId: string, fromIso: string, toIso?: string): Promise<WeightEntry[]> {
+  let query = supabase
+    .from('weight_entries')
+    .select(WEIGHT_ENTRY_COLUMNS)
+    .eq('user_id', userId)
+    .gte('recorded_at', fromIso);
+  if (toIso) query = query.lte('recorded_at', toIso);
+
+  const { data, error } = await query.order('recorded_at', { ascending: true });
+  if (error) throw error;
+  return (data ?? []).map((row) => ({ ...row, weight_kg: Number(row.weight_kg) }));
+}
+
+export async function fetchLatestWeightEntry(userId: string): Promise<WeightEntry | null> {
+  const { data, error } = await supabase
+    .from('weight_entries')
+    .select(WEIGHT_ENTRY_COLUMNS)
+    .eq('user_id', userId)
+    .order('recorded_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data ? { ...data, weight_kg: Number(data.weight_kg) } : null;
+}
+
+export async function logWeight(userId: string, weightKg: number): Promise<WeightEntry> {
+  if (!Number.isFinite(weightKg) || weightKg < MIN_WEIGHT_KG || weightKg > MAX_WEIGHT_KG) {
+    throw new Error(`Weight must be between ${MIN_WEIGHT_KG} and ${MAX_WEIGHT_KG}kg`);
+  }
+
+  const { data, error } = await supabase
+    .from('weight_entries')
+    .insert({ user_id: userId, weight_kg: Math.round(weightKg * 10) / 10 })
+    .select(WEIGHT_ENTRY_COLUMNS)
+    .single();
+
+  if (error) throw error;
+  return { ...data, weight_kg: Number(data.weight_kg) };
+}
+
+export async function deleteWeightEntry(userId: string, entryId: number): Promise<void> {
+  const { error } = await supabase
+    .from('weight_entries')
+    .delete()
+    .eq('id', entryId)
+    .eq('user_id', userId);
+
+  if (error) throw error;
+}
+
+/** Place each reading on the user's local calendar day for the trend maths. */
+export function toWeightReadings(entries: WeightEntry[], timeZone: string): WeightReading[] {
+  return entries.map((entry) => ({
+    date: dateKeyInTimezone(timeZone, new Date(entry.recorded_at)),
+    weight_kg: entry.weight_kg,
+  }));
+}
+
+/**
+ * Trend points for readings up to `endKey`, starting `warmupDays` before
+ * `startKey` so the smoothed line has settled by the time the range begins.
+ */
+export async function fetchWeightTrend(
+  userId: string,
+  startKey: string,
+  endKey: string,
+  timeZone: string,
+  warmupDays = 28,
+): Promise<WeightTrendPoint[]> {
+  const warmupStart = parseLocalDateKey(startKey);
+  warmupStart.setDate(warmupStart.getDate() - warmupDays);
+  const { dayStart } = localDayBoundsForDateKey(formatLocalDateKey(warmupStart), timeZone);
+  const { dayEnd } = localDayBoundsForDateKey(endKey, timeZone);
+
+  const entries = await fetchWeightEntries(userId, dayStart, dayEnd);
+  return weightTrend(toWeightReadings(entries, timeZone));
+}
@@ -0,0 +1,96 @@
+/** One weigh-in, already placed on the user's local calendar day. */
+export interface WeightReading {
+  date: string;
+  weight_kg: number;
+}
+
+/** A day with a reading: the raw value (mean of that day's readings) and the smoothed trend. */
+export interface WeightTrendPoint {
+  date: string;
+  weight_kg: number;
+  trend_kg: number;
+}
+
+/**
+ * Share of each new day's reading that moves the trend. 0.1 is the classic
+ * "Hacker's Diet" value: water and salt swings mostly cancel out within a week.
+ */
+export const WEIGHT_TREND_ALPHA = 0.1;
+
+const DAY_MS = 86_400_000;
+
+function dayNumber(dateKey: string): number {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  return Date.UTC(year, month - 1, day) / DAY_MS;
+}
+
+function roundKg(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/** Collapse several weigh-ins on one day into their mean, sorted by date. */
+export function dailyWeights(readings: WeightReading[]): WeightReading[] {
+  const byDay = new Map<string, { sum: number; count: number }>();
+  for (const reading of readings) {
+    const weight = Number(reading.weight_kg);
+    if (!Number.isFinite(weight) || weight <= 0) continue;
+    const day = byDay.get(reading.date) ?? { sum: 0, count: 0 };
+    day.sum += weight;
+    day.count += 1;
+    byDay.set(reading.date, day);
+  }
+  return [...byDay.entries()]
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    .map(([date, { sum, count }]) => ({ date, weight_kg: roundKg(sum / count) }));
+}
+
+/**
+ * Exponentially smoothed trend. A gap of n days applies n days' worth of
+ * smoothing at once, so a week off the scales doesn't make one reading count
+ * like a single day's.
+ */
+export function weightTrend(readings: WeightReading[], alpha = WEIGHT_TREND_ALPHA): WeightTrendPoint[] {
+  const days = dailyWeights(readings);
+  const points: WeightTrendPoint[] = [];
+  let trend: number | null = null;
+  let previousDay = 0;
+
+  for (const reading of days) {
+    const day = dayNumber(reading.date);
+    if (trend === null) {
+      trend = reading.weight_kg;
+    } else {
+      const gap = Math.max(1, day - previousDay);
+      const weight = 1 - Math.pow(1 - alpha, gap);
+      trend += weight * (reading.weight_kg - trend);
+    }
+    previousDay = day;
+    points.push({ date: reading.date, weight_kg: reading.weight_kg, trend_kg: roundKg(trend) });
+  }
+  return points;
+}
+
+/**
+ * Trend change per week between the first and last points inside the range,
+ * in kg. Null when the range has fewer than two readings or they span under
+ * three days — too short to call a rate.
+ */
+export function weeklyWeightRate(points: WeightTrendPoint[], startKey: string, endKey: string): number | null {
+  const inRange = points.filter((point) => point.date >= startKey && point.date <= endKey);
+  if (inRange.length < 2) return null;
+
+  const first = inRange[0];
+  const last = inRange[inRange.length - 1];
+  const span = dayNumber(last.date) - dayNumber(first.date);
+  if (span < 3) return null;
+  return roundKg(((last.trend_kg - first.trend_kg) / span) * 7);
+}
+
+export type WeightDirection = 'down' | 'steady' | 'up';
+
+/** Under 0.1 kg a week reads as holding steady. */
+export function weightDirection(ratePerWeek: number): WeightDirection {
+  if (ratePerWeek <= -0.1) return 'down';
+  if (ratePerWeek >= 0.1) return 'up';
+  return 'steady';
+}
@@ -1,15 +1,29 @@
+import type { InterpretedMealItem } from './mealParsePrompt.ts';
 import type { ParsedFoodItem } from './normalizeItems.ts';
+import { computeNutrition } from './nutritionCompute.ts';
+import { savedFoodFact, savedFoodServingMacros, type SavedFoodBasis } from './savedFoodBasis.ts';
+import { scaleRecipeToGrams, type SavedFoodRecipe } from './savedFoodRecipe.ts';
 
-export interface SavedFoodMacros {
+export interface SavedFoodMacros extends SavedFoodBasis {
   food_name: string;
   calories: number;
   protein: number;
   carbs: number;
   fats: number;
+  recipe?: SavedFoodRecipe | null;
+}
+
+/** A saved food resolved for one mention; macros are for one quantity unit. */
+export interface SavedFoodMatch extends SavedFoodMacros {
+  /** Set when the food was scaled to a stated weight; macros are for this many grams */
+  scaled_to_g?: number;
+  /** Set when the food was scaled to a stated volume */
+  scaled_to_ml?: number;
 }
 
 function normalizeName(name: string): string {
-  return name.toLowerCase().trim();
+  // "my chilli" names the saved "chilli".
+  return name.toLowerCase().trim().replace(/^my\s+/, '');
 }
 
 /** Conservative singular form for egg/toast-style plurals only — not fuzzy matching. */
@@ -39,46 +53,145 @@ function lookupSavedFood(
 }
 
 const EXPLICIT_WEIGHT = /\b\d+(?:\.\d+)?\s*(?:g|grams?|ml|millilitres?|milliliters?)\b/i;
+const WEIGHT_UNIT = '(?:g|grams?|ml|millilitres?|milliliters?)';
 
-/** True when the meal text states an explicit weight/volume near this food's name. */
-function hasExplicitWeightForItem(mealText: string, foodName: string): boolean {
-  if (!mealText || !EXPLICIT_WEIGHT.test(mealText)) return false;
+interface StatedWeight {
+  amount: number;
+  unit: 'g' | 'ml';
+}
 
-  const tokens = foodName
+function foodNameTokens(foodName: string): string[] {
+  return foodName
     .toLowerCase()
     .split(/\s+/)
     .filter((t) => t.length >= 3)
     .map((t) => t.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+}
+
+/** True when the meal text states an explicit weight/volume near this food's name. */
+function hasExplicitWeightForItem(mealText: string, foodName: string): boolean {
+  if (!mealText || !EXPLICIT_WEIGHT.test(mealText)) return false;
+
+  const tokens = foodNameTokens(foodName);
 
   // Weight present but food name has no usable tokens — skip the override to be safe.
   if (!tokens.length) return true;
 
   return tokens.some((token) => {
     const weightBefore = new RegExp(
-      `\\d+(?:\\.\\d+)?\\s*(?:g|grams?|ml|millilitres?|milliliters?)\\b[^,.;]{0,40}\\b${token}`,
+      `\\d+(?:\\.\\d+)?\\s*${WEIGHT_UNIT}\\b[^,.;]{0,40}\\b${token}`,
       'i',
     );
     const weightAfter = new RegExp(
-      `\\b${token}\\b[^,.;]{0,40}\\d+(?:\\.\\d+)?\\s*(?:g|grams?|ml|millilitres?|milliliters?)\\b`,
+      `\\b${token}\\b[^,.;]{0,40}\\d+(?:\\.\\d+)?\\s*${WEIGHT_UNIT}\\b`,
       'i',
     );
     return weightBefore.test(mealText) || weightAfter.test(mealText);
   });
 }
 
+/** The weight/volume stated closest to this food's name, e.g. "200g of my chilli". */
+function statedWeightForItem(mealText: string, foodName: string): StatedWeight | null {
+  for (const token of foodNameTokens(foodName)) {
+    const weightBefore = new RegExp(
+      `(\\d+(?:\\.\\d+)?)\\s*(${WEIGHT_UNIT})\\b[^,.;\\d]{0,40}\\b${token}`,
+      'i',
+    );
+    const weightAfter = new RegExp(
+      `\\b${token}\\b[^,.;\\d]{0,40}(\\d+(?:\\.\\d+)?)\\s*(${WEIGHT_UNIT})\\b`,
+      'i',
+    );
+    const found = mealText.match(weightBefore) ?? mealText.match(weightAfter);
+    if (found) {
+      return { amount: Number(found[1]), unit: found[2].toLowerCase().startsWith('m') ? 'ml' : 'g' };
+    }
+  }
+  return null;
+}
+
+function weighedItem(foodName: string, stated: StatedWeight): InterpretedMealItem {
+  return {
+    item_id: 'saved_food',
+    food_name: foodName,
+    preparation: '',
+    quantity: 1,
+    unit: 'serving',
+    portion_assumption: '',
+    reference_weight_g: stated.unit === 'g' ? stated.amount : null,
+    reference_volume_ml: stated.unit === 'ml' ? stated.amount : null,
+    search_query: '',
+  };
+}
+
+/** Scale a saved food to the stated weight through its recipe or nutrition basis. */
+function scaleToStatedWeight(saved: SavedFoodMacros, foodName: string, stated: StatedWeight): SavedFoodMatch | undefined {
+  const scaledTo = stated.unit === 'g' ? { scaled_to_g: stated.amount } : { scaled_to_ml: stated.amount };
+
+  if (saved.recipe) {
+    const scaled = stated.unit === 'g' ? scaleRecipeToGrams(saved.recipe, stated.amount) : null;
+    return scaled ? { ...saved, ...scaled, ...scaledTo } : undefined;
+  }
+
+  const fact = savedFoodFact('saved_food', saved);
+  const computed = fact ? computeNutrition(weighedItem(foodName, stated), fact) : null;
+  if (!computed) return undefined;
+  return {
+    ...saved,
+    calories: computed.calories,
+    protein: computed.protein ?? 0,
+    carbs: computed.carbs ?? 0,
+    fats: computed.fats ?? 0,
+    ...scaledTo,
+  };
+}
+
+/**
+ * Resolve a saved food against the meal text. A stated weight means the user
+ * is not eating "one serving": recipes and foods with a nutrition basis scale
+ * to it; plain serving-only foods are skipped so research can size the portion.
+ */
+function matchWithWeight(
+  saved: SavedFoodMacros,
+  foodName: string,
+  mealText: string,
+): SavedFoodMatch | undefined {
+  if (!hasExplicitWeightForItem(mealText, foodName)) {
+    return { ...saved, ...savedFoodServingMacros(saved) };
+  }
+
+  const stated = statedWeightForItem(mealText, foodName);
+  return stated ? scaleToStatedWeight(saved, foodName, stated) : undefined;
+}
+
+/** Portion and source wording for a saved food the parser scaled to the user's weight. */
+export function describeScaledSavedFood(match: SavedFoodMatch): {
+  portion_assumption: string;
+  source_note: string;
+} | null {
+  const amount = match.scaled_to_g != null
+    ? `${match.scaled_to_g}g`
+    : match.scaled_to_ml != null ? `${match.scaled_to_ml}ml` : null;
+  if (!amount) return null;
+  const label = match.recipe ? 'your recipe' : 'your saved food';
+  return {
+    portion_assumption: `${amount} of ${label}`,
+    source_note: match.recipe ? 'Your saved recipe' : 'Your saved food',
+  };
+}
+
 export function findSavedFoodMatch(
   foodName: string,
   savedFoods: SavedFoodMacros[],
   mealText = '',
-): SavedFoodMacros | undefined {
-  if (hasExplicitWeightForItem(mealText, foodName)) return undefined;
+): SavedFoodMatch | undefined {
   const savedByName = new Map<string, SavedFoodMacros>();
   for (const food of savedFoods) {
     const normalized = normalizeName(food.food_name);
     savedByName.set(normalized, food);
     savedByName.set(singularize(normalized), food);
   }
-  return lookupSavedFood(foodName, savedByName);
+  const saved = lookupSavedFood(foodName, savedByName);
+  return saved ? matchWithWeight(saved, foodName, mealText) : undefined;
 }
 
 /** Override AI macros when the parsed name matches a saved food (exact or singular/plural). */
@@ -97,9 +210,31 @@ export function applySavedFoods(
   }
 
   return items.map((item) => {
-    const match = lookupSavedFood(item.food_name, savedByName);
+    const saved = lookupSavedFood(item.food_name, savedByName);
+    const match = saved ? matchWithWeight(saved, item.food_name, mealText) : undefined;
     if (!match) return item;
-    if (hasExplicitWeightForItem(mealText, item.food_name)) return item;
+
+    const scaled = describeScaledSavedFood(match);
+    if (scaled) {
+      return {
+        ...item,
+        food_name: match.food_name,
+        calories: match.calories,
+        protein: match.protein,
+        carbs: match.carbs,
+        fats: match.fats,
+        quantity: 1,
+        confidence: 'high',
+        from_saved_food: true,
+        evidence_status: 'user_saved',
+        portion_assumption: scaled.portion_assumption,
+        source_note: scaled.source_note,
+        source_title: scaled.source_note,
+        source_url: undefined,
+        reference_weight_g: match.scaled_to_g,
+        reference_volume_ml: match.scaled_to_ml,
+      };
+    }
 
     return {
       ...item,
@@ -0,0 +1,202 @@
+import type { LlmProvider } from './llmProviders.ts';
+import { PARSE_TEMPERATURE } from './mealParsePrompt.ts';
+
+export interface DailyInsightEntry {
+  food_name: string;
+  calories: number;
+  protein: number | null;
+  carbs: number | null;
+  fats: number | null;
+  quantity: number | null;
+}
+
+export interface DailyInsightGoals {
+  daily_calories_goal: number;
+  daily_protein_goal: number;
+  daily_carbs_goal: number;
+  daily_fats_goal: number;
+}
+
+/** One row of `get_weekly_summary`. */
+export interface WeeklySummaryRow {
+  total_calories: number;
+  total_protein: number;
+  entry_count: number;
+  days_logged: number;
+}
+
+interface MacroTotals {
+  calories: number;
+  protein: number;
+  carbs: number;
+  fats: number;
+}
+
+/** Everything the model sees — numbers only, already rounded. */
+export interface DailyInsightFacts {
+  date: string;
+  entry_count: number;
+  totals: MacroTotals;
+  goals: MacroTotals | null;
+  calories_remaining: number | null;
+  protein_remaining: number | null;
+  biggest_items: string[];
+  week: { days_logged: number; avg_calories: number; avg_protein: number } | null;
+}
+
+/** Model call seam: production goes to an LlmProvider, tests use `stubInsightCompletion`. */
+export type InsightCompletion = (system: string, user: string) => Promise<{ insight: string }>;
+
+const INSIGHT_MAX_TOKENS = 300;
+const INSIGHT_MAX_CHARS = 220;
+
+export const DAILY_INSIGHT_SCHEMA = {
+  type: 'object',
+  properties: {
+    insight: { type: 'string' },
+  },
+  required: ['insight'],
+  additionalProperties: false,
+} as const;
+
+export const DAILY_INSIGHT_SYSTEM_PROMPT = `You write one short, specific observation about a person's food log for one day.
+
+The data is JSON computed from their log. Use only those numbers; never invent foods or values.
+
+- One or two sentences, under 200 characters, plain UK English.
+- Lead with the most useful fact: protein still to go, calories left, or how today compares with their week.
+- Calm and practical. No praise, guilt, emoji, exclamation marks, or medical advice.
+- If there are no goals, describe the day against their weekly average instead.
+
+Return only the schema.`;
+
+function round(value: number): number {
+  return Math.round(value);
+}
+
+function entryTotals(entries: DailyInsightEntry[]): MacroTotals {
+  return entries.reduce<MacroTotals>(
+    (sum, entry) => {
+      const quantity = entry.quantity || 1;
+      return {
+        calories: sum.calories + (Number(entry.calories) || 0) * quantity,
+        protein: sum.protein + (Number(entry.protein) || 0) * quantity,
+        carbs: sum.carbs + (Number(entry.carbs) || 0) * quantity,
+        fats: sum.fats + (Number(entry.fats) || 0) * quantity,
+      };
+    },
+    { calories: 0, protein: 0, carbs: 0, fats: 0 },
+  );
+}
+
+export function buildDailyInsightFacts(
+  date: string,
+  entries: DailyInsightEntry[],
+  goals: DailyInsightGoals | null,
+  weekly: WeeklySummaryRow | null,
+): DailyInsightFacts {
+  const totals = entryTotals(entries);
+  const biggestItems = [...entries]
+    .sort((a, b) => b.calories * (b.quantity || 1) - a.calories * (a.quantity || 1))
+    .slice(0, 3)
+    .map((entry) => entry.food_name);
+  const daysLogged = Number(weekly?.days_logged) || 0;
+
+  return {
+    date,
+    entry_count: entries.length,
+    totals: {
+      calories: round(totals.calories),
+      protein: round(totals.protein),
+      carbs: round(totals.carbs),
+      fats: round(totals.fats),
+    },
+    goals: goals
+      ? {
+        calories: round(goals.daily_calories_goal),
+        protein: round(goals.daily_protein_goal),
+        carbs: round(goals.daily_carbs_goal),
+        fats: round(goals.daily_fats_goal),
+      }
+      : null,
+    calories_remaining: goals ? round(goals.daily_calories_goal - totals.calories) : null,
+    protein_remaining: goals ? round(goals.daily_protein_goal - totals.protein) : null,
+    biggest_items: biggestItems,
+    week: daysLogged > 0
+      ? {
+        days_logged: daysLogged,
+        avg_calories: round(Number(weekly?.total_calories) / daysLogged),
+        avg_protein: round(Number(weekly?.total_protein) / daysLogged),
+      }
+      : null,
+  };
+}
+
+/**
+ * Cache key for an insight: a hash of the exact facts the model would see, so
+ * an edited entry or a changed goal regenerates the line even when the entry
+ * count is unchanged.
+ */
+export async function dailyInsightFactsKey(facts: DailyInsightFacts): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(JSON.stringify(facts)));
+  return [...new Uint8Array(digest)].map((byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/** Rule-based insight from the same facts — the test stub and the fallback when the model fails. */
+export function deterministicInsight(facts: DailyInsightFacts): string {
+  if (facts.protein_remaining !== null && facts.protein_remaining > 0) {
+    const calories = facts.calories_remaining !== null && facts.calories_remaining > 0
+      ? ` with ${facts.calories_remaining} cal left`
+      : '';
+    return `${facts.protein_remaining}g protein still to go${calories}.`;
+  }
+  if (facts.calories_remaining !== null) {
+    return facts.calories_remaining >= 0
+      ? `Protein target met, ${facts.calories_remaining} cal left for the day.`
+      : `Protein target met, ${Math.abs(facts.calories_remaining)} cal over today.`;
+  }
+  if (facts.week) {
+    const diff = facts.totals.calories - facts.week.avg_calories;
+    return `${facts.totals.calories} cal so far, ${Math.abs(diff)} ${diff >= 0 ? 'above' : 'below'} your daily average this week.`;
+  }
+  return `${facts.totals.calories} cal and ${facts.totals.protein}g protein logged so far.`;
+}
+
+/** Deterministic completion for tests: reads the facts back out of the user message. */
+export const stubInsightCompletion: InsightCompletion = async (_system, user) => ({
+  insight: deterministicInsight(JSON.parse(user) as DailyInsightFacts),
+});
+
+export function llmInsightCompletion(llm: LlmProvider): InsightCompletion {
+  return (system, user) =>
+    llm.completeJson<{ insight: string }>({
+      system,
+      user,
+      schemaName: 'daily_insight',
+      schema: DAILY_INSIGHT_SCHEMA as unknown as Record<string, unknown>,
+      maxTokens: INSIGHT_MAX_TOKENS,
+      temperature: PARSE_TEMPERATURE,
+    });
+}
+
+function tidyInsight(text: string): string {
+  const single = text.replace(/\s+/g, ' ').trim();
+  if (single.length <= INSIGHT_MAX_CHARS) return single;
+  const cut = single.slice(0, INSIGHT_MAX_CHARS);
+  const sentenceEnd = cut.lastIndexOf('. ');
+  return sentenceEnd > 40 ? cut.slice(0, sentenceEnd + 1) : `${cut.trimEnd()}…`;
+}
+
+export async function generateDailyInsight(
+  facts: DailyInsightFacts,
+  complete: InsightCompletion,
+): Promise<string> {
+  try {
+    const { insight } = await complete(DAILY_INSIGHT_SYSTEM_PROMPT, JSON.stringify(facts));
+    const tidy = tidyInsight(typeof insight === 'string' ? insight : '');
+    if (tidy) return tidy;
+  } catch (error) {
+    console.warn('[insight] model call failed, using rule-based insight', error);
+  }
+  return deterministicInsight(facts);
+}
@@ -0,0 +1,168 @@
+export interface GoalTargets {
+  daily_calories_goal: number;
+  daily_protein_goal: number;
+  daily_carbs_goal: number;
+  daily_fats_goal: number;
+}
+
+/** One `goal_schedules` row: the targets for every occurrence of a weekday. */
+export interface WeekdayGoalRow extends GoalTargets {
+  weekday: number;
+}
+
+/** One `goal_overrides` row: the targets for a single local date. */
+export interface GoalOverrideRow extends GoalTargets {
+  goal_date: string;
+}
+
+/** One `user_goal_history` row: the default targets from `valid_from` on. */
+export interface GoalHistoryRow extends GoalTargets {
+  valid_from: string;
+}
+
+/** One `goal_schedule_history` row; null targets mean the weekday's schedule was removed. */
+export interface WeekdayGoalHistoryRow {
+  weekday: number;
+  valid_from: string;
+  daily_calories_goal: number | null;
+  daily_protein_goal: number | null;
+  daily_carbs_goal: number | null;
+  daily_fats_goal: number | null;
+}
+
+export interface GoalHistory {
+  base: GoalHistoryRow[];
+  weekdays: WeekdayGoalHistoryRow[];
+}
+
+/**
+ * Everything that decides a day's target. `base` is the user_goals row; a
+ * date override beats its weekday, and a weekday beats the base. With
+ * `history`, the base and weekday rows are the ones valid on the date being
+ * resolved rather than today's, so past days keep the targets they had.
+ */
+export interface GoalPlan {
+  base: GoalTargets | null;
+  weekdays: WeekdayGoalRow[];
+  overrides: GoalOverrideRow[];
+  history?: GoalHistory;
+}
+
+export type GoalSource = 'override' | 'weekday' | 'default';
+
+export interface ResolvedGoals {
+  goals: GoalTargets;
+  source: GoalSource;
+}
+
+export const GOAL_SELECT = 'daily_calories_goal, daily_protein_goal, daily_carbs_goal, daily_fats_goal';
+
+/** Indexed by weekday number, 0 = Sunday — the same numbering as `goal_schedules.weekday`. */
+export const WEEKDAY_LABELS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+export const EMPTY_GOAL_PLAN: GoalPlan = { base: null, weekdays: [], overrides: [] };
+
+function toTargets(row: GoalTargets): GoalTargets {
+  return {
+    daily_calories_goal: Number(row.daily_calories_goal),
+    daily_protein_goal: Number(row.daily_protein_goal),
+    daily_carbs_goal: Number(row.daily_carbs_goal),
+    daily_fats_goal: Number(row.daily_fats_goal),
+  };
+}
+
+/** 0 = Sunday … 6 = Saturday for a YYYY-MM-DD key, independent of the runtime timezone. */
+export function weekdayForDateKey(dateKey: string): number {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+}
+
+function latestValidOn<T extends { valid_from: string }>(rows: T[], dateKey: string): T | null {
+  return rows.reduce<T | null>(
+    (latest, row) => (row.valid_from <= dateKey && (!latest || row.valid_from > latest.valid_from) ? row : latest),
+    null,
+  );
+}
+
+/** The default and the weekday's schedule as they stood on `dateKey`. */
+function standingGoals(plan: GoalPlan, dateKey: string): { base: GoalTargets | null; scheduled: GoalTargets | null } {
+  const weekday = weekdayForDateKey(dateKey);
+  if (!plan.history) {
+    return {
+      base: plan.base,
+      scheduled: plan.weekdays.find((row) => Number(row.weekday) === weekday) ?? null,
+    };
+  }
+
+  const scheduled = latestValidOn(
+    plan.history.weekdays.filter((row) => Number(row.weekday) === weekday),
+    dateKey,
+  );
+  return {
+    base: latestValidOn(plan.history.base, dateKey),
+    scheduled: scheduled && scheduled.daily_calories_goal !== null ? scheduled as GoalTargets : null,
+  };
+}
+
+export function resolveGoalsWithSource(plan: GoalPlan, dateKey: string): ResolvedGoals | null {
+  const override = plan.overrides.find((row) => row.goal_date === dateKey);
+  if (override) return { goals: toTargets(override), source: 'override' };
+
+  const { base, scheduled } = standingGoals(plan, dateKey);
+  if (scheduled) return { goals: toTargets(scheduled), source: 'weekday' };
+
+  return base ? { goals: toTargets(base), source: 'default' } : null;
+}
+
+export function resolveGoalsForDate(plan: GoalPlan, dateKey: string): GoalTargets | null {
+  return resolveGoalsWithSource(plan, dateKey)?.goals ?? null;
+}
+
+/** Every YYYY-MM-DD key from start to end inclusive. */
+export function dateKeysInRange(startKey: string, endKey: string): string[] {
+  const [sy, sm, sd] = startKey.split('-').map(Number);
+  const [ey, em, ed] = endKey.split('-').map(Number);
+  const end = Date.UTC(ey, em - 1, ed);
+  const keys: string[] = [];
+  for (let t = Date.UTC(sy, sm - 1, sd); t <= end; t += 86_400_000) {
+    keys.push(new Date(t).toISOString().slice(0, 10));
+  }
+  return keys;
+}
+
+/**
+ * Mean daily target across the given days, each resolved on its own. Days with
+ * no target at all are left out; null when none of them has one.
+ */
+export function averageGoalsForDates(plan: GoalPlan, dateKeys: string[]): GoalTargets | null {
+  const resolved = dateKeys
+    .map((key) => resolveGoalsForDate(plan, key))
+    .filter((goals): goals is GoalTargets => goals !== null);
+  if (!resolved.length) return null;
+
+  const sum = resolved.reduce<GoalTargets>(
+    (acc, goals) => ({
+      daily_calories_goal: acc.daily_calories_goal + goals.daily_calories_goal,
+      daily_protein_goal: acc.daily_protein_goal + goals.daily_protein_goal,
+      daily_carbs_goal: acc.daily_carbs_goal + goals.daily_carbs_goal,
+      daily_fats_goal: acc.daily_fats_goal + goals.daily_fats_goal,
+    }),
+    { daily_calories_goal: 0, daily_protein_goal: 0, daily_carbs_goal: 0, daily_fats_goal: 0 },
+  );
+  return {
+    daily_calories_goal: Math.round(sum.daily_calories_goal / resolved.length),
+    daily_protein_goal: Math.round(sum.daily_protein_goal / resolved.length),
+    daily_carbs_goal: Math.round(sum.daily_carbs_goal / resolved.length),
+    daily_fats_goal: Math.round(sum.daily_fats_goal / resolved.length),
+  };
+}
+
+/** The same bounds GoalsSettingsForm has always enforced, shared by every goal row. */
+export function goalTargetsError(goals: GoalTargets): string | null {
+  const { daily_calories_goal: calories, daily_protein_goal: protein, daily_carbs_goal: carbs, daily_fats_goal: fats } = goals;
+  if (!Number.isFinite(calories) || calories < 500 || calories > 10000) return 'Calories must be between 500 and 10,000';
+  if (!Number.isFinite(protein) || protein < 0 || protein > 500) return 'Protein must be between 0 and 500g';
+  if (!Number.isFinite(carbs) || carbs < 0 || carbs > 1000) return 'Carbs must be between 0 and 1,000g';
+  if (!Number.isFinite(fats) || fats < 0 || fats > 300) return 'Fats must be between 0 and 300g';
+  return null;
+}
@@ -0,0 +1,285 @@
+/**
+ * Structured-output model calls behind one interface, so each parse stage can
+ * run on NanoGPT, a local OpenAI-compatible server (llama.cpp, Ollama) or a
+ * scripted mock without the pipeline knowing which.
+ */
+
+export type ReasoningEffort = 'low' | 'medium' | 'high';
+
+export interface LlmJsonRequest {
+  system: string;
+  user: string;
+  schemaName: string;
+  schema: Record<string, unknown>;
+  maxTokens: number;
+  /** A hint; providers that don't understand it drop it. */
+  reasoningEffort?: ReasoningEffort;
+  temperature?: number;
+}
+
+export interface LlmProvider {
+  /** `<kind>:<model>`; two stages with the same name are the same model. */
+  name: string;
+  model: string;
+  completeJson<T>(request: LlmJsonRequest): Promise<T>;
+}
+
+/** A non-OK HTTP response. 4xx other than 429 is final; the rest are retried. */
+export class LlmRequestError extends Error {
+  readonly status: number;
+
+  constructor(label: string, status: number, detail: string) {
+    super(`${label} error (${status}): ${detail}`);
+    this.name = 'LlmRequestError';
+    this.status = status;
+  }
+}
+
+export interface OpenAiCompatibleOptions {
+  /** Prefix for errors and the provider name, e.g. `NanoGPT`. */
+  label?: string;
+  kind?: string;
+  baseUrl: string;
+  /** Omitted for local servers that take no key. */
+  apiKey?: string;
+  model: string;
+  timeoutMs?: number;
+  maxAttempts?: number;
+  sendReasoningEffort?: boolean;
+}
+
+const DEFAULT_TIMEOUT_MS = 45_000;
+const DEFAULT_MAX_ATTEMPTS = 3;
+const NANOGPT_BASE_URL = 'https://nano-gpt.com/api/v1';
+
+function retryableStatus(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+/** Any `/chat/completions` endpoint that honours `response_format: json_schema`. */
+export function createOpenAiCompatibleProvider(options: OpenAiCompatibleOptions): LlmProvider {
+  const label = options.label ?? 'LLM';
+  const baseUrl = options.baseUrl.replace(/\/$/, '');
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const maxAttempts = Math.max(1, options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS);
+
+  return {
+    name: `${options.kind ?? 'openai-compatible'}:${options.model}`,
+    model: options.model,
+    completeJson: async <T>(request: LlmJsonRequest): Promise<T> => {
+      let lastError: unknown;
+      let includeReasoningEffort = options.sendReasoningEffort !== false;
+
+      for (let attempt = 0; attempt < maxAttempts; attempt++) {
+        try {
+          const body: Record<string, unknown> = {
+            model: options.model,
+            max_tokens: request.maxTokens,
+            messages: [
+              { role: 'system', content: request.system },
+              { role: 'user', content: request.user },
+            ],
+            response_format: {
+              type: 'json_schema',
+              json_schema: { name: request.schemaName, strict: true, schema: request.schema },
+            },
+          };
+          if (request.temperature !== undefined) body.temperature = request.temperature;
+          if (includeReasoningEffort) body.reasoning_effort = request.reasoningEffort ?? 'low';
+
+          const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+          if (options.apiKey) headers.Authorization = `Bearer ${options.apiKey}`;
+
+          const response = await fetch(`${baseUrl}/chat/completions`, {
+            method: 'POST',
+            headers,
+            body: JSON.stringify(body),
+            signal: AbortSignal.timeout(timeoutMs),
+          });
+
+          if (!response.ok) {
+            const detail = await response.text();
+            if (
+              response.status === 400 &&
+              includeReasoningEffort &&
+              /reasoning[_ -]?effort|unknown parameter|unsupported/i.test(detail)
+            ) {
+              includeReasoningEffort = false;
+              lastError = new Error(`${label} compatibility retry: ${detail.slice(0, 200)}`);
+              continue;
+            }
+            const error = new LlmRequestError(label, response.status, detail);
+            if (retryableStatus(response.status) && attempt < maxAttempts - 1) {
+              lastError = error;
+              continue;
+            }
+            throw error;
+          }
+
+          const payload = await response.json();
+          const choice = payload?.choices?.[0];
+          if (choice?.finish_reason === 'length') {
+            throw new Error(`${label} ${request.schemaName} response was truncated`);
+          }
+          const raw = choice?.message?.content;
+          if (!raw) throw new Error(`${label} ${request.schemaName} returned an empty response`);
+          return JSON.parse(raw) as T;
+        } catch (error) {
+          lastError = error;
+          if (error instanceof LlmRequestError && !retryableStatus(error.status)) throw error;
+        }
+      }
+
+      throw lastError instanceof Error ? lastError : new Error(String(lastError));
+    },
+  };
+}
+
+export function createNanoGptProvider(options: {
+  apiKey: string;
+  model: string;
+  baseUrl?: string;
+}): LlmProvider {
+  return createOpenAiCompatibleProvider({
+    label: 'NanoGPT',
+    kind: 'nanogpt',
+    baseUrl: options.baseUrl ?? NANOGPT_BASE_URL,
+    apiKey: options.apiKey,
+    model: options.model,
+  });
+}
+
+/** A reply, an error to throw, or a function of the request. */
+export type ScriptedLlmReply = unknown | Error | ((request: LlmJsonRequest) => unknown);
+
+export interface ScriptedLlmProvider extends LlmProvider {
+  calls: LlmJsonRequest[];
+}
+
+/**
+ * Replies by schema name, for tests and offline runs. A list is used in order
+ * and its last entry repeats; a schema with no script throws.
+ */
+export function createScriptedLlmProvider(
+  script: Record<string, ScriptedLlmReply | ScriptedLlmReply[]>,
+  model = 'mock',
+): ScriptedLlmProvider {
+  const calls: LlmJsonRequest[] = [];
+  const used = new Map<string, number>();
+
+  return {
+    name: `scripted:${model}`,
+    model,
+    calls,
+    completeJson: async <T>(request: LlmJsonRequest): Promise<T> => {
+      calls.push(request);
+      if (!(request.schemaName in script)) {
+        throw new Error(`No scripted reply for ${request.schemaName}`);
+      }
+      const entry = script[request.schemaName];
+      let reply: ScriptedLlmReply = entry;
+      if (Array.isArray(entry)) {
+        const index = used.get(request.schemaName) ?? 0;
+        used.set(request.schemaName, index + 1);
+        reply = entry[Math.min(index, entry.length - 1)];
+      }
+      if (reply instanceof Error) throw reply;
+      const value = typeof reply === 'function' ? (reply as (r: LlmJsonRequest) => unknown)(request) : reply;
+      // A copy, so the pipeline can't mutate the script between calls.
+      return JSON.parse(JSON.stringify(value)) as T;
+    },
+  };
+}
+
+/** The parse pipeline's model calls. */
+export interface LlmStages {
+  interpretation: LlmProvider;
+  selfCheck: LlmProvider;
+  extraction: LlmProvider;
+  /** Retries interpretation when its provider fails; null when it would be the same model. */
+  fallback: LlmProvider | null;
+  relatedFood: LlmProvider;
+}
+
+export type EnvGetter = (name: string) => string | undefined;
+
+const DEFAULT_PARSE_MODEL = 'google/gemini-3.6-flash';
+const DEFAULT_INTERPRETATION_MODEL = 'openai/gpt-5.6-terra';
+const DEFAULT_EXTRACTION_MODEL = 'google/gemini-3.5-flash-lite';
+
+function positiveNumber(raw: string | undefined): number | undefined {
+  const value = Number(raw);
+  return raw && Number.isFinite(value) && value > 0 ? value : undefined;
+}
+
+/**
+ * `<provider>:<model>`, e.g. `nanogpt:google/gemini-3.6-flash` or
+ * `openai-compatible:qwen2.5:14b-instruct`. Only the first colon separates, so
+ * Ollama tags survive.
+ */
+export function createLlmProvider(spec: string, env: EnvGetter): LlmProvider {
+  const separator = spec.indexOf(':');
+  const kind = (separator === -1 ? spec : spec.slice(0, separator)).trim();
+  const model = separator === -1 ? '' : spec.slice(separator + 1).trim();
+  if (!model) throw new Error(`LLM spec "${spec}" needs a model, e.g. ${kind || 'nanogpt'}:<model>`);
+
+  if (kind === 'nanogpt') {
+    const apiKey = env('NANOGPT_API_KEY');
+    if (!apiKey) throw new Error('NANOGPT_API_KEY is not configured');
+    return createNanoGptProvider({ apiKey, model, baseUrl: env('NANOGPT_BASE_URL') });
+  }
+  if (kind === 'openai-compatible') {
+    const baseUrl = env('LLM_BASE_URL');
+    if (!baseUrl) throw new Error('LLM_BASE_URL is not configured');
+    return createOpenAiCompatibleProvider({
+      label: 'LLM',
+      baseUrl,
+      apiKey: env('LLM_API_KEY') || undefined,
+      model,
+      timeoutMs: positiveNumber(env('LLM_TIMEOUT_MS')),
+      sendReasoningEffort: env('LLM_REASONING_EFFORT') !== '0',
+    });
+  }
+  throw new Error(`Unknown LLM provider "${kind}"; use nanogpt or openai-compatible`);
+}
+
+/**
+ * Per-stage providers from env. `LLM_<STAGE>` takes a spec and wins; without
+ * one, each stage keeps its NanoGPT model variable. Self-check follows
+ * interpretation and related-food follows extraction unless set.
+ */
+export function resolveLlmStages(env: EnvGetter): LlmStages {
+  const providers = new Map<string, LlmProvider>();
+  const provider = (spec: string) => {
+    const existing = providers.get(spec);
+    if (existing) return existing;
+    const created = createLlmProvider(spec, env);
+    providers.set(spec, created);
+    return created;
+  };
+  const parseModel = env('NANOGPT_PARSE_MODEL') || DEFAULT_PARSE_MODEL;
+
+  const interpretation = provider(
+    env('LLM_INTERPRETATION') ||
+      `nanogpt:${env('NANOGPT_INTERPRETATION_MODEL') || DEFAULT_INTERPRETATION_MODEL}`,
+  );
+  const extraction = provider(
+    env('LLM_EXTRACTION') || `nanogpt:${env('NANOGPT_EXTRACTION_MODEL') || DEFAULT_EXTRACTION_MODEL}`,
+  );
+  // The NanoGPT parse model backs up a NanoGPT interpreter; anything else needs LLM_FALLBACK.
+  const fallbackSpec = env('LLM_FALLBACK') ||
+    (interpretation.name.startsWith('nanogpt:')
+      ? `nanogpt:${env('NANOGPT_FALLBACK_MODEL') || parseModel}`
+      : '');
+  const fallback = fallbackSpec ? provider(fallbackSpec) : null;
+  const selfCheckSpec = env('LLM_SELF_CHECK');
+  const relatedFoodSpec = env('LLM_RELATED_FOOD');
+
+  return {
+    interpretation,
+    selfCheck: selfCheckSpec ? provider(selfCheckSpec) : interpretation,
+    extraction,
+    fallback: fallback && fallback.name !== interpretation.name ? fallback : null,
+    relatedFood: relatedFoodSpec ? provider(relatedFoodSpec) : extraction,
+  };
+}
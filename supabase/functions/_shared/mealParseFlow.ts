@@ -1,6 +1,10 @@
 import { applyMacroSanity } from './macroSanity.ts';
 import { sanifyInterpretationPortions } from './interpretationPortionSanity.ts';
-import { findSavedFoodMatch, type SavedFoodMacros } from './applySavedFoods.ts';
+import {
+  describeScaledSavedFood,
+  findSavedFoodMatch,
+  type SavedFoodMatch,
+} from './applySavedFoods.ts';
 import { ParseRejectionError } from './parseRejection.ts';
 import { MEAL_HINT } from './transcriptValidation.ts';
 import {
@@ -34,7 +38,17 @@ import {
   UK_BRAND_NAME_PATTERN,
   type ItemSearchResult,
 } from './webSearch.ts';
+import { createSerperProvider, type SearchProvider } from './searchProviders.ts';
+import type { LlmProvider, LlmStages } from './llmProviders.ts';
 import { normalizeItems, type ParsedFoodItem } from './normalizeItems.ts';
+import {
+  cachedFactForItem,
+  itemCacheKey,
+  toCachedFact,
+  type CachedNutritionFact,
+  type NutritionFactCache,
+} from './nutritionFactCache.ts';
+import { createReplayRecorder, type ParseCapture, type ParseReplayBundle } from './parseReplay.ts';
 
 export interface ParseMealFlowResult {
   items: ParsedFoodItem[];
@@ -44,37 +58,36 @@ export interface ParseMealFlowResult {
   parse_path?: 'fast' | 'research';
   research_available?: boolean;
   timings?: ParseTimings;
+  /** Set when the parse was captured for replay. */
+  parse_id?: string;
 }
 
 export interface ParseTimings {
   interpretation_ms: number;
   serper_ms?: number;
   extraction_ms?: number;
+  cache_hits?: number;
   total_ms: number;
   path: 'fast' | 'research';
 }
 
-export interface NanoGptConfig {
-  apiKey: string;
-  baseUrl: string;
-  model: string;
-  interpretationModel?: string;
-  extractionModel?: string;
-  fallbackModel?: string;
-}
-
 export type ParseProgressStage = 'identifying' | 'looking_up' | 'estimating';
 
 interface ParseFlowOptions {
   searchApiKey?: string;
+  /** Overrides Serper, e.g. recorded fixtures for offline runs. */
+  searchProvider?: SearchProvider;
   maxSearches?: number;
   onProgress?: (stage: ParseProgressStage) => void;
+  /** Validated facts from earlier parses; hits skip search and extraction. */
+  factCache?: NutritionFactCache;
+  /** Records every model call, search and cache hit into a replay bundle. */
+  capture?: ParseCapture;
 }
 
 const INTERPRETATION_MAX_TOKENS = 3200;
 const EXTRACTION_MAX_TOKENS = 1800;
 const EXTRACTION_BATCH_SIZE = 6;
-const NANOGPT_TIMEOUT_MS = 45_000;
 
 function chunkArray<T>(items: T[], size: number): T[][] {
   if (items.length === 0) return [];
@@ -108,91 +121,6 @@ function attachTimings(
   return isParseTimingEnabled() ? { ...result, timings } : result;
 }
 
-function retryableStatus(status: number): boolean {
-  return status === 429 || status >= 500;
-}
-
-async function callNanoGptJson<T>(
-  config: NanoGptConfig,
-  model: string,
-  system: string,
-  user: string,
-  schemaName: string,
-  schema: Record<string, unknown>,
-  maxTokens: number,
-  reasoningEffort: string = 'low',
-): Promise<T> {
-  let lastError: unknown;
-  let includeReasoningEffort = true;
-
-  for (let attempt = 0; attempt < 3; attempt++) {
-    try {
-      const body: Record<string, unknown> = {
-        model,
-        temperature: PARSE_TEMPERATURE,
-        max_tokens: maxTokens,
-        messages: [
-          { role: 'system', content: system },
-          { role: 'user', content: user },
-        ],
-        response_format: {
-          type: 'json_schema',
-          json_schema: { name: schemaName, strict: true, schema },
-        },
-      };
-      if (includeReasoningEffort) body.reasoning_effort = reasoningEffort;
-
-      const response = await fetch(`${config.baseUrl}/chat/completions`, {
-        method: 'POST',
-        headers: {
-          Authorization: `Bearer ${config.apiKey}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(body),
-        signal: AbortSignal.timeout(NANOGPT_TIMEOUT_MS),
-      });
-
-      if (!response.ok) {
-        const detail = await response.text();
-        if (
-          response.status === 400 &&
-          includeReasoningEffort &&
-          /reasoning[_ -]?effort|unknown parameter|unsupported/i.test(detail)
-        ) {
-          includeReasoningEffort = false;
-          lastError = new Error(`NanoGPT compatibility retry: ${detail.slice(0, 200)}`);
-          continue;
-        }
-        const error = new Error(`NanoGPT error (${response.status}): ${detail}`);
-        if (retryableStatus(response.status) && attempt < 2) {
-          lastError = error;
-          continue;
-        }
-        throw error;
-      }
-
-      const payload = await response.json();
-      const choice = payload?.choices?.[0];
-      if (choice?.finish_reason === 'length') {
-        throw new Error(`NanoGPT ${schemaName} response was truncated`);
-      }
-      const raw = choice?.message?.content;
-      if (!raw) throw new Error(`NanoGPT ${schemaName} returned an empty response`);
-      return JSON.parse(raw) as T;
-    } catch (error) {
-      lastError = error;
-      if (
-        error instanceof Error &&
-        /^NanoGPT error \(4/.test(error.message)
-      ) {
-        throw error;
-      }
-    }
-  }
-
-  throw lastError instanceof Error ? lastError : new Error(String(lastError));
-}
-
 function positiveOrNull(value: unknown): number | null {
   const number = Number(value);
   return Number.isFinite(number) && number > 0 ? number : null;
@@ -254,22 +182,20 @@ function rejectInterpretation(
 }
 
 async function selfCheckInterpretation(
-  config: NanoGptConfig,
+  llm: LlmProvider,
   mealText: string,
   interpretation: MealInterpretation,
-  model: string,
 ): Promise<MealInterpretation> {
   try {
-    const raw = await callNanoGptJson<MealInterpretation>(
-      config,
-      model,
-      INTERPRETATION_SELF_CHECK_SYSTEM_PROMPT,
-      buildSelfCheckUserMessage(mealText, interpretation.items),
-      'meal_interpretation_refined',
-      MEAL_INTERPRETATION_SCHEMA as unknown as Record<string, unknown>,
-      INTERPRETATION_MAX_TOKENS,
-      'medium',
-    );
+    const raw = await llm.completeJson<MealInterpretation>({
+      system: INTERPRETATION_SELF_CHECK_SYSTEM_PROMPT,
+      user: buildSelfCheckUserMessage(mealText, interpretation.items),
+      schemaName: 'meal_interpretation_refined',
+      schema: MEAL_INTERPRETATION_SCHEMA as unknown as Record<string, unknown>,
+      maxTokens: INTERPRETATION_MAX_TOKENS,
+      reasoningEffort: 'medium',
+      temperature: PARSE_TEMPERATURE,
+    });
     const corrected = normalizeInterpretation(raw);
     // Preserve the validated input assessment; the self-check only refines items.
     corrected.input_assessment = interpretation.input_assessment;
@@ -297,6 +223,7 @@ function evidenceResolutions(
   facts: NutritionEvidenceFact[],
   items: InterpretedMealItem[],
   research: ItemSearchResult[],
+  verified?: CachedNutritionFact[],
 ): Map<string, ResolvedNutrition> {
   const itemById = new Map(items.map((item) => [item.item_id, item]));
   const researchById = new Map(research.map((result) => [result.item_id, result]));
@@ -316,6 +243,8 @@ function evidenceResolutions(
     }
     const values = computeNutrition(item, fact);
     if (!values) continue;
+    const cacheable = toCachedFact(item, fact);
+    if (cacheable) verified?.push(cacheable);
     resolved.set(fact.item_id, {
       values,
       fact,
@@ -330,10 +259,11 @@ function evidenceResolutions(
 }
 
 async function extractEvidenceBatches(
-  config: NanoGptConfig,
+  llm: LlmProvider,
   mealText: string,
   items: InterpretedMealItem[],
   research: ItemSearchResult[],
+  verified?: CachedNutritionFact[],
 ): Promise<Map<string, ResolvedNutrition>> {
   const resolved = new Map<string, ResolvedNutrition>();
   const researchById = new Map(research.map((result) => [result.item_id, result]));
@@ -345,19 +275,19 @@ async function extractEvidenceBatches(
     if (!batchResearch.length) continue;
 
     try {
-      const extracted = await callNanoGptJson<{ facts: NutritionEvidenceFact[] }>(
-        config,
-        config.extractionModel ?? config.model,
-        EVIDENCE_EXTRACTION_SYSTEM_PROMPT,
-        buildEvidenceUserMessage(mealText, batch, formatItemResearchForPrompt(batchResearch)),
-        'nutrition_evidence',
-        NUTRITION_EVIDENCE_SCHEMA as unknown as Record<string, unknown>,
-        EXTRACTION_MAX_TOKENS,
-      );
+      const extracted = await llm.completeJson<{ facts: NutritionEvidenceFact[] }>({
+        system: EVIDENCE_EXTRACTION_SYSTEM_PROMPT,
+        user: buildEvidenceUserMessage(mealText, batch, formatItemResearchForPrompt(batchResearch)),
+        schemaName: 'nutrition_evidence',
+        schema: NUTRITION_EVIDENCE_SCHEMA as unknown as Record<string, unknown>,
+        maxTokens: EXTRACTION_MAX_TOKENS,
+        temperature: PARSE_TEMPERATURE,
+      });
       for (const [itemId, value] of evidenceResolutions(
         extracted.facts ?? [],
         batch,
         research,
+        verified,
       )) {
         resolved.set(itemId, value);
       }
@@ -369,24 +299,73 @@ async function extractEvidenceBatches(
   return resolved;
 }
 
+/** Cache hits resolved for these items. A cache outage just means searching. */
+async function cachedResolutions(
+  cache: NutritionFactCache,
+  items: InterpretedMealItem[],
+): Promise<Map<string, ResolvedNutrition>> {
+  const resolved = new Map<string, ResolvedNutrition>();
+  let cached: Map<string, CachedNutritionFact>;
+  try {
+    cached = await cache.get([...new Set(items.map(itemCacheKey))]);
+  } catch (error) {
+    console.warn('[parse] nutrition fact cache read failed', error);
+    return resolved;
+  }
+
+  for (const item of items) {
+    const hit = cached.get(itemCacheKey(item));
+    if (!hit) continue;
+    const fact = cachedFactForItem(hit, item.item_id);
+    const values = computeNutrition(item, fact);
+    if (!values) continue;
+    resolved.set(item.item_id, {
+      values,
+      fact,
+      evidence_status: 'uk_evidence',
+      source_note: fact.source_title,
+      source_title: fact.source_title,
+      source_url: fact.source_url,
+      evidence_quote: fact.evidence_quote,
+    });
+  }
+  return resolved;
+}
+
+async function rememberFacts(
+  cache: NutritionFactCache,
+  facts: CachedNutritionFact[],
+): Promise<void> {
+  if (!facts.length) return;
+  // One row per key; the first fact verified for a food wins this parse.
+  const unique = new Map<string, CachedNutritionFact>();
+  for (const fact of facts) {
+    if (!unique.has(fact.cache_key)) unique.set(fact.cache_key, fact);
+  }
+  try {
+    await cache.put([...unique.values()]);
+  } catch (error) {
+    console.warn('[parse] nutrition fact cache write failed', error);
+  }
+}
+
 async function proposeRelatedFoods(
-  config: NanoGptConfig,
+  llm: LlmProvider,
   mealText: string,
   items: InterpretedMealItem[],
 ): Promise<Map<string, { food_name: string; search_query: string }>> {
   const replacements = new Map<string, { food_name: string; search_query: string }>();
   try {
-    const raw = await callNanoGptJson<{
+    const raw = await llm.completeJson<{
       replacements: Array<{ item_id: string; food_name: string; search_query: string }>;
-    }>(
-      config,
-      config.extractionModel ?? config.model,
-      RELATED_FOOD_SYSTEM_PROMPT,
-      buildRelatedFoodUserMessage(mealText, items),
-      'related_food',
-      RELATED_FOOD_SCHEMA as unknown as Record<string, unknown>,
-      EXTRACTION_MAX_TOKENS,
-    );
+    }>({
+      system: RELATED_FOOD_SYSTEM_PROMPT,
+      user: buildRelatedFoodUserMessage(mealText, items),
+      schemaName: 'related_food',
+      schema: RELATED_FOOD_SCHEMA as unknown as Record<string, unknown>,
+      maxTokens: EXTRACTION_MAX_TOKENS,
+      temperature: PARSE_TEMPERATURE,
+    });
     for (const replacement of raw.replacements ?? []) {
       const itemId = String(replacement.item_id ?? '').trim();
       const foodName = String(replacement.food_name ?? '').trim();
@@ -426,8 +405,31 @@ function markAsRelated(
 
 function savedFoodItem(
   item: InterpretedMealItem,
-  saved: SavedFoodMacros,
+  saved: SavedFoodMatch,
 ): ParsedFoodItem {
+  const scaled = describeScaledSavedFood(saved);
+  if (scaled) {
+    return {
+      item_id: item.item_id,
+      food_name: saved.food_name,
+      preparation: item.preparation || undefined,
+      calories: saved.calories,
+      protein: saved.protein,
+      carbs: saved.carbs,
+      fats: saved.fats,
+      quantity: 1,
+      unit: 'serving',
+      confidence: 'high',
+      from_saved_food: true,
+      portion_assumption: scaled.portion_assumption,
+      reference_weight_g: saved.scaled_to_g,
+      reference_volume_ml: saved.scaled_to_ml,
+      evidence_status: 'user_saved',
+      source_note: scaled.source_note,
+      source_title: scaled.source_note,
+    };
+  }
+
   return {
     item_id: item.item_id,
     food_name: saved.food_name,
@@ -503,46 +505,85 @@ function resolvedItem(
 
 export async function parseMealWithResearch(
   mealText: string,
-  config: NanoGptConfig,
+  llm: LlmStages,
   context: ParsePromptContext = {},
   options?: ParseFlowOptions,
+): Promise<ParseMealFlowResult> {
+  const capture = options?.capture;
+  if (!capture) return runParseFlow(mealText, llm, context, options);
+
+  const recorder = createReplayRecorder({
+    parseId: capture.parseId,
+    mealText,
+    context,
+    maxSearches: options?.maxSearches,
+  });
+  const searchApiKey = options?.searchApiKey ?? getSearchApiKey();
+  const searchProvider = options?.searchProvider ??
+    (searchApiKey ? createSerperProvider(searchApiKey) : undefined);
+  const save = async (bundle: ParseReplayBundle) => {
+    try {
+      await capture.onBundle(bundle);
+    } catch (error) {
+      console.warn('[parse] replay bundle could not be saved', error);
+    }
+  };
+
+  try {
+    const result = await runParseFlow(mealText, recorder.wrapLlm(llm), context, {
+      ...options,
+      // An empty key keeps the flow from building an unrecorded Serper client.
+      searchApiKey: '',
+      searchProvider: searchProvider ? recorder.wrapSearch(searchProvider) : undefined,
+      factCache: options?.factCache ? recorder.wrapFactCache(options.factCache) : undefined,
+    });
+    await save(recorder.bundle({ result }));
+    return { ...result, parse_id: capture.parseId };
+  } catch (error) {
+    await save(recorder.bundle({ error }));
+    throw error;
+  }
+}
+
+async function runParseFlow(
+  mealText: string,
+  llm: LlmStages,
+  context: ParsePromptContext,
+  options?: ParseFlowOptions,
 ): Promise<ParseMealFlowResult> {
   const startedAt = nowMs();
   const onProgress = options?.onProgress;
   const searchApiKey = options?.searchApiKey ?? getSearchApiKey();
+  const searchProvider = options?.searchProvider ??
+    (searchApiKey ? createSerperProvider(searchApiKey) : undefined);
+  const factCache = options?.factCache;
+  // Facts that passed validation this parse, keyed by the food they verified.
+  const verified: CachedNutritionFact[] = [];
 
   onProgress?.('identifying');
   const interpretationStartedAt = nowMs();
-  const interpretationModel = config.interpretationModel ?? config.model;
-  let effectiveModel = interpretationModel;
+  const interpret = (provider: LlmProvider) =>
+    provider.completeJson<MealInterpretation>({
+      system: buildInterpretationSystemPrompt(context),
+      user: mealText,
+      schemaName: 'meal_interpretation',
+      schema: MEAL_INTERPRETATION_SCHEMA as unknown as Record<string, unknown>,
+      maxTokens: INTERPRETATION_MAX_TOKENS,
+      reasoningEffort: 'high',
+      temperature: PARSE_TEMPERATURE,
+    });
+  let selfCheckLlm = llm.selfCheck;
   let rawInterpretation: MealInterpretation;
   try {
-    rawInterpretation = await callNanoGptJson<MealInterpretation>(
-      config,
-      interpretationModel,
-      buildInterpretationSystemPrompt(context),
-      mealText,
-      'meal_interpretation',
-      MEAL_INTERPRETATION_SCHEMA as unknown as Record<string, unknown>,
-      INTERPRETATION_MAX_TOKENS,
-      'high',
-    );
+    rawInterpretation = await interpret(llm.interpretation);
   } catch (error) {
     // If the reasoning model is unavailable (bad id / unsupported schema),
     // fall back to the parse model rather than failing every parse.
-    if (interpretationModel === config.model) throw error;
+    if (!llm.fallback) throw error;
     console.warn('[parse] interpretation model failed; falling back to parse model', error);
-    effectiveModel = config.model;
-    rawInterpretation = await callNanoGptJson<MealInterpretation>(
-      config,
-      config.model,
-      buildInterpretationSystemPrompt(context),
-      mealText,
-      'meal_interpretation',
-      MEAL_INTERPRETATION_SCHEMA as unknown as Record<string, unknown>,
-      INTERPRETATION_MAX_TOKENS,
-      'high',
-    );
+    // A self-check that shares the failed model moves to the fallback too.
+    if (selfCheckLlm.name === llm.interpretation.name) selfCheckLlm = llm.fallback;
+    rawInterpretation = await interpret(llm.fallback);
   }
   const firstPass = sanifyInterpretationPortions(
     normalizeInterpretation(rawInterpretation),
@@ -550,13 +591,13 @@ export async function parseMealWithResearch(
   );
   rejectInterpretation(firstPass, mealText);
   const interpretation = sanifyInterpretationPortions(
-    await selfCheckInterpretation(config, mealText, firstPass, effectiveModel),
+    await selfCheckInterpretation(selfCheckLlm, mealText, firstPass),
     mealText,
   );
   rejectInterpretation(interpretation, mealText);
   const interpretationMs = Math.round(nowMs() - interpretationStartedAt);
 
-  const savedByItem = new Map<string, SavedFoodMacros>();
+  const savedByItem = new Map<string, SavedFoodMatch>();
   for (const item of interpretation.items) {
     const saved = findSavedFoodMatch(item.food_name, context.savedFoods ?? [], mealText);
     if (saved) savedByItem.set(item.item_id, saved);
@@ -572,10 +613,19 @@ export async function parseMealWithResearch(
   let serperMs: number | undefined;
   let extractionMs: number | undefined;
 
-  if (researchItems.length && searchApiKey) {
+  // Staples verified by an earlier parse skip Serper and extraction entirely.
+  if (researchItems.length && factCache) {
+    for (const [itemId, value] of await cachedResolutions(factCache, researchItems)) {
+      resolved.set(itemId, value);
+    }
+  }
+  let cacheHits = resolved.size;
+  const searchItems = researchItems.filter((item) => !resolved.has(item.item_id));
+
+  if (searchItems.length && searchProvider) {
     onProgress?.('looking_up');
     const searchStartedAt = nowMs();
-    research = await searchMealItems(researchItems, searchApiKey, {
+    research = await searchMealItems(searchItems, searchProvider, {
       maxItems: options?.maxSearches,
     });
     serperMs = Math.round(nowMs() - searchStartedAt);
@@ -583,8 +633,9 @@ export async function parseMealWithResearch(
     // Direct facts from snippets (no LLM).
     for (const [itemId, value] of evidenceResolutions(
       extractDirectEvidenceFacts(research),
-      researchItems,
+      searchItems,
       research,
+      verified,
     )) {
       resolved.set(itemId, value);
     }
@@ -595,17 +646,18 @@ export async function parseMealWithResearch(
         .filter((result) => result.status === 'ok' && result.snippets.length)
         .map((result) => result.item_id),
     );
-    const evidencedItems = researchItems.filter(
+    const evidencedItems = searchItems.filter(
       (item) => usableIds.has(item.item_id) && !resolved.has(item.item_id),
     );
 
     if (evidencedItems.length) {
       const extractionStartedAt = nowMs();
       for (const [itemId, value] of (await extractEvidenceBatches(
-        config,
+        llm.extraction,
         mealText,
         evidencedItems,
         research,
+        verified,
       )).entries()) {
         resolved.set(itemId, value);
       }
@@ -617,8 +669,8 @@ export async function parseMealWithResearch(
   // food couldn't be verified, generalize it and verify the closest match
   // against Google so every item still resolves to a real source.
   const stillUnresolved = researchItems.filter((item) => !resolved.has(item.item_id));
-  if (stillUnresolved.length && searchApiKey) {
-    const related = await proposeRelatedFoods(config, mealText, stillUnresolved);
+  if (stillUnresolved.length && searchProvider) {
+    const related = await proposeRelatedFoods(llm.relatedFood, mealText, stillUnresolved);
     const generalized: InterpretedMealItem[] = [];
     for (const item of stillUnresolved) {
       const replacement = related.get(item.item_id);
@@ -637,28 +689,38 @@ export async function parseMealWithResearch(
       proposed: Array.from(related.values()).map((r) => r.food_name),
       generalized: generalized.map((i) => i.food_name),
     });
-    if (generalized.length) {
-      const fallbackResearch = await searchMealItems(generalized, searchApiKey, {
+    if (generalized.length && factCache) {
+      for (const [itemId, value] of await cachedResolutions(factCache, generalized)) {
+        const generic = generalized.find((item) => item.item_id === itemId);
+        resolved.set(itemId, markAsRelated(value, generic?.food_name ?? ''));
+        cacheHits += 1;
+      }
+    }
+    const uncachedGeneralized = generalized.filter((item) => !resolved.has(item.item_id));
+    if (uncachedGeneralized.length) {
+      const fallbackResearch = await searchMealItems(uncachedGeneralized, searchProvider, {
         maxItems: options?.maxSearches,
         relaxed: true,
       });
 
       for (const [itemId, value] of evidenceResolutions(
         extractDirectEvidenceFacts(fallbackResearch),
-        generalized,
+        uncachedGeneralized,
         fallbackResearch,
+        verified,
       )) {
         const generic = generalized.find((item) => item.item_id === itemId);
         resolved.set(itemId, markAsRelated(value, generic?.food_name ?? ''));
       }
 
-      const stillGeneralized = generalized.filter((item) => !resolved.has(item.item_id));
+      const stillGeneralized = uncachedGeneralized.filter((item) => !resolved.has(item.item_id));
       if (stillGeneralized.length) {
         for (const [itemId, value] of (await extractEvidenceBatches(
-          config,
+          llm.extraction,
           mealText,
           stillGeneralized,
           fallbackResearch,
+          verified,
         )).entries()) {
           const generic = generalized.find((item) => item.item_id === itemId);
           resolved.set(itemId, markAsRelated(value, generic?.food_name ?? ''));
@@ -666,6 +728,7 @@ export async function parseMealWithResearch(
       }
     }
   }
+  if (factCache) await rememberFacts(factCache, verified);
   onProgress?.('estimating');
 
   const items = applyMacroSanity(
@@ -691,11 +754,12 @@ export async function parseMealWithResearch(
     research_used: evidenceCount > 0,
     searches_run: research.length,
     parse_path: path,
-    research_available: Boolean(searchApiKey),
+    research_available: Boolean(searchProvider),
   }, {
     interpretation_ms: interpretationMs,
     serper_ms: serperMs,
     extraction_ms: extractionMs,
+    cache_hits: factCache ? cacheHits : undefined,
     total_ms: Math.round(nowMs() - startedAt),
     path,
   });
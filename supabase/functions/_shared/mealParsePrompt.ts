@@ -1,5 +1,7 @@
 /** Strict contracts and prompts for the evidence-first meal parsing pipeline. */
 
+import type { SavedFoodRecipe } from './savedFoodRecipe.ts';
+
 export const PARSE_TEMPERATURE = 0;
 
 const NULLABLE_NUMBER = { type: ['number', 'null'] } as const;
@@ -126,6 +128,10 @@ export interface ParsePromptContext {
     protein: number;
     carbs: number;
     fats: number;
+    basis?: NutritionBasis | null;
+    serving_weight_g?: number | null;
+    serving_volume_ml?: number | null;
+    recipe?: SavedFoodRecipe | null;
   }>;
 }
 
@@ -0,0 +1,134 @@
+import type {
+  InterpretedMealItem,
+  NutritionBasis,
+  NutritionEvidenceFact,
+} from './mealParsePrompt.ts';
+
+/**
+ * A validated evidence fact, stored under the food it was verified for rather
+ * than the meal item it came from. Numbers stay on the source's own basis so a
+ * hit is scaled to each new portion by computeNutrition, same as a fresh fact.
+ */
+export interface CachedNutritionFact {
+  cache_key: string;
+  food_name: string;
+  preparation: string;
+  basis: NutritionBasis;
+  basis_amount: number;
+  calories: number;
+  protein: number | null;
+  carbs: number | null;
+  fats: number | null;
+  serving_weight_g: number | null;
+  serving_volume_ml: number | null;
+  confidence: 'high' | 'medium' | 'low';
+  source_title: string;
+  source_url: string;
+  evidence_quote: string;
+}
+
+/**
+ * Durable store of facts shared across users. `get` returns only unexpired
+ * entries; expiry and invalidation belong to the store.
+ */
+export interface NutritionFactCache {
+  get(keys: string[]): Promise<Map<string, CachedNutritionFact>>;
+  put(facts: CachedNutritionFact[]): Promise<void>;
+}
+
+export const NUTRITION_FACT_TTL_DAYS = 90;
+
+/** Lowercase words only, so "Weetabix (2 biscuits)" and "weetabix" share a name. */
+export function normalizeFactName(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+export function nutritionFactCacheKey(foodName: string, preparation: string): string {
+  return `${normalizeFactName(foodName)}|${normalizeFactName(preparation)}`;
+}
+
+export function itemCacheKey(item: Pick<InterpretedMealItem, 'food_name' | 'preparation'>): string {
+  return nutritionFactCacheKey(item.food_name, item.preparation);
+}
+
+/** Null when the fact has no calories; validated facts always do. */
+export function toCachedFact(
+  item: Pick<InterpretedMealItem, 'food_name' | 'preparation'>,
+  fact: NutritionEvidenceFact,
+): CachedNutritionFact | null {
+  if (fact.calories == null) return null;
+  return {
+    cache_key: itemCacheKey(item),
+    food_name: normalizeFactName(item.food_name),
+    preparation: normalizeFactName(item.preparation),
+    basis: fact.basis,
+    basis_amount: fact.basis_amount,
+    calories: fact.calories,
+    protein: fact.protein,
+    carbs: fact.carbs,
+    fats: fact.fats,
+    serving_weight_g: fact.serving_weight_g,
+    serving_volume_ml: fact.serving_volume_ml,
+    confidence: fact.confidence,
+    source_title: fact.source_title,
+    source_url: fact.source_url,
+    evidence_quote: fact.evidence_quote,
+  };
+}
+
+export function cachedFactForItem(cached: CachedNutritionFact, itemId: string): NutritionEvidenceFact {
+  return {
+    item_id: itemId,
+    basis: cached.basis,
+    basis_amount: cached.basis_amount,
+    calories: cached.calories,
+    protein: cached.protein,
+    carbs: cached.carbs,
+    fats: cached.fats,
+    serving_weight_g: cached.serving_weight_g,
+    serving_volume_ml: cached.serving_volume_ml,
+    confidence: cached.confidence,
+    source_title: cached.source_title,
+    source_url: cached.source_url,
+    evidence_quote: cached.evidence_quote,
+  };
+}
+
+/** Process-local cache with the same TTL; for benchmarks and tests. */
+export function createMemoryNutritionFactCache(
+  ttlMs: number = NUTRITION_FACT_TTL_DAYS * 24 * 60 * 60 * 1000,
+  now: () => number = Date.now,
+): NutritionFactCache & { invalidate(foodName?: string): number } {
+  const entries = new Map<string, { fact: CachedNutritionFact; expires_at: number }>();
+  return {
+    get: async (keys) => {
+      const found = new Map<string, CachedNutritionFact>();
+      for (const key of keys) {
+        const entry = entries.get(key);
+        if (entry && entry.expires_at > now()) found.set(key, entry.fact);
+      }
+      return found;
+    },
+    put: async (facts) => {
+      for (const fact of facts) {
+        entries.set(fact.cache_key, { fact, expires_at: now() + ttlMs });
+      }
+    },
+    invalidate: (foodName) => {
+      let removed = 0;
+      const name = foodName == null ? null : normalizeFactName(foodName);
+      for (const [key, entry] of entries) {
+        const matches = name == null ? entry.expires_at <= now() : entry.fact.food_name === name;
+        if (matches) {
+          entries.delete(key);
+          removed += 1;
+        }
+      }
+      return removed;
+    },
+  };
+}
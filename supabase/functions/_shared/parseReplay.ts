@@ -0,0 +1,295 @@
+/**
+ * Replay bundles: every external exchange of one parse (model calls, searches,
+ * fact-cache hits) plus its input and outcome, so a bad parse can be rerun
+ * through current code with no network.
+ */
+
+import type { LlmJsonRequest, LlmProvider, LlmStages } from './llmProviders.ts';
+import type { ParsePromptContext } from './mealParsePrompt.ts';
+import type { ParsedFoodItem } from './normalizeItems.ts';
+import type { CachedNutritionFact, NutritionFactCache } from './nutritionFactCache.ts';
+import type { SearchProvider, SearchSnippet } from './searchProviders.ts';
+
+export type LlmStageName = keyof LlmStages;
+
+const STAGE_NAMES: LlmStageName[] = ['interpretation', 'selfCheck', 'extraction', 'fallback', 'relatedFood'];
+
+export interface LlmExchange {
+  stage: LlmStageName;
+  provider: string;
+  request: LlmJsonRequest;
+  response?: unknown;
+  error?: string;
+}
+
+export interface SearchExchange {
+  provider: string;
+  query: string;
+  relaxed: boolean;
+  snippets?: SearchSnippet[];
+  error?: string;
+}
+
+export interface ParseReplayBundle {
+  version: 1;
+  parse_id: string;
+  recorded_at: string;
+  meal_text: string;
+  context: ParsePromptContext;
+  max_searches?: number;
+  /** Provider name per stage, null where the stage was off. */
+  stages: Record<LlmStageName, string | null>;
+  search_provider: string | null;
+  llm: LlmExchange[];
+  search: SearchExchange[];
+  fact_cache_hits: CachedNutritionFact[];
+  result?: { items: ParsedFoodItem[]; notes?: string };
+  error?: string;
+}
+
+/** Turns capture on for one parse; `onBundle` runs once, after success or failure. */
+export interface ParseCapture {
+  parseId: string;
+  onBundle: (bundle: ParseReplayBundle) => void | Promise<void>;
+}
+
+/** Days a stored bundle is kept before purge_parse_replays removes it. */
+export const PARSE_REPLAY_TTL_DAYS = 14;
+
+/**
+ * Whose parses are captured: users listed in PARSE_REPLAY_USERS (comma-separated
+ * ids) always, anyone else at PARSE_REPLAY_SAMPLE_RATE (0–1; unset captures no one).
+ */
+export function shouldCaptureParse(
+  userId: string,
+  env: (name: string) => string | undefined,
+  random: () => number = Math.random,
+): boolean {
+  const users = (env('PARSE_REPLAY_USERS') ?? '').split(',').map((id) => id.trim()).filter(Boolean);
+  if (users.includes(userId)) return true;
+  const rate = Number(env('PARSE_REPLAY_SAMPLE_RATE') ?? 0);
+  return Number.isFinite(rate) && rate > 0 && random() < rate;
+}
+
+function message(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+export function createReplayRecorder(input: {
+  parseId: string;
+  mealText: string;
+  context: ParsePromptContext;
+  maxSearches?: number;
+}) {
+  const llm: LlmExchange[] = [];
+  const search: SearchExchange[] = [];
+  const hits = new Map<string, CachedNutritionFact>();
+  let stages: ParseReplayBundle['stages'] = {
+    interpretation: null,
+    selfCheck: null,
+    extraction: null,
+    fallback: null,
+    relatedFood: null,
+  };
+  let searchProviderName: string | null = null;
+
+  const wrapProvider = (stage: LlmStageName, provider: LlmProvider): LlmProvider => ({
+    name: provider.name,
+    model: provider.model,
+    completeJson: async <T>(request: LlmJsonRequest): Promise<T> => {
+      const exchange: LlmExchange = { stage, provider: provider.name, request };
+      llm.push(exchange);
+      try {
+        const response = await provider.completeJson<T>(request);
+        exchange.response = response;
+        return response;
+      } catch (error) {
+        exchange.error = message(error);
+        throw error;
+      }
+    },
+  });
+
+  return {
+    wrapLlm(source: LlmStages): LlmStages {
+      stages = {
+        interpretation: source.interpretation.name,
+        selfCheck: source.selfCheck.name,
+        extraction: source.extraction.name,
+        fallback: source.fallback?.name ?? null,
+        relatedFood: source.relatedFood.name,
+      };
+      return {
+        interpretation: wrapProvider('interpretation', source.interpretation),
+        selfCheck: wrapProvider('selfCheck', source.selfCheck),
+        extraction: wrapProvider('extraction', source.extraction),
+        fallback: source.fallback ? wrapProvider('fallback', source.fallback) : null,
+        relatedFood: wrapProvider('relatedFood', source.relatedFood),
+      };
+    },
+
+    wrapSearch(provider: SearchProvider): SearchProvider {
+      searchProviderName = provider.name;
+      return {
+        // Its own name keeps webSearch's in-memory cache from answering
+        // with results this bundle never saw.
+        name: `${provider.name}#${input.parseId}`,
+        search: async (query, options) => {
+          const exchange: SearchExchange = { provider: provider.name, query, relaxed: options.relaxed };
+          search.push(exchange);
+          try {
+            exchange.snippets = await provider.search(query, options);
+            return exchange.snippets;
+          } catch (error) {
+            exchange.error = message(error);
+            throw error;
+          }
+        },
+      };
+    },
+
+    wrapFactCache(cache: NutritionFactCache): NutritionFactCache {
+      return {
+        get: async (keys) => {
+          const found = await cache.get(keys);
+          for (const [key, fact] of found) hits.set(key, fact);
+          return found;
+        },
+        put: (facts) => cache.put(facts),
+      };
+    },
+
+    bundle(outcome: { result?: ParseReplayBundle['result']; error?: unknown }): ParseReplayBundle {
+      return {
+        version: 1,
+        parse_id: input.parseId,
+        recorded_at: new Date().toISOString(),
+        meal_text: input.mealText,
+        context: input.context,
+        max_searches: input.maxSearches,
+        stages,
+        search_provider: searchProviderName,
+        llm,
+        search,
+        fact_cache_hits: [...hits.values()],
+        result: outcome.result
+          ? { items: outcome.result.items, notes: outcome.result.notes }
+          : undefined,
+        error: outcome.error === undefined ? undefined : message(outcome.error),
+      };
+    },
+  };
+}
+
+/**
+ * Recorded model replies, per stage. An identical request gets its own reply;
+ * when current code asks something different (say, a changed self-check
+ * message), the stage's next unused reply for that schema stands in and the
+ * difference is noted in `divergences`.
+ */
+export function replayLlmStages(bundle: ParseReplayBundle, divergences: string[]): LlmStages {
+  const used = new Set<LlmExchange>();
+
+  const provider = (stage: LlmStageName): LlmProvider => {
+    const name = bundle.stages[stage] ?? `replay:${stage}`;
+    return {
+      name,
+      model: name.slice(name.indexOf(':') + 1),
+      completeJson: async <T>(request: LlmJsonRequest): Promise<T> => {
+        const candidates = bundle.llm.filter((exchange) =>
+          exchange.stage === stage &&
+          exchange.request.schemaName === request.schemaName &&
+          !used.has(exchange));
+        let exchange = candidates.find((candidate) => candidate.request.user === request.user);
+        if (!exchange && candidates.length) {
+          exchange = candidates[0];
+          divergences.push(`${stage} ${request.schemaName}: request changed; served the recorded reply`);
+        }
+        if (!exchange) {
+          divergences.push(`${stage} ${request.schemaName}: no recorded reply`);
+          throw new Error(`No recorded ${stage} ${request.schemaName} reply`);
+        }
+        used.add(exchange);
+        if (exchange.error !== undefined) throw new Error(exchange.error);
+        return JSON.parse(JSON.stringify(exchange.response)) as T;
+      },
+    };
+  };
+
+  const stages = Object.fromEntries(STAGE_NAMES.map((stage) => [stage, provider(stage)])) as
+    Record<LlmStageName, LlmProvider>;
+  return { ...stages, fallback: bundle.stages.fallback ? stages.fallback : null };
+}
+
+let replayRuns = 0;
+
+/** Recorded search answers by exact query; a new query fails like an outage. */
+export function replaySearchProvider(bundle: ParseReplayBundle, divergences: string[]): SearchProvider {
+  replayRuns += 1;
+  return {
+    // Unique per replay, so webSearch's cache can't answer from an earlier run.
+    name: `replay#${bundle.parse_id}#${replayRuns}`,
+    search: async (query, { relaxed }) => {
+      const exchange = bundle.search.find((entry) => entry.query === query && entry.relaxed === relaxed);
+      if (!exchange) {
+        divergences.push(`search "${query}"${relaxed ? ' (relaxed)' : ''}: not recorded`);
+        throw new Error(`No recorded search for "${query}"`);
+      }
+      if (exchange.error !== undefined) throw new Error(exchange.error);
+      return exchange.snippets ?? [];
+    },
+  };
+}
+
+/** Serves the hits the original parse saw and stores nothing. */
+export function replayFactCache(bundle: ParseReplayBundle): NutritionFactCache {
+  const hits = new Map(bundle.fact_cache_hits.map((fact) => [fact.cache_key, fact]));
+  return {
+    get: async (keys) => new Map(keys.flatMap((key) => {
+      const fact = hits.get(key);
+      return fact ? [[key, fact] as const] : [];
+    })),
+    put: async () => undefined,
+  };
+}
+
+const COMPARED_FIELDS = [
+  'food_name',
+  'quantity',
+  'unit',
+  'calories',
+  'protein',
+  'carbs',
+  'fats',
+  'reference_weight_g',
+  'reference_volume_ml',
+  'evidence_status',
+  'source_url',
+] as const;
+
+/** One line per changed, added or dropped field, matched by item_id (else position). */
+export function diffReplayItems(recorded: ParsedFoodItem[], replayed: ParsedFoodItem[]): string[] {
+  const key = (item: ParsedFoodItem, index: number) => item.item_id ?? `#${index + 1}`;
+  const lines: string[] = [];
+  const replayedByKey = new Map(replayed.map((item, index) => [key(item, index), item]));
+  const recordedKeys = new Set<string>();
+  recorded.forEach((before, index) => {
+    const id = key(before, index);
+    recordedKeys.add(id);
+    const after = replayedByKey.get(id);
+    if (!after) {
+      lines.push(`${id} (${before.food_name}): dropped`);
+      return;
+    }
+    for (const field of COMPARED_FIELDS) {
+      const was = before[field] ?? null;
+      const now = after[field] ?? null;
+      if (was !== now) lines.push(`${id} ${field}: ${String(was)} → ${String(now)}`);
+    }
+  });
+  replayed.forEach((item, index) => {
+    const id = key(item, index);
+    if (!recordedKeys.has(id)) lines.push(`${id} (${item.food_name}): added`);
+  });
+  return lines;
+}
@@ -0,0 +1,85 @@
+import type { NutritionBasis, NutritionFactBase } from './mealParsePrompt.ts';
+
+const NUTRITION_BASES: readonly NutritionBasis[] = ['per_100g', 'per_100ml', 'per_item', 'per_serving'];
+
+/**
+ * What a saved food's calories/protein/carbs/fats are measured against. Rows
+ * without a basis predate it and are treated as one opaque serving.
+ */
+export interface SavedFoodBasis {
+  basis?: NutritionBasis | null;
+  serving_weight_g?: number | null;
+  serving_volume_ml?: number | null;
+}
+
+export interface SavedFoodNutrition extends SavedFoodBasis {
+  calories: number;
+  protein: number;
+  carbs: number;
+  fats: number;
+}
+
+export function normalizeNutritionBasis(value: unknown): NutritionBasis | null {
+  return NUTRITION_BASES.includes(value as NutritionBasis) ? value as NutritionBasis : null;
+}
+
+function positiveOrNull(value: unknown): number | null {
+  const n = Number(value);
+  return Number.isFinite(n) && n > 0 ? n : null;
+}
+
+export function basisAmount(basis: NutritionBasis): number {
+  return basis === 'per_100g' || basis === 'per_100ml' ? 100 : 1;
+}
+
+/**
+ * The saved food as a nutrition fact for `computeNutrition`, or null when it
+ * cannot be scaled by weight. Per-item and per-serving foods only scale when
+ * the user recorded what one weighs; otherwise "150g" has nothing to divide by.
+ */
+export function savedFoodFact(itemId: string, food: SavedFoodNutrition): NutritionFactBase | null {
+  const basis = normalizeNutritionBasis(food.basis);
+  if (!basis) return null;
+
+  const servingWeight = positiveOrNull(food.serving_weight_g);
+  const servingVolume = positiveOrNull(food.serving_volume_ml);
+  const perUnit = basis === 'per_item' || basis === 'per_serving';
+  if (perUnit && !servingWeight && !servingVolume) return null;
+
+  return {
+    item_id: itemId,
+    // computeNutrition treats per_item as "always one"; a weighed item scales like a serving.
+    basis: basis === 'per_item' ? 'per_serving' : basis,
+    basis_amount: basisAmount(basis),
+    calories: food.calories,
+    protein: food.protein,
+    carbs: food.carbs,
+    fats: food.fats,
+    serving_weight_g: servingWeight,
+    serving_volume_ml: servingVolume,
+    confidence: 'high',
+  };
+}
+
+function roundMacro(value: number): number {
+  return Math.round(Math.max(0, value) * 10) / 10;
+}
+
+/** Macros for one serving — what "Use" logs and what a weightless mention means. */
+export function savedFoodServingMacros(food: SavedFoodNutrition): Pick<SavedFoodNutrition, 'calories' | 'protein' | 'carbs' | 'fats'> {
+  const basis = normalizeNutritionBasis(food.basis);
+  if (basis !== 'per_100g' && basis !== 'per_100ml') {
+    return { calories: food.calories, protein: food.protein, carbs: food.carbs, fats: food.fats };
+  }
+
+  const serving = basis === 'per_100g'
+    ? positiveOrNull(food.serving_weight_g)
+    : positiveOrNull(food.serving_volume_ml);
+  const factor = (serving ?? 100) / 100;
+  return {
+    calories: Math.round(food.calories * factor),
+    protein: roundMacro(food.protein * factor),
+    carbs: roundMacro(food.carbs * factor),
+    fats: roundMacro(food.fats * factor),
+  };
+}
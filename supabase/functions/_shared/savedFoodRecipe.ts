@@ -0,0 +1,119 @@
+/** One weighed ingredient line of a recipe; macros are for the whole line. */
+export interface RecipeIngredient {
+  food_name: string;
+  grams: number;
+  calories: number;
+  protein: number;
+  carbs: number;
+  fats: number;
+}
+
+export interface SavedFoodRecipe {
+  ingredients: RecipeIngredient[];
+  /** Weight of the finished dish; falls back to the raw ingredient weight when unset */
+  cooked_yield_g: number | null;
+  servings: number;
+}
+
+export interface RecipeMacros {
+  calories: number;
+  protein: number;
+  carbs: number;
+  fats: number;
+}
+
+function finite(value: unknown): number {
+  const n = Number(value);
+  return Number.isFinite(n) && n > 0 ? n : 0;
+}
+
+function roundMacros(macros: RecipeMacros): RecipeMacros {
+  return {
+    calories: Math.round(macros.calories),
+    protein: Math.round(macros.protein * 10) / 10,
+    carbs: Math.round(macros.carbs * 10) / 10,
+    fats: Math.round(macros.fats * 10) / 10,
+  };
+}
+
+function scaleMacros(macros: RecipeMacros, factor: number): RecipeMacros {
+  return {
+    calories: macros.calories * factor,
+    protein: macros.protein * factor,
+    carbs: macros.carbs * factor,
+    fats: macros.fats * factor,
+  };
+}
+
+export function recipeTotals(recipe: SavedFoodRecipe): RecipeMacros {
+  return recipe.ingredients.reduce<RecipeMacros>(
+    (sum, line) => ({
+      calories: sum.calories + finite(line.calories),
+      protein: sum.protein + finite(line.protein),
+      carbs: sum.carbs + finite(line.carbs),
+      fats: sum.fats + finite(line.fats),
+    }),
+    { calories: 0, protein: 0, carbs: 0, fats: 0 },
+  );
+}
+
+/** Finished weight of the whole dish in grams, or null when nothing was weighed. */
+export function recipeYieldGrams(recipe: SavedFoodRecipe): number | null {
+  const cooked = finite(recipe.cooked_yield_g);
+  if (cooked) return cooked;
+  const raw = recipe.ingredients.reduce((sum, line) => sum + finite(line.grams), 0);
+  return raw || null;
+}
+
+export function recipeServings(recipe: SavedFoodRecipe): number {
+  return finite(recipe.servings) || 1;
+}
+
+export function recipePerServing(recipe: SavedFoodRecipe): RecipeMacros {
+  return roundMacros(scaleMacros(recipeTotals(recipe), 1 / recipeServings(recipe)));
+}
+
+export function recipeServingGrams(recipe: SavedFoodRecipe): number | null {
+  const yieldGrams = recipeYieldGrams(recipe);
+  return yieldGrams ? Math.round(yieldGrams / recipeServings(recipe)) : null;
+}
+
+export function recipePer100g(recipe: SavedFoodRecipe): RecipeMacros | null {
+  const yieldGrams = recipeYieldGrams(recipe);
+  if (!yieldGrams) return null;
+  return roundMacros(scaleMacros(recipeTotals(recipe), 100 / yieldGrams));
+}
+
+/** Macros for an eaten weight of the finished dish. Null when the yield is unknown. */
+export function scaleRecipeToGrams(recipe: SavedFoodRecipe, grams: number): RecipeMacros | null {
+  const yieldGrams = recipeYieldGrams(recipe);
+  if (!yieldGrams || !(grams > 0)) return null;
+  return roundMacros(scaleMacros(recipeTotals(recipe), grams / yieldGrams));
+}
+
+/** Accept a stored recipe only when it has at least one usable ingredient line. */
+export function normalizeSavedFoodRecipe(value: unknown): SavedFoodRecipe | null {
+  if (!value || typeof value !== 'object') return null;
+  const raw = value as Record<string, unknown>;
+  if (!Array.isArray(raw.ingredients)) return null;
+
+  const ingredients = raw.ingredients
+    .filter((line): line is Record<string, unknown> => !!line && typeof line === 'object')
+    .map((line) => ({
+      food_name: String(line.food_name ?? '').trim(),
+      grams: finite(line.grams),
+      calories: finite(line.calories),
+      protein: finite(line.protein),
+      carbs: finite(line.carbs),
+      fats: finite(line.fats),
+    }))
+    .filter((line) => line.food_name);
+
+  if (!ingredients.length) return null;
+
+  return {
+    ingredients,
+    cooked_yield_g: finite(raw.cooked_yield_g) || null,
+    servings: finite(raw.servings) || 1,
+  };
+}
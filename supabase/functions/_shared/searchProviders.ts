@@ -0,0 +1,177 @@
+/**
+ * Where web evidence comes from. Providers return raw snippets for a query;
+ * UK bias, source filtering and ranking stay in webSearch.ts so every provider
+ * is judged by the same rules.
+ */
+
+export interface SearchSnippet {
+  title: string;
+  link: string;
+  snippet: string;
+}
+
+export interface SearchProvider {
+  /** Part of the in-memory cache key, so providers never share answers. */
+  name: string;
+  search(query: string, options: { relaxed: boolean }): Promise<SearchSnippet[]>;
+}
+
+/** One recorded answer. Snippets are kept unfiltered so replays still exercise ranking. */
+export interface SearchFixture {
+  provider: string;
+  query: string;
+  relaxed: boolean;
+  recorded_at: string;
+  snippets: SearchSnippet[];
+}
+
+/** Somewhere fixtures live; a directory in the benchmarks, a Map in tests. */
+export interface SearchFixtureStore {
+  read(name: string): Promise<SearchFixture | null>;
+  write(name: string, fixture: SearchFixture): Promise<void>;
+}
+
+const SERPER_URL = 'https://google.serper.dev/search';
+const DEFAULT_TIMEOUT_MS = 8_000;
+
+function runtimeNumber(name: string, fallback: number): number {
+  const runtime = globalThis as typeof globalThis & {
+    Deno?: { env?: { get(key: string): string | undefined } };
+    process?: { env?: Record<string, string | undefined> };
+  };
+  const raw = runtime.Deno?.env?.get(name) ?? runtime.process?.env?.[name];
+  const value = Number(raw);
+  return Number.isFinite(value) && value > 0 ? Math.floor(value) : fallback;
+}
+
+function retryableStatus(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+function asSnippet(row: unknown): SearchSnippet | null {
+  if (!row || typeof row !== 'object') return null;
+  const value = row as Record<string, unknown>;
+  const snippet = String(value.answer ?? value.snippet ?? value.description ?? '').trim();
+  if (!snippet) return null;
+  return {
+    title: String(value.title ?? 'Search result').trim(),
+    link: String(value.link ?? value.website ?? '').trim(),
+    snippet,
+  };
+}
+
+/** Answer box and knowledge graph first, then organic results, as Serper ranks them. */
+export function serperSnippets(payload: unknown): SearchSnippet[] {
+  const value = (payload ?? {}) as Record<string, unknown>;
+  const raw: SearchSnippet[] = [];
+  const answerBox = asSnippet(value.answerBox);
+  const knowledgeGraph = asSnippet(value.knowledgeGraph);
+  if (answerBox) raw.push(answerBox);
+  if (knowledgeGraph) raw.push(knowledgeGraph);
+  for (const row of Array.isArray(value.organic) ? value.organic : []) {
+    const snippet = asSnippet(row);
+    if (snippet) raw.push(snippet);
+  }
+  return raw;
+}
+
+/** Google results via Serper, retried once on 429/5xx or a dropped connection. */
+export function createSerperProvider(apiKey: string): SearchProvider {
+  return {
+    name: 'serper',
+    search: async (query) => {
+      const timeoutMs = runtimeNumber('SERPER_TIMEOUT_MS', DEFAULT_TIMEOUT_MS);
+      let lastError: unknown;
+
+      for (let attempt = 0; attempt < 2; attempt++) {
+        try {
+          const response = await fetch(SERPER_URL, {
+            method: 'POST',
+            headers: {
+              'X-API-KEY': apiKey,
+              'Content-Type': 'application/json',
+            },
+            body: JSON.stringify({
+              q: query,
+              gl: 'uk',
+              hl: 'en-gb',
+              num: 8,
+            }),
+            signal: AbortSignal.timeout(timeoutMs),
+          });
+
+          if (!response.ok) {
+            const detail = await response.text();
+            const error = new Error(`Serper ${response.status}: ${detail.slice(0, 200)}`);
+            if (retryableStatus(response.status) && attempt === 0) {
+              lastError = error;
+              continue;
+            }
+            throw error;
+          }
+
+          return serperSnippets(await response.json());
+        } catch (error) {
+          lastError = error;
+          if (attempt === 0) continue;
+        }
+      }
+
+      throw lastError instanceof Error ? lastError : new Error(String(lastError));
+    },
+  };
+}
+
+// FNV-1a; stable across Deno and Node without a crypto import.
+function hashQuery(value: string): string {
+  let hash = 0x811c9dc5;
+  for (let index = 0; index < value.length; index++) {
+    hash ^= value.charCodeAt(index);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+/** Readable and collision-safe: a slug of the query plus a hash of the exact text. */
+export function searchFixtureName(query: string, relaxed: boolean): string {
+  const exact = `${relaxed ? 'relaxed:' : ''}${query.trim()}`;
+  const slug = query.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 60);
+  return `${slug || 'query'}${relaxed ? '.relaxed' : ''}-${hashQuery(exact)}.json`;
+}
+
+/**
+ * Replays recorded answers and never touches the network. A query with no
+ * fixture fails like an outage would, so a stale fixture set shows up as
+ * `error` items rather than silently different evidence.
+ */
+export function createFixtureSearchProvider(store: SearchFixtureStore): SearchProvider {
+  return {
+    name: 'fixtures',
+    search: async (query, { relaxed }) => {
+      const fixture = await store.read(searchFixtureName(query, relaxed));
+      if (!fixture) throw new Error(`No search fixture for "${query}"${relaxed ? ' (relaxed)' : ''}`);
+      return fixture.snippets;
+    },
+  };
+}
+
+/** Asks `live` and saves each answer as a fixture for later replay. */
+export function createRecordingSearchProvider(
+  live: SearchProvider,
+  store: SearchFixtureStore,
+): SearchProvider {
+  return {
+    name: live.name,
+    search: async (query, options) => {
+      const snippets = await live.search(query, options);
+      await store.write(searchFixtureName(query, options.relaxed), {
+        provider: live.name,
+        query,
+        relaxed: options.relaxed,
+        recorded_at: new Date().toISOString(),
+        snippets,
+      });
+      return snippets;
+    },
+  };
+}
@@ -0,0 +1,60 @@
+import { SttError } from './errors.ts';
+import { summarizeNoSpeechProbs } from './noSpeech.ts';
+import { assertSttAudioSize } from './openAiCompatible.ts';
+import type { SttProvider, SttRequest, SttSegment } from './types.ts';
+
+export interface SttFixtureReply {
+  text: string;
+  segments?: SttSegment[];
+  durationMs?: number;
+}
+
+/** A reply, an error to throw, or a function of the request. */
+export type SttFixture = SttFixtureReply | Error | ((request: SttRequest) => SttFixtureReply | Error);
+
+export interface FixtureSttProvider extends SttProvider {
+  calls: SttRequest[];
+}
+
+/**
+ * Canned transcripts for tests and offline runs. A list is used in order and
+ * its last entry repeats. Size caps and no_speech_prob summaries apply exactly
+ * as they do for a live provider.
+ */
+export function createFixtureSttProvider(
+  fixtures: SttFixture | SttFixture[],
+  model = 'mock',
+): FixtureSttProvider {
+  const calls: SttRequest[] = [];
+  const queue = Array.isArray(fixtures) ? fixtures : [fixtures];
+
+  return {
+    name: `fixture:${model}`,
+    kind: 'fixture',
+    model,
+    calls,
+    transcribe: async (request) => {
+      const startedAt = performance.now();
+      const entry = queue[Math.min(calls.length, queue.length - 1)];
+      calls.push(request);
+      if (!entry) throw new SttError('provider_error', 'No STT fixture configured.');
+      assertSttAudioSize(request.audio);
+
+      const reply = typeof entry === 'function' ? entry(request) : entry;
+      if (reply instanceof Error) throw reply;
+      const segments = reply.segments ?? [];
+      const { max, mean } = summarizeNoSpeechProbs(segments);
+      return {
+        text: reply.text,
+        segments,
+        noSpeechProbMax: max,
+        noSpeechProbMean: mean,
+        durationMs: reply.durationMs,
+        provider: 'fixture',
+        model: request.model ?? model,
+        latencyMs: Math.round(performance.now() - startedAt),
+        attempts: 1,
+      };
+    },
+  };
+}
@@ -2,14 +2,36 @@ import { ParseRejectionError } from '../parseRejection.ts';
 import { assertUsableTranscript } from '../transcriptValidation.ts';
 import { isSttError } from './errors.ts';
 import { shouldRejectNoSpeechProb } from './noSpeech.ts';
-import { transcribeWithNanoGpt, type NanoGptSttConfig } from './nanoGpt.ts';
-import type { SttRequest, SttResult, SttTimings } from './types.ts';
+import type { SttProvider, SttRequest, SttResult, SttTimings } from './types.ts';
 
 export * from './types.ts';
 export * from './constants.ts';
 export { SttError, isSttError } from './errors.ts';
 export { shouldRejectNoSpeechProb, summarizeNoSpeechProbs } from './noSpeech.ts';
-export { transcribeWithNanoGpt, type NanoGptSttConfig } from './nanoGpt.ts';
+export {
+  createNanoGptSttProvider,
+  transcribeWithNanoGpt,
+  NANOGPT_STT_BASE_URL,
+  type NanoGptSttConfig,
+} from './nanoGpt.ts';
+export {
+  assertSttAudioSize,
+  createOpenAiCompatibleSttProvider,
+  transcribeWithOpenAiCompatible,
+  type OpenAiCompatibleSttConfig,
+} from './openAiCompatible.ts';
+export {
+  createFixtureSttProvider,
+  type FixtureSttProvider,
+  type SttFixture,
+  type SttFixtureReply,
+} from './fixture.ts';
+export {
+  createSttProvider,
+  resolveSttProvider,
+  DEFAULT_NANOGPT_STT_MODEL,
+  STT_PROVIDER_KINDS,
+} from './providers.ts';
 
 export function toSttTimings(result: SttResult, byteLength: number): SttTimings {
   return {
@@ -27,9 +49,9 @@ export function toSttTimings(result: SttResult, byteLength: number): SttTimings
  */
 export async function transcribeMealAudio(
   request: SttRequest,
-  config: NanoGptSttConfig,
+  provider: SttProvider,
 ): Promise<{ result: SttResult; transcript: string; timings: SttTimings }> {
-  const result = await transcribeWithNanoGpt(request, config);
+  const result = await provider.transcribe(request);
 
   if (result.noSpeechProbMax !== undefined || result.noSpeechProbMean !== undefined) {
     console.log('[stt] no_speech_prob', {
@@ -0,0 +1,204 @@
+import {
+  assertValidAudioPayload,
+  extensionForMime,
+  normalizeAudioMimeType,
+  parseProviderAudioError,
+} from '../audioValidation.ts';
+import { MAX_AUDIO_BYTES, DEFAULT_STT_TIMEOUT_MS, STT_MAX_ATTEMPTS } from './constants.ts';
+import { SttError } from './errors.ts';
+import { summarizeNoSpeechProbs } from './noSpeech.ts';
+import type { SttAudioBytes, SttProvider, SttRequest, SttResult, SttSegment } from './types.ts';
+
+export interface OpenAiCompatibleSttConfig {
+  /** Provider kind for `SttResult.provider`, e.g. `nanogpt`. */
+  kind?: string;
+  baseUrl: string;
+  /** Omitted for self-hosted servers that take no key. */
+  apiKey?: string;
+  model: string;
+  /**
+   * Ask for verbose_json (segments with no_speech_prob). Defaults to
+   * Whisper-family model ids; self-hosted Whisper servers should set it.
+   */
+  verboseJson?: boolean;
+  fetchImpl?: typeof fetch;
+}
+
+function isRetryableStatus(status: number): boolean {
+  return status === 408 || status === 429 || status >= 500;
+}
+
+/** Whisper-family models can return segment no_speech_prob via verbose_json. */
+function isWhisperFamilyModel(model: string): boolean {
+  const normalized = model.toLowerCase();
+  return normalized.includes('whisper');
+}
+
+/** Size caps every provider enforces before spending a call. */
+export function assertSttAudioSize(audio: SttAudioBytes): void {
+  if (audio.byteLength > MAX_AUDIO_BYTES) {
+    throw new SttError('too_large', 'Recording is too large. Keep it under 30 seconds.', {
+      retryable: false,
+    });
+  }
+
+  try {
+    assertValidAudioPayload(audio.byteLength);
+  } catch (error) {
+    throw new SttError(
+      'too_small',
+      error instanceof Error ? error.message : 'Recording was too short or empty.',
+      { retryable: false, cause: error },
+    );
+  }
+}
+
+async function transcribeOnce(
+  request: SttRequest,
+  config: OpenAiCompatibleSttConfig,
+  timeoutMs: number,
+): Promise<Omit<SttResult, 'latencyMs' | 'attempts'>> {
+  const { audio } = request;
+  assertSttAudioSize(audio);
+
+  const normalizedMime = normalizeAudioMimeType(audio.mimeType || request.audio.mimeType);
+  const extension = extensionForMime(normalizedMime);
+  const model = request.model ?? config.model;
+  const verboseJson = config.verboseJson ?? isWhisperFamilyModel(model);
+
+  const formData = new FormData();
+  formData.append(
+    'file',
+    new Blob([audio.bytes], { type: normalizedMime }),
+    `recording.${extension}`,
+  );
+  formData.append('model', model);
+  formData.append('language', request.language ?? 'en');
+  // Prefer plain json for non-Whisper models (faster; no segment metadata).
+  formData.append('response_format', verboseJson ? 'verbose_json' : 'json');
+  if (verboseJson) {
+    formData.append('temperature', '0');
+  }
+  if (request.prompt?.trim()) {
+    formData.append('prompt', request.prompt.trim());
+  }
+
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  const fetchImpl = config.fetchImpl ?? fetch;
+  const headers: Record<string, string> = {};
+  if (config.apiKey) headers.Authorization = `Bearer ${config.apiKey}`;
+
+  try {
+    const response = await fetchImpl(`${config.baseUrl.replace(/\/$/, '')}/audio/transcriptions`, {
+      method: 'POST',
+      headers,
+      body: formData,
+      signal: controller.signal,
+    });
+
+    if (!response.ok) {
+      const detail = await response.text();
+      const message = parseProviderAudioError(response.status, detail);
+      throw new SttError(
+        response.status === 415 ? 'unsupported_audio' : 'provider_error',
+        message,
+        { retryable: isRetryableStatus(response.status), status: response.status },
+      );
+    }
+
+    const payload = await response.json() as {
+      text?: string;
+      duration?: number;
+      segments?: Array<{
+        text?: string;
+        no_speech_prob?: number;
+        start?: number;
+        end?: number;
+      }>;
+    };
+
+    const segments: SttSegment[] = (payload.segments ?? []).map((segment) => ({
+      text: segment.text,
+      noSpeechProb: typeof segment.no_speech_prob === 'number' ? segment.no_speech_prob : undefined,
+      start: segment.start,
+      end: segment.end,
+    }));
+    const { max, mean } = summarizeNoSpeechProbs(segments);
+
+    return {
+      text: String(payload.text ?? ''),
+      segments,
+      noSpeechProbMax: max,
+      noSpeechProbMean: mean,
+      durationMs: typeof payload.duration === 'number'
+        ? Math.round(payload.duration * 1000)
+        : undefined,
+      provider: config.kind ?? 'openai-compatible',
+      model,
+    };
+  } catch (error) {
+    if (error instanceof SttError) throw error;
+    if (error instanceof DOMException && error.name === 'AbortError') {
+      throw new SttError('timeout', 'Speech recognition timed out. Try a shorter recording.', {
+        retryable: true,
+        cause: error,
+      });
+    }
+    throw new SttError(
+      'provider_error',
+      error instanceof Error ? error.message : 'Speech recognition failed.',
+      { retryable: true, cause: error },
+    );
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/** Any OpenAI-style `/audio/transcriptions` endpoint, with timeout + one retry. */
+export async function transcribeWithOpenAiCompatible(
+  request: SttRequest,
+  config: OpenAiCompatibleSttConfig,
+): Promise<SttResult> {
+  const timeoutMs = request.timeoutMs ?? DEFAULT_STT_TIMEOUT_MS;
+  const startedAt = performance.now();
+  let attempts = 0;
+  let lastError: SttError | undefined;
+
+  while (attempts < STT_MAX_ATTEMPTS) {
+    attempts += 1;
+    try {
+      const result = await transcribeOnce(request, config, timeoutMs);
+      return {
+        ...result,
+        latencyMs: Math.round(performance.now() - startedAt),
+        attempts,
+      };
+    } catch (error) {
+      const sttError = error instanceof SttError
+        ? error
+        : new SttError('provider_error', 'Speech recognition failed.', {
+          retryable: true,
+          cause: error,
+        });
+      lastError = sttError;
+      if (!sttError.retryable || attempts >= STT_MAX_ATTEMPTS) {
+        throw sttError;
+      }
+      console.log('[stt] retry', { attempt: attempts, code: sttError.code });
+    }
+  }
+
+  throw lastError ?? new SttError('provider_error', 'Speech recognition failed.');
+}
+
+/** A self-hosted faster-whisper / whisper.cpp server, or any hosted equivalent. */
+export function createOpenAiCompatibleSttProvider(config: OpenAiCompatibleSttConfig): SttProvider {
+  const kind = config.kind ?? 'openai-compatible';
+  return {
+    name: `${kind}:${config.model}`,
+    kind,
+    model: config.model,
+    transcribe: (request) => transcribeWithOpenAiCompatible(request, config),
+  };
+}
@@ -0,0 +1,59 @@
+import type { EnvGetter } from '../llmProviders.ts';
+import { createNanoGptSttProvider, NANOGPT_STT_BASE_URL } from './nanoGpt.ts';
+import { createOpenAiCompatibleSttProvider } from './openAiCompatible.ts';
+import type { SttProvider } from './types.ts';
+
+// gpt-4o-mini-transcribe: lower Done→transcript latency than Whisper-Large-V3 on NanoGPT;
+// override with NANOGPT_STT_MODEL=Whisper-Large-V3 if needed.
+export const DEFAULT_NANOGPT_STT_MODEL = 'gpt-4o-mini-transcribe';
+
+const STT_PROVIDERS: Record<string, (model: string, env: EnvGetter) => SttProvider> = {
+  nanogpt: (model, env) => {
+    const apiKey = env('NANOGPT_API_KEY');
+    if (!apiKey) throw new Error('NANOGPT_API_KEY is not configured');
+    return createNanoGptSttProvider({
+      apiKey,
+      baseUrl: env('NANOGPT_BASE_URL') ?? NANOGPT_STT_BASE_URL,
+      model,
+    });
+  },
+  'openai-compatible': (model, env) => {
+    const baseUrl = env('STT_BASE_URL');
+    if (!baseUrl) throw new Error('STT_BASE_URL is not configured');
+    return createOpenAiCompatibleSttProvider({
+      baseUrl,
+      apiKey: env('STT_API_KEY') || undefined,
+      model,
+      // Self-hosted servers are Whisper builds whatever the model id says.
+      verboseJson: env('STT_VERBOSE_JSON') !== '0',
+    });
+  },
+};
+
+export const STT_PROVIDER_KINDS = Object.keys(STT_PROVIDERS);
+
+/**
+ * `<provider>:<model>`, e.g. `nanogpt:Whisper-Large-V3` or
+ * `openai-compatible:Systran/faster-whisper-small`. Only the first colon
+ * separates.
+ */
+export function createSttProvider(spec: string, env: EnvGetter): SttProvider {
+  const separator = spec.indexOf(':');
+  const kind = (separator === -1 ? spec : spec.slice(0, separator)).trim();
+  const model = separator === -1 ? '' : spec.slice(separator + 1).trim();
+  if (!model) throw new Error(`STT spec "${spec}" needs a model, e.g. ${kind || 'nanogpt'}:<model>`);
+
+  const create = STT_PROVIDERS[kind];
+  if (!create) {
+    throw new Error(`Unknown STT provider "${kind}"; use ${STT_PROVIDER_KINDS.join(' or ')}`);
+  }
+  return create(model, env);
+}
+
+/** `STT_PROVIDER` wins; without it, NanoGPT with `NANOGPT_STT_MODEL`. */
+export function resolveSttProvider(env: EnvGetter): SttProvider {
+  return createSttProvider(
+    env('STT_PROVIDER') || `nanogpt:${env('NANOGPT_STT_MODEL') || DEFAULT_NANOGPT_STT_MODEL}`,
+    env,
+  );
+}
@@ -55,3 +55,11 @@ export interface SttTimings {
   stt_provider: string;
   stt_model: string;
 }
+
+export interface SttProvider {
+  /** `<kind>:<model>`, e.g. `nanogpt:gpt-4o-mini-transcribe`. */
+  name: string;
+  kind: string;
+  model: string;
+  transcribe(request: SttRequest): Promise<SttResult>;
+}
@@ -1,10 +1,8 @@
-/** Resilient, item-bound UK web research via Serper. */
+/** Resilient, item-bound UK web research through a pluggable search provider. */
 
-export interface SearchSnippet {
-  title: string;
-  link: string;
-  snippet: string;
-}
+import type { SearchProvider, SearchSnippet } from './searchProviders.ts';
+
+export type { SearchSnippet };
 
 export interface SearchResult {
   query: string;
@@ -35,11 +33,9 @@ export interface MealSearchOptions {
   relaxed?: boolean;
 }
 
-const SERPER_URL = 'https://google.serper.dev/search';
 const CACHE_TTL_MS = 15 * 60 * 1000;
 const CACHE_MAX_ENTRIES = 80;
 const PROMPT_SNIPPET_LIMIT = 5;
-const DEFAULT_TIMEOUT_MS = 8_000;
 const DEFAULT_MAX_ITEMS = 24;
 const DEFAULT_CONCURRENCY = 4;
 
@@ -107,18 +103,6 @@ export function ukBiasQuery(query: string): string {
   return `${q} UK`;
 }
 
-function asSnippet(row: unknown): SearchSnippet | null {
-  if (!row || typeof row !== 'object') return null;
-  const value = row as Record<string, unknown>;
-  const snippet = String(value.answer ?? value.snippet ?? value.description ?? '').trim();
-  if (!snippet) return null;
-  return {
-    title: String(value.title ?? 'Search result').trim(),
-    link: String(value.link ?? value.website ?? '').trim(),
-    snippet,
-  };
-}
-
 /** Pure filtering/ranking surface used by fixture tests. */
 export function filterAndRankSnippets(snippets: SearchSnippet[], relaxed = false): SearchSnippet[] {
   return snippets
@@ -141,67 +125,20 @@ export function filterAndRankSnippets(snippets: SearchSnippet[], relaxed = false
     .slice(0, PROMPT_SNIPPET_LIMIT);
 }
 
-function retryableStatus(status: number): boolean {
-  return status === 429 || status >= 500;
-}
-
-export async function searchWeb(query: string, apiKey: string, relaxed = false): Promise<SearchResult> {
+export async function searchWeb(
+  query: string,
+  provider: SearchProvider,
+  relaxed = false,
+): Promise<SearchResult> {
   const biasedQuery = relaxed ? query.trim() : ukBiasQuery(query);
-  const cacheKey = relaxed ? `${biasedQuery}::relaxed` : biasedQuery;
+  const cacheKey = `${provider.name}:${relaxed ? `${biasedQuery}::relaxed` : biasedQuery}`;
   const cached = getCachedSearch(cacheKey);
   if (cached) return cached;
 
-  const timeoutMs = runtimeNumber('SERPER_TIMEOUT_MS', DEFAULT_TIMEOUT_MS);
-  let lastError: unknown;
-
-  for (let attempt = 0; attempt < 2; attempt++) {
-    try {
-      const response = await fetch(SERPER_URL, {
-        method: 'POST',
-        headers: {
-          'X-API-KEY': apiKey,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          q: biasedQuery,
-          gl: 'uk',
-          hl: 'en-gb',
-          num: 8,
-        }),
-        signal: AbortSignal.timeout(timeoutMs),
-      });
-
-      if (!response.ok) {
-        const detail = await response.text();
-        const error = new Error(`Serper ${response.status}: ${detail.slice(0, 200)}`);
-        if (retryableStatus(response.status) && attempt === 0) {
-          lastError = error;
-          continue;
-        }
-        throw error;
-      }
-
-      const payload = await response.json();
-      const raw: SearchSnippet[] = [];
-      const answerBox = asSnippet(payload?.answerBox);
-      const knowledgeGraph = asSnippet(payload?.knowledgeGraph);
-      if (answerBox) raw.push(answerBox);
-      if (knowledgeGraph) raw.push(knowledgeGraph);
-      for (const row of Array.isArray(payload?.organic) ? payload.organic : []) {
-        const snippet = asSnippet(row);
-        if (snippet) raw.push(snippet);
-      }
-
-      const result = { query: biasedQuery, snippets: filterAndRankSnippets(raw, relaxed) };
-      setCachedSearch(cacheKey, result);
-      return result;
-    } catch (error) {
-      lastError = error;
-      if (attempt === 0) continue;
-    }
-  }
-
-  throw lastError instanceof Error ? lastError : new Error(String(lastError));
+  const raw = await provider.search(biasedQuery, { relaxed });
+  const result = { query: biasedQuery, snippets: filterAndRankSnippets(raw, relaxed) };
+  setCachedSearch(cacheKey, result);
+  return result;
 }
 
 export function fallbackQuery(item: {
@@ -223,10 +160,14 @@ function queryForItem(item: ItemSearchRequest, relaxed = false): string {
   return relaxed ? query.trim() : ukBiasQuery(query);
 }
 
-async function searchOne(item: ItemSearchRequest, apiKey: string, relaxed = false): Promise<ItemSearchResult> {
+async function searchOne(
+  item: ItemSearchRequest,
+  provider: SearchProvider,
+  relaxed = false,
+): Promise<ItemSearchResult> {
   const query = queryForItem(item, relaxed);
   try {
-    const result = await searchWeb(query, apiKey, relaxed);
+    const result = await searchWeb(query, provider, relaxed);
     return {
       ...result,
       item_id: item.item_id,
@@ -254,7 +195,7 @@ async function searchOne(item: ItemSearchRequest, apiKey: string, relaxed = fals
 /** Search each item with stable identity and bounded parallelism. */
 export async function searchMealItems(
   items: ItemSearchRequest[],
-  apiKey: string,
+  provider: SearchProvider,
   options: MealSearchOptions = {},
 ): Promise<ItemSearchResult[]> {
   const maxItems = options.maxItems ?? runtimeNumber('PARSE_MAX_SEARCH_ITEMS', DEFAULT_MAX_ITEMS);
@@ -270,7 +211,7 @@ export async function searchMealItems(
     while (true) {
       const index = nextIndex++;
       if (index >= searchable.length) return;
-      results[index] = await searchOne(searchable[index], apiKey, options.relaxed);
+      results[index] = await searchOne(searchable[index], provider, options.relaxed);
     }
   };
   await Promise.all(
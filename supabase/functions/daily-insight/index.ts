@@ -0,0 +1,185 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { corsHeaders } from '../_shared/cors.ts';
+import { createLlmProvider, type LlmProvider } from '../_shared/llmProviders.ts';
+import {
+  buildDailyInsightFacts,
+  dailyInsightFactsKey,
+  generateDailyInsight,
+  llmInsightCompletion,
+  type DailyInsightEntry,
+  type DailyInsightGoals,
+  type WeeklySummaryRow,
+} from '../_shared/dailyInsight.ts';
+import {
+  GOAL_SELECT,
+  resolveGoalsForDate,
+  weekdayForDateKey,
+  type GoalHistory,
+  type GoalPlan,
+} from '../_shared/goalSchedule.ts';
+
+const DATE_KEY = /^\d{4}-\d{2}-\d{2}$/;
+
+interface DailyInsightResponse {
+  insight_date: string;
+  insight_text: string | null;
+  cached: boolean;
+}
+
+function getInsightLlm(): LlmProvider {
+  const env = (name: string) => Deno.env.get(name);
+  // A short summary line — the fast parse model is plenty. Override with
+  // NANOGPT_INSIGHT_MODEL, or LLM_INSIGHT for another provider.
+  const model =
+    Deno.env.get('NANOGPT_INSIGHT_MODEL') ??
+    Deno.env.get('NANOGPT_PARSE_MODEL') ??
+    'google/gemini-3.6-flash';
+  return createLlmProvider(Deno.env.get('LLM_INSIGHT') || `nanogpt:${model}`, env);
+}
+
+function jsonResponse(payload: unknown, status = 200) {
+  return new Response(JSON.stringify(payload), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return jsonResponse({ error: 'Missing authorization header' }, 401);
+    }
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      { global: { headers: { Authorization: authHeader } } },
+    );
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return jsonResponse({ error: 'Unauthorized' }, 401);
+    }
+
+    // The client sends its local day and the UTC bounds for it, the same
+    // bounds it uses to list that day's entries.
+    const body = await req.json() as { date?: string; dayStart?: string; dayEnd?: string };
+    const date = typeof body.date === 'string' && DATE_KEY.test(body.date) ? body.date : null;
+    if (!date || typeof body.dayStart !== 'string' || typeof body.dayEnd !== 'string') {
+      return jsonResponse({ error: 'date, dayStart and dayEnd are required' }, 400);
+    }
+
+    const [entriesRes, cachedRes] = await Promise.all([
+      supabase
+        .from('food_entries')
+        .select('food_name, calories, protein, carbs, fats, quantity')
+        .eq('user_id', user.id)
+        .gte('created_at', body.dayStart)
+        .lte('created_at', body.dayEnd)
+        // A stable order keeps the facts, and so their cache key, stable.
+        .order('id'),
+      supabase
+        .from('daily_insights')
+        .select('insight_text, facts_key')
+        .eq('user_id', user.id)
+        .eq('insight_date', date)
+        .maybeSingle(),
+    ]);
+    if (entriesRes.error) throw entriesRes.error;
+
+    const entries = (entriesRes.data ?? []) as DailyInsightEntry[];
+    if (!entries.length) {
+      return jsonResponse({ insight_date: date, insight_text: null, cached: false } satisfies DailyInsightResponse);
+    }
+
+    const [goalsRes, weekdayRes, overrideRes, baseHistoryRes, weekdayHistoryRes, weeklyRes] = await Promise.all([
+      supabase.from('user_goals').select(GOAL_SELECT).eq('user_id', user.id).maybeSingle(),
+      supabase
+        .from('goal_schedules')
+        .select(`weekday, ${GOAL_SELECT}`)
+        .eq('user_id', user.id)
+        .eq('weekday', weekdayForDateKey(date)),
+      supabase
+        .from('goal_overrides')
+        .select(`goal_date, ${GOAL_SELECT}`)
+        .eq('user_id', user.id)
+        .eq('goal_date', date),
+      supabase
+        .from('user_goal_history')
+        .select(`valid_from, ${GOAL_SELECT}`)
+        .eq('user_id', user.id)
+        .lte('valid_from', date),
+      supabase
+        .from('goal_schedule_history')
+        .select(`weekday, valid_from, ${GOAL_SELECT}`)
+        .eq('user_id', user.id)
+        .eq('weekday', weekdayForDateKey(date))
+        .lte('valid_from', date),
+      supabase.rpc('get_weekly_summary', { p_user_id: user.id, p_target_date: date }),
+    ]);
+
+    const goals: DailyInsightGoals | null = resolveGoalsForDate(
+      {
+        base: (goalsRes.data ?? null) as GoalPlan['base'],
+        weekdays: (weekdayRes.data ?? []) as GoalPlan['weekdays'],
+        overrides: (overrideRes.data ?? []) as GoalPlan['overrides'],
+        // An insight for a past day is written against that day's targets.
+        history: baseHistoryRes.error || weekdayHistoryRes.error
+          ? undefined
+          : {
+            base: (baseHistoryRes.data ?? []) as GoalHistory['base'],
+            weekdays: (weekdayHistoryRes.data ?? []) as GoalHistory['weekdays'],
+          },
+      },
+      date,
+    );
+
+    const facts = buildDailyInsightFacts(
+      date,
+      entries,
+      goals,
+      ((weeklyRes.data ?? [])[0] ?? null) as WeeklySummaryRow | null,
+    );
+    const factsKey = await dailyInsightFactsKey(facts);
+
+    const cached = cachedRes.data;
+    if (cached && cached.facts_key === factsKey) {
+      return jsonResponse({ insight_date: date, insight_text: cached.insight_text, cached: true } satisfies DailyInsightResponse);
+    }
+
+    let llm: LlmProvider;
+    try {
+      llm = getInsightLlm();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'No insight model is configured';
+      return jsonResponse({ error: message }, 503);
+    }
+
+    const insightText = await generateDailyInsight(facts, llmInsightCompletion(llm));
+
+    const { error: cacheError } = await supabase
+      .from('daily_insights')
+      .upsert(
+        {
+          user_id: user.id,
+          insight_date: date,
+          insight_text: insightText,
+          entry_count: entries.length,
+          facts_key: factsKey,
+          updated_at: new Date().toISOString(),
+        },
+        { onConflict: 'user_id,insight_date' },
+      );
+    if (cacheError) console.warn('[insight] cache write failed', cacheError.message);
+
+    return jsonResponse({ insight_date: date, insight_text: insightText, cached: false } satisfies DailyInsightResponse);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to build insight';
+    return jsonResponse({ error: message }, 500);
+  }
+});
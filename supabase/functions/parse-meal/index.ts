@@ -8,10 +8,21 @@ import {
 } from '../_shared/audioValidation.ts';
 import { ParseRejectionError, rejectionPayload } from '../_shared/parseRejection.ts';
 import { parseMealWithResearch, type ParseTimings } from '../_shared/mealParseFlow.ts';
+import { resolveLlmStages } from '../_shared/llmProviders.ts';
 import type { ParsePromptContext } from '../_shared/mealParsePrompt.ts';
+import {
+  NUTRITION_FACT_TTL_DAYS,
+  type CachedNutritionFact,
+  type NutritionFactCache,
+} from '../_shared/nutritionFactCache.ts';
+import { PARSE_REPLAY_TTL_DAYS, shouldCaptureParse, type ParseCapture } from '../_shared/parseReplay.ts';
+import { normalizeNutritionBasis } from '../_shared/savedFoodBasis.ts';
+import { normalizeSavedFoodRecipe } from '../_shared/savedFoodRecipe.ts';
 import {
   mapSttError,
+  resolveSttProvider,
   transcribeMealAudio,
+  type SttProvider,
   type SttTimings,
 } from '../_shared/stt/index.ts';
 
@@ -24,9 +35,11 @@ interface ParseMealResponse {
   parse_path?: 'fast' | 'research';
   research_available?: boolean;
   timings?: ParseTimings & Partial<SttTimings>;
+  /** Present when a replay bundle was stored for this parse (see createParseCapture). */
+  parse_id?: string;
 }
 
-type NanoGptConfig = ReturnType<typeof getNanoGptConfig>;
+type ParseMealConfig = ReturnType<typeof getParseMealConfig>;
 
 interface VoiceAudioInput {
   bytes: Uint8Array;
@@ -40,7 +53,7 @@ async function loadUserParseContext(
 ): Promise<ParsePromptContext> {
   const savedRes = await supabase
     .from('saved_foods')
-    .select('food_name, calories, protein, carbs, fats')
+    .select('food_name, calories, protein, carbs, fats, basis, serving_weight_g, serving_volume_ml, recipe')
     .eq('user_id', userId)
     .order('created_at', { ascending: false })
     .limit(12);
@@ -52,33 +65,116 @@ async function loadUserParseContext(
       protein: row.protein ?? 0,
       carbs: row.carbs ?? 0,
       fats: row.fats ?? 0,
+      basis: normalizeNutritionBasis(row.basis),
+      serving_weight_g: row.serving_weight_g ?? null,
+      serving_volume_ml: row.serving_volume_ml ?? null,
+      recipe: normalizeSavedFoodRecipe(row.recipe),
     })),
   };
 }
 
-function getNanoGptConfig() {
-  const apiKey = Deno.env.get('NANOGPT_API_KEY');
-  if (!apiKey) {
-    throw new Error('NANOGPT_API_KEY is not configured');
+function getParseMealConfig(userId: string) {
+  return {
+    // One provider per stage; see resolveLlmStages for the LLM_* and NANOGPT_*_MODEL vars.
+    llm: resolveLlmStages((name) => Deno.env.get(name)),
+    // STT_PROVIDER or NANOGPT_STT_MODEL; see resolveSttProvider. Text parses work without it.
+    stt: getSttProvider(),
+    capture: createParseCapture(userId),
+  };
+}
+
+function getSttProvider(): SttProvider | Error {
+  try {
+    return resolveSttProvider((name) => Deno.env.get(name));
+  } catch (error) {
+    return error instanceof Error ? error : new Error('No speech recognition provider is configured');
   }
+}
+
+/** Tables that span users (fact cache, replay bundles) go through the service role. */
+function createServiceClient() {
+  const serviceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+  if (!serviceKey) return null;
+  return createClient(Deno.env.get('SUPABASE_URL') ?? '', serviceKey, {
+    auth: { persistSession: false },
+  });
+}
+
+const serviceClient = createServiceClient();
+
+/**
+ * Stores a parse's model calls and searches in parse_replays so a bad parse can
+ * be replayed offline (npm run replay:parse), for the users and sample rate
+ * shouldCaptureParse allows. Bundles expire after PARSE_REPLAY_TTL_DAYS; each
+ * capture purges the expired ones.
+ */
+function createParseCapture(userId: string): ParseCapture | undefined {
+  const admin = serviceClient;
+  if (!admin || !shouldCaptureParse(userId, (name) => Deno.env.get(name))) return undefined;
+  const ttlDays = Number(Deno.env.get('PARSE_REPLAY_TTL_DAYS') ?? PARSE_REPLAY_TTL_DAYS);
+  const ttlMs = (Number.isFinite(ttlDays) && ttlDays > 0 ? ttlDays : PARSE_REPLAY_TTL_DAYS) * 24 * 60 * 60 * 1000;
+  return {
+    parseId: crypto.randomUUID(),
+    onBundle: async (bundle) => {
+      const { error } = await admin
+        .from('parse_replays')
+        .insert({
+          id: bundle.parse_id,
+          user_id: userId,
+          bundle,
+          expires_at: new Date(Date.now() + ttlMs).toISOString(),
+        });
+      if (error) throw error;
+      const { error: purgeError } = await admin.rpc('purge_parse_replays');
+      if (purgeError) console.warn('[replay] purge failed', purgeError.message);
+    },
+  };
+}
+
+const FACT_CACHE_COLUMNS =
+  'cache_key, food_name, preparation, basis, basis_amount, calories, protein, carbs, fats, serving_weight_g, serving_volume_ml, confidence, source_title, source_url, evidence_quote';
+
+/**
+ * nutrition_fact_cache is shared across users, so it goes through the service
+ * role rather than the caller's client. NUTRITION_CACHE_TTL_DAYS=0 turns it off.
+ */
+function createNutritionFactStore(): NutritionFactCache | undefined {
+  const ttlDays = Number(Deno.env.get('NUTRITION_CACHE_TTL_DAYS') ?? NUTRITION_FACT_TTL_DAYS);
+  const admin = serviceClient;
+  if (!admin || !Number.isFinite(ttlDays) || ttlDays <= 0) return undefined;
 
   return {
-    apiKey,
-    baseUrl: Deno.env.get('NANOGPT_BASE_URL') ?? 'https://nano-gpt.com/api/v1',
-    // gpt-4o-mini-transcribe: lower Done→transcript latency than Whisper-Large-V3 on NanoGPT;
-    // override with NANOGPT_STT_MODEL=Whisper-Large-V3 if needed.
-    sttModel: Deno.env.get('NANOGPT_STT_MODEL') ?? 'gpt-4o-mini-transcribe',
-    parseModel: Deno.env.get('NANOGPT_PARSE_MODEL') ?? 'google/gemini-3.6-flash',
-    // Reasoning model for interpretation — the "brain" that turns a transcript
-    // into structured items. Override with NANOGPT_INTERPRETATION_MODEL.
-    interpretationModel: Deno.env.get('NANOGPT_INTERPRETATION_MODEL') ?? 'openai/gpt-5.6-terra',
-    extractionModel:
-      Deno.env.get('NANOGPT_EXTRACTION_MODEL') ??
-      'google/gemini-3.5-flash-lite',
-    fallbackModel: Deno.env.get('NANOGPT_FALLBACK_MODEL') || undefined,
+    get: async (keys) => {
+      const { data, error } = await admin
+        .from('nutrition_fact_cache')
+        .select(FACT_CACHE_COLUMNS)
+        .in('cache_key', keys)
+        .gt('expires_at', new Date().toISOString());
+      if (error) throw error;
+      return new Map(
+        ((data ?? []) as CachedNutritionFact[]).map((row) => [row.cache_key, row]),
+      );
+    },
+    put: async (facts) => {
+      const verifiedAt = new Date();
+      const expiresAt = new Date(verifiedAt.getTime() + ttlDays * 24 * 60 * 60 * 1000);
+      const { error } = await admin
+        .from('nutrition_fact_cache')
+        .upsert(
+          facts.map((fact) => ({
+            ...fact,
+            verified_at: verifiedAt.toISOString(),
+            expires_at: expiresAt.toISOString(),
+          })),
+          { onConflict: 'cache_key' },
+        );
+      if (error) throw error;
+    },
   };
 }
 
+const nutritionFactStore = createNutritionFactStore();
+
 function decodeBase64Audio(audioBase64: string, mimeType: string): VoiceAudioInput {
   const bytes = Uint8Array.from(atob(audioBase64), (c) => c.charCodeAt(0));
   return {
@@ -115,9 +211,10 @@ async function resolveSttContext(
 
 async function runStt(
   audio: VoiceAudioInput,
-  config: NanoGptConfig,
+  config: ParseMealConfig,
   context: ParsePromptContext,
 ): Promise<{ transcript: string; timings: SttTimings }> {
+  if (config.stt instanceof Error) throw config.stt;
   const savedNames = (context.savedFoods ?? []).map((food) => food.food_name);
   const prompt = buildTranscriptionPrompt(savedNames);
 
@@ -131,13 +228,8 @@ async function runStt(
         },
         language: 'en',
         prompt,
-        model: config.sttModel,
-      },
-      {
-        apiKey: config.apiKey,
-        baseUrl: config.baseUrl,
-        model: config.sttModel,
       },
+      config.stt,
     );
 
     console.log('[stt] timing', {
@@ -156,7 +248,7 @@ async function runStt(
 
 async function parseMealText(
   mealText: string,
-  config: NanoGptConfig,
+  config: ParseMealConfig,
   context: ParsePromptContext,
   onProgress?: (stage: 'identifying' | 'looking_up' | 'estimating') => void,
 ): Promise<ParseMealResponse> {
@@ -164,16 +256,9 @@ async function parseMealText(
 
   const parsed = await parseMealWithResearch(
     trimmed,
-    {
-      apiKey: config.apiKey,
-      baseUrl: config.baseUrl,
-      model: config.parseModel,
-      interpretationModel: config.interpretationModel,
-      extractionModel: config.extractionModel,
-      fallbackModel: config.fallbackModel,
-    },
+    config.llm,
     context,
-    { onProgress },
+    { onProgress, factCache: nutritionFactStore, capture: config.capture },
   );
 
   return {
@@ -184,12 +269,13 @@ async function parseMealText(
     parse_path: parsed.parse_path,
     research_available: parsed.research_available,
     timings: parsed.timings,
+    parse_id: parsed.parse_id,
   };
 }
 
 async function parseVoiceMeal(
   audio: VoiceAudioInput,
-  config: NanoGptConfig,
+  config: ParseMealConfig,
   context: ParsePromptContext,
 ): Promise<{ result: ParseMealResponse; transcript: string }> {
   const { transcript, timings } = await runStt(audio, config, context);
@@ -217,7 +303,7 @@ interface StreamParseInput {
 
 function streamParse(
   input: StreamParseInput,
-  config: NanoGptConfig,
+  config: ParseMealConfig,
   contextPromise: Promise<ParsePromptContext>,
 ): Response {
   const encoder = new TextEncoder();
@@ -370,15 +456,18 @@ Deno.serve(async (req) => {
       return jsonResponse({ error: 'Unauthorized' }, 401);
     }
 
-    let config: NanoGptConfig;
+    let config: ParseMealConfig;
     try {
-      config = getNanoGptConfig();
+      config = getParseMealConfig(user.id);
     } catch (error) {
-      const message = error instanceof Error ? error.message : 'NanoGPT is not configured';
+      const message = error instanceof Error ? error.message : 'No parse model is configured';
       return jsonResponse({ error: message }, 503);
     }
 
     const { useStream, mealText, audio } = await readRequestBody(req);
+    if (audio && config.stt instanceof Error) {
+      return jsonResponse({ error: config.stt.message }, 503);
+    }
     // Kick off saved_foods fetch immediately; streaming voice must not await it first.
     const contextPromise = loadUserParseContext(supabase, user.id);
 
@@ -0,0 +1,15 @@
+-- Per-item provenance on food_entries. The review sheet already knows where each
+-- number came from (UK source, saved food, user adjustment) and what portion it
+-- assumed; keep that with the logged row so an entry can be traced back to its
+-- evidence and rescaled by weight rather than by a bare quantity multiplier.
+alter table public.food_entries
+  add column if not exists evidence_status text,
+  add column if not exists source_note text,
+  add column if not exists source_title text,
+  add column if not exists source_url text,
+  add column if not exists evidence_quote text,
+  add column if not exists portion_assumption text,
+  add column if not exists reference_weight_g numeric,
+  add column if not exists reference_volume_ml numeric,
+  add column if not exists unit text,
+  add column if not exists confidence text;
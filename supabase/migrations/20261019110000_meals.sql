@@ -0,0 +1,44 @@
+-- Meals: one row per logged parse, so its items can be shown, moved, duplicated
+-- and deleted together. Entries logged one at a time (saved foods, manual) keep
+-- a null meal_id and are grouped by time of day as before.
+create table if not exists public.meals (
+  id bigint generated always as identity primary key,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  meal_period text not null,
+  name text,
+  eaten_at timestamptz not null default now(),
+  transcript text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists meals_user_id_eaten_at_idx
+  on public.meals (user_id, eaten_at desc);
+
+alter table public.meals enable row level security;
+
+drop policy if exists "Users can read own meals" on public.meals;
+create policy "Users can read own meals"
+  on public.meals for select
+  using (auth.uid() = user_id);
+
+drop policy if exists "Users can insert own meals" on public.meals;
+create policy "Users can insert own meals"
+  on public.meals for insert
+  with check (auth.uid() = user_id);
+
+drop policy if exists "Users can update own meals" on public.meals;
+create policy "Users can update own meals"
+  on public.meals for update
+  using (auth.uid() = user_id);
+
+drop policy if exists "Users can delete own meals" on public.meals;
+create policy "Users can delete own meals"
+  on public.meals for delete
+  using (auth.uid() = user_id);
+
+-- Deleting a meal removes its entries with it.
+alter table public.food_entries
+  add column if not exists meal_id bigint references public.meals (id) on delete cascade;
+
+create index if not exists food_entries_meal_id_idx
+  on public.food_entries (meal_id);
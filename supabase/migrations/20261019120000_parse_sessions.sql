@@ -0,0 +1,42 @@
+-- Parse sessions: the transcript and parse metadata behind a logged meal. The
+-- review sheet used to drop these on close; keeping them lets a user reopen an
+-- entry, see what they said, and re-run the parser against the same words.
+create table if not exists public.parse_sessions (
+  id bigint generated always as identity primary key,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  transcript text not null,
+  notes text,
+  parse_path text,
+  searches_run integer,
+  research_used boolean not null default false,
+  timings jsonb,
+  -- Items exactly as the parser returned them, before any review edits.
+  items jsonb not null default '[]'::jsonb,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists parse_sessions_user_id_created_at_idx
+  on public.parse_sessions (user_id, created_at desc);
+
+alter table public.parse_sessions enable row level security;
+
+drop policy if exists "Users can read own parse sessions" on public.parse_sessions;
+create policy "Users can read own parse sessions"
+  on public.parse_sessions for select
+  using (auth.uid() = user_id);
+
+drop policy if exists "Users can insert own parse sessions" on public.parse_sessions;
+create policy "Users can insert own parse sessions"
+  on public.parse_sessions for insert
+  with check (auth.uid() = user_id);
+
+drop policy if exists "Users can delete own parse sessions" on public.parse_sessions;
+create policy "Users can delete own parse sessions"
+  on public.parse_sessions for delete
+  using (auth.uid() = user_id);
+
+alter table public.food_entries
+  add column if not exists parse_session_id bigint references public.parse_sessions (id) on delete set null;
+
+create index if not exists food_entries_parse_session_id_idx
+  on public.food_entries (parse_session_id);
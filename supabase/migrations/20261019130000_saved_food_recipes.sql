@@ -0,0 +1,10 @@
+-- Saved-food recipes: a saved food can be built from weighed ingredient lines
+-- with a cooked yield and a number of servings. calories/protein/carbs/fats
+-- stay the per-serving values (derived from the recipe on save) so every
+-- existing reader keeps working; the parser scales the recipe itself when the
+-- user states how many grams they ate.
+--
+-- Shape: { "ingredients": [{ "food_name", "grams", "calories", "protein",
+-- "carbs", "fats" }], "cooked_yield_g": number | null, "servings": number }
+alter table public.saved_foods
+  add column if not exists recipe jsonb;
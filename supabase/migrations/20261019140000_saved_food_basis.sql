@@ -0,0 +1,10 @@
+-- Saved-food nutrition basis: what calories/protein/carbs/fats are measured
+-- against (per_100g, per_100ml, per_item, per_serving — the parser's
+-- NutritionBasis) plus what one serving weighs. With a basis the parser can
+-- scale a saved food to "150g of ..." instead of skipping it and searching the
+-- web for a food the user already defined. Null basis keeps the old meaning:
+-- the macros are one opaque serving.
+alter table public.saved_foods
+  add column if not exists basis text,
+  add column if not exists serving_weight_g numeric,
+  add column if not exists serving_volume_ml numeric;
@@ -0,0 +1,13 @@
+-- Daily insights: the daily-insight edge function caches one generated line
+-- per user per day here. entry_count records how many entries the insight was
+-- written from, so logging more food that day regenerates it instead of
+-- serving a stale line; that regeneration needs an update policy.
+alter table public.daily_insights
+  add column if not exists entry_count integer not null default 0,
+  add column if not exists updated_at timestamptz not null default now();
+
+drop policy if exists "Users can update own insights" on public.daily_insights;
+create policy "Users can update own insights"
+  on public.daily_insights for update
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
@@ -0,0 +1,73 @@
+-- Goal schedules: user_goals stays the default target, but a user can now set
+-- different numbers for a weekday (training days, weekends) and one-off
+-- overrides for a single date (a wedding, a long run). The app resolves the
+-- target for a date as override, then weekday, then the default row.
+create table if not exists public.goal_schedules (
+  user_id uuid not null references auth.users (id) on delete cascade,
+  -- 0 = Sunday … 6 = Saturday, matching get_weekly_summary's Sunday-start weeks.
+  weekday smallint not null check (weekday between 0 and 6),
+  daily_calories_goal numeric not null,
+  daily_protein_goal numeric not null,
+  daily_carbs_goal numeric not null,
+  daily_fats_goal numeric not null,
+  updated_at timestamptz not null default now(),
+  primary key (user_id, weekday)
+);
+
+alter table public.goal_schedules enable row level security;
+
+drop policy if exists "Users can read own goal schedules" on public.goal_schedules;
+create policy "Users can read own goal schedules"
+  on public.goal_schedules for select
+  using (auth.uid() = user_id);
+
+drop policy if exists "Users can insert own goal schedules" on public.goal_schedules;
+create policy "Users can insert own goal schedules"
+  on public.goal_schedules for insert
+  with check (auth.uid() = user_id);
+
+drop policy if exists "Users can update own goal schedules" on public.goal_schedules;
+create policy "Users can update own goal schedules"
+  on public.goal_schedules for update
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+drop policy if exists "Users can delete own goal schedules" on public.goal_schedules;
+create policy "Users can delete own goal schedules"
+  on public.goal_schedules for delete
+  using (auth.uid() = user_id);
+
+create table if not exists public.goal_overrides (
+  user_id uuid not null references auth.users (id) on delete cascade,
+  -- Local calendar day in the user's timezone, like daily_insights.insight_date.
+  goal_date date not null,
+  daily_calories_goal numeric not null,
+  daily_protein_goal numeric not null,
+  daily_carbs_goal numeric not null,
+  daily_fats_goal numeric not null,
+  updated_at timestamptz not null default now(),
+  primary key (user_id, goal_date)
+);
+
+alter table public.goal_overrides enable row level security;
+
+drop policy if exists "Users can read own goal overrides" on public.goal_overrides;
+create policy "Users can read own goal overrides"
+  on public.goal_overrides for select
+  using (auth.uid() = user_id);
+
+drop policy if exists "Users can insert own goal overrides" on public.goal_overrides;
+create policy "Users can insert own goal overrides"
+  on public.goal_overrides for insert
+  with check (auth.uid() = user_id);
+
+drop policy if exists "Users can update own goal overrides" on public.goal_overrides;
+create policy "Users can update own goal overrides"
+  on public.goal_overrides for update
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+drop policy if exists "Users can delete own goal overrides" on public.goal_overrides;
+create policy "Users can delete own goal overrides"
+  on public.goal_overrides for delete
+  using (auth.uid() = user_id);
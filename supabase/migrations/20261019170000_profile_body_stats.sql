@@ -0,0 +1,11 @@
+-- Body stats: the goal calculator's inputs, kept on the profile so targets can
+-- be recalculated later without asking again. A birth year rather than an age
+-- stays right as the years pass. All optional — the calculator is opt-in.
+alter table public.profiles
+  add column if not exists sex text check (sex in ('female', 'male')),
+  add column if not exists birth_year smallint check (birth_year between 1900 and 2100),
+  add column if not exists height_cm numeric check (height_cm > 0),
+  add column if not exists weight_kg numeric check (weight_kg > 0),
+  add column if not exists activity_level text
+    check (activity_level in ('sedentary', 'light', 'moderate', 'active', 'very_active')),
+  add column if not exists goal_type text check (goal_type in ('cut', 'maintain', 'bulk'));
@@ -0,0 +1,35 @@
+-- Weight entries: body weight readings, the number most users are tracking
+-- macros to change. recorded_at is the moment of the weigh-in; the app places
+-- it on the user's local day the same way it does food entries.
+create table if not exists public.weight_entries (
+  id bigint generated always as identity primary key,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  weight_kg numeric not null check (weight_kg > 0 and weight_kg < 500),
+  recorded_at timestamptz not null default now(),
+  created_at timestamptz not null default now()
+);
+
+create index if not exists weight_entries_user_id_recorded_at_idx
+  on public.weight_entries (user_id, recorded_at desc);
+
+alter table public.weight_entries enable row level security;
+
+drop policy if exists "Users can read own weight entries" on public.weight_entries;
+create policy "Users can read own weight entries"
+  on public.weight_entries for select
+  using (auth.uid() = user_id);
+
+drop policy if exists "Users can insert own weight entries" on public.weight_entries;
+create policy "Users can insert own weight entries"
+  on public.weight_entries for insert
+  with check (auth.uid() = user_id);
+
+drop policy if exists "Users can update own weight entries" on public.weight_entries;
+create policy "Users can update own weight entries"
+  on public.weight_entries for update
+  using (auth.uid() = user_id);
+
+drop policy if exists "Users can delete own weight entries" on public.weight_entries;
+create policy "Users can delete own weight entries"
+  on public.weight_entries for delete
+  using (auth.uid() = user_id);
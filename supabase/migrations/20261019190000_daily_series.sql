@@ -0,0 +1,91 @@
+-- Daily series: per-day totals for a date range in the user's timezone, one
+-- row per calendar day including days with nothing logged, so the Weekly and
+-- Monthly tabs can draw a bar for every day. Each row also carries the goal in
+-- force that day — a date override, else that weekday's schedule, else the
+-- user_goals default — the same precedence as goalSchedule.ts.
+create or replace function public.get_daily_series(
+  p_user_id uuid,
+  p_start date,
+  p_end date
+)
+returns table (
+  day date,
+  total_calories numeric,
+  total_protein numeric,
+  total_carbs numeric,
+  total_fats numeric,
+  entry_count bigint,
+  goal_calories numeric,
+  goal_protein numeric,
+  goal_carbs numeric,
+  goal_fats numeric
+)
+language plpgsql
+stable
+security invoker
+set search_path = public
+as $$
+declare
+  v_tz text;
+  v_range_start timestamptz;
+  v_range_end timestamptz;
+begin
+  if auth.uid() is distinct from p_user_id then
+    raise exception 'not authorized';
+  end if;
+
+  if p_end < p_start then
+    raise exception 'p_end must not be before p_start';
+  end if;
+
+  if p_end - p_start > 366 then
+    raise exception 'date range is limited to 367 days';
+  end if;
+
+  v_tz := public.get_user_timezone(p_user_id);
+  v_range_start := p_start::timestamp at time zone v_tz;
+  v_range_end := (p_end::timestamp + time '23:59:59.999') at time zone v_tz;
+
+  return query
+  with days as (
+    select d::date as day
+    from generate_series(p_start, p_end, interval '1 day') as d
+  ),
+  totals as (
+    select
+      (f.created_at at time zone v_tz)::date as day,
+      sum(f.calories * coalesce(f.quantity, 1)) as calories,
+      sum(f.protein * coalesce(f.quantity, 1)) as protein,
+      sum(f.carbs * coalesce(f.quantity, 1)) as carbs,
+      sum(f.fats * coalesce(f.quantity, 1)) as fats,
+      count(*) as entries
+    from public.food_entries f
+    where f.user_id = p_user_id
+      and f.created_at >= v_range_start
+      and f.created_at <= v_range_end
+    group by 1
+  )
+  select
+    days.day,
+    coalesce(t.calories, 0)::numeric as total_calories,
+    coalesce(t.protein, 0)::numeric as total_protein,
+    coalesce(t.carbs, 0)::numeric as total_carbs,
+    coalesce(t.fats, 0)::numeric as total_fats,
+    coalesce(t.entries, 0)::bigint as entry_count,
+    coalesce(o.daily_calories_goal, s.daily_calories_goal, g.daily_calories_goal) as goal_calories,
+    coalesce(o.daily_protein_goal, s.daily_protein_goal, g.daily_protein_goal) as goal_protein,
+    coalesce(o.daily_carbs_goal, s.daily_carbs_goal, g.daily_carbs_goal) as goal_carbs,
+    coalesce(o.daily_fats_goal, s.daily_fats_goal, g.daily_fats_goal) as goal_fats
+  from days
+  left join totals t on t.day = days.day
+  left join public.goal_overrides o
+    on o.user_id = p_user_id and o.goal_date = days.day
+  left join public.goal_schedules s
+    on s.user_id = p_user_id and s.weekday = extract(dow from days.day)::smallint
+  left join public.user_goals g
+    on g.user_id = p_user_id
+  order by days.day;
+end;
+$$;
+
+grant execute on function public.get_daily_series(uuid, date, date) to authenticated;
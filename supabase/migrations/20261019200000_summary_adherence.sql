@@ -0,0 +1,196 @@
+-- Summary adherence: the weekly and monthly summaries summed every entry and
+-- left the tabs to divide, so a week with three logged days read like
+-- undereating. Both now come from get_range_summary, which builds on
+-- get_daily_series and adds per-logged-day averages, goal adherence (judged
+-- against the goal in force on each day) and the macro split by calories.
+-- Return types change, so the old functions are dropped first.
+drop function if exists public.get_weekly_summary(uuid, date);
+drop function if exists public.get_monthly_summary(uuid, integer, integer);
+drop function if exists public.get_range_summary(uuid, date, date);
+
+create function public.get_range_summary(
+  p_user_id uuid,
+  p_start date,
+  p_end date
+)
+returns table (
+  total_calories numeric,
+  total_protein numeric,
+  total_carbs numeric,
+  total_fats numeric,
+  entry_count bigint,
+  days_logged bigint,
+  avg_calories numeric,
+  avg_protein numeric,
+  avg_carbs numeric,
+  avg_fats numeric,
+  -- Logged days that had a goal; the denominator for the two counts below.
+  goal_days bigint,
+  -- Logged days within ±10% of that day's calorie goal.
+  calorie_goal_days bigint,
+  -- Logged days at or over that day's protein goal.
+  protein_goal_days bigint,
+  protein_pct numeric,
+  carbs_pct numeric,
+  fats_pct numeric
+)
+language plpgsql
+stable
+security invoker
+set search_path = public
+as $$
+begin
+  return query
+  with logged as (
+    select s.*
+    from public.get_daily_series(p_user_id, p_start, p_end) s
+    where s.entry_count > 0
+  ),
+  sums as (
+    select
+      coalesce(sum(l.total_calories), 0)::numeric as calories,
+      coalesce(sum(l.total_protein), 0)::numeric as protein,
+      coalesce(sum(l.total_carbs), 0)::numeric as carbs,
+      coalesce(sum(l.total_fats), 0)::numeric as fats,
+      coalesce(sum(l.entry_count), 0)::bigint as entries,
+      count(*)::bigint as days,
+      count(*) filter (where l.goal_calories is not null)::bigint as with_goal,
+      count(*) filter (
+        where l.goal_calories > 0
+          and abs(l.total_calories - l.goal_calories) <= l.goal_calories * 0.1
+      )::bigint as calorie_hits,
+      count(*) filter (
+        where l.goal_protein is not null and l.total_protein >= l.goal_protein
+      )::bigint as protein_hits
+    from logged l
+  )
+  select
+    sums.calories,
+    sums.protein,
+    sums.carbs,
+    sums.fats,
+    sums.entries,
+    sums.days,
+    case when sums.days > 0 then round(sums.calories / sums.days, 1) else 0 end,
+    case when sums.days > 0 then round(sums.protein / sums.days, 1) else 0 end,
+    case when sums.days > 0 then round(sums.carbs / sums.days, 1) else 0 end,
+    case when sums.days > 0 then round(sums.fats / sums.days, 1) else 0 end,
+    sums.with_goal,
+    sums.calorie_hits,
+    sums.protein_hits,
+    case when macro.kcal > 0 then round(sums.protein * 4 * 100 / macro.kcal, 1) else 0 end,
+    case when macro.kcal > 0 then round(sums.carbs * 4 * 100 / macro.kcal, 1) else 0 end,
+    case when macro.kcal > 0 then round(sums.fats * 9 * 100 / macro.kcal, 1) else 0 end
+  from sums
+  cross join lateral (
+    select sums.protein * 4 + sums.carbs * 4 + sums.fats * 9 as kcal
+  ) macro;
+end;
+$$;
+
+-- ---------------------------------------------------------------------------
+-- Weekly summary (Sunday-start week in the user's timezone)
+-- ---------------------------------------------------------------------------
+create function public.get_weekly_summary(
+  p_user_id uuid,
+  p_target_date date
+)
+returns table (
+  total_calories numeric,
+  total_protein numeric,
+  total_carbs numeric,
+  total_fats numeric,
+  entry_count bigint,
+  days_logged bigint,
+  avg_calories numeric,
+  avg_protein numeric,
+  avg_carbs numeric,
+  avg_fats numeric,
+  goal_days bigint,
+  calorie_goal_days bigint,
+  protein_goal_days bigint,
+  protein_pct numeric,
+  carbs_pct numeric,
+  fats_pct numeric,
+  week_start_display text,
+  week_end_display text
+)
+language plpgsql
+stable
+security invoker
+set search_path = public
+as $$
+declare
+  v_week_start date;
+  v_week_end date;
+begin
+  if auth.uid() is distinct from p_user_id then
+    raise exception 'not authorized';
+  end if;
+
+  v_week_start := p_target_date - extract(dow from p_target_date)::int;
+  v_week_end := v_week_start + 6;
+
+  return query
+  select
+    r.*,
+    to_char(v_week_start, 'YYYY-MM-DD'),
+    to_char(v_week_end, 'YYYY-MM-DD')
+  from public.get_range_summary(p_user_id, v_week_start, v_week_end) r;
+end;
+$$;
+
+-- ---------------------------------------------------------------------------
+-- Monthly summary (calendar month in the user's timezone)
+-- ---------------------------------------------------------------------------
+create function public.get_monthly_summary(
+  p_user_id uuid,
+  p_year integer,
+  p_month integer
+)
+returns table (
+  total_calories numeric,
+  total_protein numeric,
+  total_carbs numeric,
+  total_fats numeric,
+  entry_count bigint,
+  days_logged bigint,
+  avg_calories numeric,
+  avg_protein numeric,
+  avg_carbs numeric,
+  avg_fats numeric,
+  goal_days bigint,
+  calorie_goal_days bigint,
+  protein_goal_days bigint,
+  protein_pct numeric,
+  carbs_pct numeric,
+  fats_pct numeric,
+  month_display text
+)
+language plpgsql
+stable
+security invoker
+set search_path = public
+as $$
+declare
+  v_month_start date;
+  v_month_end date;
+begin
+  if auth.uid() is distinct from p_user_id then
+    raise exception 'not authorized';
+  end if;
+
+  v_month_start := make_date(p_year, p_month, 1);
+  v_month_end := (v_month_start + interval '1 month - 1 day')::date;
+
+  return query
+  select
+    r.*,
+    to_char(v_month_start, 'FMMonth YYYY')
+  from public.get_range_summary(p_user_id, v_month_start, v_month_end) r;
+end;
+$$;
+
+grant execute on function public.get_range_summary(uuid, date, date) to authenticated;
+grant execute on function public.get_weekly_summary(uuid, date) to authenticated;
+grant execute on function public.get_monthly_summary(uuid, integer, integer) to authenticated;
@@ -0,0 +1,66 @@
+-- Week start: get_weekly_summary assumed Sunday-start weeks, which reads oddly
+-- to UK users who think of the week as Monday–Sunday. The first day of the
+-- week is now a profile preference, using the same numbering as
+-- extract(dow ...) and goal_schedules.weekday (0 = Sunday, 1 = Monday).
+alter table public.profiles
+  add column if not exists week_start smallint not null default 0 check (week_start between 0 and 6);
+
+-- ---------------------------------------------------------------------------
+-- Weekly summary (week in the user's timezone, starting on their week_start)
+-- ---------------------------------------------------------------------------
+create or replace function public.get_weekly_summary(
+  p_user_id uuid,
+  p_target_date date
+)
+returns table (
+  total_calories numeric,
+  total_protein numeric,
+  total_carbs numeric,
+  total_fats numeric,
+  entry_count bigint,
+  days_logged bigint,
+  avg_calories numeric,
+  avg_protein numeric,
+  avg_carbs numeric,
+  avg_fats numeric,
+  goal_days bigint,
+  calorie_goal_days bigint,
+  protein_goal_days bigint,
+  protein_pct numeric,
+  carbs_pct numeric,
+  fats_pct numeric,
+  week_start_display text,
+  week_end_display text
+)
+language plpgsql
+stable
+security invoker
+set search_path = public
+as $$
+declare
+  v_first_day integer;
+  v_week_start date;
+  v_week_end date;
+begin
+  if auth.uid() is distinct from p_user_id then
+    raise exception 'not authorized';
+  end if;
+
+  select coalesce(p.week_start, 0) into v_first_day
+  from public.profiles p
+  where p.id = p_user_id;
+
+  v_first_day := coalesce(v_first_day, 0);
+  v_week_start := p_target_date - ((extract(dow from p_target_date)::int - v_first_day + 7) % 7);
+  v_week_end := v_week_start + 6;
+
+  return query
+  select
+    r.*,
+    to_char(v_week_start, 'YYYY-MM-DD'),
+    to_char(v_week_end, 'YYYY-MM-DD')
+  from public.get_range_summary(p_user_id, v_week_start, v_week_end) r;
+end;
+$$;
+
+grant execute on function public.get_weekly_summary(uuid, date) to authenticated;
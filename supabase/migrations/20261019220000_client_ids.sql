@@ -0,0 +1,18 @@
+-- Client IDs: entries logged offline wait in an on-device outbox and are sent
+-- when the connection returns. A send can succeed on the server and still look
+-- failed to the phone (the response is lost), so the outbox retries — and each
+-- row carries an ID made on the device, unique per user, so a retry inserts
+-- nothing the second time. Rows logged before this, or online, may leave it null.
+alter table public.meals
+  add column if not exists client_id uuid;
+
+alter table public.food_entries
+  add column if not exists client_id uuid;
+
+-- Plain unique indexes rather than partial ones, so inserts can name them in
+-- `on conflict (user_id, client_id)`. Nulls never collide.
+create unique index if not exists meals_user_id_client_id_key
+  on public.meals (user_id, client_id);
+
+create unique index if not exists food_entries_user_id_client_id_key
+  on public.food_entries (user_id, client_id);
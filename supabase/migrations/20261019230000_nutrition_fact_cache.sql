@@ -0,0 +1,66 @@
+-- Nutrition fact cache: evidence facts that passed validation (the quote is
+-- verbatim source text and supports every number), shared across users and
+-- keyed by normalised food name and preparation. parse-meal checks it before
+-- searching, so repeat staples skip both Serper and the extraction model.
+--
+-- Unlike the per-user food_nutrition_cache that was dropped, rows hold the
+-- source's own basis, URL and quote rather than derived per-100g numbers, so a
+-- cached fact is scaled to each item exactly as a fresh one would be. Only the
+-- edge function's service role touches the table; RLS is on with no policies.
+create table if not exists public.nutrition_fact_cache (
+  cache_key text primary key,
+  food_name text not null,
+  preparation text not null default '',
+  basis text not null check (basis in ('per_100g', 'per_100ml', 'per_item', 'per_serving')),
+  basis_amount numeric not null check (basis_amount > 0),
+  calories numeric not null check (calories >= 0),
+  protein numeric,
+  carbs numeric,
+  fats numeric,
+  serving_weight_g numeric,
+  serving_volume_ml numeric,
+  confidence text not null check (confidence in ('high', 'medium', 'low')),
+  source_title text not null,
+  source_url text not null,
+  evidence_quote text not null,
+  verified_at timestamptz not null default now(),
+  expires_at timestamptz not null
+);
+
+create index if not exists nutrition_fact_cache_expires_at_idx
+  on public.nutrition_fact_cache (expires_at);
+
+alter table public.nutrition_fact_cache enable row level security;
+
+-- Admin invalidation, for a bad source or a recipe change. With a food name
+-- (normalised like cache keys), removes every preparation of it; with a URL,
+-- every fact quoted from that page; with neither, just the expired rows.
+-- Returns how many were removed.
+--   select public.invalidate_nutrition_facts('tesco chicken tikka masala');
+--   select public.invalidate_nutrition_facts(p_source_url => 'https://…');
+create or replace function public.invalidate_nutrition_facts(
+  p_food_name text default null,
+  p_source_url text default null
+)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  removed integer;
+begin
+  if p_food_name is null and p_source_url is null then
+    delete from public.nutrition_fact_cache where expires_at <= now();
+  else
+    delete from public.nutrition_fact_cache
+    where (p_food_name is not null and food_name = trim(regexp_replace(replace(lower(p_food_name), '&', ' and '), '[^a-z0-9]+', ' ', 'g')))
+       or (p_source_url is not null and source_url = p_source_url);
+  end if;
+  get diagnostics removed = row_count;
+  return removed;
+end;
+$$;
+
+revoke execute on function public.invalidate_nutrition_facts(text, text) from public, anon, authenticated;
+grant execute on function public.invalidate_nutrition_facts(text, text) to service_role;
@@ -0,0 +1,18 @@
+-- Parse replay bundles: with PARSE_REPLAY_CAPTURE=1, parse-meal stores every
+-- model request and reply, search query and result, and fact-cache hit of a
+-- parse here, keyed by the parse_id it returns. `npm run replay:parse` reruns
+-- a bundle through current code with no network.
+--
+-- Bundles hold the meal text and the user's saved foods, so only the service
+-- role reads or writes them (RLS on, no policies) and they go with the user.
+create table if not exists public.parse_replays (
+  id uuid primary key,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  bundle jsonb not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists parse_replays_user_created_idx
+  on public.parse_replays (user_id, created_at desc);
+
+alter table public.parse_replays enable row level security;
@@ -0,0 +1,49 @@
+-- Move meal: moving a meal rewrote meals.eaten_at and its entries' created_at
+-- in two client requests, so a failure in between left the entries on the old
+-- day, and the new time came from the browser's clock rather than the profile
+-- timezone. Both rows now move in one call, keeping the wall-clock time the
+-- meal was eaten in the user's timezone.
+create or replace function public.move_meal(
+  p_meal_id bigint,
+  p_target_date date
+)
+returns timestamptz
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  v_user_id uuid := auth.uid();
+  v_tz text;
+  v_eaten_at timestamptz;
+begin
+  if v_user_id is null then
+    raise exception 'not authorized';
+  end if;
+
+  select m.eaten_at into v_eaten_at
+  from public.meals m
+  where m.id = p_meal_id
+    and m.user_id = v_user_id
+  for update;
+
+  if not found then
+    raise exception 'meal % not found', p_meal_id;
+  end if;
+
+  v_tz := public.get_user_timezone(v_user_id);
+  v_eaten_at := (p_target_date + (v_eaten_at at time zone v_tz)::time) at time zone v_tz;
+
+  update public.meals
+  set eaten_at = v_eaten_at
+  where id = p_meal_id
+    and user_id = v_user_id;
+
+  update public.food_entries
+  set created_at = v_eaten_at
+  where meal_id = p_meal_id
+    and user_id = v_user_id;
+
+  return v_eaten_at;
+end;
+$$;
@@ -0,0 +1,6 @@
+-- Daily insight cache key: entry_count alone missed edits that keep the count
+-- (a corrected portion, a deleted-and-relogged item, a changed goal), so a
+-- stale line was served. facts_key is a hash of the facts the insight was
+-- written from; the edge function regenerates whenever it differs.
+alter table public.daily_insights
+  add column if not exists facts_key text;
@@ -0,0 +1,259 @@
+-- Goal history: get_daily_series joined the current user_goals and
+-- goal_schedules rows, so changing a goal rewrote the target, and with it the
+-- adherence, of every past day. Each change is now kept with the local date
+-- it took effect, and a day resolves against the row valid on that date.
+-- Overrides already belong to a single date and need no history.
+create table if not exists public.user_goal_history (
+  user_id uuid not null references auth.users (id) on delete cascade,
+  -- Local calendar day in the user's timezone the targets apply from.
+  valid_from date not null,
+  daily_calories_goal numeric not null,
+  daily_protein_goal numeric not null,
+  daily_carbs_goal numeric not null,
+  daily_fats_goal numeric not null,
+  primary key (user_id, valid_from)
+);
+
+create table if not exists public.goal_schedule_history (
+  user_id uuid not null references auth.users (id) on delete cascade,
+  weekday smallint not null check (weekday between 0 and 6),
+  valid_from date not null,
+  -- All null when the weekday's schedule was removed from this date on.
+  daily_calories_goal numeric,
+  daily_protein_goal numeric,
+  daily_carbs_goal numeric,
+  daily_fats_goal numeric,
+  primary key (user_id, weekday, valid_from)
+);
+
+alter table public.user_goal_history enable row level security;
+alter table public.goal_schedule_history enable row level security;
+
+-- Written only by the triggers below.
+drop policy if exists "Users can read own goal history" on public.user_goal_history;
+create policy "Users can read own goal history"
+  on public.user_goal_history for select
+  using (auth.uid() = user_id);
+
+drop policy if exists "Users can read own goal schedule history" on public.goal_schedule_history;
+create policy "Users can read own goal schedule history"
+  on public.goal_schedule_history for select
+  using (auth.uid() = user_id);
+
+-- What users already have counts as always in force; we can't know better.
+insert into public.user_goal_history (
+  user_id, valid_from, daily_calories_goal, daily_protein_goal, daily_carbs_goal, daily_fats_goal
+)
+select user_id, date '1970-01-01', daily_calories_goal, daily_protein_goal, daily_carbs_goal, daily_fats_goal
+from public.user_goals
+on conflict do nothing;
+
+insert into public.goal_schedule_history (
+  user_id, weekday, valid_from, daily_calories_goal, daily_protein_goal, daily_carbs_goal, daily_fats_goal
+)
+select user_id, weekday, date '1970-01-01', daily_calories_goal, daily_protein_goal, daily_carbs_goal, daily_fats_goal
+from public.goal_schedules
+on conflict do nothing;
+
+-- A change takes effect from today in the user's timezone; several changes on
+-- one day keep the last. A user's first goals cover every earlier day too, so
+-- food logged or imported before onboarding still has a target.
+create or replace function public.record_user_goal_history()
+returns trigger
+language plpgsql
+security definer set search_path = public
+as $$
+declare
+  v_valid_from date;
+begin
+  if tg_op = 'UPDATE'
+    and (old.daily_calories_goal, old.daily_protein_goal, old.daily_carbs_goal, old.daily_fats_goal)
+      is not distinct from (new.daily_calories_goal, new.daily_protein_goal, new.daily_carbs_goal, new.daily_fats_goal)
+  then
+    return new;
+  end if;
+
+  if exists (select 1 from public.user_goal_history h where h.user_id = new.user_id) then
+    v_valid_from := (now() at time zone public.get_user_timezone(new.user_id))::date;
+  else
+    v_valid_from := date '1970-01-01';
+  end if;
+
+  insert into public.user_goal_history (
+    user_id, valid_from, daily_calories_goal, daily_protein_goal, daily_carbs_goal, daily_fats_goal
+  )
+  values (
+    new.user_id, v_valid_from, new.daily_calories_goal, new.daily_protein_goal, new.daily_carbs_goal, new.daily_fats_goal
+  )
+  on conflict (user_id, valid_from) do update
+  set daily_calories_goal = excluded.daily_calories_goal,
+      daily_protein_goal = excluded.daily_protein_goal,
+      daily_carbs_goal = excluded.daily_carbs_goal,
+      daily_fats_goal = excluded.daily_fats_goal;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists on_user_goals_changed on public.user_goals;
+create trigger on_user_goals_changed
+  after insert or update on public.user_goals
+  for each row execute function public.record_user_goal_history();
+
+create or replace function public.record_goal_schedule_history()
+returns trigger
+language plpgsql
+security definer set search_path = public
+as $$
+declare
+  v_row public.goal_schedules%rowtype;
+begin
+  if tg_op = 'DELETE' then
+    -- Rows removed because the account is being deleted need no history.
+    if not exists (select 1 from auth.users u where u.id = old.user_id) then
+      return old;
+    end if;
+    v_row := old;
+    v_row.daily_calories_goal := null;
+    v_row.daily_protein_goal := null;
+    v_row.daily_carbs_goal := null;
+    v_row.daily_fats_goal := null;
+  else
+    if tg_op = 'UPDATE'
+      and (old.daily_calories_goal, old.daily_protein_goal, old.daily_carbs_goal, old.daily_fats_goal)
+        is not distinct from (new.daily_calories_goal, new.daily_protein_goal, new.daily_carbs_goal, new.daily_fats_goal)
+    then
+      return new;
+    end if;
+    v_row := new;
+  end if;
+
+  insert into public.goal_schedule_history (
+    user_id, weekday, valid_from, daily_calories_goal, daily_protein_goal, daily_carbs_goal, daily_fats_goal
+  )
+  values (
+    v_row.user_id,
+    v_row.weekday,
+    (now() at time zone public.get_user_timezone(v_row.user_id))::date,
+    v_row.daily_calories_goal,
+    v_row.daily_protein_goal,
+    v_row.daily_carbs_goal,
+    v_row.daily_fats_goal
+  )
+  on conflict (user_id, weekday, valid_from) do update
+  set daily_calories_goal = excluded.daily_calories_goal,
+      daily_protein_goal = excluded.daily_protein_goal,
+      daily_carbs_goal = excluded.daily_carbs_goal,
+      daily_fats_goal = excluded.daily_fats_goal;
+
+  return coalesce(new, old);
+end;
+$$;
+
+drop trigger if exists on_goal_schedules_changed on public.goal_schedules;
+create trigger on_goal_schedules_changed
+  after insert or update or delete on public.goal_schedules
+  for each row execute function public.record_goal_schedule_history();
+
+-- ---------------------------------------------------------------------------
+-- Daily series, with each day's goal taken from the history valid that day
+-- ---------------------------------------------------------------------------
+create or replace function public.get_daily_series(
+  p_user_id uuid,
+  p_start date,
+  p_end date
+)
+returns table (
+  day date,
+  total_calories numeric,
+  total_protein numeric,
+  total_carbs numeric,
+  total_fats numeric,
+  entry_count bigint,
+  goal_calories numeric,
+  goal_protein numeric,
+  goal_carbs numeric,
+  goal_fats numeric
+)
+language plpgsql
+stable
+security invoker
+set search_path = public
+as $$
+declare
+  v_tz text;
+  v_range_start timestamptz;
+  v_range_end timestamptz;
+begin
+  if auth.uid() is distinct from p_user_id then
+    raise exception 'not authorized';
+  end if;
+
+  if p_end < p_start then
+    raise exception 'p_end must not be before p_start';
+  end if;
+
+  if p_end - p_start > 366 then
+    raise exception 'date range is limited to 367 days';
+  end if;
+
+  v_tz := public.get_user_timezone(p_user_id);
+  v_range_start := p_start::timestamp at time zone v_tz;
+  v_range_end := (p_end::timestamp + time '23:59:59.999') at time zone v_tz;
+
+  return query
+  with days as (
+    select d::date as day
+    from generate_series(p_start, p_end, interval '1 day') as d
+  ),
+  totals as (
+    select
+      (f.created_at at time zone v_tz)::date as day,
+      sum(f.calories * coalesce(f.quantity, 1)) as calories,
+      sum(f.protein * coalesce(f.quantity, 1)) as protein,
+      sum(f.carbs * coalesce(f.quantity, 1)) as carbs,
+      sum(f.fats * coalesce(f.quantity, 1)) as fats,
+      count(*) as entries
+    from public.food_entries f
+    where f.user_id = p_user_id
+      and f.created_at >= v_range_start
+      and f.created_at <= v_range_end
+    group by 1
+  )
+  select
+    days.day,
+    coalesce(t.calories, 0)::numeric as total_calories,
+    coalesce(t.protein, 0)::numeric as total_protein,
+    coalesce(t.carbs, 0)::numeric as total_carbs,
+    coalesce(t.fats, 0)::numeric as total_fats,
+    coalesce(t.entries, 0)::bigint as entry_count,
+    coalesce(o.daily_calories_goal, s.daily_calories_goal, g.daily_calories_goal) as goal_calories,
+    coalesce(o.daily_protein_goal, s.daily_protein_goal, g.daily_protein_goal) as goal_protein,
+    coalesce(o.daily_carbs_goal, s.daily_carbs_goal, g.daily_carbs_goal) as goal_carbs,
+    coalesce(o.daily_fats_goal, s.daily_fats_goal, g.daily_fats_goal) as goal_fats
+  from days
+  left join totals t on t.day = days.day
+  left join public.goal_overrides o
+    on o.user_id = p_user_id and o.goal_date = days.day
+  left join lateral (
+    select h.*
+    from public.goal_schedule_history h
+    where h.user_id = p_user_id
+      and h.weekday = extract(dow from days.day)::smallint
+      and h.valid_from <= days.day
+    order by h.valid_from desc
+    limit 1
+  ) s on true
+  left join lateral (
+    select h.*
+    from public.user_goal_history h
+    where h.user_id = p_user_id
+      and h.valid_from <= days.day
+    order by h.valid_from desc
+    limit 1
+  ) g on true
+  order by days.day;
+end;
+$$;
+
+grant execute on function public.get_daily_series(uuid, date, date) to authenticated;
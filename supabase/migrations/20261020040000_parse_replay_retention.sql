@@ -0,0 +1,31 @@
+-- Parse replay retention: bundles hold meal text and saved foods, and were
+-- kept until the user deleted their account. Each now carries an expires_at
+-- (PARSE_REPLAY_TTL_DAYS on parse-meal, 14 days by default) and parse-meal
+-- calls purge_parse_replays after every capture. Capture itself is limited to
+-- PARSE_REPLAY_USERS and PARSE_REPLAY_SAMPLE_RATE rather than every parse.
+alter table public.parse_replays
+  add column if not exists expires_at timestamptz not null default now() + interval '14 days';
+
+create index if not exists parse_replays_expires_at_idx
+  on public.parse_replays (expires_at);
+
+-- Removes expired bundles and returns how many went. Service role only, like
+-- invalidate_nutrition_facts.
+--   select public.purge_parse_replays();
+create or replace function public.purge_parse_replays()
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  removed integer;
+begin
+  delete from public.parse_replays where expires_at <= now();
+  get diagnostics removed = row_count;
+  return removed;
+end;
+$$;
+
+revoke execute on function public.purge_parse_replays() from public, anon, authenticated;
+grant execute on function public.purge_parse_replays() to service_role;